@@ -2,53 +2,49 @@
  * Hono Application - API Routes and Middleware
  */
 
+import {
+  type ActorExtractor,
+  type AuditActor,
+  type AuditHttpRequest,
+  createHonoAuditMiddleware,
+} from '@kuruwic/prisma-audit';
 import { Hono } from 'hono';
-import { type AuditContext, auditProvider, type Prisma, prisma } from './prisma.js';
+import { auditProvider, type Prisma, prisma } from './prisma.js';
+
+/** Actor sent by the web client in `X-Actor-*` headers */
+const actorFromHeaders: ActorExtractor = (request) => {
+  const id = request.header('X-Actor-Id');
+  return id
+    ? { category: 'model', type: request.header('X-Actor-Type') || 'User', id, name: request.header('X-Actor-Name') }
+    : undefined;
+};
+
+/** Anonymous actor with a daily-rotating hash of the client address */
+const hashedAnonymousActor = (request: AuditHttpRequest): AuditActor => {
+  const ipAddress = request.header('X-Forwarded-For') || request.header('X-Real-IP') || 'unknown';
+  const date = new Date().toISOString().split('T')[0];
+  let hash = 0;
+  for (let i = 0; i < ipAddress.length; i++) {
+    const char = ipAddress.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash;
+  }
+  const hashStr = Math.abs(hash).toString(36).substring(0, 8);
+  return { category: 'anonymous', type: 'Anonymous', id: `anon:${date}:${hashStr}` };
+};
 
 export const createApp = () => {
   const app = new Hono();
 
-  app.use('*', async (c, next) => {
-    const actorId = c.req.header('X-Actor-Id');
-    const actorType = c.req.header('X-Actor-Type');
-    const actorName = c.req.header('X-Actor-Name');
-
-    const generateAnonymousActorId = (): string => {
-      const ipAddress = c.req.header('X-Forwarded-For') || c.req.header('X-Real-IP') || 'unknown';
-      const date = new Date().toISOString().split('T')[0];
-      let hash = 0;
-      for (let i = 0; i < ipAddress.length; i++) {
-        const char = ipAddress.charCodeAt(i);
-        hash = (hash << 5) - hash + char;
-        hash = hash & hash;
-      }
-      const hashStr = Math.abs(hash).toString(36).substring(0, 8);
-      return `anon:${date}:${hashStr}`;
-    };
-
-    const auditContext: AuditContext = {
-      actor: actorId
-        ? {
-            category: 'model',
-            type: actorType || 'User',
-            id: actorId,
-            name: actorName,
-          }
-        : {
-            category: 'anonymous',
-            type: 'Anonymous',
-            id: generateAnonymousActorId(),
-          },
-      request: {
-        ipAddress: c.req.header('X-Forwarded-For') || c.req.header('X-Real-IP') || 'unknown',
-        userAgent: c.req.header('User-Agent') || 'unknown',
-        path: c.req.path,
-        method: c.req.method,
-      },
-    };
-
-    return auditProvider.runAsync(auditContext, () => next());
-  });
+  app.use(
+    '*',
+    createHonoAuditMiddleware({
+      provider: auditProvider,
+      actor: actorFromHeaders,
+      anonymousActor: hashedAnonymousActor,
+      request: { trustProxy: true },
+    }),
+  );
 
   app.get('/users', async (c) => {
     const users = await prisma.user.findMany({
@@ -9,7 +9,9 @@
  * @packageDocumentation
  */
 
+import type { MissingContextMode } from '../types.js';
 import { coreLog } from '../utils/debug.js';
+import type { EntityRedactConfig } from '../utils/redaction.js';
 import type {
   AggregateIdResolver,
   AggregateMapping,
@@ -17,6 +19,7 @@ import type {
   BatchAggregateIdResolver,
   GetModelType,
   LoggableEntity,
+  ReadAuditConfig,
   ResolvedId,
   TypedAggregateMapping,
 } from './types.js';
@@ -417,6 +420,20 @@ export type DefineEntityOptions<TDbClient = unknown, TModelName extends string =
     update?: { fetchBeforeOperation?: boolean };
     delete?: { fetchBeforeOperation?: boolean };
   };
+  /** Audit reads of this entity (`true` for defaults). Default: false */
+  auditReads?: boolean | ReadAuditConfig;
+  /** Handling of writes without an audit context, overriding the global `missingContext` */
+  missingContext?: MissingContextMode;
+  /**
+   * Redaction for this entity: `fields` are added to `security.redact.fields`, and
+   * `strategies` override the global strategies per field
+   */
+  redact?: EntityRedactConfig;
+  /**
+   * Log rows of this entity deleted by `onDelete: Cascade` or nulled by `onDelete: SetNull`
+   * when cascade auditing is enabled. `false` also stops following its own cascades. Default: true
+   */
+  auditCascades?: boolean;
 };
 
 /**
@@ -479,6 +496,10 @@ export const defineEntity = <TDbClient = unknown, TModelName extends string = st
     aggregateContextMap,
     tags,
     nestedOperations,
+    auditReads,
+    missingContext,
+    redact,
+    auditCascades,
   } = options;
 
   return {
@@ -495,6 +516,10 @@ export const defineEntity = <TDbClient = unknown, TModelName extends string = st
       | undefined,
     tags,
     nestedOperations,
+    auditReads: auditReads === true ? {} : auditReads || undefined,
+    missingContext,
+    redact,
+    auditCascades,
   };
 };
 
@@ -9,7 +9,10 @@
  * @packageDocumentation
  */
 
+import type { ReadOperation } from '../constants.js';
 import type { EnricherConfig } from '../enrichment/types.js';
+import type { MissingContextMode } from '../types.js';
+import type { EntityRedactConfig } from '../utils/redaction.js';
 
 // ============================================================================
 // Type Utilities - Generic Client Type Inference
@@ -276,6 +279,40 @@ export interface LoggableEntity {
   };
   /** Whether to include relation objects in before/after states for this entity (default: inherits from global config) */
   includeRelations?: boolean;
+  /** Read auditing settings; reads are not audited when absent */
+  auditReads?: ReadAuditConfig;
+  /** Handling of writes without an audit context (default: inherits from global config) */
+  missingContext?: MissingContextMode;
+  /** Redaction merged over the global `security.redact` for this entity */
+  redact?: EntityRedactConfig;
+  /** Log rows of this entity removed or nulled by a referential action (default: true) */
+  auditCascades?: boolean;
+}
+
+/**
+ * Read auditing settings for an entity
+ *
+ * @remarks
+ * Each returned record is logged with the `read` action. Only its ID (and optionally
+ * the names of the returned fields) is stored, never the payload.
+ *
+ * @example
+ * ```typescript
+ * Patient: defineEntity({
+ *   type: 'Patient',
+ *   auditReads: { sampling: 1.0, includeSelectedFields: true },
+ * })
+ * ```
+ */
+export interface ReadAuditConfig {
+  /** Fraction of read operations to audit (0.0-1.0). Default: 1.0 */
+  sampling?: number;
+  /** Log each entity at most once per request (per `AuditContext.request`). Default: true */
+  dedupe?: boolean;
+  /** Store the names of the returned fields as `entityContext.selectedFields`. Default: false */
+  includeSelectedFields?: boolean;
+  /** Read operations to audit. Default: all of `READ_OPERATIONS` */
+  operations?: readonly ReadOperation[];
 }
 
 // ============================================================================
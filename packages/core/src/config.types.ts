@@ -1,3 +1,4 @@
+import type { AuditEncryptionConfig } from './encryption/types.js';
 import type { ValueSerializer } from './utils/serialization.js';
 
 /** Error handling strategy for audit logging */
@@ -20,6 +21,8 @@ export type ErrorStrategy = 'throw' | 'log' | 'ignore';
 export interface SerializationConfig {
   /** Custom serializers applied before built-in converters (BigInt, Date) */
   customSerializers?: ValueSerializer[];
+  /** Encrypt `before`, `after` and `changes` after serialization (see `encryptAuditLog`) */
+  encryption?: AuditEncryptionConfig;
 }
 
 /** Configuration for PII (Personally Identifiable Information) redaction */
@@ -1,7 +1,25 @@
 /** Constants and Configuration Values for Audit Logging */
 
 /** Action type for audit logging operations */
-export type AuditAction = 'create' | 'update' | 'upsert' | 'delete' | 'createMany' | 'updateMany' | 'deleteMany';
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'upsert'
+  | 'delete'
+  | 'createMany'
+  | 'updateMany'
+  | 'deleteMany'
+  | 'createManyAndReturn'
+  | 'updateManyAndReturn';
+
+/**
+ * Action recorded in an audit log: an audited operation, a compensating `revert` write, an audited `read`,
+ * a table-level `raw` SQL write, a retention `purge` of audit logs or a relation `link`/`unlink`
+ */
+export type AuditLogAction = AuditAction | 'revert' | 'read' | 'raw' | 'purge' | 'link' | 'unlink';
+
+/** Read operation that can be audited with `defineEntity({ auditReads })` */
+export type ReadOperation = 'findUnique' | 'findUniqueOrThrow' | 'findFirst' | 'findFirstOrThrow' | 'findMany';
 
 /** Audit action type constants */
 export const AUDIT_ACTION = {
@@ -12,7 +30,21 @@ export const AUDIT_ACTION = {
   CREATE_MANY: 'createMany',
   UPDATE_MANY: 'updateMany',
   DELETE_MANY: 'deleteMany',
-} as const satisfies Record<string, AuditAction>;
+  CREATE_MANY_AND_RETURN: 'createManyAndReturn',
+  UPDATE_MANY_AND_RETURN: 'updateManyAndReturn',
+  /** Compensating write generated from an earlier audit log (not a Prisma operation) */
+  REVERT: 'revert',
+  /** Access to an entity configured with `auditReads` (not a write) */
+  READ: 'read',
+  /** Raw SQL write that could not be attributed to individual entities (not a Prisma operation) */
+  RAW: 'raw',
+  /** Removal of expired audit logs by a retention run (not a Prisma operation) */
+  PURGE: 'purge',
+  /** Relation gained a member through a nested `set` (not a Prisma operation) */
+  LINK: 'link',
+  /** Relation lost a member through a nested `set` or `disconnect` (not a Prisma operation) */
+  UNLINK: 'unlink',
+} as const satisfies Record<string, AuditLogAction>;
 
 /** Set of supported audit operations */
 export const SUPPORTED_OPERATIONS: ReadonlySet<AuditAction> = new Set([
@@ -23,6 +55,17 @@ export const SUPPORTED_OPERATIONS: ReadonlySet<AuditAction> = new Set([
   AUDIT_ACTION.CREATE_MANY,
   AUDIT_ACTION.UPDATE_MANY,
   AUDIT_ACTION.DELETE_MANY,
+  AUDIT_ACTION.CREATE_MANY_AND_RETURN,
+  AUDIT_ACTION.UPDATE_MANY_AND_RETURN,
+]);
+
+/** Set of read operations audited for entities with `auditReads` */
+export const READ_OPERATIONS: ReadonlySet<ReadOperation> = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
 ]);
 
 /** Timeout values for asynchronous enrichment operations (in milliseconds) */
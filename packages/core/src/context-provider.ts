@@ -1,5 +1,28 @@
 import { AsyncLocalStorage } from 'node:async_hooks';
-import type { AuditContext, AuditContextProvider } from './types.js';
+import type { AuditActor, AuditContext, AuditContextProvider } from './types.js';
+
+/**
+ * AsyncLocalStorage-based audit context provider
+ */
+export interface AsyncLocalStorageAuditContextProvider extends AuditContextProvider {
+  /**
+   * Run a function as an impersonated actor
+   *
+   * The actor of the current context is recorded as `impersonator` (nested calls keep the
+   * original operator), and delegation of the current context is dropped. `fn` may be async.
+   *
+   * @throws {Error} If no audit context is set, since the real operator would be unknown
+   *
+   * @example
+   * ```typescript
+   * await provider.runAsync({ actor: supportAgent }, () =>
+   *   provider.impersonate(customer, () => prisma.order.update({ where: { id }, data })),
+   * );
+   * // Logged with actor = customer, impersonator = supportAgent
+   * ```
+   */
+  impersonate<T>(actor: AuditActor, fn: () => T): T;
+}
 
 /**
  * Create an AsyncLocalStorage-based audit context provider
@@ -28,25 +51,32 @@ import type { AuditContext, AuditContextProvider } from './types.js';
  *
  * @returns An AuditContextProvider instance
  */
-export const createAsyncLocalStorageProvider = (): AuditContextProvider => {
+export const createAsyncLocalStorageProvider = (): AsyncLocalStorageAuditContextProvider => {
   const storage = new AsyncLocalStorage<AuditContext>();
 
+  const useContext = (): AuditContext => {
+    const context = storage.getStore();
+    if (!context) {
+      throw new Error(
+        '[@prisma-audit] AuditContext is not available. ' +
+          'Make sure you are running within a context provider (e.g., inside provider.runAsync()).',
+      );
+    }
+    return context;
+  };
+
   return {
     getContext: () => storage.getStore(),
 
-    useContext: (): AuditContext => {
-      const context = storage.getStore();
-      if (!context) {
-        throw new Error(
-          '[@prisma-audit] AuditContext is not available. ' +
-            'Make sure you are running within a context provider (e.g., inside provider.runAsync()).',
-        );
-      }
-      return context;
-    },
+    useContext,
 
     run: <T>(context: AuditContext, fn: () => T): T => storage.run(context, fn),
 
     runAsync: <T>(context: AuditContext, fn: () => Promise<T>): Promise<T> => storage.run(context, fn),
+
+    impersonate: <T>(actor: AuditActor, fn: () => T): T => {
+      const { onBehalfOf: _onBehalfOf, delegationChain: _delegationChain, ...current } = useContext();
+      return storage.run({ ...current, actor, impersonator: current.impersonator ?? current.actor }, fn);
+    },
   };
 };
@@ -4,7 +4,7 @@
  * Core audit log data structures that are framework-independent.
  */
 
-import type { ActorId, AggregateId, EntityId } from './branded-types.js';
+import type { ActorId, AggregateId, EntityId, TraceId } from './branded-types.js';
 
 /** Audit log data structure with Branded IDs (validated domain model with type-safe identifiers) */
 export interface AuditLogData {
@@ -26,6 +26,20 @@ export interface AuditLogData {
   changes: unknown;
   requestContext: unknown;
   createdAt: Date;
+  /** Shared by every log produced by one intercepted Prisma operation */
+  operationId?: TraceId | null;
+  /** Shared by every log produced inside one interactive `$transaction` */
+  transactionId?: TraceId | null;
+  /** Real operator of an impersonated action (`AuditContext.impersonator`) */
+  impersonatorCategory?: string | null;
+  impersonatorType?: string | null;
+  impersonatorId?: ActorId | null;
+  /** Principal the action was performed for (`AuditContext.onBehalfOf`) */
+  onBehalfOfCategory?: string | null;
+  onBehalfOfType?: string | null;
+  onBehalfOfId?: ActorId | null;
+  /** Impersonator, principal and delegation chain with their enriched contexts (`DelegationContext`) */
+  delegationContext?: unknown;
 }
 
 /** Input for creating AuditLogData (uses plain strings for IDs) */
@@ -48,4 +62,13 @@ export interface AuditLogInput {
   changes: unknown;
   requestContext: unknown;
   createdAt: Date;
+  operationId?: string | null;
+  transactionId?: string | null;
+  impersonatorCategory?: string | null;
+  impersonatorType?: string | null;
+  impersonatorId?: string | null;
+  onBehalfOfCategory?: string | null;
+  onBehalfOfType?: string | null;
+  onBehalfOfId?: string | null;
+  delegationContext?: unknown;
 }
@@ -6,7 +6,7 @@
 
 import type { AuditLogData, AuditLogInput } from './audit-log-types.js';
 import type { ActorId, AggregateId, EntityId } from './branded-types.js';
-import { createActorId, createAggregateId, createEntityId } from './branded-types.js';
+import { createActorId, createAggregateId, createEntityId, createTraceId } from './branded-types.js';
 
 // ============================================================================
 // Type Definitions
@@ -90,6 +90,17 @@ const tryCreateBrandedId = <T>(
   }
 };
 
+/** @internal Validates an optional actor ID, leaving null and undefined as they are */
+const tryCreateOptionalActorId = (
+  id: string | null | undefined,
+  fieldName: string,
+  errors: ValidationError[],
+): ActorId | null | undefined => (id != null ? tryCreateBrandedId(id, fieldName, createActorId, errors) : id);
+
+/** @internal Drops undefined values, so absent optional columns stay absent */
+const omitUndefined = <T extends Record<string, unknown>>(fields: T): Partial<T> =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+
 /**
  * Creates a validated AuditLogData with Branded IDs
  *
@@ -147,6 +158,17 @@ export const createAuditLogData = (input: AuditLogInput): Result<AuditLogData> =
 
   validateDateField(input.createdAt, 'createdAt', validationErrors);
 
+  const validatedOperationId =
+    input.operationId != null
+      ? tryCreateBrandedId(input.operationId, 'operationId', createTraceId, validationErrors)
+      : input.operationId;
+  const validatedTransactionId =
+    input.transactionId != null
+      ? tryCreateBrandedId(input.transactionId, 'transactionId', createTraceId, validationErrors)
+      : input.transactionId;
+  const validatedImpersonatorId = tryCreateOptionalActorId(input.impersonatorId, 'impersonatorId', validationErrors);
+  const validatedOnBehalfOfId = tryCreateOptionalActorId(input.onBehalfOfId, 'onBehalfOfId', validationErrors);
+
   if (validationErrors.length > 0) {
     return failure(validationErrors);
   }
@@ -170,5 +192,16 @@ export const createAuditLogData = (input: AuditLogInput): Result<AuditLogData> =
     changes: input.changes,
     requestContext: input.requestContext,
     createdAt: input.createdAt,
+    ...(validatedOperationId !== undefined && { operationId: validatedOperationId }),
+    ...(validatedTransactionId !== undefined && { transactionId: validatedTransactionId }),
+    ...omitUndefined({
+      impersonatorCategory: input.impersonatorCategory,
+      impersonatorType: input.impersonatorType,
+      impersonatorId: validatedImpersonatorId,
+      onBehalfOfCategory: input.onBehalfOfCategory,
+      onBehalfOfType: input.onBehalfOfType,
+      onBehalfOfId: validatedOnBehalfOfId,
+      delegationContext: input.delegationContext,
+    }),
   });
 };
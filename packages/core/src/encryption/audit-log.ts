@@ -0,0 +1,141 @@
+/**
+ * Audit Log Encryption, Decryption and Re-Encryption
+ *
+ * @module encryption/audit-log
+ */
+
+import type { AuditLogData } from '../domain/audit-log-types.js';
+import type { AuditContext } from '../types.js';
+import { decryptPayload, encryptPayload, isEncryptedPayload } from './cipher.js';
+import {
+  type AuditEncryptionConfig,
+  type AuditKeyStore,
+  type DataKey,
+  type DecryptAuditLogOptions,
+  ENCRYPTED_AUDIT_COLUMNS,
+  type EncryptableAuditLog,
+  type EncryptedAuditColumn,
+} from './types.js';
+
+/**
+ * Look up keys by ID once per call
+ *
+ * @internal
+ */
+const createKeyLookup = (keyStore: AuditKeyStore) => {
+  const keys = new Map<string, Promise<DataKey | undefined>>();
+  return (keyId: string): Promise<DataKey | undefined> => {
+    let key = keys.get(keyId);
+    if (!key) {
+      key = keyStore.getKey(keyId);
+      keys.set(keyId, key);
+    }
+    return key;
+  };
+};
+
+/**
+ * Encrypt `before`, `after` and `changes` of a serialized audit log
+ *
+ * @remarks
+ * Runs after `serializeForAuditJson`, so the encrypted JSON is what would otherwise be
+ * stored. `null` columns stay `null`. Logs of entity types not listed in `entityTypes`
+ * are returned unchanged.
+ */
+export const encryptAuditLog = async (
+  log: AuditLogData,
+  context: AuditContext,
+  config: AuditEncryptionConfig,
+): Promise<AuditLogData> => {
+  if (config.entityTypes && !config.entityTypes.includes(log.entityType)) {
+    return log;
+  }
+  if (ENCRYPTED_AUDIT_COLUMNS.every((column) => log[column] == null)) {
+    return log;
+  }
+
+  const scope = config.keyScope?.(log, context) ?? `${log.aggregateType}:${log.aggregateId}`;
+  const key = await config.keyStore.getCurrentKey(scope);
+  const encrypted = { ...log };
+  for (const column of ENCRYPTED_AUDIT_COLUMNS) {
+    if (log[column] != null) {
+      encrypted[column] = encryptPayload(log[column], key, column);
+    }
+  }
+  return encrypted;
+};
+
+/**
+ * Decrypt the encrypted columns of a stored audit log
+ *
+ * Columns that are not encrypted are returned as they are.
+ *
+ * @throws Error if a payload fails authentication, or its key was destroyed and `onMissingKey` is `'throw'`
+ *
+ * @example
+ * ```typescript
+ * const rows = await prisma.auditLog.findMany({ where: { entityType: 'Patient' } });
+ * const logs = await Promise.all(rows.map((row) => decryptAuditLog(row, keyStore)));
+ * ```
+ */
+export const decryptAuditLog = async <T extends EncryptableAuditLog>(
+  log: T,
+  keyStore: AuditKeyStore,
+  options: DecryptAuditLogOptions = {},
+): Promise<T> => {
+  const getKey = createKeyLookup(keyStore);
+  const decrypted = { ...log };
+  for (const column of ENCRYPTED_AUDIT_COLUMNS) {
+    const payload = log[column];
+    if (!isEncryptedPayload(payload)) {
+      continue;
+    }
+    const key = await getKey(payload.kid);
+    if (!key && options.onMissingKey === 'throw') {
+      throw new Error(`[@prisma-audit] Data key "${payload.kid}" for column "${column}" was destroyed`);
+    }
+    if (!key && options.onMissingKey === 'keep') {
+      continue;
+    }
+    decrypted[column] = (key ? decryptPayload(payload, key, column) : null) as T[typeof column];
+  }
+  return decrypted;
+};
+
+/**
+ * Columns of a log that still hold an encrypted payload
+ */
+export const getEncryptedColumns = (log: EncryptableAuditLog): EncryptedAuditColumn[] => {
+  return ENCRYPTED_AUDIT_COLUMNS.filter((column) => isEncryptedPayload(log[column]));
+};
+
+/**
+ * Re-encrypt the columns of a stored audit log that use a key other than the current key of its scope
+ *
+ * @remarks
+ * Payloads whose key was destroyed are left as they are.
+ *
+ * @returns The re-encrypted columns, or undefined when no column needs it
+ */
+export const reencryptAuditLog = async (
+  log: EncryptableAuditLog,
+  keyStore: AuditKeyStore,
+): Promise<EncryptableAuditLog | undefined> => {
+  const getKey = createKeyLookup(keyStore);
+  const updates: EncryptableAuditLog = {};
+  for (const column of ENCRYPTED_AUDIT_COLUMNS) {
+    const payload = log[column];
+    if (!isEncryptedPayload(payload)) {
+      continue;
+    }
+    const key = await getKey(payload.kid);
+    if (!key) {
+      continue;
+    }
+    const current = await keyStore.getCurrentKey(key.scope);
+    if (current.id !== key.id) {
+      updates[column] = encryptPayload(decryptPayload(payload, key, column), current, column);
+    }
+  }
+  return Object.keys(updates).length > 0 ? updates : undefined;
+};
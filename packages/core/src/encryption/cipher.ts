@@ -0,0 +1,133 @@
+/**
+ * AES-256-GCM Primitives
+ *
+ * @module encryption/cipher
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { safeStringify } from '../utils/serialization.js';
+import type { DataKey, EncryptedAuditPayload } from './types.js';
+
+/** @internal */
+const ALGORITHM = 'aes-256-gcm';
+
+/** @internal */
+const KEY_LENGTH = 32;
+
+/** @internal */
+const IV_LENGTH = 12;
+
+/** @internal */
+const TAG_LENGTH = 16;
+
+/** @internal */
+const assertKeyLength = (key: Uint8Array, label: string): void => {
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`[@prisma-audit] ${label} must be ${KEY_LENGTH} bytes, got ${key.length}`);
+  }
+};
+
+/** @internal */
+const seal = (plaintext: Buffer, key: Uint8Array, aad: string) => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv).setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+};
+
+/**
+ * @throws Error if the key is wrong or the data was tampered with
+ * @internal
+ */
+const unseal = (iv: Buffer, tag: Buffer, ciphertext: Buffer, key: Uint8Array, aad: string): Buffer => {
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, iv).setAAD(Buffer.from(aad)).setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch {
+    throw new Error('[@prisma-audit] Decryption failed: wrong key or tampered data');
+  }
+};
+
+/**
+ * Generate material for a new data key
+ */
+export const generateDataKeyMaterial = (): Uint8Array => randomBytes(KEY_LENGTH);
+
+/**
+ * Encrypt a data key with the master key (envelope encryption)
+ *
+ * @returns Base64 string of IV, tag and ciphertext, bound to the key ID
+ * @throws Error if a key is not 32 bytes
+ */
+export const wrapDataKey = (key: DataKey, masterKey: Uint8Array): string => {
+  assertKeyLength(masterKey, 'Master key');
+  assertKeyLength(key.material, 'Data key');
+  const { iv, tag, ciphertext } = seal(Buffer.from(key.material), masterKey, key.id);
+  return Buffer.concat([iv, tag, ciphertext]).toString('base64');
+};
+
+/**
+ * Decrypt a data key wrapped by {@link wrapDataKey}
+ *
+ * @throws Error if the master key is wrong or the wrapped key was tampered with
+ */
+export const unwrapDataKey = (keyId: string, wrappedKey: string, masterKey: Uint8Array): Uint8Array => {
+  assertKeyLength(masterKey, 'Master key');
+  const bytes = Buffer.from(wrappedKey, 'base64');
+  return unseal(
+    bytes.subarray(0, IV_LENGTH),
+    bytes.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH),
+    bytes.subarray(IV_LENGTH + TAG_LENGTH),
+    masterKey,
+    keyId,
+  );
+};
+
+/**
+ * Check if a stored value is an encrypted payload
+ */
+export const isEncryptedPayload = (value: unknown): value is EncryptedAuditPayload => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const payload = value as Record<string, unknown>;
+  return (
+    payload.encrypted === ALGORITHM &&
+    typeof payload.kid === 'string' &&
+    typeof payload.iv === 'string' &&
+    typeof payload.tag === 'string' &&
+    typeof payload.ciphertext === 'string'
+  );
+};
+
+/**
+ * Encrypt a JSON-safe value for a column
+ */
+export const encryptPayload = (value: unknown, key: DataKey, column: string): EncryptedAuditPayload => {
+  assertKeyLength(key.material, 'Data key');
+  const plaintext = Buffer.from(safeStringify(value) ?? 'null');
+  const { iv, tag, ciphertext } = seal(plaintext, key.material, `${column}:${key.id}`);
+  return {
+    encrypted: ALGORITHM,
+    kid: key.id,
+    iv: iv.toString('base64'),
+    tag: tag.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+};
+
+/**
+ * Decrypt a payload produced by {@link encryptPayload}
+ *
+ * @throws Error if the key is wrong, or the payload was tampered with or moved to another column
+ */
+export const decryptPayload = (payload: EncryptedAuditPayload, key: DataKey, column: string): unknown => {
+  const plaintext = unseal(
+    Buffer.from(payload.iv, 'base64'),
+    Buffer.from(payload.tag, 'base64'),
+    Buffer.from(payload.ciphertext, 'base64'),
+    key.material,
+    `${column}:${payload.kid}`,
+  );
+  return JSON.parse(plaintext.toString('utf8'));
+};
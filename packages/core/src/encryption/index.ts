@@ -0,0 +1,30 @@
+/**
+ * Envelope Encryption Module
+ *
+ * Encrypts the entity state of audit logs with per-scope data keys (AES-256-GCM), with
+ * helpers for authorized reads, key rotation and crypto-shredding.
+ *
+ * @module encryption
+ */
+
+export { decryptAuditLog, encryptAuditLog, getEncryptedColumns, reencryptAuditLog } from './audit-log.js';
+export {
+  decryptPayload,
+  encryptPayload,
+  generateDataKeyMaterial,
+  isEncryptedPayload,
+  unwrapDataKey,
+  wrapDataKey,
+} from './cipher.js';
+export { createInMemoryKeyStore, type InMemoryKeyStore, type InMemoryKeyStoreOptions } from './key-store.js';
+export {
+  type AuditEncryptionConfig,
+  type AuditKeyStore,
+  type DataKey,
+  type DecryptAuditLogOptions,
+  ENCRYPTED_AUDIT_COLUMNS,
+  type EncryptableAuditLog,
+  type EncryptedAuditColumn,
+  type EncryptedAuditPayload,
+  type WrappedDataKey,
+} from './types.js';
@@ -0,0 +1,78 @@
+/**
+ * In-Memory Key Store
+ *
+ * @module encryption/key-store
+ */
+
+import { randomUUID } from 'node:crypto';
+import { generateDataKeyMaterial, unwrapDataKey, wrapDataKey } from './cipher.js';
+import type { AuditKeyStore, DataKey, WrappedDataKey } from './types.js';
+
+/**
+ * Options for creating an in-memory key store
+ */
+export interface InMemoryKeyStoreOptions {
+  /** 32-byte key that wraps the data keys */
+  masterKey: Uint8Array;
+}
+
+/**
+ * In-memory key store, exposing its wrapped keys for inspection
+ */
+export interface InMemoryKeyStore extends AuditKeyStore {
+  readonly keys: ReadonlyMap<string, WrappedDataKey>;
+}
+
+/**
+ * Create a key store that keeps wrapped data keys in memory
+ *
+ * @remarks
+ * Keys are lost with the process, which makes every payload unreadable. Use it in tests,
+ * or as a reference for a store backed by a database or a KMS.
+ *
+ * @example
+ * ```typescript
+ * const keyStore = createInMemoryKeyStore({ masterKey: randomBytes(32) });
+ * ```
+ */
+export const createInMemoryKeyStore = (options: InMemoryKeyStoreOptions): InMemoryKeyStore => {
+  const keys = new Map<string, WrappedDataKey>();
+  const currentKeyIds = new Map<string, string>();
+
+  const unwrap = (record: WrappedDataKey): DataKey => ({
+    id: record.id,
+    scope: record.scope,
+    material: unwrapDataKey(record.id, record.wrappedKey, options.masterKey),
+  });
+
+  const rotateKey = async (scope: string): Promise<DataKey> => {
+    const key: DataKey = { id: randomUUID(), scope, material: generateDataKeyMaterial() };
+    keys.set(key.id, { id: key.id, scope, wrappedKey: wrapDataKey(key, options.masterKey), createdAt: new Date() });
+    currentKeyIds.set(scope, key.id);
+    return key;
+  };
+
+  return {
+    keys,
+    getCurrentKey: async (scope) => {
+      const record = keys.get(currentKeyIds.get(scope) ?? '');
+      return record ? unwrap(record) : rotateKey(scope);
+    },
+    getKey: async (keyId) => {
+      const record = keys.get(keyId);
+      return record ? unwrap(record) : undefined;
+    },
+    rotateKey,
+    destroyKeys: async (scope) => {
+      let destroyed = 0;
+      for (const [id, record] of keys) {
+        if (record.scope === scope) {
+          keys.delete(id);
+          destroyed++;
+        }
+      }
+      currentKeyIds.delete(scope);
+      return destroyed;
+    },
+  };
+};
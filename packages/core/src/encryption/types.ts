@@ -0,0 +1,119 @@
+/**
+ * Envelope Encryption Type Definitions
+ *
+ * @module encryption/types
+ */
+
+import type { AuditLogData } from '../domain/audit-log-types.js';
+import type { AuditContext } from '../types.js';
+
+/**
+ * Audit log columns holding entity state, which are the ones encrypted
+ */
+export const ENCRYPTED_AUDIT_COLUMNS = ['before', 'after', 'changes'] as const;
+
+export type EncryptedAuditColumn = (typeof ENCRYPTED_AUDIT_COLUMNS)[number];
+
+/**
+ * Shape of a row that may contain encrypted columns (stored logs or `AuditLogData`)
+ */
+export type EncryptableAuditLog = { [K in EncryptedAuditColumn]?: unknown };
+
+/**
+ * Stored form of an encrypted column
+ *
+ * The column name and key ID are bound as additional authenticated data, so a payload
+ * cannot be moved to another column or relabelled with another key.
+ */
+export interface EncryptedAuditPayload {
+  encrypted: 'aes-256-gcm';
+  /** ID of the data key */
+  kid: string;
+  /** Base64 initialization vector (12 bytes) */
+  iv: string;
+  /** Base64 authentication tag (16 bytes) */
+  tag: string;
+  /** Base64 ciphertext of the JSON-serialized value */
+  ciphertext: string;
+}
+
+/**
+ * Unwrapped data key
+ */
+export interface DataKey {
+  id: string;
+  /** Scope the key belongs to, e.g. a tenant or an aggregate */
+  scope: string;
+  /** 32 bytes of key material */
+  material: Uint8Array;
+}
+
+/**
+ * Data key as persisted by a key store: the material encrypted with the master key
+ */
+export interface WrappedDataKey {
+  id: string;
+  scope: string;
+  /** Output of `wrapDataKey` */
+  wrappedKey: string;
+  createdAt: Date;
+}
+
+/**
+ * Storage for per-scope data keys
+ *
+ * @remarks
+ * Implementations keep data keys wrapped with a master key (or a KMS key), so the audit
+ * database alone never reveals plaintext. Destroying the keys of a scope makes every
+ * payload encrypted for it unreadable (crypto-shredding).
+ */
+export interface AuditKeyStore {
+  /** Current key of a scope, created on first use */
+  getCurrentKey: (scope: string) => Promise<DataKey>;
+  /** Key by ID, or undefined once it was destroyed */
+  getKey: (keyId: string) => Promise<DataKey | undefined>;
+  /** Create a new current key for a scope; older keys stay readable until destroyed */
+  rotateKey: (scope: string) => Promise<DataKey>;
+  /**
+   * Destroy every key of a scope
+   * @returns Number of keys destroyed
+   */
+  destroyKeys: (scope: string) => Promise<number>;
+}
+
+/**
+ * Encryption settings, passed as `serialization.encryption`
+ *
+ * @example
+ * ```typescript
+ * serialization: {
+ *   encryption: {
+ *     keyStore,
+ *     entityTypes: ['Patient', 'Prescription'],
+ *     // One key per tenant instead of per aggregate
+ *     keyScope: (log, context) => `tenant:${context.request?.tenantId}`,
+ *   },
+ * }
+ * ```
+ */
+export interface AuditEncryptionConfig {
+  keyStore: AuditKeyStore;
+  /** Entity types whose logs are encrypted. Default: all */
+  entityTypes?: readonly string[];
+  /** Key scope of a log. Default: `<aggregateType>:<aggregateId>` (one key per aggregate) */
+  keyScope?: (log: AuditLogData, context: AuditContext) => string;
+}
+
+/**
+ * Options for decrypting stored logs
+ */
+export interface DecryptAuditLogOptions {
+  /**
+   * What to do with payloads whose key was destroyed
+   *
+   * - `'null'`: Return `null` for the column (default)
+   * - `'keep'`: Leave the payload encrypted, so readers can tell shredded values from `null`
+   * - `'throw'`: Throw an error
+   */
+  onMissingKey?: 'null' | 'keep' | 'throw';
+}
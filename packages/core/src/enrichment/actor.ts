@@ -1,9 +1,15 @@
 /** Actor enrichment functions for enriching actor context with additional database data */
 
-import type { AuditContext } from '../types.js';
+import type { AuditContext, DelegatedActor, DelegationContext } from '../types.js';
 import { executeEnricherSafely } from './executor.js';
 import type { ActorEnricherConfig } from './types.js';
 
+/** Actor enrichment uses fixed meta values */
+const ACTOR_META = {
+  aggregateType: 'Actor',
+  aggregateCategory: 'system',
+};
+
 /**
  * Enrich actor context from AuditContext
  *
@@ -44,11 +50,59 @@ export const enrichActorContext = async (
     return null;
   }
 
-  // Actor enrichment uses fixed meta values
-  const meta = {
-    aggregateType: 'Actor',
-    aggregateCategory: 'system',
+  return await executeEnricherSafely(actorEnricherConfig, auditContext.actor, basePrisma, undefined, ACTOR_META);
+};
+
+/**
+ * Build the delegation context of an AuditContext, without enrichment
+ *
+ * @returns null when the context has no impersonator, principal or delegation chain
+ */
+export const toDelegationContext = (auditContext: AuditContext): DelegationContext | null => {
+  const { impersonator, onBehalfOf, delegationChain } = auditContext;
+  const hasChain = delegationChain !== undefined && delegationChain.length > 0;
+  if (!impersonator && !onBehalfOf && !hasChain) {
+    return null;
+  }
+  return {
+    ...(impersonator && { impersonator }),
+    ...(onBehalfOf && { onBehalfOf }),
+    ...(hasChain && { delegationChain: [...delegationChain] }),
+  };
+};
+
+/**
+ * Enrich the impersonator and principal of an AuditContext with the actor enricher
+ *
+ * Each enriched context is stored as `context` of its actor. Chain members are not enriched.
+ *
+ * @returns Delegation context, or null when the context has no impersonation or delegation
+ *
+ * @example
+ * ```typescript
+ * await enrichDelegationContext({ actor: customer, impersonator: agent }, actorEnricher, prisma);
+ * // => { impersonator: { ...agent, context: { email: 'agent@example.com' } } }
+ * ```
+ */
+export const enrichDelegationContext = async (
+  auditContext: AuditContext,
+  actorEnricherConfig: ActorEnricherConfig,
+  basePrisma: unknown,
+): Promise<DelegationContext | null> => {
+  const delegation = toDelegationContext(auditContext);
+  if (!delegation || !actorEnricherConfig) {
+    return delegation;
+  }
+
+  const enrich = async (actor: DelegatedActor | undefined): Promise<DelegatedActor | undefined> => {
+    if (!actor) {
+      return undefined;
+    }
+    const context = await executeEnricherSafely(actorEnricherConfig, actor, basePrisma, undefined, ACTOR_META);
+    return context === null ? actor : { ...actor, context };
   };
 
-  return await executeEnricherSafely(actorEnricherConfig, auditContext.actor, basePrisma, undefined, meta);
+  const impersonator = await enrich(delegation.impersonator);
+  const onBehalfOf = await enrich(delegation.onBehalfOf);
+  return { ...delegation, ...(impersonator && { impersonator }), ...(onBehalfOf && { onBehalfOf }) };
 };
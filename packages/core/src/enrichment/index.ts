@@ -21,7 +21,7 @@
  */
 
 // Actor enrichment
-export { enrichActorContext } from './actor.js';
+export { enrichActorContext, enrichDelegationContext, toDelegationContext } from './actor.js';
 // Batch enrichment for entities and aggregates
 export { batchEnrichAggregateContexts, batchEnrichEntityContexts } from './batch.js';
 // Core executor for safe enricher execution
@@ -0,0 +1,121 @@
+/**
+ * CloudEvents Mapping and Event-Publishing Writer
+ *
+ * @module events/cloudevents
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { AuditLogData } from '../domain/audit-log-types.js';
+import type { AuditContext } from '../types.js';
+import { serializeForAuditJson } from '../utils/serialization.js';
+import type { WriteFn } from '../write-strategies/types.js';
+import type { AuditCloudEvent, CloudEventOptions, EventPublishingWriterOptions, InMemoryEventBroker } from './types.js';
+
+const DEFAULT_TYPE_PREFIX = 'prisma-audit';
+
+/** @internal */
+const EXTENSION_NAME_PATTERN = /^[a-z0-9]{1,20}$/;
+
+/**
+ * Map an audit log to a CloudEvents 1.0 envelope
+ *
+ * @throws Error if a custom extension attribute has an invalid name
+ *
+ * @example
+ * ```typescript
+ * toCloudEvent(log, context, { source: '//blog.example.com' });
+ * // => { specversion: '1.0', type: 'prisma-audit.Post.update', subject: 'User/user-1', ... }
+ * ```
+ */
+export const toCloudEvent = (log: AuditLogData, context: AuditContext, options: CloudEventOptions): AuditCloudEvent => {
+  const extensions = options.extensions?.(log, context) ?? {};
+  for (const name of Object.keys(extensions)) {
+    if (!EXTENSION_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `[@prisma-audit] Invalid CloudEvents extension attribute "${name}": use 1-20 lowercase letters or digits`,
+      );
+    }
+  }
+
+  return {
+    specversion: '1.0',
+    id: options.generateId?.(log) ?? randomUUID(),
+    source: options.source,
+    type: `${options.typePrefix ?? DEFAULT_TYPE_PREFIX}.${log.entityType}.${log.action}`,
+    subject: `${log.aggregateType}/${log.aggregateId}`,
+    time: log.createdAt.toISOString(),
+    datacontenttype: 'application/json',
+    data: serializeForAuditJson(log) as Record<string, unknown>,
+    ...(log.operationId && { operationid: log.operationId }),
+    ...(log.transactionId && { transactionid: log.transactionId }),
+    ...extensions,
+  };
+};
+
+/**
+ * Create a writer that stores audit logs, then publishes them as CloudEvents
+ *
+ * @remarks
+ * Being a plain `WriteFn`, it inherits the timing of the write strategy. Inside a
+ * transaction, the deferred strategy (`awaitWrite: false`) calls it only after the
+ * transaction committed, so rolled-back changes are never published. With the outbox, pass
+ * it as the relay's `writer` instead. Publishing failures reject the write and reach
+ * `hooks.errorHandler` like database failures.
+ *
+ * @example
+ * ```typescript
+ * hooks: {
+ *   writer: createEventPublishingWriter({ source: '//blog.example.com', publisher: kafkaPublisher }),
+ * }
+ * ```
+ */
+export const createEventPublishingWriter = (options: EventPublishingWriterOptions): WriteFn => {
+  const writeDatabase = options.database ?? true;
+
+  return async (logs, context, defaultWrite) => {
+    if (writeDatabase) {
+      await defaultWrite(logs);
+    }
+    if (logs.length === 0) {
+      return;
+    }
+    await options.publisher.publish(logs.map((log) => toCloudEvent(log, context, options)));
+  };
+};
+
+/**
+ * Create an in-memory broker that records events and forwards them to subscribers
+ *
+ * @example
+ * ```typescript
+ * const broker = createInMemoryEventBroker();
+ * const writer = createEventPublishingWriter({ source: 'test', publisher: broker });
+ * // ... run operations ...
+ * expect(broker.events.map((event) => event.type)).toEqual(['prisma-audit.Post.create']);
+ * ```
+ */
+export const createInMemoryEventBroker = (): InMemoryEventBroker => {
+  const events: AuditCloudEvent[] = [];
+  const handlers = new Set<(event: AuditCloudEvent) => void | Promise<void>>();
+
+  return {
+    events,
+    publish: async (published) => {
+      for (const event of published) {
+        events.push(event);
+        for (const handler of handlers) {
+          await handler(event);
+        }
+      }
+    },
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    clear: () => {
+      events.length = 0;
+    },
+  };
+};
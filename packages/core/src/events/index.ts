@@ -0,0 +1,17 @@
+/**
+ * Audit Events Module
+ *
+ * Publishes audit logs to message brokers as CloudEvents.
+ *
+ * @module events
+ */
+
+export { createEventPublishingWriter, createInMemoryEventBroker, toCloudEvent } from './cloudevents.js';
+export type {
+  AuditCloudEvent,
+  CloudEventExtensionValue,
+  CloudEventOptions,
+  EventPublisher,
+  EventPublishingWriterOptions,
+  InMemoryEventBroker,
+} from './types.js';
@@ -0,0 +1,112 @@
+/**
+ * Audit Event Type Definitions
+ *
+ * @module events/types
+ */
+
+import type { AuditLogData } from '../domain/audit-log-types.js';
+import type { AuditContext } from '../types.js';
+
+/**
+ * CloudEvents 1.0 envelope (structured JSON mode) carrying one audit log
+ *
+ * @remarks
+ * `data` is the audit log serialized for JSON (dates as ISO strings, BigInt as strings).
+ * Extension attributes (`operationid`, `transactionid` and custom ones) are top-level,
+ * lowercase alphanumeric keys as required by the specification.
+ *
+ * @see https://github.com/cloudevents/spec/blob/v1.0.2/cloudevents/spec.md
+ */
+export interface AuditCloudEvent {
+  specversion: '1.0';
+  /** Unique per event; consumers deduplicate on `source` + `id` */
+  id: string;
+  /** URI reference identifying the producing service */
+  source: string;
+  /** `<typePrefix>.<entityType>.<action>`, e.g. `prisma-audit.Post.update` */
+  type: string;
+  /** `<aggregateType>/<aggregateId>`, e.g. `User/user-1` */
+  subject: string;
+  /** Audit log `createdAt` as an ISO 8601 string */
+  time: string;
+  datacontenttype: 'application/json';
+  data: Record<string, unknown>;
+  [extension: string]: unknown;
+}
+
+/**
+ * Value allowed for a CloudEvents extension attribute
+ */
+export type CloudEventExtensionValue = string | number | boolean;
+
+/**
+ * Options for mapping audit logs to CloudEvents
+ */
+export interface CloudEventOptions {
+  /** Event `source`, e.g. `'//billing.example.com'` or `'urn:service:billing'` */
+  source: string;
+  /** First segment of the event `type`. Default: `'prisma-audit'` */
+  typePrefix?: string;
+  /** Event id generator. Default: random UUID */
+  generateId?: (log: AuditLogData) => string;
+  /**
+   * Additional extension attributes per event
+   *
+   * Keys must be lowercase letters and digits (at most 20 characters).
+   */
+  extensions?: (log: AuditLogData, context: AuditContext) => Record<string, CloudEventExtensionValue>;
+}
+
+/**
+ * Sends audit events to a message broker
+ *
+ * Adapt your Kafka, NATS or Redis client by implementing `publish`. It should resolve once
+ * the broker acknowledged every event, and reject otherwise.
+ *
+ * @example
+ * ```typescript
+ * const kafkaPublisher: EventPublisher = {
+ *   publish: async (events) => {
+ *     await producer.send({
+ *       topic: 'audit-events',
+ *       messages: events.map((event) => ({ key: event.subject, value: JSON.stringify(event) })),
+ *     });
+ *   },
+ * };
+ * ```
+ */
+export interface EventPublisher {
+  publish(events: AuditCloudEvent[]): Promise<void>;
+}
+
+/**
+ * Options for the event-publishing writer
+ */
+export interface EventPublishingWriterOptions extends CloudEventOptions {
+  publisher: EventPublisher;
+  /**
+   * Whether to write the logs through `defaultWrite` before publishing. Default: true
+   *
+   * @remarks
+   * Events are published only after the write succeeded, so every event refers to a stored
+   * audit log. Set to false to publish without storing.
+   */
+  database?: boolean;
+}
+
+/**
+ * In-memory broker for tests and local development
+ */
+export interface InMemoryEventBroker extends EventPublisher {
+  /** Every event published so far, in order */
+  readonly events: readonly AuditCloudEvent[];
+  /**
+   * Receive events as they are published
+   *
+   * @param handler - Called once per event; a rejection fails the `publish` call
+   * @returns Function removing the subscription
+   */
+  subscribe(handler: (event: AuditCloudEvent) => void | Promise<void>): () => void;
+  /** Forget the recorded events (subscriptions are kept) */
+  clear(): void;
+}
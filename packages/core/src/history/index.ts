@@ -0,0 +1,19 @@
+/**
+ * Audit History Module
+ *
+ * Read-side utilities that interpret stored audit logs.
+ *
+ * @module history
+ */
+
+export { changeKey, collapseFanOut, reconstructEntityState } from './reconstruct.js';
+export { buildAggregateTimeline } from './timeline.js';
+export type {
+  AggregateTimeline,
+  AggregateTimelineEvent,
+  AggregateTimelineOptions,
+  EntityReconstruction,
+  ReconstructEntityOptions,
+  ReconstructionGap,
+  TimelineEntityChange,
+} from './types.js';
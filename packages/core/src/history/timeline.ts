@@ -0,0 +1,142 @@
+/**
+ * Aggregate Timeline
+ *
+ * Turns the audit logs recorded for one aggregate root into an ordered event stream.
+ * Logs from the root entity, its nested writes and child entities linked through `to()`
+ * are merged, duplicate fan-out rows are collapsed, and changes originating from the
+ * same operation (by `operationId`, or by heuristic for logs without one) are grouped into a single event.
+ *
+ * @module history/timeline
+ *
+ * @example
+ * ```typescript
+ * const logs = await prisma.auditLog.findMany({
+ *   where: { aggregateType: 'User', aggregateId: 'user-1' },
+ * });
+ *
+ * const timeline = buildAggregateTimeline(logs, { aggregateType: 'User', aggregateId: 'user-1' });
+ * for (const event of timeline.events) {
+ *   console.log(event.occurredAt, event.actor.id, event.changes.map((c) => `${c.action} ${c.entityType}`));
+ * }
+ * ```
+ */
+
+import { AUDIT_ACTION } from '../constants.js';
+import type { AuditLogData } from '../domain/audit-log-types.js';
+import { getEncryptedColumns } from '../encryption/audit-log.js';
+import { safeStringify } from '../utils/serialization.js';
+import { changeKey, collapseFanOut } from './reconstruct.js';
+import type { AggregateTimeline, AggregateTimelineEvent, AggregateTimelineOptions } from './types.js';
+
+const DEFAULT_OPERATION_WINDOW_MS = 1000;
+
+/** @internal */
+const entityChangeKey = (log: AuditLogData): string => `${log.entityType}:${log.entityId}:${changeKey(log)}`;
+
+/** @internal */
+const originKey = (log: AuditLogData): string =>
+  `${log.actorCategory}:${log.actorType}:${log.actorId}:${log.impersonatorId ?? ''}:${log.onBehalfOfId ?? ''}:${safeStringify(log.requestContext)}`;
+
+/**
+ * Whether a log without an operation ID continues the operation of the previous one
+ *
+ * @remarks
+ * Logs recorded without operation IDs are grouped when they are consecutive and share
+ * the same actor, request context and time window.
+ *
+ * @internal
+ */
+const isSameOrigin = (previous: AuditLogData | undefined, log: AuditLogData, windowMs: number): boolean =>
+  previous !== undefined &&
+  !previous.operationId &&
+  originKey(previous) === originKey(log) &&
+  log.createdAt.getTime() - previous.createdAt.getTime() <= windowMs;
+
+/** @internal */
+const toEvent = (log: AuditLogData): AggregateTimelineEvent => ({
+  occurredAt: log.createdAt,
+  operationId: log.operationId ?? null,
+  transactionId: log.transactionId ?? null,
+  actor: {
+    category: log.actorCategory,
+    type: log.actorType,
+    id: log.actorId,
+    context: log.actorContext,
+  },
+  delegationContext: log.delegationContext ?? null,
+  requestContext: log.requestContext,
+  aggregateContext: log.aggregateContext,
+  changes: [],
+});
+
+/**
+ * Build the timeline of one aggregate root from its audit logs
+ *
+ * @param logs - Audit logs in any order; rows for other aggregate roots and `read` logs are ignored
+ * @param root - Aggregate root to build the timeline for
+ * @param options - Timeline options
+ * @returns Ordered event stream for the aggregate root
+ *
+ * @remarks
+ * Changes are grouped into one event when they share the same `operationId`, even when
+ * changes of concurrent operations are interleaved with them. Logs recorded without one
+ * are grouped when they are consecutive, share the same actor and request
+ * context, and are at most `operationWindowMs` apart.
+ */
+export const buildAggregateTimeline = <TAggregateType extends string>(
+  logs: readonly AuditLogData[],
+  root: { aggregateType: TAggregateType; aggregateId: string },
+  options: AggregateTimelineOptions = {},
+): AggregateTimeline<TAggregateType> => {
+  const windowMs = options.operationWindowMs ?? DEFAULT_OPERATION_WINDOW_MS;
+  const rootLogs = logs.filter(
+    (log) =>
+      log.action !== AUDIT_ACTION.READ &&
+      log.aggregateType === root.aggregateType &&
+      log.aggregateId === root.aggregateId,
+  );
+  const changes = collapseFanOut(rootLogs, entityChangeKey);
+
+  const events: AggregateTimelineEvent[] = [];
+  const eventsByOperation = new Map<string, AggregateTimelineEvent>();
+  let current: AggregateTimelineEvent | undefined;
+  let previous: AuditLogData | undefined;
+
+  for (const log of changes) {
+    // Recorded operation IDs are authoritative, also when concurrent operations interleave
+    const started = log.operationId
+      ? eventsByOperation.get(log.operationId)
+      : isSameOrigin(previous, log, windowMs)
+        ? current
+        : undefined;
+    current = started ?? toEvent(log);
+    if (!started) {
+      events.push(current);
+      if (log.operationId) {
+        eventsByOperation.set(log.operationId, current);
+      }
+    }
+
+    current.aggregateContext = log.aggregateContext;
+    current.changes.push({
+      entityCategory: log.entityCategory,
+      entityType: log.entityType,
+      entityId: log.entityId,
+      entityContext: log.entityContext,
+      action: log.action,
+      before: log.before,
+      after: log.after,
+      changes: log.changes,
+      createdAt: log.createdAt,
+      isRoot: log.entityType === root.aggregateType && String(log.entityId) === root.aggregateId,
+      encryptedColumns: getEncryptedColumns(log),
+    });
+    previous = log;
+  }
+
+  return {
+    aggregateType: root.aggregateType,
+    aggregateId: root.aggregateId,
+    events: options.order === 'desc' ? events.reverse() : events,
+  };
+};
@@ -0,0 +1,126 @@
+/**
+ * Audit History Type Definitions
+ *
+ * @module history/types
+ */
+
+import type { ActorId, EntityId, TraceId } from '../domain/branded-types.js';
+import type { EncryptedAuditColumn } from '../encryption/types.js';
+
+/**
+ * Reason a reconstructed state may not match the real historical state
+ *
+ * @remarks
+ * - `MissingCreate`: The trail does not start with a create, so fields never touched
+ *   by a later update are unknown.
+ * - `MissingHistory`: A log's `before` snapshot disagrees with the replayed state,
+ *   meaning at least one write was not audited (e.g. dropped by `performance.sampling`,
+ *   written outside the extension, or lost by a failed fire-and-forget write).
+ * - `RedactedField`: The field value was redacted or masked (`entityContext.redactedFields`) at
+ *   write time and cannot be recovered.
+ * - `ExcludedField`: The field is excluded from diffing, so updates touching only
+ *   this field were never logged and its value may be stale.
+ * - `EncryptedPayload`: A log's `columns` are still encrypted, because no key store was
+ *   given or the key was destroyed. The log is replayed without them.
+ */
+export type ReconstructionGap =
+  | { _tag: 'MissingCreate'; firstLogAt: Date }
+  | { _tag: 'MissingHistory'; detectedAt: Date; fields: string[] }
+  | { _tag: 'RedactedField'; field: string }
+  | { _tag: 'ExcludedField'; field: string }
+  | { _tag: 'EncryptedPayload'; detectedAt: Date; columns: EncryptedAuditColumn[] };
+
+/**
+ * Options for point-in-time reconstruction
+ */
+export interface ReconstructEntityOptions {
+  /** Point in time to reconstruct (inclusive). Default: all logs */
+  at?: Date;
+  /** Fields excluded from diffing for this entity (`diffing.excludeFields` / `defineEntity({ excludeFields })`) */
+  excludeFields?: readonly string[];
+}
+
+/**
+ * Result of replaying an entity's audit trail
+ */
+export interface EntityReconstruction {
+  /** Reconstructed state, or null if the entity did not exist (or was deleted) at `asOf` */
+  state: Record<string, unknown> | null;
+  /** Entity status at `asOf` */
+  status: 'exists' | 'deleted' | 'unknown';
+  /** Point in time the state was reconstructed for */
+  asOf: Date;
+  /** Timestamp of the last applied log, or null if none applied */
+  lastModifiedAt: Date | null;
+  /** Number of distinct changes replayed (fan-out rows for multiple aggregates count once) */
+  appliedChanges: number;
+  /** Detected gaps; empty when the reconstruction is fully trustworthy */
+  gaps: ReconstructionGap[];
+  /** True when no gaps were detected */
+  isComplete: boolean;
+}
+
+/**
+ * One entity change inside an aggregate timeline event
+ */
+export interface TimelineEntityChange {
+  entityCategory: string;
+  entityType: string;
+  entityId: EntityId;
+  entityContext: unknown;
+  action: string;
+  before: unknown;
+  after: unknown;
+  changes: unknown;
+  createdAt: Date;
+  /** True when the changed entity is the aggregate root itself */
+  isRoot: boolean;
+  /** `before`/`after`/`changes` columns still encrypted (no key store given, or the key was destroyed) */
+  encryptedColumns: EncryptedAuditColumn[];
+}
+
+/**
+ * Entity changes on an aggregate that originate from one operation
+ */
+export interface AggregateTimelineEvent {
+  /** Timestamp of the first change in the operation */
+  occurredAt: Date;
+  /** Operation ID shared by the changes, or null for logs recorded without one */
+  operationId: TraceId | null;
+  /** Enclosing interactive transaction, or null */
+  transactionId: TraceId | null;
+  actor: {
+    category: string;
+    type: string;
+    id: ActorId;
+    context: unknown;
+  };
+  /** Impersonator, principal and delegation chain of the operation (`DelegationContext`), or null */
+  delegationContext: unknown;
+  requestContext: unknown;
+  /** Aggregate context recorded with the latest change in the operation */
+  aggregateContext: unknown;
+  changes: TimelineEntityChange[];
+}
+
+/**
+ * Ordered event stream for one aggregate root
+ */
+export interface AggregateTimeline<TAggregateType extends string = string> {
+  aggregateType: TAggregateType;
+  aggregateId: string;
+  events: AggregateTimelineEvent[];
+}
+
+/**
+ * Options for building an aggregate timeline
+ */
+export interface AggregateTimelineOptions {
+  /**
+   * Maximum gap between consecutive changes by the same actor and request
+   * for them to be grouped into one event. Only used for logs without `operationId`. Default: 1000
+   */
+  operationWindowMs?: number;
+  /** Event order. Default: 'asc' */
+  order?: 'asc' | 'desc';
+}
@@ -30,6 +30,7 @@ export type {
   GetModelType,
   LoggableEntity,
   PrismaModelNames,
+  ReadAuditConfig,
   ResolvedId,
   TypedAggregateMapping,
 } from './aggregate/types.js';
@@ -45,9 +46,10 @@ export type {
   SerializationConfig,
 } from './config.types.js';
 // Constants
-export type { AuditAction } from './constants.js';
-export { AUDIT_ACTION, DEFAULTS, SUPPORTED_OPERATIONS } from './constants.js';
+export type { AuditAction, AuditLogAction, ReadOperation } from './constants.js';
+export { AUDIT_ACTION, DEFAULTS, READ_OPERATIONS, SUPPORTED_OPERATIONS } from './constants.js';
 // Context Provider
+export type { AsyncLocalStorageAuditContextProvider } from './context-provider.js';
 export { createAsyncLocalStorageProvider } from './context-provider.js';
 // Domain - Audit Log Types
 export type { AuditLogData, AuditLogInput } from './domain/audit-log-types.js';
@@ -74,8 +76,35 @@ export {
 // Domain - Smart Constructors
 export type { Result, ValidationError } from './domain/smart-constructors.js';
 export { createAuditLogData, failure, success } from './domain/smart-constructors.js';
+// Encryption
+export type {
+  AuditEncryptionConfig,
+  AuditKeyStore,
+  DataKey,
+  DecryptAuditLogOptions,
+  EncryptableAuditLog,
+  EncryptedAuditColumn,
+  EncryptedAuditPayload,
+  InMemoryKeyStore,
+  InMemoryKeyStoreOptions,
+  WrappedDataKey,
+} from './encryption/index.js';
+export {
+  createInMemoryKeyStore,
+  decryptAuditLog,
+  decryptPayload,
+  ENCRYPTED_AUDIT_COLUMNS,
+  encryptAuditLog,
+  encryptPayload,
+  generateDataKeyMaterial,
+  getEncryptedColumns,
+  isEncryptedPayload,
+  reencryptAuditLog,
+  unwrapDataKey,
+  wrapDataKey,
+} from './encryption/index.js';
 // Enrichment - Functions
-export { enrichActorContext } from './enrichment/actor.js';
+export { enrichActorContext, enrichDelegationContext, toDelegationContext } from './enrichment/actor.js';
 export { batchEnrichAggregateContexts, batchEnrichEntityContexts } from './enrichment/batch.js';
 export { executeBatchEnricherSafely, executeEnricherSafely } from './enrichment/executor.js';
 // Enrichment - Types
@@ -85,6 +114,46 @@ export type {
   EnricherErrorStrategy,
   EntityEnricherConfig,
 } from './enrichment/types.js';
+// Events
+export type {
+  AuditCloudEvent,
+  CloudEventExtensionValue,
+  CloudEventOptions,
+  EventPublisher,
+  EventPublishingWriterOptions,
+  InMemoryEventBroker,
+} from './events/index.js';
+export { createEventPublishingWriter, createInMemoryEventBroker, toCloudEvent } from './events/index.js';
+// History
+export type {
+  AggregateTimeline,
+  AggregateTimelineEvent,
+  AggregateTimelineOptions,
+  EntityReconstruction,
+  ReconstructEntityOptions,
+  ReconstructionGap,
+  TimelineEntityChange,
+} from './history/index.js';
+export { buildAggregateTimeline, changeKey, collapseFanOut, reconstructEntityState } from './history/index.js';
+// Integrity
+export type {
+  ChainAnchor,
+  ChainedAuditLog,
+  ChainHead,
+  ChainHeadReader,
+  ChainLink,
+  ChainViolation,
+  HashChainOptions,
+  HashChainScope,
+} from './integrity/index.js';
+export {
+  computeAuditLogHash,
+  createChainVerifier,
+  createHashChainExecutor,
+  GLOBAL_CHAIN_KEY,
+  getChainKey,
+  toChainAnchors,
+} from './integrity/index.js';
 // Interfaces
 export type {
   CreateArgs,
@@ -99,6 +168,39 @@ export type {
   UniqueConstraint,
   UpdateArgs,
 } from './interfaces/index.js';
+// Middleware
+export type {
+  ActorExtractor,
+  ApiKeyExtractorOptions,
+  AuditHttpRequest,
+  AuditMiddlewareOptions,
+  ExpressRequestLike,
+  FastifyRequestLike,
+  HonoContextLike,
+  JwtClaimExtractorOptions,
+  KoaContextLike,
+  NodeRequestLike,
+  RequestMetadataOptions,
+  SessionExtractorOptions,
+  TrpcAuditMiddlewareOptions,
+  TrpcMiddlewareParams,
+} from './middleware/index.js';
+export {
+  ANONYMOUS_ACTOR,
+  collectRequestMetadata,
+  createAuditContextResolver,
+  createExpressAuditMiddleware,
+  createFastifyAuditHook,
+  createHonoAuditMiddleware,
+  createKoaAuditMiddleware,
+  createTrpcAuditMiddleware,
+  DEFAULT_DENIED_HEADERS,
+  decodeJwtPayload,
+  fromApiKeyHeader,
+  fromJwtClaim,
+  fromSession,
+  toAuditHttpRequest,
+} from './middleware/index.js';
 // State Resolution
 export { applyRelationConfig } from './state-resolution/apply-relation-config.js';
 export { resolveBeforeAndAfterStates } from './state-resolution/index.js';
@@ -129,7 +231,14 @@ export {
   hasPreFetchedRecord,
 } from './types/pre-fetch.js';
 // Types
-export type { AuditActor, AuditContext, AuditContextProvider } from './types.js';
+export type {
+  AuditActor,
+  AuditContext,
+  AuditContextProvider,
+  DelegatedActor,
+  DelegationContext,
+  MissingContextMode,
+} from './types.js';
 // Utils - Debug
 export { coreLog, nestedLog, preFetchLog } from './utils/debug.js';
 // Utils - Diff Calculator
@@ -152,7 +261,7 @@ export {
 } from './utils/error-handler.js';
 // Utils - ID Generator
 export type { IdFieldInfo, IdGenerator } from './utils/id-generator.js';
-export { ensureIds, getIdFieldInfo, getIdGenerator, ID_GENERATORS } from './utils/id-generator.js';
+export { ensureIds, generateTraceId, getIdFieldInfo, getIdGenerator, ID_GENERATORS } from './utils/id-generator.js';
 // Utils - Nested Operations
 export type {
   NestedOperationInfo,
@@ -180,11 +289,28 @@ export {
   preFetchBeforeState,
 } from './utils/pre-fetch.js';
 // Utils - Redaction
-export type { RedactConfig, RedactedFieldInfo, RedactMaskFn, Redactor } from './utils/redaction.js';
+export type {
+  EmailRedactStrategy,
+  EntityRedactConfig,
+  HashRedactStrategy,
+  MaskedPathHandler,
+  PartialRedactStrategy,
+  RedactConfig,
+  RedactedFieldInfo,
+  RedactMaskFn,
+  Redactor,
+  RedactStrategy,
+  TruncateRedactStrategy,
+} from './utils/redaction.js';
 export {
   createRedactor,
   getDefaultSensitiveFields,
+  getRedactedFieldPaths,
+  hashRedactedValue,
+  isRedactedFieldInfo,
   isSensitiveField,
+  mergeRedactConfig,
+  REDACTED_FIELDS_KEY,
   redactSensitiveData,
 } from './utils/redaction.js';
 // Utils - Relation Configuration
@@ -197,24 +323,33 @@ export { safeStringify, serializeForAuditJson, UNHANDLED } from './utils/seriali
 export {
   clearPendingWrites,
   createBaseClientWriteFn,
+  createBufferedWriter,
   createDefaultWriteFn,
   createWriteStrategySelector,
   flushPendingWrites,
   getPendingWriteCount,
+  writeBuffered,
   writeDeferredInTransaction,
   writeFireAndForget,
   writeSynchronously,
+  writeToOutbox,
 } from './write-strategies/index.js';
 // Write Strategies - Interfaces
 export type {
   DbClientManager,
   DefaultWriteFn,
+  OutboxWriter,
   WriteExecutor,
 } from './write-strategies/interfaces.js';
 // Write Strategies - Types
 export type {
+  BufferedResult,
+  BufferedWriter,
+  BufferedWriterOptions,
+  BufferedWriterStats,
   DeferredResult,
   ImmediateResult,
+  OutboxedResult,
   SkippedResult,
   WriteFn,
   WriteResult,
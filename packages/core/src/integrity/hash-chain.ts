@@ -0,0 +1,440 @@
+/**
+ * Audit Log Hash Chain
+ *
+ * Makes audit logs tamper-evident: every row stores a SHA-256 hash over a canonical
+ * serialization of its content and the hash of the previous row in its chain.
+ * Editing a row invalidates its own hash, and deleting or rewriting rows breaks the
+ * sequence or the link of the following row.
+ *
+ * @module integrity/hash-chain
+ */
+
+import { createHash } from 'node:crypto';
+import type { AuditLogData, AuditLogInput } from '../domain/audit-log-types.js';
+import { serializeForAuditJson } from '../utils/serialization.js';
+import type { WriteExecutor } from '../write-strategies/interfaces.js';
+import type {
+  ChainAnchor,
+  ChainedAuditLog,
+  ChainHead,
+  ChainLink,
+  ChainViolation,
+  HashChainOptions,
+  HashChainScope,
+} from './types.js';
+
+/**
+ * Chain key used by the `global` scope
+ */
+export const GLOBAL_CHAIN_KEY = 'global';
+
+/**
+ * Audit log fields covered by the row hash
+ *
+ * @internal
+ */
+const HASHED_FIELDS = [
+  'actorCategory',
+  'actorType',
+  'actorId',
+  'actorContext',
+  'entityCategory',
+  'entityType',
+  'entityId',
+  'entityContext',
+  'aggregateCategory',
+  'aggregateType',
+  'aggregateId',
+  'aggregateContext',
+  'action',
+  'before',
+  'after',
+  'changes',
+  'requestContext',
+  'createdAt',
+  'operationId',
+  'transactionId',
+] as const satisfies readonly (keyof AuditLogInput)[];
+
+/**
+ * Optional audit log fields covered by the row hash only when set
+ *
+ * @remarks
+ * Leaving them out when absent keeps the hashes of rows written before they existed valid.
+ *
+ * @internal
+ */
+const OPTIONAL_HASHED_FIELDS = [
+  'impersonatorCategory',
+  'impersonatorType',
+  'impersonatorId',
+  'onBehalfOfCategory',
+  'onBehalfOfType',
+  'onBehalfOfId',
+  'delegationContext',
+] as const satisfies readonly (keyof AuditLogInput)[];
+
+/**
+ * JSON with object keys sorted, so the output does not depend on key order
+ *
+ * @remarks
+ * JSON columns do not preserve key order (e.g. PostgreSQL `jsonb`), so the hash must
+ * not depend on it. Properties with `undefined` values are skipped, as in `JSON.stringify`.
+ *
+ * @internal
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Get the chain a log belongs to
+ *
+ * @example
+ * ```typescript
+ * getChainKey(log, 'aggregate'); // => 'User:user-1'
+ * getChainKey(log, 'global'); // => 'global'
+ * ```
+ */
+export const getChainKey = (
+  log: Pick<AuditLogInput, 'aggregateType' | 'aggregateId'>,
+  scope: HashChainScope,
+): string => (scope === 'global' ? GLOBAL_CHAIN_KEY : `${log.aggregateType}:${log.aggregateId}`);
+
+/**
+ * Compute the hash of an audit log row
+ *
+ * The payload is the row's content (serialized with `serializeForAuditJson`, missing values
+ * as null) plus its chain key, sequence and previous hash, so a row cannot be moved to a
+ * different position without changing its hash.
+ *
+ * @param log - Audit log as written, or as read back from storage
+ * @param link - Position of the row in its chain
+ * @returns SHA-256 hex digest
+ */
+export const computeAuditLogHash = (log: AuditLogInput, link: Omit<ChainLink, 'hash'>): string => {
+  const payload: Record<string, unknown> = {
+    chainKey: link.chainKey,
+    chainSequence: link.chainSequence,
+    previousHash: link.previousHash,
+  };
+  for (const field of HASHED_FIELDS) {
+    payload[field] = log[field] ?? null;
+  }
+  for (const field of OPTIONAL_HASHED_FIELDS) {
+    if (log[field] != null) {
+      payload[field] = log[field];
+    }
+  }
+  return createHash('sha256')
+    .update(canonicalJson(serializeForAuditJson(payload)))
+    .digest('hex');
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Link a log onto a chain head
+ *
+ * @internal
+ */
+const linkLog = (log: AuditLogData, chainKey: string, head: ChainHead | undefined): AuditLogData & ChainLink => {
+  const link = {
+    chainKey,
+    chainSequence: (head?.chainSequence ?? 0) + 1,
+    previousHash: head?.hash ?? null,
+  };
+  return { ...log, ...link, hash: computeAuditLogHash(log, link) };
+};
+
+/**
+ * Link logs onto their chain heads
+ *
+ * @internal
+ */
+const linkLogs = async (
+  logs: AuditLogData[],
+  readHead: (chainKey: string) => Promise<ChainHead | undefined>,
+  scope: HashChainScope,
+): Promise<(AuditLogData & ChainLink)[]> => {
+  const heads = new Map<string, ChainHead | undefined>();
+  const chained: (AuditLogData & ChainLink)[] = [];
+
+  for (const log of logs) {
+    const chainKey = getChainKey(log, scope);
+    if (!heads.has(chainKey)) {
+      heads.set(chainKey, await readHead(chainKey));
+    }
+    const row = linkLog(log, chainKey, heads.get(chainKey));
+    chained.push(row);
+    heads.set(chainKey, row);
+  }
+
+  return chained;
+};
+
+/**
+ * Lock that serializes tasks per key
+ *
+ * All keys of a task are taken at once, so tasks over overlapping keys cannot deadlock
+ * each other.
+ *
+ * @internal
+ */
+const createKeyedLock = () => {
+  const tails = new Map<string, Promise<void>>();
+
+  return <T>(keys: readonly string[], task: () => Promise<T>): Promise<T> => {
+    const run = Promise.all(keys.map((key) => tails.get(key))).then(task);
+    const done = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    for (const key of keys) {
+      tails.set(key, done);
+    }
+    void done.then(() => {
+      for (const key of keys) {
+        if (tails.get(key) === done) {
+          tails.delete(key);
+        }
+      }
+    });
+    return run;
+  };
+};
+
+/**
+ * Chain locks of writes outside transactions, shared by every executor in the process
+ *
+ * @internal
+ */
+const sharedLock = createKeyedLock();
+
+/**
+ * Chain locks per transactional client, shared by every executor writing through it
+ *
+ * @internal
+ */
+const transactionLocks = new WeakMap<object, ReturnType<typeof createKeyedLock>>();
+
+/**
+ * Wrap a write executor so every written log is linked into its hash chain
+ *
+ * @remarks
+ * Linking happens when the logs are actually persisted, not when they are built, so the
+ * chain follows write order for all write strategies: deferred writes are linked after the
+ * transaction commits, and logs of rolled-back transactions never take a sequence number.
+ *
+ * Writes are serialized per chain key across all executors of the process, so e.g. the
+ * extension and an outbox relay never race each other for a chain head. Each write reads
+ * the chain head from storage with the client it writes with. A unique index on (`chainKey`, `chainSequence`) turns
+ * races with other writers into failed inserts instead of forked chains:
+ * - Outside transactions, writes wait for earlier in-process writes to the same chains.
+ *   Rows are inserted one at a time and re-linked onto the new head on conflicts (up to
+ *   `maxAttempts`), e.g. when another process appended to the chain.
+ * - Transactional writes only wait for earlier writes of the same transaction. Waiting for
+ *   a write of another transaction could deadlock when that transaction's insert is blocked
+ *   by this transaction's uncommitted row. A conflict fails the write (and the transaction),
+ *   since the head of a chain another transaction holds cannot be read before it commits.
+ *
+ * @example
+ * ```typescript
+ * const executor = createHashChainExecutor(prismaWriteExecutor, {
+ *   scope: 'aggregate',
+ *   readHead: async (client, modelName, chainKey) => readLatestChainRow(client, modelName, chainKey),
+ *   isTransactional: (client) => !('$transaction' in (client as object)),
+ *   isConflict: (error) => (error as { code?: string }).code === 'P2002',
+ * });
+ * ```
+ */
+export const createHashChainExecutor = (executor: WriteExecutor, options: HashChainOptions): WriteExecutor => {
+  const { scope, isTransactional, isConflict, maxAttempts = DEFAULT_MAX_ATTEMPTS } = options;
+
+  const lockFor = (client: unknown): ReturnType<typeof createKeyedLock> => {
+    if (!isTransactional?.(client) || typeof client !== 'object' || client === null) {
+      return sharedLock;
+    }
+    const lock = transactionLocks.get(client) ?? createKeyedLock();
+    transactionLocks.set(client, lock);
+    return lock;
+  };
+
+  const writeRow = async (
+    client: unknown,
+    modelName: string,
+    log: AuditLogData,
+    heads: Map<string, ChainHead | undefined>,
+  ): Promise<void> => {
+    const chainKey = getChainKey(log, scope);
+    for (let attempt = 1; ; attempt++) {
+      if (!heads.has(chainKey)) {
+        heads.set(chainKey, await options.readHead(client, modelName, chainKey));
+      }
+      const row = linkLog(log, chainKey, heads.get(chainKey));
+      try {
+        await executor.write(client, modelName, [row]);
+        heads.set(chainKey, row);
+        return;
+      } catch (error) {
+        if (attempt >= maxAttempts || !isConflict?.(error)) {
+          throw error;
+        }
+        heads.delete(chainKey);
+      }
+    }
+  };
+
+  const writeRows = async (client: unknown, modelName: string, logs: AuditLogData[]): Promise<void> => {
+    if (isTransactional?.(client)) {
+      // Rows of a failed transactional write are rolled back together, so they can be written in one batch
+      const chained = await linkLogs(logs, (chainKey) => options.readHead(client, modelName, chainKey), scope);
+      await executor.write(client, modelName, chained);
+      return;
+    }
+    const heads = new Map<string, ChainHead | undefined>();
+    for (const log of logs) {
+      await writeRow(client, modelName, log, heads);
+    }
+  };
+
+  return {
+    write: async (client: unknown, modelName: string, logs: AuditLogData[]): Promise<void> => {
+      if (logs.length === 0) {
+        return;
+      }
+      const chainKeys = [...new Set(logs.map((log) => getChainKey(log, scope)))];
+      await lockFor(client)(chainKeys, () => writeRows(client, modelName, logs));
+    },
+  };
+};
+
+/**
+ * Describe deleted chain rows as anchors, one per run of consecutive sequences
+ *
+ * @param links - Chain columns of the deleted rows, in any order
+ * @returns Anchors to keep for verification (see {@link createChainVerifier})
+ *
+ * @example
+ * ```typescript
+ * toChainAnchors([row1, row2, row4]);
+ * // => [{ chainKey, fromSequence: 1, toSequence: 2, ... }, { chainKey, fromSequence: 4, toSequence: 4, ... }]
+ * ```
+ */
+export const toChainAnchors = (links: readonly ChainLink[]): ChainAnchor[] => {
+  const sorted = [...links].sort((a, b) =>
+    a.chainKey === b.chainKey ? a.chainSequence - b.chainSequence : a.chainKey < b.chainKey ? -1 : 1,
+  );
+  const anchors: ChainAnchor[] = [];
+  for (const link of sorted) {
+    const last = anchors[anchors.length - 1];
+    if (last?.chainKey === link.chainKey && last.toSequence + 1 === link.chainSequence) {
+      last.toSequence = link.chainSequence;
+      last.hash = link.hash;
+    } else {
+      anchors.push({
+        chainKey: link.chainKey,
+        fromSequence: link.chainSequence,
+        toSequence: link.chainSequence,
+        previousHash: link.previousHash,
+        hash: link.hash,
+      });
+    }
+  }
+  return anchors;
+};
+
+/** Position a row is expected to link onto */
+type ExpectedHead = { chainSequence: number; hash: string | null };
+
+/**
+ * Create a verifier that checks chained rows one at a time
+ *
+ * Rows must be passed grouped by `chainKey` and in ascending `chainSequence` order.
+ *
+ * @param anchors - Runs of rows deleted on purpose; a gap is accepted when anchors cover
+ *   it exactly and link onto the rows on both sides of it
+ * @returns Function returning the first violation found for a row, or undefined if the row is intact
+ *
+ * @example
+ * ```typescript
+ * const verify = createChainVerifier();
+ * for (const row of rowsOrderedByChainAndSequence) {
+ *   const violation = verify(row);
+ *   if (violation) throw new Error(`Audit chain broken: ${violation._tag}`);
+ * }
+ * ```
+ */
+export const createChainVerifier = (
+  anchors: readonly ChainAnchor[] = [],
+): ((row: ChainedAuditLog) => ChainViolation | undefined) => {
+  const anchorsByStart = new Map(anchors.map((anchor) => [`${anchor.chainKey}:${anchor.fromSequence}`, anchor]));
+  let previous: ChainLink | undefined;
+
+  /** Follow anchors from the previous row towards the row; stops where they no longer link */
+  const bridgeGap = (row: ChainedAuditLog, start: ExpectedHead): ExpectedHead => {
+    let head = start;
+    while (head.chainSequence + 1 < row.chainSequence) {
+      const anchor = anchorsByStart.get(`${row.chainKey}:${head.chainSequence + 1}`);
+      if (!anchor || anchor.previousHash !== head.hash || anchor.toSequence >= row.chainSequence) {
+        return start;
+      }
+      head = { chainSequence: anchor.toSequence, hash: anchor.hash };
+    }
+    return head;
+  };
+
+  return (row: ChainedAuditLog): ChainViolation | undefined => {
+    const linked = previous?.chainKey === row.chainKey ? previous : undefined;
+    previous = row;
+    const head = bridgeGap(row, { chainSequence: linked?.chainSequence ?? 0, hash: linked?.hash ?? null });
+
+    const expectedSequence = head.chainSequence + 1;
+    if (row.chainSequence !== expectedSequence) {
+      return {
+        _tag: 'MissingSequence',
+        chainKey: row.chainKey,
+        expectedSequence,
+        actualSequence: row.chainSequence,
+        id: row.id,
+      };
+    }
+
+    const expectedPreviousHash = head.hash;
+    if (row.previousHash !== expectedPreviousHash) {
+      return {
+        _tag: 'BrokenLink',
+        chainKey: row.chainKey,
+        chainSequence: row.chainSequence,
+        expectedPreviousHash,
+        actualPreviousHash: row.previousHash,
+        id: row.id,
+      };
+    }
+
+    const expectedHash = computeAuditLogHash(row, row);
+    if (row.hash !== expectedHash) {
+      return {
+        _tag: 'ModifiedPayload',
+        chainKey: row.chainKey,
+        chainSequence: row.chainSequence,
+        expectedHash,
+        actualHash: row.hash,
+        id: row.id,
+      };
+    }
+
+    return undefined;
+  };
+};
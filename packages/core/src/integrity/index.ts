@@ -0,0 +1,26 @@
+/**
+ * Audit Log Integrity Module
+ *
+ * Tamper-evident hash chains over audit log rows.
+ *
+ * @module integrity
+ */
+
+export {
+  computeAuditLogHash,
+  createChainVerifier,
+  createHashChainExecutor,
+  GLOBAL_CHAIN_KEY,
+  getChainKey,
+  toChainAnchors,
+} from './hash-chain.js';
+export type {
+  ChainAnchor,
+  ChainedAuditLog,
+  ChainHead,
+  ChainHeadReader,
+  ChainLink,
+  ChainViolation,
+  HashChainOptions,
+  HashChainScope,
+} from './types.js';
@@ -0,0 +1,124 @@
+/**
+ * Audit Log Integrity Type Definitions
+ *
+ * @module integrity/types
+ */
+
+import type { AuditLogInput } from '../domain/audit-log-types.js';
+
+/**
+ * How audit logs are partitioned into hash chains
+ *
+ * @remarks
+ * - `aggregate`: One chain per aggregate root (`aggregateType:aggregateId`). Writes to
+ *   different aggregates never contend for the same chain head.
+ * - `global`: A single chain over every audit log row.
+ */
+export type HashChainScope = 'aggregate' | 'global';
+
+/**
+ * Chain columns written alongside each audit log row
+ */
+export interface ChainLink {
+  /** Chain the row belongs to (see {@link HashChainScope}) */
+  chainKey: string;
+  /** Position in the chain, starting at 1 with no gaps */
+  chainSequence: number;
+  /** Hash of the previous row in the chain, or null for the first row */
+  previousHash: string | null;
+  /** SHA-256 hex digest over the row's canonical payload and its link fields */
+  hash: string;
+}
+
+/**
+ * Last row of a chain, used to link the next row
+ */
+export type ChainHead = Pick<ChainLink, 'chainSequence' | 'hash'>;
+
+/**
+ * Reads the current head of a chain from storage
+ *
+ * @param client - Client the logs are written with (transactional or base)
+ * @param auditLogModelName - Audit log model name
+ * @param chainKey - Chain to read
+ * @returns The head, or undefined if the chain has no rows yet
+ */
+export type ChainHeadReader = (
+  client: unknown,
+  auditLogModelName: string,
+  chainKey: string,
+) => Promise<ChainHead | undefined>;
+
+/**
+ * Hash chain configuration
+ */
+export interface HashChainOptions {
+  scope: HashChainScope;
+  readHead: ChainHeadReader;
+  /**
+   * Whether a client is bound to an open transaction
+   *
+   * Writes with such a client only wait for earlier writes of the same transaction.
+   * Default: no client is transactional
+   */
+  isTransactional?: (client: unknown) => boolean;
+  /**
+   * Whether a write failed because another writer took the chain position
+   * (a unique violation on `chainKey`, `chainSequence`). Default: never
+   */
+  isConflict?: (error: unknown) => boolean;
+  /** Attempts per row outside transactions when writes conflict. Default: 3 */
+  maxAttempts?: number;
+}
+
+/**
+ * Run of consecutive rows deleted from a chain on purpose, e.g. by a retention purge
+ *
+ * Lets verification bridge the gap: the run starts right after the row whose hash is
+ * `previousHash`, and the row following it links to `hash`.
+ */
+export interface ChainAnchor {
+  chainKey: string;
+  /** Sequence of the first deleted row */
+  fromSequence: number;
+  /** Sequence of the last deleted row */
+  toSequence: number;
+  /** `previousHash` of the first deleted row */
+  previousHash: string | null;
+  /** `hash` of the last deleted row */
+  hash: string;
+}
+
+/**
+ * Audit log row with its chain columns, as read back for verification
+ */
+export type ChainedAuditLog = AuditLogInput & ChainLink & { id?: string };
+
+/**
+ * Reason a chain failed verification
+ *
+ * @remarks
+ * - `MissingSequence`: The row's sequence is not the successor of the previous row,
+ *   meaning rows were deleted (or a concurrent writer forked the chain).
+ * - `BrokenLink`: The row's `previousHash` does not match the previous row's `hash`,
+ *   meaning the previous row was rewritten together with its hash.
+ * - `ModifiedPayload`: The row's content no longer matches its own `hash`.
+ */
+export type ChainViolation =
+  | { _tag: 'MissingSequence'; chainKey: string; expectedSequence: number; actualSequence: number; id?: string }
+  | {
+      _tag: 'BrokenLink';
+      chainKey: string;
+      chainSequence: number;
+      expectedPreviousHash: string | null;
+      actualPreviousHash: string | null;
+      id?: string;
+    }
+  | {
+      _tag: 'ModifiedPayload';
+      chainKey: string;
+      chainSequence: number;
+      expectedHash: string;
+      actualHash: string;
+      id?: string;
+    };
@@ -43,6 +43,14 @@ export interface RelationField {
   relatedModel: string;
   isList: boolean;
   isRequired: boolean;
+  /** Name shared by both sides of the relation */
+  relationName?: string;
+  /** Foreign key fields on this model (set on the owning side only) */
+  relationFromFields?: string[];
+  /** Referenced fields on the related model (set on the owning side only) */
+  relationToFields?: string[];
+  /** Explicit `onDelete` referential action, e.g. `'Cascade'` or `'SetNull'` */
+  relationOnDelete?: string;
 }
 
 /**
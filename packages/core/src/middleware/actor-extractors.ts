@@ -0,0 +1,119 @@
+/**
+ * Actor Extractors for HTTP Requests
+ *
+ * @module middleware/actor-extractors
+ */
+
+import type { AuditActor } from '../types.js';
+import type {
+  ActorExtractor,
+  ApiKeyExtractorOptions,
+  JwtClaimExtractorOptions,
+  SessionExtractorOptions,
+} from './types.js';
+
+/** @internal */
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
+
+/** @internal */
+const toActorField = (value: unknown): string | undefined =>
+  typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+
+/**
+ * Decode the payload of a JWT without verifying its signature
+ *
+ * @remarks
+ * Only safe when an earlier middleware already verified the token; otherwise any client can
+ * claim to be any actor.
+ *
+ * @returns undefined when the token is not a JWT with a JSON object payload
+ */
+export const decodeJwtPayload = (token: string): Record<string, unknown> | undefined => {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof decoded === 'object' && decoded !== null && !Array.isArray(decoded)
+      ? (decoded as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Take the actor from a claim of the bearer token
+ *
+ * A missing or invalid token yields no actor; rejecting the request is left to the
+ * authentication layer.
+ *
+ * @example
+ * ```typescript
+ * fromJwtClaim({ verify: (token) => verifyAccessToken(token), claim: 'sub', nameClaim: 'name' });
+ * ```
+ */
+export const fromJwtClaim = (options: JwtClaimExtractorOptions): ActorExtractor => {
+  return async (request) => {
+    const token = request.header(options.header ?? 'authorization')?.match(BEARER_PATTERN)?.[1];
+    if (!token) {
+      return undefined;
+    }
+
+    let claims: Record<string, unknown> | undefined;
+    try {
+      claims = await options.verify(token);
+    } catch {
+      return undefined;
+    }
+
+    const id = toActorField(claims?.[options.claim ?? 'sub']);
+    if (!id) {
+      return undefined;
+    }
+    const name = options.nameClaim ? toActorField(claims?.[options.nameClaim]) : undefined;
+    return { category: options.category ?? 'model', type: options.type ?? 'User', id, ...(name && { name }) };
+  };
+};
+
+/**
+ * Take the actor from the user of a server-side session
+ *
+ * @example
+ * ```typescript
+ * // express-session
+ * fromSession({ session: (req) => (req as Request).session.user, nameField: 'email' });
+ * ```
+ */
+export const fromSession = (options: SessionExtractorOptions): ActorExtractor => {
+  return (request) => {
+    const user = options.session(request.raw);
+    const id = toActorField(user?.[options.idField ?? 'id']);
+    if (!id) {
+      return undefined;
+    }
+    const name = options.nameField ? toActorField(user?.[options.nameField]) : undefined;
+    return { category: options.category ?? 'model', type: options.type ?? 'User', id, ...(name && { name }) };
+  };
+};
+
+/**
+ * Take the actor owning the API key of a request header
+ *
+ * @example
+ * ```typescript
+ * fromApiKeyHeader({
+ *   resolve: async (key) => {
+ *     const client = await findApiClientByKeyHash(hash(key));
+ *     return client && { category: 'api', type: 'ApiClient', id: client.id, name: client.name };
+ *   },
+ * });
+ * ```
+ */
+export const fromApiKeyHeader = (options: ApiKeyExtractorOptions): ActorExtractor => {
+  return async (request): Promise<AuditActor | undefined> => {
+    const apiKey = request.header(options.header ?? 'x-api-key');
+    return apiKey ? options.resolve(apiKey) : undefined;
+  };
+};
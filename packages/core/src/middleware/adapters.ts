@@ -0,0 +1,216 @@
+/**
+ * HTTP Framework Middleware Adapters
+ *
+ * Run each request inside `provider.runAsync()` with an audit context built from the request.
+ * The adapters only rely on the shape of each framework's request object, so none of the
+ * frameworks is a dependency.
+ *
+ * @module middleware/adapters
+ */
+
+import type { AuditContext } from '../types.js';
+import { createAuditContextResolver } from './context.js';
+import type { AuditHttpRequest, AuditMiddlewareOptions } from './types.js';
+
+/** Node.js style header map (`IncomingMessage#headers`) */
+type NodeHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Subset of Hono's `Context` used by the middleware
+ */
+export interface HonoContextLike {
+  req: {
+    method: string;
+    path: string;
+    header: (name: string) => string | undefined;
+  };
+  /** Bindings; `@hono/node-server` exposes the Node.js request as `incoming` */
+  env?: unknown;
+}
+
+/**
+ * Node.js based request (Express, Fastify, raw `IncomingMessage`)
+ */
+export interface NodeRequestLike {
+  method?: string;
+  /** Path without query string (Express) */
+  path?: string;
+  /** Request target including the query string */
+  url?: string;
+  /** Request target before router rewrites (Express) */
+  originalUrl?: string;
+  headers: NodeHeaders;
+  /** Client address as resolved by the framework's proxy settings */
+  ip?: string;
+  socket?: { remoteAddress?: string };
+}
+
+/**
+ * Subset of Express' `Request` used by the middleware
+ */
+export interface ExpressRequestLike {
+  method: string;
+  path: string;
+  headers: NodeHeaders;
+  /** Client address honoring Express' `trust proxy` setting */
+  ip?: string;
+  socket?: { remoteAddress?: string };
+}
+
+/**
+ * Subset of Fastify's `FastifyRequest` used by the hook
+ */
+export interface FastifyRequestLike {
+  method: string;
+  url: string;
+  headers: NodeHeaders;
+  /** Client address honoring Fastify's `trustProxy` setting */
+  ip?: string;
+}
+
+/**
+ * Subset of Koa's `Context` used by the middleware
+ */
+export interface KoaContextLike {
+  method: string;
+  path: string;
+  /** Header value, or an empty string when absent */
+  get: (name: string) => string;
+  /** Client address honoring Koa's `proxy` setting */
+  ip?: string;
+}
+
+/** @internal */
+const headerFrom =
+  (headers: NodeHeaders) =>
+  (name: string): string | undefined => {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value.join(', ') : value;
+  };
+
+/**
+ * Build the framework-neutral request of a Node.js based request
+ *
+ * @example
+ * ```typescript
+ * const resolveContext = createAuditContextResolver({ provider });
+ * const context = await resolveContext(toAuditHttpRequest(req));
+ * ```
+ */
+export const toAuditHttpRequest = (req: NodeRequestLike): AuditHttpRequest => {
+  const target = req.originalUrl ?? req.url ?? '/';
+  return {
+    method: req.method ?? 'GET',
+    path: req.path ?? target.split('?')[0] ?? target,
+    header: headerFrom(req.headers),
+    remoteAddress: req.ip ?? req.socket?.remoteAddress,
+    raw: req,
+  };
+};
+
+/** @internal */
+const honoRemoteAddress = (env: unknown): string | undefined =>
+  (env as { incoming?: { socket?: { remoteAddress?: string } } } | undefined)?.incoming?.socket?.remoteAddress;
+
+/**
+ * Create a Hono middleware that runs each request with an audit context
+ *
+ * @example
+ * ```typescript
+ * app.use('*', createHonoAuditMiddleware({
+ *   provider: auditProvider,
+ *   actor: fromJwtClaim({ verify: verifyAccessToken }),
+ * }));
+ * ```
+ */
+export const createHonoAuditMiddleware = (options: AuditMiddlewareOptions) => {
+  const resolveContext = createAuditContextResolver(options);
+
+  return async (c: HonoContextLike, next: () => Promise<void>): Promise<void> => {
+    const context = await resolveContext({
+      method: c.req.method,
+      path: c.req.path,
+      header: (name) => c.req.header(name),
+      remoteAddress: honoRemoteAddress(c.env),
+      raw: c,
+    });
+    return context ? options.provider.runAsync(context, next) : next();
+  };
+};
+
+/**
+ * Create an Express middleware that runs each request with an audit context
+ *
+ * @remarks
+ * Errors of actor extractors are passed to `next(error)`.
+ *
+ * @example
+ * ```typescript
+ * app.use(createExpressAuditMiddleware({
+ *   provider: auditProvider,
+ *   actor: fromSession({ session: (req) => (req as Request).session.user }),
+ * }));
+ * ```
+ */
+export const createExpressAuditMiddleware = (options: AuditMiddlewareOptions) => {
+  const resolveContext = createAuditContextResolver(options);
+
+  return (req: ExpressRequestLike, _res: unknown, next: (error?: unknown) => void): void => {
+    resolveContext(toAuditHttpRequest(req)).then(
+      (context?: AuditContext) => (context ? options.provider.run(context, () => next()) : next()),
+      next,
+    );
+  };
+};
+
+/**
+ * Create a Fastify `preHandler` hook that runs the route handler with an audit context
+ *
+ * @remarks
+ * Register it as `preHandler`: the handler is called from the hook's `done`, so it runs inside
+ * the context. Earlier hooks such as `onRequest` would lose it during body parsing.
+ *
+ * @example
+ * ```typescript
+ * fastify.addHook('preHandler', createFastifyAuditHook({
+ *   provider: auditProvider,
+ *   actor: fromApiKeyHeader({ resolve: findApiClientActor }),
+ * }));
+ * ```
+ */
+export const createFastifyAuditHook = (options: AuditMiddlewareOptions) => {
+  const resolveContext = createAuditContextResolver(options);
+
+  return (request: FastifyRequestLike, _reply: unknown, done: (error?: Error) => void): void => {
+    resolveContext(toAuditHttpRequest(request)).then(
+      (context?: AuditContext) => (context ? options.provider.run(context, () => done()) : done()),
+      (error: unknown) => done(error instanceof Error ? error : new Error(String(error))),
+    );
+  };
+};
+
+/**
+ * Create a Koa middleware that runs downstream middleware with an audit context
+ *
+ * @example
+ * ```typescript
+ * app.use(createKoaAuditMiddleware({
+ *   provider: auditProvider,
+ *   actor: fromSession({ session: (ctx) => (ctx as Context).state.user }),
+ * }));
+ * ```
+ */
+export const createKoaAuditMiddleware = (options: AuditMiddlewareOptions) => {
+  const resolveContext = createAuditContextResolver(options);
+
+  return async (ctx: KoaContextLike, next: () => Promise<unknown>): Promise<void> => {
+    const context = await resolveContext({
+      method: ctx.method,
+      path: ctx.path,
+      header: (name) => ctx.get(name) || undefined,
+      remoteAddress: ctx.ip,
+      raw: ctx,
+    });
+    await (context ? options.provider.runAsync(context, next) : next());
+  };
+};
@@ -0,0 +1,114 @@
+/**
+ * Audit Context Resolution for HTTP Requests
+ *
+ * @module middleware/context
+ */
+
+import type { AuditActor, AuditContext } from '../types.js';
+import type { AuditHttpRequest, AuditMiddlewareOptions, RequestMetadataOptions } from './types.js';
+
+/** Actor of requests no extractor identified */
+export const ANONYMOUS_ACTOR: AuditActor = { category: 'anonymous', type: 'Anonymous', id: 'anonymous' };
+
+/** Headers never copied into request metadata unless `denyHeaders` is overridden */
+export const DEFAULT_DENIED_HEADERS: readonly string[] = [
+  'authorization',
+  'cookie',
+  'proxy-authorization',
+  'set-cookie',
+  'x-api-key',
+];
+
+/** @internal */
+const resolveClientAddress = (request: AuditHttpRequest, trustProxy: boolean): string | undefined => {
+  if (trustProxy) {
+    const forwarded = request.header('x-forwarded-for')?.split(',')[0]?.trim();
+    const forwardedAddress = forwarded || request.header('x-real-ip');
+    if (forwardedAddress) {
+      return forwardedAddress;
+    }
+  }
+  return request.remoteAddress;
+};
+
+/** @internal */
+const collectHeaders = (
+  request: AuditHttpRequest,
+  allowHeaders: readonly string[],
+  denyHeaders: readonly string[],
+): Record<string, string> | undefined => {
+  const denied = new Set(denyHeaders.map((name) => name.toLowerCase()));
+  const headers: Record<string, string> = {};
+  for (const name of allowHeaders.map((allowed) => allowed.toLowerCase())) {
+    const value = denied.has(name) ? undefined : request.header(name);
+    if (value !== undefined) {
+      headers[name] = value;
+    }
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+};
+
+/**
+ * Collect the request metadata stored in `AuditContext.request`
+ *
+ * Stores `ipAddress`, `userAgent`, `path` and `method`, plus `requestId` when an
+ * `X-Request-Id` header is present. Fields without a value are left out.
+ *
+ * @example
+ * ```typescript
+ * collectRequestMetadata(request, { trustProxy: true, allowHeaders: ['accept-language'] });
+ * // => { ipAddress: '203.0.113.7', userAgent: 'curl/8.0', path: '/posts', method: 'POST', headers: { ... } }
+ * ```
+ */
+export const collectRequestMetadata = (
+  request: AuditHttpRequest,
+  options: RequestMetadataOptions = {},
+): Record<string, unknown> => {
+  const metadata: Record<string, unknown> = {
+    ipAddress: resolveClientAddress(request, options.trustProxy ?? false),
+    userAgent: request.header('user-agent'),
+    path: request.path,
+    method: request.method,
+    requestId: request.header('x-request-id'),
+    headers: collectHeaders(request, options.allowHeaders ?? [], options.denyHeaders ?? DEFAULT_DENIED_HEADERS),
+    ...options.extra?.(request),
+  };
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+};
+
+/** @internal */
+const extractActor = async (
+  request: AuditHttpRequest,
+  options: AuditMiddlewareOptions,
+): Promise<AuditActor | undefined> => {
+  const extractors = options.actor === undefined ? [] : [options.actor].flat();
+  for (const extractor of extractors) {
+    const actor = await extractor(request);
+    if (actor) {
+      return actor;
+    }
+  }
+
+  const { anonymousActor = ANONYMOUS_ACTOR } = options;
+  if (anonymousActor === false) {
+    return undefined;
+  }
+  return typeof anonymousActor === 'function' ? anonymousActor(request) : anonymousActor;
+};
+
+/**
+ * Create the function every adapter uses to build the audit context of a request
+ *
+ * @returns Resolver yielding undefined when no actor was found and `anonymousActor` is `false`
+ */
+export const createAuditContextResolver = (
+  options: AuditMiddlewareOptions,
+): ((request: AuditHttpRequest) => Promise<AuditContext | undefined>) => {
+  return async (request) => {
+    const actor = await extractActor(request, options);
+    if (!actor) {
+      return undefined;
+    }
+    return options.request === false ? { actor } : { actor, request: collectRequestMetadata(request, options.request) };
+  };
+};
@@ -0,0 +1,40 @@
+/**
+ * HTTP Middleware Module
+ *
+ * Populates the audit context of HTTP requests for Hono, Express, Fastify and Koa, and of
+ * tRPC procedures.
+ *
+ * @module middleware
+ */
+
+export { decodeJwtPayload, fromApiKeyHeader, fromJwtClaim, fromSession } from './actor-extractors.js';
+export {
+  createExpressAuditMiddleware,
+  createFastifyAuditHook,
+  createHonoAuditMiddleware,
+  createKoaAuditMiddleware,
+  type ExpressRequestLike,
+  type FastifyRequestLike,
+  type HonoContextLike,
+  type KoaContextLike,
+  type NodeRequestLike,
+  toAuditHttpRequest,
+} from './adapters.js';
+export {
+  ANONYMOUS_ACTOR,
+  collectRequestMetadata,
+  createAuditContextResolver,
+  DEFAULT_DENIED_HEADERS,
+} from './context.js';
+export { createTrpcAuditMiddleware } from './trpc.js';
+export type {
+  ActorExtractor,
+  ApiKeyExtractorOptions,
+  AuditHttpRequest,
+  AuditMiddlewareOptions,
+  JwtClaimExtractorOptions,
+  RequestMetadataOptions,
+  SessionExtractorOptions,
+  TrpcAuditMiddlewareOptions,
+  TrpcMiddlewareParams,
+} from './types.js';
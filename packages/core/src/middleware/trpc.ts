@@ -0,0 +1,53 @@
+/**
+ * tRPC Middleware
+ *
+ * @module middleware/trpc
+ */
+
+import type { AuditActor } from '../types.js';
+import { ANONYMOUS_ACTOR } from './context.js';
+import type { TrpcAuditMiddlewareOptions, TrpcMiddlewareParams } from './types.js';
+
+/** @internal */
+const resolveTrpcActor = async <TContext>(
+  ctx: TContext,
+  options: TrpcAuditMiddlewareOptions<TContext>,
+): Promise<AuditActor | undefined> => {
+  const actor = await options.actor(ctx);
+  if (actor) {
+    return actor;
+  }
+
+  const { anonymousActor = ANONYMOUS_ACTOR } = options;
+  if (anonymousActor === false) {
+    return undefined;
+  }
+  return typeof anonymousActor === 'function' ? anonymousActor(ctx) : anonymousActor;
+};
+
+/**
+ * Create a tRPC middleware that runs each procedure with an audit context
+ *
+ * The procedure path and type are stored as `request.procedure` and `request.procedureType`.
+ *
+ * @example
+ * ```typescript
+ * const auditMiddleware = createTrpcAuditMiddleware<Context>({
+ *   provider: auditProvider,
+ *   actor: (ctx) => ctx.user && { category: 'model', type: 'User', id: ctx.user.id },
+ *   request: (ctx) => ({ ipAddress: ctx.req.ip }),
+ * });
+ *
+ * export const auditedProcedure = t.procedure.use(auditMiddleware);
+ * ```
+ */
+export const createTrpcAuditMiddleware = <TContext>(options: TrpcAuditMiddlewareOptions<TContext>) => {
+  return async <TResult>({ ctx, path, type, next }: TrpcMiddlewareParams<TContext, TResult>): Promise<TResult> => {
+    const actor = await resolveTrpcActor(ctx, options);
+    if (!actor) {
+      return next();
+    }
+    const request = { ...options.request?.(ctx), procedure: path, procedureType: type };
+    return options.provider.runAsync({ actor, request }, next);
+  };
+};
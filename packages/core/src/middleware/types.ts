@@ -0,0 +1,137 @@
+/**
+ * HTTP Middleware Type Definitions
+ *
+ * @module middleware/types
+ */
+
+import type { AuditActor, AuditContextProvider } from '../types.js';
+
+/**
+ * Framework-neutral view of an incoming HTTP request
+ */
+export interface AuditHttpRequest {
+  method: string;
+  /** Path without the query string */
+  path: string;
+  /** Header value by case-insensitive name */
+  header: (name: string) => string | undefined;
+  /** Client address as reported by the framework or socket */
+  remoteAddress?: string;
+  /** Native request object (Hono `Context`, Express `req`, Fastify `request`, Koa `ctx`) */
+  raw: unknown;
+}
+
+/**
+ * Derive the actor of a request
+ *
+ * @returns undefined when the request does not identify an actor this way
+ */
+export type ActorExtractor = (request: AuditHttpRequest) => AuditActor | undefined | Promise<AuditActor | undefined>;
+
+/**
+ * Request metadata stored in `AuditContext.request`
+ */
+export interface RequestMetadataOptions {
+  /**
+   * Take the client address from `X-Forwarded-For` (first entry) or `X-Real-IP`.
+   * Enable only behind a proxy that overwrites these headers. Default: false
+   */
+  trustProxy?: boolean;
+  /** Headers copied into `request.headers` (case-insensitive). Default: none */
+  allowHeaders?: readonly string[];
+  /** Headers never copied, even when allowed. Default: `DEFAULT_DENIED_HEADERS` */
+  denyHeaders?: readonly string[];
+  /** Additional fields merged over the defaults */
+  extra?: (request: AuditHttpRequest) => Record<string, unknown>;
+}
+
+/**
+ * Options shared by all HTTP middleware adapters
+ */
+export interface AuditMiddlewareOptions {
+  provider: AuditContextProvider;
+  /** Extractors tried in order; the first actor found is used */
+  actor?: ActorExtractor | readonly ActorExtractor[];
+  /**
+   * Actor of requests no extractor identified. `false` runs them without an audit context,
+   * leaving them to the `missingContext` policy. Default: `ANONYMOUS_ACTOR`
+   */
+  anonymousActor?: AuditActor | ((request: AuditHttpRequest) => AuditActor) | false;
+  /** Request metadata settings, or `false` to store none */
+  request?: RequestMetadataOptions | false;
+}
+
+/**
+ * Options of `fromJwtClaim`
+ */
+export interface JwtClaimExtractorOptions {
+  /**
+   * Verify the bearer token and return its claims (undefined or a throw means no actor).
+   * Pass `decodeJwtPayload` only when an earlier middleware already verified the token.
+   */
+  verify: (token: string) => Record<string, unknown> | undefined | Promise<Record<string, unknown> | undefined>;
+  /** Header carrying `Bearer <token>`. Default: `'authorization'` */
+  header?: string;
+  /** Claim holding the actor id. Default: `'sub'` */
+  claim?: string;
+  /** Claim holding the actor name */
+  nameClaim?: string;
+  /** Default: `'User'` */
+  type?: string;
+  /** Default: `'model'` */
+  category?: AuditActor['category'];
+}
+
+/**
+ * Options of `fromSession`
+ */
+export interface SessionExtractorOptions {
+  /** Read the session user from the native request, e.g. `(raw) => raw.session?.user` */
+  session: (raw: unknown) => Record<string, unknown> | null | undefined;
+  /** Field holding the actor id. Default: `'id'` */
+  idField?: string;
+  /** Field holding the actor name */
+  nameField?: string;
+  /** Default: `'User'` */
+  type?: string;
+  /** Default: `'model'` */
+  category?: AuditActor['category'];
+}
+
+/**
+ * Options of `fromApiKeyHeader`
+ */
+export interface ApiKeyExtractorOptions {
+  /** Look up the actor owning a key; the key itself is never stored */
+  resolve: (apiKey: string) => AuditActor | undefined | Promise<AuditActor | undefined>;
+  /** Default: `'x-api-key'` */
+  header?: string;
+}
+
+/**
+ * Subset of the options tRPC passes to a middleware
+ */
+export interface TrpcMiddlewareParams<TContext, TResult> {
+  ctx: TContext;
+  /** Procedure path, e.g. `'post.create'` */
+  path: string;
+  /** `'query'`, `'mutation'` or `'subscription'` */
+  type: string;
+  next: () => Promise<TResult>;
+}
+
+/**
+ * Options of `createTrpcAuditMiddleware`
+ */
+export interface TrpcAuditMiddlewareOptions<TContext> {
+  provider: AuditContextProvider;
+  /** Derive the actor from the procedure context */
+  actor: (ctx: TContext) => AuditActor | undefined | Promise<AuditActor | undefined>;
+  /**
+   * Actor of calls `actor` did not identify. `false` runs them without an audit context.
+   * Default: `ANONYMOUS_ACTOR`
+   */
+  anonymousActor?: AuditActor | ((ctx: TContext) => AuditActor) | false;
+  /** Additional request metadata, e.g. from the HTTP request kept on `ctx` */
+  request?: (ctx: TContext) => Record<string, unknown>;
+}
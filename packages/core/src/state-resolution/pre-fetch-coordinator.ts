@@ -14,7 +14,7 @@ export type GetOperationConfig = (modelName: string, operation: string) => Opera
 
 /**
  * Filters nested operations to identify those requiring pre-fetch.
- * Upsert and connectOrCreate always require pre-fetch.
+ * Upsert and connectOrCreate always require pre-fetch, as do set and disconnect (previous membership).
  * Update and delete operations require pre-fetch only if configured.
  *
  * @param operations - Array of detected nested operations
@@ -34,6 +34,10 @@ export const filterOperationsToPreFetch = (
       return true;
     }
 
+    if (op.operation === 'set' || op.operation === 'disconnect') {
+      return true;
+    }
+
     if (op.operation === 'update' || op.operation === 'updateMany') {
       const config = getConfig(op.relatedModel, 'update');
       return config.fetchBeforeOperation;
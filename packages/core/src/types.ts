@@ -1,3 +1,5 @@
+import type { TraceId } from './domain/branded-types.js';
+
 /**
  * Built-in actor categories for common use cases
  */
@@ -39,6 +41,32 @@ export interface AuditActor {
   name?: string;
 }
 
+/**
+ * Actor recorded in a delegation context, with the context its `ActorEnricher` returned
+ */
+export interface DelegatedActor extends AuditActor {
+  context?: unknown;
+}
+
+/**
+ * Impersonation and delegation of an action, stored as `delegationContext`
+ */
+export interface DelegationContext {
+  impersonator?: DelegatedActor;
+  onBehalfOf?: DelegatedActor;
+  delegationChain?: AuditActor[];
+}
+
+/**
+ * How a write to an audited model is handled when no audit context is set
+ *
+ * - `'skip'`: Run the write without an audit log
+ * - `'warn'`: Run the write without an audit log and print a warning
+ * - `'throw'`: Reject the write
+ * - `'system'`: Audit the write as a fallback system actor, recording the call-site stack
+ */
+export type MissingContextMode = 'skip' | 'warn' | 'throw' | 'system';
+
 /**
  * Context information for audit logging
  * @template TClient - Type of the transactional Prisma client (inferred automatically)
@@ -65,6 +93,29 @@ export interface AuditContext<TClient = unknown> {
   /** The actor who performed the action */
   actor: AuditActor;
 
+  /**
+   * Real operator when `actor` is an impersonated identity
+   * (e.g. the support agent acting as a customer)
+   */
+  impersonator?: AuditActor;
+
+  /**
+   * Principal the action is performed for (e.g. the user a service account acts for)
+   */
+  onBehalfOf?: AuditActor;
+
+  /**
+   * Actors the action was delegated through, in order: from the one `onBehalfOf` delegated to,
+   * to the one that delegated to `actor`
+   *
+   * @example
+   * ```typescript
+   * // The user calls the gateway, which calls the worker performing the write
+   * { actor: worker, onBehalfOf: user, delegationChain: [gateway] }
+   * ```
+   */
+  delegationChain?: readonly AuditActor[];
+
   /**
    * Request context - flexible metadata about the operation
    *
@@ -99,6 +150,30 @@ export interface AuditContext<TClient = unknown> {
    * Contains write operations that should only execute after transaction commit
    */
   _deferredWrites?: Array<() => Promise<void>>;
+
+  /**
+   * @internal Operation ID of the intercepted Prisma call (set automatically per operation)
+   * Stamped onto every audit log produced by the operation as `operationId`.
+   */
+  _operationId?: TraceId;
+
+  /**
+   * @internal Transaction ID of the enclosing interactive transaction (set automatically by $transaction interceptor)
+   * Stamped onto every audit log produced inside the transaction as `transactionId`.
+   */
+  _transactionId?: TraceId;
+
+  /**
+   * @internal Action recorded instead of the intercepted Prisma operation
+   * Used by compensating writes so they are logged as `revert`.
+   */
+  _auditAction?: string;
+
+  /**
+   * @internal Delegation context with enriched actor contexts (set by the enrich stage)
+   * Stored as `delegationContext` instead of the one built from the fields above.
+   */
+  _delegationContext?: DelegationContext;
 }
 
 /**
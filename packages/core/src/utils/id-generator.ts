@@ -26,6 +26,8 @@
  */
 
 import { createId } from '@paralleldrive/cuid2';
+import type { TraceId } from '../domain/branded-types.js';
+import { createTraceId } from '../domain/branded-types.js';
 import type { SchemaMetadata } from '../interfaces/index.js';
 
 /**
@@ -183,3 +185,13 @@ export const ensureIds = <T extends Record<string, unknown>>(
     };
   });
 };
+
+/**
+ * Generate a trace ID for correlating audit logs (operation and transaction IDs)
+ *
+ * @example
+ * ```typescript
+ * const operationId = generateTraceId(); // => 'cm4x...' as TraceId
+ * ```
+ */
+export const generateTraceId = (): TraceId => createTraceId(createId());
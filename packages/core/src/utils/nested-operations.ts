@@ -28,6 +28,8 @@ export const NESTED_OPERATION_KEYWORDS = [
   'delete',
   'deleteMany',
   'upsert',
+  'set',
+  'disconnect',
 ] as const;
 
 export type NestedOperationKeyword = (typeof NESTED_OPERATION_KEYWORDS)[number];
@@ -804,7 +806,7 @@ export const extractNestedRecords = (
 
 /** @internal Check if operation needs refetch */
 const shouldSkipRefetch = (operation: NestedOperationKeyword): boolean => {
-  const skipOperations = ['create', 'delete', 'deleteMany', 'connect', 'connectOrCreate'] as const;
+  const skipOperations = ['create', 'delete', 'deleteMany', 'connect', 'connectOrCreate', 'set', 'disconnect'] as const;
   return skipOperations.includes(operation as (typeof skipOperations)[number]);
 };
 
@@ -1,3 +1,4 @@
+import { createHmac } from 'node:crypto';
 import { safeStringify } from './serialization.js';
 
 /**
@@ -13,6 +14,8 @@ import { safeStringify } from './serialization.js';
  * - Structured redaction preserves metadata without exposing values
  * - Deep object traversal for nested fields
  * - Change detection via `isDifferent` flag
+ * - Per-field strategies: keyed hashing, partial masks, truncation, custom functions
+ * - Glob/regex field name patterns and dotted paths into JSON columns
  *
  * @example
  * ```typescript
@@ -64,14 +67,147 @@ export interface RedactedFieldInfo {
   isDifferent?: boolean;
 }
 
+/**
+ * Custom mask function, called with the field name and its non-null value
+ */
 export type RedactMaskFn = (field: string, value: unknown) => unknown;
 
+/**
+ * Replace the value with a keyed HMAC, so equal values still compare equal
+ *
+ * @remarks
+ * Stored as `hmac-<algorithm>:<hex>`. Compute search terms with {@link hashRedactedValue}.
+ * Rotating the key changes every hash.
+ */
+export interface HashRedactStrategy {
+  type: 'hash';
+  /** Secret HMAC key; keep it out of the audit database */
+  key: string;
+  /** Default: `'sha256'` */
+  algorithm?: 'sha256' | 'sha512';
+}
+
+/**
+ * Mask letters and digits except the first and last ones, keeping separators
+ *
+ * @example
+ * ```typescript
+ * { type: 'partial', keepEnd: 4 } // '4111-1111-1111-1234' => '****-****-****-1234'
+ * ```
+ */
+export interface PartialRedactStrategy {
+  type: 'partial';
+  /** Letters and digits kept at the start. Default: 0 */
+  keepStart?: number;
+  /** Letters and digits kept at the end. Default: 0 */
+  keepEnd?: number;
+  /** Default: `'*'` */
+  maskChar?: string;
+}
+
+/**
+ * Keep only the domain of an email address
+ *
+ * @example
+ * ```typescript
+ * { type: 'email' }              // 'alice@example.com' => '***@example.com'
+ * { type: 'email', keepLocal: 1 } // 'alice@example.com' => 'a***@example.com'
+ * ```
+ */
+export interface EmailRedactStrategy {
+  type: 'email';
+  /** Characters of the local part kept. Default: 0 */
+  keepLocal?: number;
+}
+
+/**
+ * Reduce precision while keeping the value's type and format
+ *
+ * @remarks
+ * - Strings keep their first `length` characters
+ * - Dates and ISO 8601 strings are truncated to `unit` (UTC)
+ * - Integers keep their first `length` significant digits (`123456` => `123000`)
+ *
+ * Values the options do not apply to are replaced with the redaction marker.
+ *
+ * @example
+ * ```typescript
+ * { type: 'truncate', unit: 'year' } // birthDate 1990-05-17 => 1990-01-01
+ * { type: 'truncate', length: 3 }    // postalCode 'SW1A 1AA' => 'SW1'
+ * ```
+ */
+export interface TruncateRedactStrategy {
+  type: 'truncate';
+  length?: number;
+  unit?: 'year' | 'month' | 'day' | 'hour';
+}
+
+/**
+ * How a redacted field is stored
+ *
+ * - `'redact'`: Replace with a {@link RedactedFieldInfo} marker (default)
+ * - `hash` / `partial` / `email` / `truncate`: See the strategy types
+ * - Function: Custom {@link RedactMaskFn}
+ *
+ * `null` and `undefined` values are kept as they are by every strategy except `'redact'`.
+ */
+export type RedactStrategy =
+  | 'redact'
+  | HashRedactStrategy
+  | PartialRedactStrategy
+  | EmailRedactStrategy
+  | TruncateRedactStrategy
+  | RedactMaskFn;
+
 export interface RedactConfig {
+  /** Field names to redact (in addition to default sensitive fields) */
   fields?: string[];
+  /**
+   * Field name patterns to redact at any depth. Strings are case-insensitive globs
+   * (`*` matches any characters, `?` one character); regular expressions are used as given.
+   *
+   * @example ['*password*', '*_api_key', /^(stripe|paypal)[A-Z]/]
+   */
+  patterns?: Array<string | RegExp>;
+  /**
+   * Dotted paths from the record root to redact, e.g. into JSON columns. A `*` segment
+   * matches any key; array elements are traversed transparently.
+   *
+   * @example ['metadata.billing.iban', 'settings.*.token']
+   */
+  paths?: string[];
+  /**
+   * Strategy per field name or dotted path; listed fields are redacted even if not in `fields`.
+   * A path entry takes precedence over a name entry for the same value.
+   */
+  strategies?: Record<string, RedactStrategy>;
+  /** Strategy for redacted fields without an entry in `strategies`. Default: `'redact'` */
+  defaultStrategy?: RedactStrategy;
 }
 
+/**
+ * Per-entity redaction settings (see `defineEntity({ redact })`)
+ *
+ * Fields are added to the global ones; strategies override global strategies per field.
+ */
+export type EntityRedactConfig = Pick<RedactConfig, 'fields' | 'patterns' | 'paths' | 'strategies'>;
+
 export type Redactor = (data: unknown) => unknown;
 
+/**
+ * Called with the dotted path of each non-null value a strategy other than `'redact'` stored
+ */
+export type MaskedPathHandler = (path: string) => void;
+
+/**
+ * Key under `entityContext` listing the paths whose stored values are masked
+ *
+ * @remarks
+ * Values kept by `hash`, `partial`, `email`, `truncate` or a custom function look like
+ * ordinary data, so readers use this list to tell them apart from real values.
+ */
+export const REDACTED_FIELDS_KEY = 'redactedFields';
+
 /** @internal */
 const isChangeObject = (value: unknown): value is { old: unknown; new: unknown } => {
   return value !== null && typeof value === 'object' && !Array.isArray(value) && 'old' in value && 'new' in value;
@@ -98,69 +234,218 @@ const redactSingleValue = (value: unknown): RedactedFieldInfo | null => {
   return hadValue ? ({ redacted: true, hadValue: true } as RedactedFieldInfo) : null;
 };
 
+/**
+ * Compute the stored form of a value under the `hash` strategy
+ *
+ * Strings are hashed as they are; other values as their JSON serialization.
+ *
+ * @example
+ * ```typescript
+ * // Find logs that recorded a given email
+ * const hashed = hashRedactedValue('alice@example.com', { type: 'hash', key: process.env.AUDIT_HASH_KEY });
+ * await prisma.auditLog.findMany({ where: { after: { path: ['email'], equals: hashed } } });
+ * ```
+ */
+export const hashRedactedValue = (value: unknown, strategy: HashRedactStrategy): string => {
+  const algorithm = strategy.algorithm ?? 'sha256';
+  const input = typeof value === 'string' ? value : (safeStringify(value) ?? '');
+  return `hmac-${algorithm}:${createHmac(algorithm, strategy.key).update(input).digest('hex')}`;
+};
+
 /** @internal */
-const processObjectEntry = (
-  key: string,
-  value: unknown,
-  sensitiveFields: Set<string>,
-  redactData: (data: unknown) => unknown,
-): unknown => {
-  if (sensitiveFields.has(key)) {
+const MASKABLE_CHAR = /[\p{L}\p{N}]/u;
+
+/** @internal */
+const maskPreservingFormat = (text: string, keepStart: number, keepEnd: number, maskChar: string): string => {
+  const chars = [...text];
+  const maskable = chars.filter((char) => MASKABLE_CHAR.test(char)).length;
+  let position = 0;
+  return chars
+    .map((char) => {
+      if (!MASKABLE_CHAR.test(char)) {
+        return char;
+      }
+      position++;
+      return position <= keepStart || position > maskable - keepEnd ? char : maskChar;
+    })
+    .join('');
+};
+
+/** @internal */
+const ISO_PREFIX_LENGTHS = { year: 4, month: 7, day: 10, hour: 13 } as const;
+
+/** @internal */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}(-\d{2})?(T|$)/;
+
+/** @internal */
+const truncateDate = (date: Date, unit: NonNullable<TruncateRedactStrategy['unit']>): Date => {
+  return new Date(
+    Date.UTC(
+      date.getUTCFullYear(),
+      unit === 'year' ? 0 : date.getUTCMonth(),
+      unit === 'year' || unit === 'month' ? 1 : date.getUTCDate(),
+      unit === 'hour' ? date.getUTCHours() : 0,
+    ),
+  );
+};
+
+/** @internal */
+const truncateValue = (value: unknown, strategy: TruncateRedactStrategy): unknown => {
+  const { length, unit } = strategy;
+  if (value instanceof Date && unit) {
+    return truncateDate(value, unit);
+  }
+  if (typeof value === 'string' && unit && ISO_DATE_PATTERN.test(value)) {
+    return value.slice(0, ISO_PREFIX_LENGTHS[unit]);
+  }
+  if (typeof value === 'string' && length !== undefined) {
+    return [...value].slice(0, length).join('');
+  }
+  if (typeof value === 'number' && Number.isInteger(value) && length !== undefined) {
+    const scale = 10 ** Math.max(String(Math.abs(value)).length - length, 0);
+    return Math.trunc(value / scale) * scale;
+  }
+  return redactSingleValue(value);
+};
+
+/** @internal */
+const maskEmail = (value: string, keepLocal: number): string => {
+  const at = value.lastIndexOf('@');
+  if (at < 0) {
+    return maskPreservingFormat(value, 0, 0, '*');
+  }
+  return `${[...value.slice(0, at)].slice(0, keepLocal).join('')}***${value.slice(at)}`;
+};
+
+/**
+ * Apply a strategy to one non-null value
+ *
+ * @internal
+ */
+const applyStrategy = (field: string, value: unknown, strategy: Exclude<RedactStrategy, 'redact'>): unknown => {
+  if (typeof strategy === 'function') {
+    return strategy(field, value);
+  }
+  const isText = typeof value === 'string' || typeof value === 'number' || typeof value === 'bigint';
+  switch (strategy.type) {
+    case 'hash':
+      return hashRedactedValue(value, strategy);
+    case 'partial':
+      return isText
+        ? maskPreservingFormat(String(value), strategy.keepStart ?? 0, strategy.keepEnd ?? 0, strategy.maskChar ?? '*')
+        : redactSingleValue(value);
+    case 'email':
+      return typeof value === 'string' ? maskEmail(value, strategy.keepLocal ?? 0) : redactSingleValue(value);
+    case 'truncate':
+      return truncateValue(value, strategy);
+  }
+};
+
+/** @internal */
+const redactWithStrategy = (field: string, value: unknown, strategy: RedactStrategy): unknown => {
+  if (strategy === 'redact') {
     return isChangeObject(value) ? redactChangeObject(value) : redactSingleValue(value);
   }
+  const apply = (item: unknown): unknown => (item == null ? item : applyStrategy(field, item, strategy));
+  return isChangeObject(value) ? { old: apply(value.old), new: apply(value.new) } : apply(value);
+};
 
-  if (value !== null && typeof value === 'object') {
-    return redactData(value);
+/** @internal */
+const compileFieldPattern = (pattern: string | RegExp): RegExp => {
+  if (pattern instanceof RegExp) {
+    return pattern;
   }
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+/** @internal */
+const matchesPath = (path: readonly string[], pattern: readonly string[]): boolean => {
+  return (
+    path.length === pattern.length && pattern.every((segment, index) => segment === '*' || segment === path[index])
+  );
+};
 
-  return value;
+/**
+ * Type guard for plain JavaScript objects ({} or Object.create(null))
+ *
+ * @remarks
+ * Excludes built-in types (Date, RegExp, Error), class instances, arrays, and primitives
+ *
+ * @internal
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
 };
 
+/** @internal */
+const hasValue = (value: unknown): boolean =>
+  isChangeObject(value) ? value.old != null || value.new != null : value != null;
+
 /**
  * Create a redactor function with the specified configuration
+ *
+ * @param onMasked - Receives the path of each value stored by a masking strategy
+ *
+ * @remarks
+ * Paths are tracked from the root of the redacted value. A top-level `{ old, new }` change
+ * object is transparent, so `metadata.billing.iban` applies inside the changes of `metadata`.
  */
-export const createRedactor = (config: RedactConfig = {}): Redactor => {
+export const createRedactor = (config: RedactConfig = {}, onMasked?: MaskedPathHandler): Redactor => {
   const sensitiveFields = new Set([...DEFAULT_SENSITIVE_FIELDS, ...(config.fields || [])]);
+  const patterns = (config.patterns ?? []).map(compileFieldPattern);
+  const paths = (config.paths ?? []).map((path) => path.split('.'));
+  const strategies = new Map(Object.entries(config.strategies ?? {}));
+  const defaultStrategy = config.defaultStrategy ?? 'redact';
 
-  const redactArray = (arr: unknown[], redactData: (data: unknown) => unknown): unknown[] => {
-    return arr.map((item) => redactData(item));
-  };
+  const isSensitive = (field: string, path: readonly string[]): boolean =>
+    sensitiveFields.has(field) ||
+    patterns.some((pattern) => pattern.test(field)) ||
+    paths.some((pattern) => matchesPath(path, pattern));
 
-  /**
-   * Type guard for plain JavaScript objects ({} or Object.create(null))
-   *
-   * @remarks
-   * Excludes built-in types (Date, RegExp, Error), class instances, arrays, and primitives
-   */
-  const isPlainObject = (value: unknown): value is Record<string, unknown> => {
-    if (typeof value !== 'object' || value === null) {
-      return false;
+  const resolveStrategy = (field: string, path: readonly string[]): RedactStrategy | undefined =>
+    strategies.get(path.join('.')) ?? strategies.get(field) ?? (isSensitive(field, path) ? defaultStrategy : undefined);
+
+  const redactData = (data: unknown, path: readonly string[] = []): unknown => {
+    if (Array.isArray(data)) {
+      return data.map((item) => redactData(item, path));
     }
-    const proto = Object.getPrototypeOf(value);
-    return proto === Object.prototype || proto === null;
-  };
 
-  const redactData = (data: unknown): unknown => {
-    if (typeof data !== 'object' || data === null) {
+    if (!isPlainObject(data)) {
       return data;
     }
 
-    if (Array.isArray(data)) {
-      return redactArray(data, redactData);
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      result[key] = redactEntry(key, value, [...path, key]);
     }
+    return result;
+  };
 
-    if (isPlainObject(data)) {
-      const result: Record<string, unknown> = {};
-      for (const [key, value] of Object.entries(data)) {
-        result[key] = processObjectEntry(key, value, sensitiveFields, redactData);
+  const redactEntry = (key: string, value: unknown, path: readonly string[]): unknown => {
+    const strategy = resolveStrategy(key, path);
+    if (strategy) {
+      if (strategy !== 'redact' && hasValue(value)) {
+        onMasked?.(path.join('.'));
       }
-      return result;
+      return redactWithStrategy(key, value, strategy);
     }
 
-    return data;
+    if (path.length === 1 && isChangeObject(value)) {
+      return { old: redactData(value.old, path), new: redactData(value.new, path) };
+    }
+
+    return redactData(value, path);
   };
 
-  return redactData;
+  return (data) => redactData(data);
 };
 
 /**
@@ -169,7 +454,11 @@ export const createRedactor = (config: RedactConfig = {}): Redactor => {
  * @remarks
  * Uses structuredClone (Node.js 17+) with JSON fallback if clone fails
  */
-export const redactSensitiveData = (data: unknown, config: RedactConfig = {}): unknown => {
+export const redactSensitiveData = (
+  data: unknown,
+  config: RedactConfig = {},
+  onMasked?: MaskedPathHandler,
+): unknown => {
   if (data === null || data === undefined) {
     return data;
   }
@@ -187,21 +476,42 @@ export const redactSensitiveData = (data: unknown, config: RedactConfig = {}): u
       const stringified = safeStringify(data);
       if (stringified === undefined) {
         console.warn('[@prisma-audit] Cannot stringify data for redaction fallback. Applying redaction in-place.');
-        const redactor = createRedactor(config);
+        const redactor = createRedactor(config, onMasked);
         return redactor(data);
       }
       cloned = JSON.parse(stringified);
     } catch {
       console.warn('[@prisma-audit] Cannot clone data for redaction. Applying redaction in-place.');
-      const redactor = createRedactor(config);
+      const redactor = createRedactor(config, onMasked);
       return redactor(data);
     }
   }
 
-  const redactor = createRedactor(config);
+  const redactor = createRedactor(config, onMasked);
   return redactor(cloned);
 };
 
+/**
+ * Combine global and per-entity redaction settings
+ *
+ * @returns Undefined when neither is configured
+ */
+export const mergeRedactConfig = (
+  global: RedactConfig | undefined,
+  entity: EntityRedactConfig | undefined,
+): RedactConfig | undefined => {
+  if (!entity) {
+    return global;
+  }
+  return {
+    ...global,
+    fields: [...(global?.fields ?? []), ...(entity.fields ?? [])],
+    patterns: [...(global?.patterns ?? []), ...(entity.patterns ?? [])],
+    paths: [...(global?.paths ?? []), ...(entity.paths ?? [])],
+    strategies: { ...global?.strategies, ...entity.strategies },
+  };
+};
+
 /**
  * Check if a field name is sensitive
  */
@@ -216,3 +526,27 @@ export const isSensitiveField = (fieldName: string, additionalFields: string[] =
 export const getDefaultSensitiveFields = (): readonly string[] => {
   return DEFAULT_SENSITIVE_FIELDS;
 };
+
+/**
+ * Check if a stored value is a redaction marker produced by the redactor
+ */
+export const isRedactedFieldInfo = (value: unknown): value is RedactedFieldInfo => {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    (value as { redacted?: unknown }).redacted === true &&
+    typeof (value as { hadValue?: unknown }).hadValue === 'boolean'
+  );
+};
+
+/**
+ * Paths listed under `entityContext.redactedFields`, or an empty array
+ */
+export const getRedactedFieldPaths = (entityContext: unknown): string[] => {
+  if (entityContext === null || typeof entityContext !== 'object' || Array.isArray(entityContext)) {
+    return [];
+  }
+  const paths = (entityContext as Record<string, unknown>)[REDACTED_FIELDS_KEY];
+  return Array.isArray(paths) ? paths.filter((path): path is string => typeof path === 'string') : [];
+};
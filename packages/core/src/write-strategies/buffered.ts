@@ -0,0 +1,268 @@
+/**
+ * Buffered Write Strategy
+ *
+ * @module write-strategies/buffered
+ */
+
+import type { AuditLogData } from '../domain/audit-log-types.js';
+import type { AuditContext } from '../types.js';
+import type { DbClientManager, WriteExecutor } from './interfaces.js';
+import type { BufferedWriter, BufferedWriterOptions, BufferedWriterStats, WriteFn, WriteResult } from './types.js';
+
+type ErrorHandler = (error: Error, operationDescription: string) => void | Promise<void>;
+
+const DEFAULT_MAX_BATCH_SIZE = 500;
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+const DEFAULT_MAX_QUEUE_SIZE = 10_000;
+
+/**
+ * Queued logs sharing a write destination
+ */
+interface BufferGroup {
+  writeExecutor: WriteExecutor;
+  client: unknown;
+  modelName: string;
+  logs: AuditLogData[];
+}
+
+const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)));
+
+const reportToConsole = (error: Error, logs: AuditLogData[]): void => {
+  console.error(`[@prisma-audit] Buffered audit log write failed (${logs.length} logs):`, error.message);
+};
+
+/**
+ * Create a buffered writer
+ *
+ * Logs are grouped by destination (executor, client and model) and written in batches of
+ * `maxBatchSize`, when a batch fills up or every `flushIntervalMs`. The interval timer does
+ * not keep the process alive. No process listeners are installed unless `flushOnExit` or
+ * `shutdownSignals` opts in; otherwise call `close()` from your own shutdown code.
+ *
+ * @remarks
+ * Failed batches are reported through `onError` and not retried. After a signal, the signal
+ * is raised again once the flush finishes, unless other listeners handle it.
+ *
+ * @example
+ * ```typescript
+ * const buffer = createBufferedWriter({ maxBatchSize: 500, overflow: 'drop' });
+ *
+ * // ...pass it to the write strategy selector, then on shutdown:
+ * await buffer.close();
+ * console.log(buffer.getStats()); // { written: 12840, dropped: 0, ... }
+ * ```
+ */
+export const createBufferedWriter = (options: BufferedWriterOptions = {}): BufferedWriter => {
+  const maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+  const maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+  const overflow = options.overflow ?? 'block';
+  const flushOnExit = options.flushOnExit ?? false;
+  const shutdownSignals = options.shutdownSignals ?? [];
+  const onError = options.onError ?? reportToConsole;
+
+  const stats: BufferedWriterStats = {
+    queued: 0,
+    inFlight: 0,
+    written: 0,
+    failed: 0,
+    dropped: 0,
+    blocked: 0,
+    flushes: 0,
+    lastFlushAt: null,
+  };
+  let groups: BufferGroup[] = [];
+  let flushing: Promise<void> = Promise.resolve();
+  let closed = false;
+
+  const report = async (error: Error, logs: AuditLogData[]): Promise<void> => {
+    try {
+      await onError(error, logs);
+    } catch (handlerError) {
+      console.error('[@prisma-audit] Error in buffered write error handler:', toError(handlerError).message);
+    }
+  };
+
+  const writeGroup = async (group: BufferGroup): Promise<void> => {
+    for (let start = 0; start < group.logs.length; start += maxBatchSize) {
+      const batch = group.logs.slice(start, start + maxBatchSize);
+      try {
+        await group.writeExecutor.write(group.client, group.modelName, batch);
+        stats.written += batch.length;
+      } catch (error) {
+        stats.failed += batch.length;
+        await report(toError(error), batch);
+      } finally {
+        stats.inFlight -= batch.length;
+      }
+    }
+  };
+
+  const drain = async (): Promise<void> => {
+    if (stats.queued === 0) {
+      return;
+    }
+    const pending = groups;
+    groups = [];
+    stats.inFlight += stats.queued;
+    stats.queued = 0;
+
+    for (const group of pending) {
+      await writeGroup(group);
+    }
+    stats.flushes++;
+    stats.lastFlushAt = new Date();
+  };
+
+  const flush = (): Promise<void> => {
+    flushing = flushing.then(drain);
+    return flushing;
+  };
+
+  const findGroup = (writeExecutor: WriteExecutor, client: unknown, modelName: string): BufferGroup => {
+    const existing = groups.find(
+      (group) => group.writeExecutor === writeExecutor && group.client === client && group.modelName === modelName,
+    );
+    if (existing) {
+      return existing;
+    }
+    const group: BufferGroup = { writeExecutor, client, modelName, logs: [] };
+    groups.push(group);
+    return group;
+  };
+
+  /**
+   * Apply the overflow policy
+   * @returns False when the logs must be dropped
+   */
+  const makeRoom = async (count: number): Promise<boolean> => {
+    if (stats.queued === 0 || stats.queued + count <= maxQueueSize) {
+      return true;
+    }
+    if (overflow === 'drop') {
+      return false;
+    }
+    stats.blocked++;
+    while (stats.queued > 0 && stats.queued + count > maxQueueSize) {
+      await flush();
+    }
+    return true;
+  };
+
+  const enqueue = async (
+    writeExecutor: WriteExecutor,
+    client: unknown,
+    modelName: string,
+    logs: AuditLogData[],
+  ): Promise<void> => {
+    if (logs.length === 0) {
+      return;
+    }
+    if (closed) {
+      await writeExecutor.write(client, modelName, logs);
+      return;
+    }
+    if (!(await makeRoom(logs.length))) {
+      stats.dropped += logs.length;
+      await report(new Error(`Audit log buffer is full (maxQueueSize: ${maxQueueSize}); logs dropped`), logs);
+      return;
+    }
+
+    findGroup(writeExecutor, client, modelName).logs.push(...logs);
+    stats.queued += logs.length;
+    if (stats.queued >= maxBatchSize) {
+      void flush();
+    }
+  };
+
+  const timer = setInterval(() => void flush(), options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+  timer.unref();
+
+  const onBeforeExit = (): void => {
+    if (stats.queued > 0) {
+      void flush();
+    }
+  };
+
+  const onSignal = (signal: NodeJS.Signals): void => {
+    void close().finally(() => {
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  };
+
+  const close = async (): Promise<void> => {
+    closed = true;
+    clearInterval(timer);
+    if (flushOnExit) {
+      process.off('beforeExit', onBeforeExit);
+    }
+    for (const signal of shutdownSignals) {
+      process.off(signal, onSignal);
+    }
+    await flush();
+  };
+
+  if (flushOnExit) {
+    process.on('beforeExit', onBeforeExit);
+  }
+  for (const signal of shutdownSignals) {
+    process.on(signal, onSignal);
+  }
+
+  return {
+    enqueue,
+    flush,
+    close,
+    getStats: () => ({ ...stats }),
+  };
+};
+
+/**
+ * Buffered write strategy
+ *
+ * Hands logs to a buffered writer, which batches them with logs of other operations.
+ *
+ * @remarks
+ * Used outside transactions when awaitWrite is false and a buffer is configured.
+ * A custom writer runs immediately; its `defaultWrite` goes through the buffer.
+ * Errors of the custom writer are handled via errorHandler without propagating to caller.
+ *
+ * @example
+ * ```typescript
+ * const result = await writeBuffered(
+ *   logs, context, manager, 'auditLog',
+ *   undefined, errorHandler, writeExecutor, buffer
+ * );
+ * // result._tag === 'Buffered'
+ * ```
+ */
+export const writeBuffered = async (
+  logs: AuditLogData[],
+  context: AuditContext,
+  manager: DbClientManager,
+  auditLogModelName: string,
+  customWriter: WriteFn | undefined,
+  errorHandler: ErrorHandler,
+  writeExecutor: WriteExecutor,
+  buffer: BufferedWriter,
+): Promise<WriteResult> => {
+  const queuedAt = new Date();
+  const bufferedWriteFn = (logsToWrite: AuditLogData[]): Promise<void> =>
+    buffer.enqueue(writeExecutor, manager.baseClient, auditLogModelName, logsToWrite);
+
+  try {
+    if (customWriter) {
+      await customWriter(logs, context, bufferedWriteFn);
+    } else {
+      await bufferedWriteFn(logs);
+    }
+  } catch (error) {
+    await errorHandler(toError(error), 'buffered audit log write');
+  }
+
+  return {
+    _tag: 'Buffered',
+    queuedAt,
+  };
+};
@@ -6,9 +6,11 @@
 
 import type { AuditLogData } from '../domain/audit-log-types.js';
 import type { AuditContext } from '../types.js';
+import { writeBuffered } from './buffered.js';
 import { writeDeferredInTransaction } from './deferred.js';
 import { writeFireAndForget } from './fire-and-forget.js';
 import type { DbClientManager, WriteExecutor } from './interfaces.js';
+import { writeToOutbox } from './outbox.js';
 import { writeSynchronously } from './synchronous.js';
 import type { WriteFn, WriteResult, WriteStrategyConfig } from './types.js';
 
@@ -48,7 +50,7 @@ const isInTransaction = (context: AuditContext): boolean => {
  *
  * Selects appropriate write strategy based on await configuration and transaction state.
  *
- * Strategy flow: shouldAwait? → Synchronous : inTransaction? → Deferred : Fire-and-Forget
+ * Strategy flow: shouldAwait? → Synchronous : inTransaction? → (outbox? → Outbox : Deferred) : (buffer? → Buffered : Fire-and-Forget)
  *
  * @example
  * ```typescript
@@ -69,11 +71,22 @@ export const createWriteStrategySelector = (
         writeSynchronously(logs, ctx, manager, model, writer, writeExecutor);
     }
 
+    const { outbox } = config;
+    if (isInTransaction(context) && outbox) {
+      return (logs, ctx, manager) => writeToOutbox(logs, ctx, manager, outbox);
+    }
+
     if (isInTransaction(context)) {
       return (logs, ctx, manager, model, writer, handleError) =>
         writeDeferredInTransaction(logs, ctx, manager, model, writer, handleError, writeExecutor);
     }
 
+    const { buffer } = config;
+    if (buffer) {
+      return (logs, ctx, manager, model, writer, handleError) =>
+        writeBuffered(logs, ctx, manager, model, writer, handleError, writeExecutor, buffer);
+    }
+
     return (logs, ctx, manager, model, writer, handleError) =>
       writeFireAndForget(logs, ctx, manager, model, writer, handleError, writeExecutor);
   };
@@ -4,10 +4,12 @@
  * @module write-strategies
  *
  * @remarks
- * Three main write strategies:
+ * Five write strategies:
  * 1. **Synchronous** - Blocks until write completes
  * 2. **Deferred** - Queues write for after transaction commits
- * 3. **Fire-and-Forget** - Executes asynchronously without blocking
+ * 3. **Outbox** - Stores write in an outbox table inside the transaction, for a relay to deliver
+ * 4. **Fire-and-Forget** - Executes asynchronously without blocking
+ * 5. **Buffered** - Batches writes across operations and flushes by size or interval
  *
  * @example
  * ```typescript
@@ -35,6 +37,7 @@
  * ```
  */
 
+export { createBufferedWriter, writeBuffered } from './buffered.js';
 export { writeDeferredInTransaction } from './deferred.js';
 export { createWriteStrategySelector } from './factory.js';
 export {
@@ -43,11 +46,17 @@ export {
   getPendingWriteCount,
   writeFireAndForget,
 } from './fire-and-forget.js';
-export type { DbClientManager, DefaultWriteFn, WriteExecutor } from './interfaces.js';
+export type { DbClientManager, DefaultWriteFn, OutboxWriter, WriteExecutor } from './interfaces.js';
+export { writeToOutbox } from './outbox.js';
 export { writeSynchronously } from './synchronous.js';
 export type {
+  BufferedResult,
+  BufferedWriter,
+  BufferedWriterOptions,
+  BufferedWriterStats,
   DeferredResult,
   ImmediateResult,
+  OutboxedResult,
   SkippedResult,
   WriteFn,
   WriteResult,
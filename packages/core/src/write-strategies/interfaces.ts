@@ -5,6 +5,7 @@
  */
 
 import type { AuditLogData } from '../domain/audit-log-types.js';
+import type { AuditContext } from '../types.js';
 
 /**
  * Database client manager interface
@@ -46,4 +47,23 @@ export interface WriteExecutor {
   write: (client: unknown, modelName: string, logs: AuditLogData[]) => Promise<void>;
 }
 
+/**
+ * Outbox writer interface
+ *
+ * Stores audit logs in an outbox table through the transactional client, so they commit
+ * (or roll back) with the transaction. A relay delivers them after commit.
+ *
+ * @example
+ * ```typescript
+ * const outbox: OutboxWriter = {
+ *   enqueue: async (client, logs, context) => {
+ *     await (client as PrismaClient).auditOutbox.create({ data: { payload: { logs } } });
+ *   }
+ * };
+ * ```
+ */
+export interface OutboxWriter {
+  enqueue: (client: unknown, logs: AuditLogData[], context: AuditContext) => Promise<void>;
+}
+
 export type DefaultWriteFn = (logs: AuditLogData[]) => Promise<void>;
@@ -0,0 +1,44 @@
+/**
+ * Outbox Write Strategy
+ *
+ * @module write-strategies/outbox
+ */
+
+import type { AuditLogData } from '../domain/audit-log-types.js';
+import type { AuditContext } from '../types.js';
+import type { DbClientManager, OutboxWriter } from './interfaces.js';
+import type { WriteResult } from './types.js';
+
+/**
+ * Outbox write strategy
+ *
+ * Stores audit logs in the outbox through the active (transactional) client, so they
+ * share the fate of the transaction. Delivery to the audit log table happens later.
+ *
+ * @remarks
+ * Used inside transactions when awaitWrite is false and an outbox is configured.
+ * Errors propagate to the caller and roll back the transaction.
+ *
+ * @example
+ * ```typescript
+ * const result = await writeToOutbox(logs, context, manager, outboxWriter);
+ * // result._tag === 'Outboxed'
+ * ```
+ */
+export const writeToOutbox = async (
+  logs: AuditLogData[],
+  context: AuditContext,
+  manager: DbClientManager,
+  outbox: OutboxWriter,
+): Promise<WriteResult> => {
+  const queuedAt = new Date();
+
+  if (logs.length > 0) {
+    await outbox.enqueue(manager.activeClient, logs, context);
+  }
+
+  return {
+    _tag: 'Outboxed',
+    queuedAt,
+  };
+};
@@ -6,7 +6,7 @@
 
 import type { AuditLogData } from '../domain/audit-log-types.js';
 import type { AuditContext } from '../types.js';
-import type { DbClientManager, DefaultWriteFn } from './interfaces.js';
+import type { DbClientManager, DefaultWriteFn, OutboxWriter, WriteExecutor } from './interfaces.js';
 
 export interface ImmediateResult {
   _tag: 'Immediate';
@@ -19,6 +19,16 @@ export interface DeferredResult {
   execute: () => Promise<void>;
 }
 
+export interface BufferedResult {
+  _tag: 'Buffered';
+  queuedAt: Date;
+}
+
+export interface OutboxedResult {
+  _tag: 'Outboxed';
+  queuedAt: Date;
+}
+
 export interface SkippedResult {
   _tag: 'Skipped';
   reason: string;
@@ -40,13 +50,19 @@ export interface SkippedResult {
  *     console.log('Write queued at:', result.queuedAt);
  *     await result.execute();
  *     break;
+ *   case 'Buffered':
+ *     console.log('Write buffered at:', result.queuedAt);
+ *     break;
+ *   case 'Outboxed':
+ *     console.log('Write stored in outbox at:', result.queuedAt);
+ *     break;
  *   case 'Skipped':
  *     console.log('Write skipped:', result.reason);
  *     break;
  * }
  * ```
  */
-export type WriteResult = ImmediateResult | DeferredResult | SkippedResult;
+export type WriteResult = ImmediateResult | DeferredResult | BufferedResult | OutboxedResult | SkippedResult;
 
 /**
  * Custom writer function type
@@ -115,4 +131,102 @@ export interface WriteStrategyConfig {
   aggregateConfig: {
     getEntityConfig: (modelName: string) => { tags?: string[] } | undefined;
   };
+
+  /**
+   * Outbox for writes that would otherwise be deferred inside a transaction
+   * When set, those logs are stored in the outbox as part of the transaction instead of
+   * being written from memory after the callback returns.
+   */
+  outbox?: OutboxWriter;
+
+  /**
+   * Buffer for writes that would otherwise be fire-and-forget
+   * When set, those logs are batched across operations instead of written one operation at a time.
+   */
+  buffer?: BufferedWriter;
+}
+
+/**
+ * Options for a buffered writer
+ *
+ * @example
+ * ```typescript
+ * const buffer = createBufferedWriter({
+ *   maxBatchSize: 500,
+ *   flushIntervalMs: 1000,
+ *   maxQueueSize: 10_000,
+ *   overflow: 'drop',
+ * });
+ * ```
+ */
+export interface BufferedWriterOptions {
+  /** Logs written per `WriteExecutor.write` call; reaching it triggers a flush. Default: 500 */
+  maxBatchSize?: number;
+  /** Interval between time-based flushes. Default: 1000 */
+  flushIntervalMs?: number;
+  /** Logs held in memory before `overflow` applies. Default: 10000 */
+  maxQueueSize?: number;
+  /**
+   * What happens when the queue is full:
+   * - `'block'`: The write waits for a flush to make room (backpressure on the caller)
+   * - `'drop'`: The logs are discarded and counted in `stats.dropped`
+   *
+   * @default 'block'
+   */
+  overflow?: 'block' | 'drop';
+  /**
+   * Flush queued logs on `beforeExit`. Off by default so that creating a writer does not add
+   * process listeners; call `close()` from your own shutdown code instead.
+   *
+   * @default false
+   */
+  flushOnExit?: boolean;
+  /**
+   * Signals that trigger a final flush, e.g. `['SIGINT', 'SIGTERM']`. The signal is raised again
+   * once the flush finishes, unless other listeners handle it.
+   *
+   * @default []
+   */
+  shutdownSignals?: readonly NodeJS.Signals[];
+  /** Called when a batch fails to write or logs are dropped. Default: logs to console.error */
+  onError?: (error: Error, logs: AuditLogData[]) => void | Promise<void>;
+}
+
+/**
+ * Counters of a buffered writer
+ */
+export interface BufferedWriterStats {
+  /** Logs waiting for the next flush */
+  queued: number;
+  /** Logs being written by the current flush */
+  inFlight: number;
+  /** Logs written successfully */
+  written: number;
+  /** Logs whose batch failed to write */
+  failed: number;
+  /** Logs discarded because the queue was full (`overflow: 'drop'`) */
+  dropped: number;
+  /** Writes that waited for room in the queue (`overflow: 'block'`) */
+  blocked: number;
+  /** Flushes that had logs to write */
+  flushes: number;
+  /** End of the last flush */
+  lastFlushAt: Date | null;
+}
+
+/**
+ * Batches audit logs across operations and writes them through a `WriteExecutor`
+ */
+export interface BufferedWriter {
+  /**
+   * Add logs to the queue
+   *
+   * Resolves once the logs are accepted (or dropped), not when they are written.
+   */
+  enqueue(writeExecutor: WriteExecutor, client: unknown, modelName: string, logs: AuditLogData[]): Promise<void>;
+  /** Write every queued log, resolving when done */
+  flush(): Promise<void>;
+  /** Stop the timer, remove process hooks and flush the remaining logs */
+  close(): Promise<void>;
+  getStats(): BufferedWriterStats;
 }
@@ -247,4 +247,40 @@ describe('createAsyncLocalStorageProvider', () => {
       expect(results).toEqual(['user-1', 'user-2']);
     });
   });
+
+  describe('impersonate', () => {
+    const agent = { category: 'model', type: 'SupportAgent', id: 'agent-1' };
+    const customer = { category: 'model', type: 'User', id: 'user-1' };
+
+    it('should record the current actor as impersonator', async () => {
+      // Arrange
+      const provider = createAsyncLocalStorageProvider();
+      const context: AuditContext = {
+        actor: agent,
+        onBehalfOf: { category: 'model', type: 'User', id: 'user-9' },
+        request: { path: '/support' },
+      };
+
+      // Act
+      const impersonated = await provider.runAsync(context, () =>
+        provider.impersonate(customer, async () => provider.getContext()),
+      );
+      const nested = provider.run(context, () =>
+        provider.impersonate(customer, () =>
+          provider.impersonate({ ...customer, id: 'user-2' }, () => provider.getContext()),
+        ),
+      );
+
+      // Assert
+      expect(impersonated).toEqual({ actor: customer, impersonator: agent, request: { path: '/support' } });
+      expect(nested?.impersonator).toEqual(agent);
+      expect(nested?.actor.id).toBe('user-2');
+    });
+
+    it('should throw when no context is set', () => {
+      const provider = createAsyncLocalStorageProvider();
+
+      expect(() => provider.impersonate(customer, () => undefined)).toThrow('AuditContext is not available');
+    });
+  });
 });
@@ -104,6 +104,36 @@ describe('Smart Constructors', () => {
       }
     });
 
+    it('should carry operation and transaction IDs when present', () => {
+      const result = createAuditLogData({ ...validInput, operationId: 'op-1', transactionId: null });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.operationId).toBe('op-1');
+        expect(result.value.transactionId).toBeNull();
+      }
+    });
+
+    it('should omit operation and transaction IDs when absent', () => {
+      const result = createAuditLogData(validInput);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect('operationId' in result.value).toBe(false);
+        expect('transactionId' in result.value).toBe(false);
+      }
+    });
+
+    it('should fail when operationId is empty', () => {
+      const result = createAuditLogData({ ...validInput, operationId: '' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errors[0]?.field).toBe('operationId');
+        expect(result.errors[0]?.message).toMatch(/TraceId cannot be empty/);
+      }
+    });
+
     it('should fail when createdAt is invalid', () => {
       const result = createAuditLogData({
         ...validInput,
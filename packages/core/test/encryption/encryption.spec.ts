@@ -0,0 +1,165 @@
+/**
+ * Envelope Encryption Tests
+ * Tests for audit log encryption, decryption, key rotation and crypto-shredding
+ */
+
+import { randomBytes } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { createActorId, createAggregateId, createEntityId } from '../../src/domain/branded-types.js';
+import {
+  createInMemoryKeyStore,
+  decryptAuditLog,
+  encryptAuditLog,
+  getEncryptedColumns,
+  isEncryptedPayload,
+  reencryptAuditLog,
+  unwrapDataKey,
+  wrapDataKey,
+} from '../../src/encryption/index.js';
+import type { AuditContext, AuditLogData } from '../../src/index.js';
+
+const context: AuditContext = {
+  actor: { category: 'model', type: 'User', id: 'admin' },
+  request: { tenantId: 'acme' },
+};
+
+const createMockLog = (overrides: Partial<AuditLogData> = {}): AuditLogData => ({
+  actorCategory: 'model',
+  actorType: 'User',
+  actorId: createActorId('admin'),
+  actorContext: null,
+  entityCategory: 'model',
+  entityType: 'Patient',
+  entityId: createEntityId('patient-1'),
+  entityContext: null,
+  aggregateCategory: 'model',
+  aggregateType: 'Patient',
+  aggregateId: createAggregateId('patient-1'),
+  aggregateContext: null,
+  action: 'update',
+  before: { name: 'Alice', diagnosis: 'flu' },
+  after: { name: 'Alice', diagnosis: 'cold' },
+  changes: { diagnosis: { old: 'flu', new: 'cold' } },
+  requestContext: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+const createKeyStore = () => createInMemoryKeyStore({ masterKey: randomBytes(32) });
+
+describe('encryptAuditLog', () => {
+  it('should encrypt state columns with the key of the aggregate and decrypt them back', async () => {
+    // Arrange
+    const keyStore = createKeyStore();
+    const log = createMockLog({ after: null });
+
+    // Act
+    const encrypted = await encryptAuditLog(log, context, { keyStore });
+    const decrypted = await decryptAuditLog(encrypted, keyStore);
+
+    // Assert
+    expect(isEncryptedPayload(encrypted.before)).toBe(true);
+    expect(encrypted.after).toBeNull();
+    expect(JSON.stringify(encrypted)).not.toContain('flu');
+    expect([...keyStore.keys.values()].map((key) => key.scope)).toEqual(['Patient:patient-1']);
+    expect(decrypted).toEqual(log);
+  });
+
+  it('should use the configured key scope and skip other entity types', async () => {
+    // Arrange
+    const keyStore = createKeyStore();
+    const config = {
+      keyStore,
+      entityTypes: ['Patient'],
+      keyScope: (_log: AuditLogData, ctx: AuditContext) => `tenant:${ctx.request?.tenantId}`,
+    };
+
+    // Act
+    const patient = await encryptAuditLog(createMockLog(), context, config);
+    const post = await encryptAuditLog(createMockLog({ entityType: 'Post' }), context, config);
+
+    // Assert
+    expect(isEncryptedPayload(patient.after)).toBe(true);
+    expect(post.after).toEqual({ name: 'Alice', diagnosis: 'cold' });
+    expect([...keyStore.keys.values()].map((key) => key.scope)).toEqual(['tenant:acme']);
+  });
+
+  it('should reject payloads moved to another column', async () => {
+    // Arrange
+    const keyStore = createKeyStore();
+    const encrypted = await encryptAuditLog(createMockLog(), context, { keyStore });
+
+    // Act & Assert
+    await expect(decryptAuditLog({ ...encrypted, after: encrypted.before }, keyStore)).rejects.toThrow(
+      'Decryption failed',
+    );
+  });
+});
+
+describe('crypto-shredding', () => {
+  it('should make payloads unreadable once the keys of their scope are destroyed', async () => {
+    // Arrange
+    const keyStore = createKeyStore();
+    const encrypted = await encryptAuditLog(createMockLog(), context, { keyStore });
+
+    // Act
+    const destroyed = await keyStore.destroyKeys('Patient:patient-1');
+
+    // Assert
+    expect(destroyed).toBe(1);
+    expect(await decryptAuditLog(encrypted, keyStore)).toMatchObject({ before: null, after: null, changes: null });
+    await expect(decryptAuditLog(encrypted, keyStore, { onMissingKey: 'throw' })).rejects.toThrow('was destroyed');
+  });
+
+  it('should keep shredded payloads encrypted when asked to', async () => {
+    // Arrange
+    const keyStore = createKeyStore();
+    const encrypted = await encryptAuditLog(createMockLog(), context, { keyStore });
+    await keyStore.destroyKeys('Patient:patient-1');
+
+    // Act
+    const result = await decryptAuditLog(encrypted, keyStore, { onMissingKey: 'keep' });
+
+    // Assert
+    expect(result.after).toEqual(encrypted.after);
+    expect(getEncryptedColumns(result)).toEqual(['before', 'after', 'changes']);
+    expect(getEncryptedColumns(await decryptAuditLog(encrypted, keyStore))).toEqual([]);
+  });
+});
+
+describe('reencryptAuditLog', () => {
+  it('should move payloads to the current key after rotation', async () => {
+    // Arrange
+    const keyStore = createKeyStore();
+    const log = createMockLog();
+    const encrypted = await encryptAuditLog(log, context, { keyStore });
+    const rotated = await keyStore.rotateKey('Patient:patient-1');
+
+    // Act
+    const updates = await reencryptAuditLog(encrypted, keyStore);
+    const reencrypted = { ...encrypted, ...updates };
+
+    // Assert
+    expect(Object.keys(updates ?? {})).toEqual(['before', 'after', 'changes']);
+    expect(reencrypted.after).toMatchObject({ kid: rotated.id });
+    expect(await decryptAuditLog(reencrypted, keyStore)).toEqual(log);
+    expect(await reencryptAuditLog(reencrypted, keyStore)).toBeUndefined();
+  });
+});
+
+describe('wrapDataKey', () => {
+  it('should only unwrap with the same master key and key ID', () => {
+    // Arrange
+    const masterKey = randomBytes(32);
+    const key = { id: 'key-1', scope: 's', material: randomBytes(32) };
+
+    // Act
+    const wrapped = wrapDataKey(key, masterKey);
+
+    // Assert
+    expect(Buffer.from(unwrapDataKey('key-1', wrapped, masterKey))).toEqual(Buffer.from(key.material));
+    expect(() => unwrapDataKey('key-2', wrapped, masterKey)).toThrow('Decryption failed');
+    expect(() => unwrapDataKey('key-1', wrapped, randomBytes(32))).toThrow('Decryption failed');
+    expect(() => wrapDataKey(key, randomBytes(16))).toThrow('Master key must be 32 bytes');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Actor Enrichment Tests
+ * Tests for building and enriching the delegation context of impersonated and delegated actions
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { enrichDelegationContext, toDelegationContext } from '../../src/enrichment/actor.js';
+import type { AuditActor, AuditContext } from '../../src/types.js';
+
+const agent: AuditActor = { category: 'model', type: 'SupportAgent', id: 'agent-1' };
+const customer: AuditActor = { category: 'model', type: 'User', id: 'user-1' };
+const gateway: AuditActor = { category: 'system', type: 'Service', id: 'gateway' };
+const worker: AuditActor = { category: 'system', type: 'Service', id: 'worker' };
+
+describe('toDelegationContext', () => {
+  it('should collect the impersonator, principal and delegation chain', () => {
+    expect(toDelegationContext({ actor: customer, impersonator: agent })).toEqual({ impersonator: agent });
+    expect(toDelegationContext({ actor: worker, onBehalfOf: customer, delegationChain: [gateway] })).toEqual({
+      onBehalfOf: customer,
+      delegationChain: [gateway],
+    });
+  });
+
+  it('should return null for plain contexts', () => {
+    expect(toDelegationContext({ actor: customer, delegationChain: [] })).toBeNull();
+  });
+});
+
+describe('enrichDelegationContext', () => {
+  it('should pass the impersonator and principal through the actor enricher', async () => {
+    // Arrange
+    const enricher = vi.fn(async (input: unknown) => {
+      const actor = input as AuditActor;
+      return { label: `${actor.type}:${actor.id}` };
+    });
+    const context: AuditContext = {
+      actor: worker,
+      impersonator: agent,
+      onBehalfOf: customer,
+      delegationChain: [gateway],
+    };
+
+    // Act
+    const delegation = await enrichDelegationContext(context, { enricher }, {});
+
+    // Assert
+    expect(delegation).toEqual({
+      impersonator: { ...agent, context: { label: 'SupportAgent:agent-1' } },
+      onBehalfOf: { ...customer, context: { label: 'User:user-1' } },
+      delegationChain: [gateway],
+    });
+    expect(enricher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep actors unenriched without an enricher or a result', async () => {
+    // Arrange
+    const context: AuditContext = { actor: customer, impersonator: agent };
+
+    // Act
+    const withoutEnricher = await enrichDelegationContext(context, undefined, {});
+    const withNullResult = await enrichDelegationContext(context, { enricher: async () => null }, {});
+
+    // Assert
+    expect(withoutEnricher).toEqual({ impersonator: agent });
+    expect(withNullResult).toEqual({ impersonator: agent });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * CloudEvents Tests
+ * Tests for audit log to CloudEvents mapping, the event-publishing writer and the in-memory broker
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createActorId, createAggregateId, createEntityId, createTraceId } from '../../src/domain/branded-types.js';
+import { createEventPublishingWriter, createInMemoryEventBroker, toCloudEvent } from '../../src/events/cloudevents.js';
+import type { AuditContext, AuditLogData, EventPublisher } from '../../src/index.js';
+import { writeDeferredInTransaction } from '../../src/write-strategies/deferred.js';
+import type { DbClientManager, WriteExecutor } from '../../src/write-strategies/interfaces.js';
+
+const context: AuditContext = {
+  actor: { category: 'model', type: 'User', id: 'user-1' },
+};
+
+const createMockLog = (id: string, overrides: Partial<AuditLogData> = {}): AuditLogData => ({
+  actorCategory: 'model',
+  actorType: 'User',
+  actorId: createActorId('user-1'),
+  actorContext: null,
+  entityCategory: 'model',
+  entityType: 'Post',
+  entityId: createEntityId(id),
+  entityContext: null,
+  aggregateCategory: 'model',
+  aggregateType: 'User',
+  aggregateId: createAggregateId('user-1'),
+  aggregateContext: null,
+  action: 'update',
+  before: { views: 1n },
+  after: { views: 2n },
+  changes: null,
+  requestContext: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('toCloudEvent', () => {
+  it('should map an audit log to a CloudEvents 1.0 envelope', () => {
+    // Arrange
+    const log = createMockLog('post-1', { operationId: createTraceId('op-1') });
+
+    // Act
+    const event = toCloudEvent(log, context, { source: '//blog.example.com', generateId: () => 'evt-1' });
+
+    // Assert
+    expect(event).toEqual({
+      specversion: '1.0',
+      id: 'evt-1',
+      source: '//blog.example.com',
+      type: 'prisma-audit.Post.update',
+      subject: 'User/user-1',
+      time: '2026-01-01T00:00:00.000Z',
+      datacontenttype: 'application/json',
+      data: expect.objectContaining({ entityId: 'post-1', after: { views: '2' } }),
+      operationid: 'op-1',
+    });
+  });
+
+  it('should apply the type prefix and custom extensions', () => {
+    // Act
+    const event = toCloudEvent(createMockLog('post-1'), context, {
+      source: 'urn:blog',
+      typePrefix: 'com.example.audit',
+      extensions: (_log, ctx) => ({ actorid: ctx.actor.id }),
+    });
+
+    // Assert
+    expect(event.type).toBe('com.example.audit.Post.update');
+    expect(event.actorid).toBe('user-1');
+    expect(event.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should reject extension names the specification does not allow', () => {
+    expect(() =>
+      toCloudEvent(createMockLog('post-1'), context, { source: 'urn:blog', extensions: () => ({ actor_id: 'x' }) }),
+    ).toThrow('Invalid CloudEvents extension attribute "actor_id"');
+  });
+});
+
+describe('createEventPublishingWriter', () => {
+  it('should publish one event per log after the database write', async () => {
+    // Arrange
+    const order: string[] = [];
+    const defaultWrite = vi.fn(async () => {
+      order.push('write');
+    });
+    const publisher: EventPublisher = {
+      publish: vi.fn(async () => {
+        order.push('publish');
+      }),
+    };
+    const writer = createEventPublishingWriter({ source: 'urn:blog', publisher });
+
+    // Act
+    await writer([createMockLog('post-1'), createMockLog('post-2')], context, defaultWrite);
+
+    // Assert
+    expect(order).toEqual(['write', 'publish']);
+    expect(vi.mocked(publisher.publish).mock.calls[0]?.[0]).toHaveLength(2);
+  });
+
+  it('should not publish when the database write fails', async () => {
+    // Arrange
+    const broker = createInMemoryEventBroker();
+    const writer = createEventPublishingWriter({ source: 'urn:blog', publisher: broker });
+
+    // Act & Assert
+    await expect(
+      writer([createMockLog('post-1')], context, vi.fn().mockRejectedValue(new Error('db down'))),
+    ).rejects.toThrow('db down');
+    expect(broker.events).toHaveLength(0);
+  });
+
+  it('should publish only when the deferred write runs after commit', async () => {
+    // Arrange
+    const broker = createInMemoryEventBroker();
+    const writer = createEventPublishingWriter({ source: 'urn:blog', publisher: broker, database: false });
+    const manager = { baseClient: {}, activeClient: {} } as unknown as DbClientManager;
+    const executor: WriteExecutor = { write: vi.fn() };
+    const txContext: AuditContext = { ...context, transactionalClient: {}, _deferredWrites: [] };
+
+    // Act
+    const result = writeDeferredInTransaction(
+      [createMockLog('post-1')],
+      txContext,
+      manager,
+      'auditLog',
+      writer,
+      vi.fn(),
+      executor,
+    );
+    const publishedBeforeCommit = broker.events.length;
+    if (result._tag === 'Deferred') {
+      await result.execute();
+    }
+
+    // Assert
+    expect(publishedBeforeCommit).toBe(0);
+    expect(broker.events.map((event) => event.type)).toEqual(['prisma-audit.Post.update']);
+  });
+});
+
+describe('createInMemoryEventBroker', () => {
+  it('should forward events to subscribers until they unsubscribe', async () => {
+    // Arrange
+    const broker = createInMemoryEventBroker();
+    const handler = vi.fn();
+    const unsubscribe = broker.subscribe(handler);
+    const event = toCloudEvent(createMockLog('post-1'), context, { source: 'urn:blog' });
+
+    // Act
+    await broker.publish([event]);
+    unsubscribe();
+    await broker.publish([event]);
+    broker.clear();
+
+    // Assert
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(event);
+    expect(broker.events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import { collapseFanOut, reconstructEntityState } from '../../src/history/reconstruct.js';
+
+const log = (createdAt: string, action: string, before: unknown, after: unknown, changes: unknown = null) => ({
+  action,
+  before,
+  after,
+  changes,
+  createdAt: new Date(createdAt),
+});
+
+describe('reconstructEntityState', () => {
+  const created = log('2026-01-01T00:00:00Z', 'create', null, { id: 'post-1', title: 'Draft', views: 0 });
+  const renamed = log(
+    '2026-02-01T00:00:00Z',
+    'update',
+    { id: 'post-1', title: 'Draft', views: 0 },
+    { id: 'post-1', title: 'Published', views: 0 },
+    { title: { old: 'Draft', new: 'Published' } },
+  );
+  const deleted = log('2026-04-01T00:00:00Z', 'delete', { id: 'post-1', title: 'Published', views: 0 }, null);
+
+  it('should return the state as of the given time', () => {
+    const result = reconstructEntityState([renamed, created, deleted], { at: new Date('2026-03-01T00:00:00Z') });
+
+    expect(result.state).toEqual({ id: 'post-1', title: 'Published', views: 0 });
+    expect(result.status).toBe('exists');
+    expect(result.lastModifiedAt).toEqual(new Date('2026-02-01T00:00:00Z'));
+    expect(result.appliedChanges).toBe(2);
+    expect(result.isComplete).toBe(true);
+  });
+
+  it('should include logs at exactly the given time', () => {
+    const result = reconstructEntityState([created, renamed], { at: new Date('2026-02-01T00:00:00Z') });
+
+    expect(result.state?.title).toBe('Published');
+  });
+
+  it('should report deleted entities', () => {
+    const result = reconstructEntityState([created, renamed, deleted]);
+
+    expect(result.state).toBeNull();
+    expect(result.status).toBe('deleted');
+    expect(result.isComplete).toBe(true);
+  });
+
+  it('should report unknown status before the first log', () => {
+    const result = reconstructEntityState([created], { at: new Date('2025-12-31T00:00:00Z') });
+
+    expect(result).toMatchObject({ state: null, status: 'unknown', appliedChanges: 0, isComplete: true });
+  });
+
+  it('should collapse rows written once per aggregate root', () => {
+    const result = reconstructEntityState([created, { ...created }, renamed, { ...renamed }]);
+
+    expect(result.appliedChanges).toBe(2);
+    expect(result.isComplete).toBe(true);
+  });
+
+  it('should detect a missing create', () => {
+    const result = reconstructEntityState([renamed]);
+
+    expect(result.state?.title).toBe('Published');
+    expect(result.gaps).toEqual([{ _tag: 'MissingCreate', firstLogAt: new Date('2026-02-01T00:00:00Z') }]);
+  });
+
+  it('should detect writes missing from the trail', () => {
+    // The views change between create and rename was never logged (e.g. sampled out)
+    const renamedAfterUnloggedWrite = log(
+      '2026-02-01T00:00:00Z',
+      'update',
+      { id: 'post-1', title: 'Draft', views: 10 },
+      { id: 'post-1', title: 'Published', views: 10 },
+    );
+
+    const result = reconstructEntityState([created, renamedAfterUnloggedWrite]);
+
+    expect(result.state).toEqual({ id: 'post-1', title: 'Published', views: 10 });
+    expect(result.gaps).toEqual([
+      { _tag: 'MissingHistory', detectedAt: new Date('2026-02-01T00:00:00Z'), fields: ['views'] },
+    ]);
+    expect(result.isComplete).toBe(false);
+  });
+
+  it('should not treat excluded fields as missing history but report them', () => {
+    const withTimestamp = log('2026-01-01T00:00:00Z', 'create', null, { id: 'post-1', updatedAt: 't1' });
+    const laterUpdate = log(
+      '2026-02-01T00:00:00Z',
+      'update',
+      { id: 'post-1', updatedAt: 't2' },
+      { id: 'post-1', title: 'New', updatedAt: 't3' },
+    );
+
+    const result = reconstructEntityState([withTimestamp, laterUpdate], { excludeFields: ['updatedAt'] });
+
+    expect(result.gaps).toEqual([{ _tag: 'ExcludedField', field: 'updatedAt' }]);
+  });
+
+  it('should report redacted fields', () => {
+    const createdUser = log('2026-01-01T00:00:00Z', 'create', null, {
+      id: 'user-1',
+      password: { redacted: true, hadValue: true },
+    });
+
+    const result = reconstructEntityState([createdUser]);
+
+    expect(result.gaps).toEqual([{ _tag: 'RedactedField', field: 'password' }]);
+  });
+
+  it('should report fields listed as masked by the log that set them', () => {
+    const createdUser = {
+      ...log('2026-01-01T00:00:00Z', 'create', null, { id: 'user-1', email: '***@example.com', name: 'Alice' }),
+      entityContext: { redactedFields: ['email'] },
+    };
+    const renamed = log('2026-02-01T00:00:00Z', 'update', null, null, { name: { old: 'Alice', new: 'Alicia' } });
+    const emailChanged = {
+      ...log('2026-03-01T00:00:00Z', 'update', null, null, { email: { old: '***@example.com', new: 'b@example.org' } }),
+      entityContext: { redactedFields: [] },
+    };
+
+    expect(reconstructEntityState([createdUser, renamed]).gaps).toEqual([{ _tag: 'RedactedField', field: 'email' }]);
+    expect(reconstructEntityState([createdUser, renamed, emailChanged]).gaps).toEqual([]);
+  });
+
+  it('should report encrypted payloads and replay the log without them', () => {
+    const envelope = { encrypted: 'aes-256-gcm', kid: 'key-1', iv: 'aXY=', tag: 'dGFn', ciphertext: 'Y3Q=' };
+    const encryptedCreate = log('2026-01-01T00:00:00Z', 'create', null, envelope);
+    const readableUpdate = log(
+      '2026-02-01T00:00:00Z',
+      'update',
+      { id: 'post-1', title: 'Draft', views: 0 },
+      { id: 'post-1', title: 'Published', views: 0 },
+    );
+
+    const atCreate = reconstructEntityState([encryptedCreate, readableUpdate], { at: new Date('2026-01-15') });
+    const result = reconstructEntityState([encryptedCreate, readableUpdate]);
+
+    expect(atCreate.state).toBeNull();
+    expect(atCreate.status).toBe('exists');
+    expect(result.state).toEqual({ id: 'post-1', title: 'Published', views: 0 });
+    expect(result.gaps).toEqual([
+      { _tag: 'EncryptedPayload', detectedAt: new Date('2026-01-01T00:00:00Z'), columns: ['after'] },
+    ]);
+  });
+
+  it('should fall back to applying changes when after is missing', () => {
+    const updateWithoutSnapshot = log('2026-02-01T00:00:00Z', 'update', null, null, {
+      title: { old: 'Draft', new: 'Edited' },
+    });
+
+    const result = reconstructEntityState([created, updateWithoutSnapshot]);
+
+    expect(result.state).toEqual({ id: 'post-1', title: 'Edited', views: 0 });
+  });
+
+  it('should ignore read logs', () => {
+    const read = log('2026-01-15T00:00:00Z', 'read', null, null);
+
+    const result = reconstructEntityState([created, read]);
+
+    expect(result.appliedChanges).toBe(1);
+    expect(result.lastModifiedAt).toEqual(created.createdAt);
+  });
+
+  it('should ignore relation link and unlink logs', () => {
+    const linked = log('2026-01-15T00:00:00Z', 'link', null, null, { tags: { old: null, new: { id: 'tag-1' } } });
+
+    const result = reconstructEntityState([created, linked]);
+
+    expect(result.state).toEqual(created.after);
+    expect(result.appliedChanges).toBe(1);
+  });
+
+  it('should replay revert logs by their snapshots', () => {
+    const undoCreate = log('2026-02-01T00:00:00Z', 'revert', { id: 'post-1', title: 'Draft', views: 0 }, null);
+    const undoDelete = log('2026-03-01T00:00:00Z', 'revert', null, { id: 'post-1', title: 'Draft', views: 0 });
+
+    const removed = reconstructEntityState([created, undoCreate]);
+    const restored = reconstructEntityState([created, undoCreate, undoDelete]);
+
+    expect(removed.status).toBe('deleted');
+    expect(restored.state).toEqual({ id: 'post-1', title: 'Draft', views: 0 });
+    expect(restored.isComplete).toBe(true);
+  });
+});
+
+describe('collapseFanOut', () => {
+  it('should sort chronologically and keep the first row per change', () => {
+    const first = log('2026-01-02T00:00:00Z', 'update', { a: 1 }, { a: 2 });
+    const second = log('2026-01-01T00:00:00Z', 'create', null, { a: 1 });
+
+    expect(collapseFanOut([first, second, { ...first }])).toEqual([second, first]);
+  });
+});
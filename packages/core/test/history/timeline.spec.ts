@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import type { AuditLogData } from '../../src/domain/audit-log-types.js';
+import { createActorId, createAggregateId, createEntityId, createTraceId } from '../../src/domain/branded-types.js';
+import { buildAggregateTimeline } from '../../src/history/timeline.js';
+
+const createLog = (overrides: Partial<AuditLogData> & { createdAt: Date }): AuditLogData => ({
+  actorCategory: 'model',
+  actorType: 'User',
+  actorId: createActorId('user-1'),
+  actorContext: null,
+  entityCategory: 'model',
+  entityType: 'User',
+  entityId: createEntityId('user-1'),
+  entityContext: null,
+  aggregateCategory: 'model',
+  aggregateType: 'User',
+  aggregateId: createAggregateId('user-1'),
+  aggregateContext: null,
+  action: 'update',
+  before: null,
+  after: null,
+  changes: null,
+  requestContext: { path: '/users/user-1' },
+  ...overrides,
+});
+
+const root = { aggregateType: 'User', aggregateId: 'user-1' };
+
+describe('buildAggregateTimeline', () => {
+  it('should group changes from one operation into a single event', () => {
+    const userCreated = createLog({ action: 'create', createdAt: new Date('2026-01-01T00:00:00.000Z') });
+    const postCreated = createLog({
+      action: 'create',
+      entityType: 'Post',
+      entityId: createEntityId('post-1'),
+      createdAt: new Date('2026-01-01T00:00:00.020Z'),
+    });
+
+    const timeline = buildAggregateTimeline([postCreated, userCreated], root);
+
+    expect(timeline.events).toHaveLength(1);
+    expect(timeline.events[0]?.changes.map((c) => [c.entityType, c.isRoot])).toEqual([
+      ['User', true],
+      ['Post', false],
+    ]);
+  });
+
+  it('should start a new event for a different actor, request or time window', () => {
+    const base = new Date('2026-01-01T00:00:00.000Z').getTime();
+    const logs = [
+      createLog({ createdAt: new Date(base) }),
+      createLog({ createdAt: new Date(base + 10), actorId: createActorId('admin-1') }),
+      createLog({ createdAt: new Date(base + 20), actorId: createActorId('admin-1'), requestContext: { path: '/x' } }),
+      createLog({
+        createdAt: new Date(base + 5000),
+        actorId: createActorId('admin-1'),
+        requestContext: { path: '/x' },
+      }),
+    ];
+
+    const timeline = buildAggregateTimeline(logs, root);
+
+    expect(timeline.events).toHaveLength(4);
+  });
+
+  it('should group changes by operationId when recorded', () => {
+    const base = new Date('2026-01-01T00:00:00.000Z').getTime();
+    const logs = [
+      createLog({ createdAt: new Date(base), operationId: createTraceId('op-1') }),
+      createLog({
+        entityType: 'Post',
+        entityId: createEntityId('post-1'),
+        createdAt: new Date(base + 2000),
+        operationId: createTraceId('op-1'),
+      }),
+      createLog({ createdAt: new Date(base + 2010), after: { name: 'B' }, operationId: createTraceId('op-2') }),
+    ];
+
+    const timeline = buildAggregateTimeline(logs, root);
+
+    expect(timeline.events.map((e) => [e.operationId, e.changes.length])).toEqual([
+      ['op-1', 2],
+      ['op-2', 1],
+    ]);
+  });
+
+  it('should group changes by operationId when concurrent operations interleave', () => {
+    const base = new Date('2026-01-01T00:00:00.000Z').getTime();
+    const logs = [
+      createLog({ createdAt: new Date(base), operationId: createTraceId('op-1') }),
+      createLog({
+        entityType: 'Post',
+        entityId: createEntityId('post-1'),
+        createdAt: new Date(base + 5),
+        operationId: createTraceId('op-2'),
+      }),
+      createLog({
+        entityType: 'Post',
+        entityId: createEntityId('post-2'),
+        createdAt: new Date(base + 10),
+        operationId: createTraceId('op-1'),
+      }),
+      createLog({
+        entityType: 'Post',
+        entityId: createEntityId('post-3'),
+        createdAt: new Date(base + 15),
+        operationId: createTraceId('op-2'),
+      }),
+    ];
+
+    const timeline = buildAggregateTimeline(logs, root);
+
+    expect(timeline.events.map((e) => [e.operationId, e.changes.map((c) => c.entityId)])).toEqual([
+      ['op-1', ['user-1', 'post-2']],
+      ['op-2', ['post-1', 'post-3']],
+    ]);
+  });
+
+  it('should collapse fan-out rows of one operation despite differing timestamps', () => {
+    const change = createLog({ after: { name: 'A' }, createdAt: new Date('2026-01-01T00:00:00.000Z') });
+    const operationId = createTraceId('op-1');
+
+    const timeline = buildAggregateTimeline(
+      [
+        { ...change, operationId },
+        { ...change, operationId, createdAt: new Date('2026-01-01T00:00:00.003Z') },
+      ],
+      root,
+    );
+
+    expect(timeline.events).toHaveLength(1);
+    expect(timeline.events[0]?.changes).toHaveLength(1);
+  });
+
+  it('should collapse duplicate fan-out rows for the same entity change', () => {
+    const change = createLog({
+      entityType: 'Post',
+      entityId: createEntityId('post-1'),
+      after: { title: 'New' },
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+    });
+
+    const timeline = buildAggregateTimeline([change, { ...change }], root);
+
+    expect(timeline.events[0]?.changes).toHaveLength(1);
+  });
+
+  it('should ignore logs for other aggregate roots', () => {
+    const other = createLog({ aggregateId: createAggregateId('user-2'), createdAt: new Date('2026-01-01T00:00:00Z') });
+
+    const timeline = buildAggregateTimeline([other], root);
+
+    expect(timeline.events).toEqual([]);
+  });
+
+  it('should return newest events first when order is desc', () => {
+    const first = createLog({ createdAt: new Date('2026-01-01T00:00:00Z') });
+    const second = createLog({ createdAt: new Date('2026-01-02T00:00:00Z') });
+
+    const timeline = buildAggregateTimeline([first, second], root, { order: 'desc' });
+
+    expect(timeline.events.map((e) => e.occurredAt)).toEqual([second.createdAt, first.createdAt]);
+  });
+
+  it('should flag changes whose columns are still encrypted', () => {
+    const envelope = { encrypted: 'aes-256-gcm', kid: 'key-1', iv: 'aXY=', tag: 'dGFn', ciphertext: 'Y3Q=' };
+    const encrypted = createLog({ after: envelope, changes: envelope, createdAt: new Date('2026-01-01T00:00:00Z') });
+    const readable = createLog({ after: { id: 'user-1' }, createdAt: new Date('2026-01-02T00:00:00Z') });
+
+    const timeline = buildAggregateTimeline([encrypted, readable], root);
+
+    expect(timeline.events.map((event) => event.changes[0]?.encryptedColumns)).toEqual([['after', 'changes'], []]);
+  });
+});
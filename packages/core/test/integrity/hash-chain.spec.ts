@@ -0,0 +1,392 @@
+/**
+ * Audit Log Hash Chain Tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createActorId, createAggregateId, createEntityId } from '../../src/domain/branded-types.js';
+import type { AuditLogData, ChainedAuditLog, ChainHeadReader, HashChainScope } from '../../src/index.js';
+import {
+  computeAuditLogHash,
+  createChainVerifier,
+  createHashChainExecutor,
+  GLOBAL_CHAIN_KEY,
+  toChainAnchors,
+} from '../../src/integrity/index.js';
+import type { WriteExecutor } from '../../src/write-strategies/interfaces.js';
+
+const createLog = (aggregateId: string, overrides: Partial<AuditLogData> = {}): AuditLogData => ({
+  actorCategory: 'model',
+  actorType: 'User',
+  actorId: createActorId('admin-1'),
+  actorContext: { role: 'admin', name: 'Admin' },
+  entityCategory: 'model',
+  entityType: 'Post',
+  entityId: createEntityId(`post-${aggregateId}`),
+  entityContext: null,
+  aggregateCategory: 'model',
+  aggregateType: 'User',
+  aggregateId: createAggregateId(aggregateId),
+  aggregateContext: null,
+  action: 'update',
+  before: { title: 'Before', views: 1n },
+  after: { title: 'After', views: 2n },
+  changes: { title: { old: 'Before', new: 'After' } },
+  requestContext: null,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+/**
+ * In-memory audit log table behind a hash chain executor
+ */
+const createChainedStore = (scope: HashChainScope) => {
+  const rows: ChainedAuditLog[] = [];
+  const readHead: ChainHeadReader = async (_client, _modelName, chainKey) => {
+    const chain = rows.filter((row) => row.chainKey === chainKey);
+    return chain[chain.length - 1];
+  };
+  const inner: WriteExecutor = {
+    write: async (_client, _modelName, logs) => {
+      rows.push(...(logs as unknown as ChainedAuditLog[]));
+    },
+  };
+  return { rows, executor: createHashChainExecutor(inner, { scope, readHead }) };
+};
+
+/** Row another writer appended to the global chain */
+const linkedRow = (rows: ChainedAuditLog[]): ChainedAuditLog => {
+  const log = createLog('user-9');
+  const link = {
+    chainKey: GLOBAL_CHAIN_KEY,
+    chainSequence: rows.length + 1,
+    previousHash: rows.at(-1)?.hash ?? null,
+  };
+  return { ...log, ...link, hash: computeAuditLogHash(log, link) } as unknown as ChainedAuditLog;
+};
+
+/** Simulate storage: JSON columns lose key order and BigInt, dates come back as Date */
+const roundTrip = (row: ChainedAuditLog): ChainedAuditLog => {
+  const reversed = (value: unknown): unknown =>
+    value && typeof value === 'object' ? Object.fromEntries(Object.entries(value).reverse()) : value;
+  const stored = JSON.parse(JSON.stringify(row, (_key, v) => (typeof v === 'bigint' ? v.toString() : v)));
+  return { ...stored, actorContext: reversed(stored.actorContext), createdAt: new Date(stored.createdAt) };
+};
+
+describe('createHashChainExecutor', () => {
+  it('should link logs into one chain per aggregate', async () => {
+    // Arrange
+    const { rows, executor } = createChainedStore('aggregate');
+
+    // Act
+    await executor.write({}, 'auditLog', [createLog('user-1'), createLog('user-2')]);
+    await executor.write({}, 'auditLog', [createLog('user-1')]);
+
+    // Assert
+    expect(rows.map((row) => [row.chainKey, row.chainSequence])).toEqual([
+      ['User:user-1', 1],
+      ['User:user-2', 1],
+      ['User:user-1', 2],
+    ]);
+    expect(rows[0]?.previousHash).toBeNull();
+    expect(rows[2]?.previousHash).toBe(rows[0]?.hash);
+  });
+
+  it('should link every log into a single chain in global scope', async () => {
+    const { rows, executor } = createChainedStore('global');
+
+    await executor.write({}, 'auditLog', [createLog('user-1'), createLog('user-2')]);
+
+    expect(rows.map((row) => [row.chainKey, row.chainSequence])).toEqual([
+      [GLOBAL_CHAIN_KEY, 1],
+      [GLOBAL_CHAIN_KEY, 2],
+    ]);
+    expect(rows[1]?.previousHash).toBe(rows[0]?.hash);
+  });
+
+  it('should serialize concurrent writes so each one links onto the previous head', async () => {
+    // Arrange
+    const rows: ChainedAuditLog[] = [];
+    const slowWrite = vi.fn(async (_client: unknown, _modelName: string, logs: AuditLogData[]) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      rows.push(...(logs as unknown as ChainedAuditLog[]));
+    });
+    const executor = createHashChainExecutor(
+      { write: slowWrite },
+      { scope: 'global', readHead: async () => rows.at(-1) },
+    );
+
+    // Act - fire-and-forget style: writes are started without awaiting each other
+    await Promise.all([1, 2, 3].map((n) => executor.write({}, 'auditLog', [createLog(`user-${n}`)])));
+
+    // Assert
+    expect(rows.map((row) => row.chainSequence)).toEqual([1, 2, 3]);
+  });
+
+  it('should not consume a sequence number when the write fails', async () => {
+    // Arrange
+    const rows: ChainedAuditLog[] = [];
+    const write = vi
+      .fn<WriteExecutor['write']>()
+      .mockRejectedValueOnce(new Error('connection lost'))
+      .mockImplementation(async (_client, _modelName, logs) => {
+        rows.push(...(logs as unknown as ChainedAuditLog[]));
+      });
+    const executor = createHashChainExecutor({ write }, { scope: 'global', readHead: async () => rows.at(-1) });
+
+    // Act
+    await expect(executor.write({}, 'auditLog', [createLog('user-1')])).rejects.toThrow('connection lost');
+    await executor.write({}, 'auditLog', [createLog('user-1')]);
+
+    // Assert
+    expect(rows.map((row) => row.chainSequence)).toEqual([1]);
+  });
+});
+
+describe('createHashChainExecutor locking', () => {
+  /** Write whose first call blocks until released, recording written rows */
+  const createGatedWrite = (rows: ChainedAuditLog[]) => {
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const write = vi.fn<WriteExecutor['write']>(async (_client, _modelName, logs) => {
+      if (write.mock.calls.length === 1) {
+        await gate;
+      }
+      rows.push(...(logs as unknown as ChainedAuditLog[]));
+    });
+    return { write, release };
+  };
+
+  it('should not make writes to other chains wait', async () => {
+    // Arrange
+    const rows: ChainedAuditLog[] = [];
+    const { write, release } = createGatedWrite(rows);
+    const executor = createHashChainExecutor({ write }, { scope: 'aggregate', readHead: async () => undefined });
+
+    // Act
+    const blocked = executor.write({}, 'auditLog', [createLog('user-1')]);
+    await vi.waitFor(() => expect(write).toHaveBeenCalledTimes(1));
+    await executor.write({}, 'auditLog', [createLog('user-2')]);
+    release();
+    await blocked;
+
+    // Assert
+    expect(rows.map((row) => row.chainKey)).toEqual(['User:user-2', 'User:user-1']);
+  });
+
+  it('should make writes of another executor to the same chain wait', async () => {
+    // Arrange - two executors, as built by the extension and an outbox relay
+    const rows: ChainedAuditLog[] = [];
+    const { write, release } = createGatedWrite(rows);
+    const heads = { readHead: async () => rows.at(-1) };
+    const extensionExecutor = createHashChainExecutor({ write }, { scope: 'global', ...heads });
+    const relayExecutor = createHashChainExecutor({ write }, { scope: 'global', ...heads });
+
+    // Act
+    const first = extensionExecutor.write({}, 'auditLog', [createLog('user-1')]);
+    await vi.waitFor(() => expect(write).toHaveBeenCalledTimes(1));
+    const second = relayExecutor.write({}, 'auditLog', [createLog('user-2')]);
+    release();
+    await Promise.all([first, second]);
+
+    // Assert - the second write read the head the first one wrote
+    expect(rows.map((row) => row.chainSequence)).toEqual([1, 2]);
+    expect(rows[1]?.previousHash).toBe(rows[0]?.hash);
+  });
+
+  it('should not make a transaction wait for writes of another transaction', async () => {
+    // Arrange
+    const rows: ChainedAuditLog[] = [];
+    const { write, release } = createGatedWrite(rows);
+    const executor = createHashChainExecutor(
+      { write },
+      { scope: 'global', readHead: async () => undefined, isTransactional: () => true },
+    );
+    const transactionA = {};
+    const transactionB = {};
+
+    // Act - A holds the chain position until released, as a database lock would
+    const blocked = executor.write(transactionA, 'auditLog', [createLog('user-1')]);
+    await vi.waitFor(() => expect(write).toHaveBeenCalledTimes(1));
+    await executor.write(transactionB, 'auditLog', [createLog('user-2')]);
+    release();
+    await blocked;
+
+    // Assert
+    expect(write.mock.calls.map(([client]) => client)).toEqual([transactionA, transactionB]);
+  });
+
+  it('should re-link a row onto the new head when another writer took its position', async () => {
+    // Arrange
+    const rows: ChainedAuditLog[] = [];
+    const conflict = Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+    const write = vi
+      .fn<WriteExecutor['write']>()
+      .mockImplementationOnce(async () => {
+        // Another process appends to the chain first
+        rows.push(linkedRow(rows));
+        throw conflict;
+      })
+      .mockImplementation(async (_client, _modelName, logs) => {
+        rows.push(...(logs as unknown as ChainedAuditLog[]));
+      });
+    const executor = createHashChainExecutor(
+      { write },
+      {
+        scope: 'global',
+        readHead: async () => rows.at(-1),
+        isConflict: (error) => (error as { code?: string }).code === 'P2002',
+      },
+    );
+
+    // Act
+    await executor.write({}, 'auditLog', [createLog('user-1')]);
+
+    // Assert
+    expect(rows.map((row) => row.chainSequence)).toEqual([1, 2]);
+    expect(rows[1]?.previousHash).toBe(rows[0]?.hash);
+  });
+
+  it('should give up after maxAttempts conflicts', async () => {
+    const conflict = Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+    const write = vi.fn<WriteExecutor['write']>().mockRejectedValue(conflict);
+    const executor = createHashChainExecutor(
+      { write },
+      { scope: 'global', readHead: async () => undefined, isConflict: () => true, maxAttempts: 2 },
+    );
+
+    await expect(executor.write({}, 'auditLog', [createLog('user-1')])).rejects.toBe(conflict);
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createChainVerifier', () => {
+  const writeChain = async (count: number): Promise<ChainedAuditLog[]> => {
+    const { rows, executor } = createChainedStore('aggregate');
+    for (let n = 1; n <= count; n++) {
+      await executor.write({}, 'auditLog', [createLog('user-1', { after: { title: `v${n}` } })]);
+    }
+    return rows.map((row, index) => ({ ...roundTrip(row), id: `log-${index + 1}` }));
+  };
+
+  it('should accept rows read back from storage', async () => {
+    const rows = await writeChain(3);
+    const verify = createChainVerifier();
+
+    expect(rows.map((row) => verify(row))).toEqual([undefined, undefined, undefined]);
+  });
+
+  it('should detect a modified payload', async () => {
+    // Arrange
+    const [first, second] = await writeChain(2);
+    const verify = createChainVerifier();
+
+    // Act
+    verify(first as ChainedAuditLog);
+    const violation = verify({ ...(second as ChainedAuditLog), after: { title: 'forged' } });
+
+    // Assert
+    expect(violation).toMatchObject({ _tag: 'ModifiedPayload', chainSequence: 2, id: 'log-2' });
+  });
+
+  it('should detect a deleted row', async () => {
+    const [first, , third] = await writeChain(3);
+    const verify = createChainVerifier();
+
+    verify(first as ChainedAuditLog);
+
+    expect(verify(third as ChainedAuditLog)).toEqual({
+      _tag: 'MissingSequence',
+      chainKey: 'User:user-1',
+      expectedSequence: 2,
+      actualSequence: 3,
+      id: 'log-3',
+    });
+  });
+
+  it('should detect a row rewritten together with its hash', async () => {
+    // Arrange
+    const [first, second] = (await writeChain(2)) as [ChainedAuditLog, ChainedAuditLog];
+    const forged = { ...first, after: { title: 'forged' } };
+    forged.hash = computeAuditLogHash(forged, forged);
+    const verify = createChainVerifier();
+
+    // Act
+    const violations = [verify(forged), verify(second)];
+
+    // Assert
+    expect(violations[0]).toBeUndefined();
+    expect(violations[1]).toMatchObject({
+      _tag: 'BrokenLink',
+      expectedPreviousHash: forged.hash,
+      actualPreviousHash: first.hash,
+    });
+  });
+
+  it('should bridge gaps covered by anchors of purged rows', async () => {
+    // Arrange - rows 1-2 and 4 were purged, by two separate purges
+    const [first, second, third, fourth, fifth] = (await writeChain(5)) as ChainedAuditLog[];
+    const verify = createChainVerifier([
+      ...toChainAnchors([second as ChainedAuditLog, first as ChainedAuditLog]),
+      ...toChainAnchors([fourth as ChainedAuditLog]),
+    ]);
+
+    // Act
+    const violations = [verify(third as ChainedAuditLog), verify(fifth as ChainedAuditLog)];
+
+    // Assert
+    expect(violations).toEqual([undefined, undefined]);
+  });
+
+  it('should detect deletions next to a purged run', async () => {
+    // Arrange - row 1 was purged, row 2 was deleted without a trace
+    const [first, , third] = (await writeChain(3)) as ChainedAuditLog[];
+    const verify = createChainVerifier(toChainAnchors([first as ChainedAuditLog]));
+
+    // Act
+    const violation = verify(third as ChainedAuditLog);
+
+    // Assert
+    expect(violation).toMatchObject({ _tag: 'MissingSequence', expectedSequence: 1, actualSequence: 3 });
+  });
+});
+
+describe('toChainAnchors', () => {
+  it('should describe each run of consecutive sequences per chain', () => {
+    const links = [
+      { chainKey: 'b', chainSequence: 1, previousHash: null, hash: 'b1' },
+      { chainKey: 'a', chainSequence: 3, previousHash: 'a2', hash: 'a3' },
+      { chainKey: 'a', chainSequence: 1, previousHash: null, hash: 'a1' },
+      { chainKey: 'a', chainSequence: 2, previousHash: 'a1', hash: 'a2' },
+      { chainKey: 'a', chainSequence: 5, previousHash: 'a4', hash: 'a5' },
+    ];
+
+    expect(toChainAnchors(links)).toEqual([
+      { chainKey: 'a', fromSequence: 1, toSequence: 3, previousHash: null, hash: 'a3' },
+      { chainKey: 'a', fromSequence: 5, toSequence: 5, previousHash: 'a4', hash: 'a5' },
+      { chainKey: 'b', fromSequence: 1, toSequence: 1, previousHash: null, hash: 'b1' },
+    ]);
+  });
+});
+
+describe('computeAuditLogHash', () => {
+  const link = { chainKey: 'User:user-1', chainSequence: 1, previousHash: null };
+
+  it('should cover delegation fields only when they are set', () => {
+    // Arrange
+    const log = createLog('user-1');
+
+    // Act
+    const plain = computeAuditLogHash(log, link);
+    const withNulls = computeAuditLogHash({ ...log, impersonatorId: null, delegationContext: null }, link);
+    const impersonated = computeAuditLogHash(
+      { ...log, impersonatorId: createActorId('agent-1'), delegationContext: { impersonator: { id: 'agent-1' } } },
+      link,
+    );
+
+    // Assert
+    expect(withNulls).toBe(plain);
+    expect(impersonated).not.toBe(plain);
+  });
+});
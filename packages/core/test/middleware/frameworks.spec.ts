@@ -0,0 +1,138 @@
+/**
+ * HTTP Framework Injection Tests
+ * Runs the Hono, Express, Fastify and Koa adapters inside the real frameworks and checks that route
+ * handlers see the audit context, including after body parsing and asynchronous work
+ */
+
+import express from 'express';
+import Fastify from 'fastify';
+import { Hono } from 'hono';
+import Koa from 'koa';
+import { inject } from 'light-my-request';
+import { describe, expect, it } from 'vitest';
+import { createAsyncLocalStorageProvider } from '../../src/context-provider.js';
+import {
+  createExpressAuditMiddleware,
+  createFastifyAuditHook,
+  createHonoAuditMiddleware,
+  createKoaAuditMiddleware,
+  fromApiKeyHeader,
+} from '../../src/middleware/index.js';
+import type { AuditActor } from '../../src/types.js';
+
+const alice: AuditActor = { category: 'model', type: 'User', id: 'user-1', name: 'Alice' };
+
+const provider = createAsyncLocalStorageProvider();
+const options = {
+  provider,
+  actor: fromApiKeyHeader({ resolve: (key) => (key === 'key-1' ? alice : undefined) }),
+  anonymousActor: false as const,
+};
+const headers = { 'x-api-key': 'key-1', 'user-agent': 'test', 'content-type': 'application/json' };
+
+/** Context seen by a handler after yielding to the event loop */
+const contextAfterTick = async () => {
+  await new Promise((resolve) => setImmediate(resolve));
+  return provider.getContext() ?? null;
+};
+
+describe('framework injection', () => {
+  it('should run Hono handlers inside the audit context', async () => {
+    // Arrange
+    const app = new Hono();
+    app.use('*', createHonoAuditMiddleware(options));
+    app.post('/posts', async (c) => c.json({ body: await c.req.json(), context: await contextAfterTick() }));
+
+    // Act
+    const response = await app.request('/posts', { method: 'POST', headers, body: JSON.stringify({ title: 'a' }) });
+    const anonymous = await app.request('/posts', { method: 'POST', body: '{}' });
+
+    // Assert
+    expect(await response.json()).toEqual({
+      body: { title: 'a' },
+      context: { actor: alice, request: { userAgent: 'test', path: '/posts', method: 'POST' } },
+    });
+    expect(await anonymous.json()).toMatchObject({ context: null });
+  });
+
+  it('should run Express handlers inside the audit context after body parsing', async () => {
+    // Arrange
+    const app = express();
+    app.use(createExpressAuditMiddleware(options));
+    app.use(express.json());
+    app.post('/posts', async (req, res) => {
+      res.json({ body: req.body, context: await contextAfterTick() });
+    });
+
+    // Act
+    const response = await inject(app, { method: 'POST', url: '/posts?draft=true', headers, payload: { title: 'a' } });
+
+    // Assert
+    expect(response.json()).toEqual({
+      body: { title: 'a' },
+      context: {
+        actor: alice,
+        request: { ipAddress: '127.0.0.1', userAgent: 'test', path: '/posts', method: 'POST' },
+      },
+    });
+  });
+
+  it('should pass Express extractor errors to the error handler', async () => {
+    // Arrange
+    const app = express();
+    app.use(createExpressAuditMiddleware({ provider, actor: () => Promise.reject(new Error('lookup failed')) }));
+    app.get('/posts', (_req, res) => {
+      res.json({ reached: true });
+    });
+    app.use((error: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).json({ error: error.message });
+    });
+
+    // Act
+    const response = await inject(app, { method: 'GET', url: '/posts' });
+
+    // Assert
+    expect(response.statusCode).toBe(500);
+    expect(response.json()).toEqual({ error: 'lookup failed' });
+  });
+
+  it('should run Fastify handlers inside the audit context after body parsing', async () => {
+    // Arrange
+    const app = Fastify();
+    app.addHook('preHandler', createFastifyAuditHook(options));
+    app.post('/posts', async (request) => ({ body: request.body, context: await contextAfterTick() }));
+
+    // Act
+    const response = await app.inject({ method: 'POST', url: '/posts?draft=true', headers, payload: { title: 'a' } });
+    await app.close();
+
+    // Assert
+    expect(response.json()).toEqual({
+      body: { title: 'a' },
+      context: {
+        actor: alice,
+        request: { ipAddress: '127.0.0.1', userAgent: 'test', path: '/posts', method: 'POST' },
+      },
+    });
+  });
+
+  it('should run downstream Koa middleware inside the audit context', async () => {
+    // Arrange
+    const app = new Koa();
+    app.use(createKoaAuditMiddleware(options));
+    app.use(async (ctx) => {
+      ctx.body = { context: await contextAfterTick() };
+    });
+
+    // Act
+    const response = await inject(app.callback(), { method: 'DELETE', url: '/posts/1', headers });
+
+    // Assert
+    expect(response.json()).toEqual({
+      context: {
+        actor: alice,
+        request: { ipAddress: '127.0.0.1', userAgent: 'test', path: '/posts/1', method: 'DELETE' },
+      },
+    });
+  });
+});
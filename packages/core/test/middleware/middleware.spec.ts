@@ -0,0 +1,314 @@
+/**
+ * HTTP Middleware Tests
+ * Tests for request metadata collection, actor extractors, the Hono, Express, Fastify and Koa adapters
+ * and the tRPC middleware
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createAsyncLocalStorageProvider } from '../../src/context-provider.js';
+import {
+  ANONYMOUS_ACTOR,
+  collectRequestMetadata,
+  createAuditContextResolver,
+  createExpressAuditMiddleware,
+  createFastifyAuditHook,
+  createHonoAuditMiddleware,
+  createKoaAuditMiddleware,
+  createTrpcAuditMiddleware,
+  decodeJwtPayload,
+  fromApiKeyHeader,
+  fromJwtClaim,
+  fromSession,
+} from '../../src/middleware/index.js';
+import type { AuditHttpRequest } from '../../src/middleware/types.js';
+import type { AuditActor, AuditContext } from '../../src/types.js';
+
+const createRequest = (headers: Record<string, string> = {}, raw: unknown = {}): AuditHttpRequest => ({
+  method: 'POST',
+  path: '/posts',
+  header: (name) => headers[name.toLowerCase()],
+  remoteAddress: '10.0.0.1',
+  raw,
+});
+
+const toJwt = (payload: Record<string, unknown>): string =>
+  ['header', Buffer.from(JSON.stringify(payload)).toString('base64url'), 'signature'].join('.');
+
+const alice: AuditActor = { category: 'model', type: 'User', id: 'user-1', name: 'Alice' };
+
+describe('collectRequestMetadata', () => {
+  it('should collect the default fields and leave out missing ones', () => {
+    expect(
+      collectRequestMetadata(createRequest({ 'user-agent': 'curl/8.0', 'x-forwarded-for': '203.0.113.7' })),
+    ).toEqual({ ipAddress: '10.0.0.1', userAgent: 'curl/8.0', path: '/posts', method: 'POST' });
+  });
+
+  it('should trust forwarded addresses only when enabled', () => {
+    // Arrange
+    const request = createRequest({ 'x-forwarded-for': '203.0.113.7, 10.0.0.2', 'x-request-id': 'req-1' });
+
+    // Act
+    const metadata = collectRequestMetadata(request, { trustProxy: true });
+
+    // Assert
+    expect(metadata).toMatchObject({ ipAddress: '203.0.113.7', requestId: 'req-1' });
+  });
+
+  it('should copy allowed headers except denied ones', () => {
+    // Arrange
+    const request = createRequest({ 'accept-language': 'ja', authorization: 'Bearer secret', 'x-tenant': 'acme' });
+
+    // Act
+    const metadata = collectRequestMetadata(request, {
+      allowHeaders: ['Accept-Language', 'Authorization', 'X-Tenant'],
+      extra: () => ({ service: 'blog' }),
+    });
+    const withCustomDeny = collectRequestMetadata(request, { allowHeaders: ['x-tenant'], denyHeaders: ['x-tenant'] });
+
+    // Assert
+    expect(metadata).toMatchObject({ headers: { 'accept-language': 'ja', 'x-tenant': 'acme' }, service: 'blog' });
+    expect(withCustomDeny).not.toHaveProperty('headers');
+  });
+});
+
+describe('createAuditContextResolver', () => {
+  it('should use the first actor an extractor finds', async () => {
+    // Arrange
+    const second = vi.fn().mockReturnValue({ ...alice, id: 'user-2' });
+    const resolve = createAuditContextResolver({
+      provider: createAsyncLocalStorageProvider(),
+      actor: [() => undefined, async () => alice, second],
+      request: false,
+    });
+
+    // Act
+    const context = await resolve(createRequest());
+
+    // Assert
+    expect(context).toEqual({ actor: alice });
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the anonymous actor unless disabled', async () => {
+    // Arrange
+    const provider = createAsyncLocalStorageProvider();
+    const perAddress = (request: AuditHttpRequest): AuditActor => ({
+      ...ANONYMOUS_ACTOR,
+      id: `anon:${request.remoteAddress}`,
+    });
+
+    // Act
+    const byDefault = await createAuditContextResolver({ provider })(createRequest());
+    const custom = await createAuditContextResolver({ provider, anonymousActor: perAddress })(createRequest());
+    const disabled = await createAuditContextResolver({ provider, anonymousActor: false })(createRequest());
+
+    // Assert
+    expect(byDefault?.actor).toEqual(ANONYMOUS_ACTOR);
+    expect(byDefault?.request).toMatchObject({ path: '/posts' });
+    expect(custom?.actor.id).toBe('anon:10.0.0.1');
+    expect(disabled).toBeUndefined();
+  });
+});
+
+describe('actor extractors', () => {
+  it('should read the actor from a verified JWT claim', async () => {
+    // Arrange
+    const verify = vi.fn((token: string) => (token === 'valid' ? { uid: 42, name: 'Alice' } : undefined));
+    const extractor = fromJwtClaim({ verify, claim: 'uid', nameClaim: 'name', type: 'Member' });
+
+    // Act
+    const actor = await extractor(createRequest({ authorization: 'Bearer valid' }));
+    const invalid = await extractor(createRequest({ authorization: 'Bearer forged' }));
+    const missing = await extractor(createRequest());
+
+    // Assert
+    expect(actor).toEqual({ category: 'model', type: 'Member', id: '42', name: 'Alice' });
+    expect(invalid).toBeUndefined();
+    expect(missing).toBeUndefined();
+  });
+
+  it('should treat a failing verification as no actor', async () => {
+    const extractor = fromJwtClaim({
+      verify: () => {
+        throw new Error('expired');
+      },
+    });
+
+    await expect(extractor(createRequest({ authorization: 'Bearer token' }))).resolves.toBeUndefined();
+  });
+
+  it('should decode JWT payloads without verification', () => {
+    expect(decodeJwtPayload(toJwt({ sub: 'user-1' }))).toEqual({ sub: 'user-1' });
+    expect(decodeJwtPayload('not-a-jwt')).toBeUndefined();
+    expect(decodeJwtPayload(toJwt(['array'] as never))).toBeUndefined();
+  });
+
+  it('should read the actor from the session and from an API key', async () => {
+    // Arrange
+    const session = fromSession({
+      session: (raw) => (raw as { session?: { user?: Record<string, unknown> } }).session?.user,
+      nameField: 'email',
+    });
+    const resolve = vi.fn(async (key: string) =>
+      key === 'key-1' ? { category: 'api', type: 'ApiClient', id: 'client-1' } : undefined,
+    );
+    const apiKey = fromApiKeyHeader({ resolve });
+
+    // Act
+    const sessionActor = await session(createRequest({}, { session: { user: { id: 'user-1', email: 'a@x.io' } } }));
+    const noSession = await session(createRequest());
+    const apiActor = await apiKey(createRequest({ 'x-api-key': 'key-1' }));
+
+    // Assert
+    expect(sessionActor).toEqual({ category: 'model', type: 'User', id: 'user-1', name: 'a@x.io' });
+    expect(noSession).toBeUndefined();
+    expect(apiActor).toMatchObject({ id: 'client-1' });
+    expect(resolve).toHaveBeenCalledWith('key-1');
+  });
+});
+
+describe('framework adapters', () => {
+  const provider = createAsyncLocalStorageProvider();
+  const options = { provider, actor: fromApiKeyHeader({ resolve: () => alice }) };
+  const headers = { 'x-api-key': 'key-1', 'user-agent': 'test' };
+
+  it('should run Hono handlers inside the audit context', async () => {
+    // Arrange
+    let seen: AuditContext | undefined;
+    const middleware = createHonoAuditMiddleware(options);
+    const c = {
+      req: { method: 'GET', path: '/users', header: (name: string) => headers[name as keyof typeof headers] },
+      env: { incoming: { socket: { remoteAddress: '127.0.0.1' } } },
+    };
+
+    // Act
+    await middleware(c, async () => {
+      seen = provider.getContext();
+    });
+
+    // Assert
+    expect(seen).toEqual({
+      actor: alice,
+      request: { ipAddress: '127.0.0.1', userAgent: 'test', path: '/users', method: 'GET' },
+    });
+  });
+
+  it('should run Express handlers inside the audit context and forward errors', async () => {
+    // Arrange
+    const middleware = createExpressAuditMiddleware(options);
+    const req = { method: 'GET', path: '/users', headers, ip: '127.0.0.1' };
+    const failing = createExpressAuditMiddleware({
+      provider,
+      actor: () => Promise.reject(new Error('lookup failed')),
+    });
+
+    // Act
+    const seen = await new Promise<AuditContext | undefined>((resolve) => {
+      middleware(req, {}, () => resolve(provider.getContext()));
+    });
+    const error = await new Promise<unknown>((resolve) => {
+      failing(req, {}, resolve);
+    });
+
+    // Assert
+    expect(seen?.actor).toEqual(alice);
+    expect(seen?.request).toMatchObject({ ipAddress: '127.0.0.1', path: '/users' });
+    expect(error).toEqual(new Error('lookup failed'));
+  });
+
+  it('should run Fastify handlers inside the audit context', async () => {
+    // Arrange
+    const hook = createFastifyAuditHook(options);
+    const request = { method: 'POST', url: '/posts?draft=true', headers: { ...headers, 'user-agent': ['a', 'b'] } };
+
+    // Act
+    const seen = await new Promise<AuditContext | undefined>((resolve) => {
+      hook(request, {}, () => resolve(provider.getContext()));
+    });
+
+    // Assert
+    expect(seen?.request).toEqual({ userAgent: 'a, b', path: '/posts', method: 'POST' });
+  });
+
+  it('should run downstream Koa middleware inside the audit context', async () => {
+    // Arrange
+    let seen: AuditContext | undefined;
+    const middleware = createKoaAuditMiddleware({ ...options, anonymousActor: false, actor: () => undefined });
+    const withActor = createKoaAuditMiddleware(options);
+    const ctx = {
+      method: 'DELETE',
+      path: '/posts/1',
+      ip: '127.0.0.1',
+      get: (name: string) => headers[name as keyof typeof headers] ?? '',
+    };
+
+    // Act
+    await middleware(ctx, async () => {
+      seen = provider.getContext();
+    });
+    const withoutActor = seen;
+    await withActor(ctx, async () => {
+      seen = provider.getContext();
+    });
+
+    // Assert
+    expect(withoutActor).toBeUndefined();
+    expect(seen).toEqual({
+      actor: alice,
+      request: { ipAddress: '127.0.0.1', userAgent: 'test', path: '/posts/1', method: 'DELETE' },
+    });
+  });
+});
+
+describe('createTrpcAuditMiddleware', () => {
+  const provider = createAsyncLocalStorageProvider();
+  type TrpcContext = { user?: { id: string }; ip: string };
+  const actor = (ctx: TrpcContext): AuditActor | undefined =>
+    ctx.user && { category: 'model', type: 'User', id: ctx.user.id };
+
+  it('should run procedures with the actor and procedure metadata', async () => {
+    // Arrange
+    const middleware = createTrpcAuditMiddleware<TrpcContext>({
+      provider,
+      actor,
+      request: (ctx) => ({ ipAddress: ctx.ip }),
+    });
+
+    // Act
+    const result = await middleware({
+      ctx: { user: { id: 'user-1' }, ip: '127.0.0.1' },
+      path: 'post.create',
+      type: 'mutation',
+      next: async () => ({ ok: true, context: provider.getContext() }),
+    });
+
+    // Assert
+    expect(result).toEqual({
+      ok: true,
+      context: {
+        actor: { category: 'model', type: 'User', id: 'user-1' },
+        request: { ipAddress: '127.0.0.1', procedure: 'post.create', procedureType: 'mutation' },
+      },
+    });
+  });
+
+  it('should use the anonymous actor unless disabled', async () => {
+    // Arrange
+    const byDefault = createTrpcAuditMiddleware<TrpcContext>({ provider, actor });
+    const disabled = createTrpcAuditMiddleware<TrpcContext>({ provider, actor, anonymousActor: false });
+    const params = {
+      ctx: { ip: '127.0.0.1' },
+      path: 'post.list',
+      type: 'query',
+      next: async () => provider.getContext(),
+    };
+
+    // Act
+    const anonymous = await byDefault(params);
+    const none = await disabled(params);
+
+    // Assert
+    expect(anonymous).toEqual({ actor: ANONYMOUS_ACTOR, request: { procedure: 'post.list', procedureType: 'query' } });
+    expect(none).toBeUndefined();
+  });
+});
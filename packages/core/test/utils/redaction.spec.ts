@@ -2,7 +2,10 @@ import { describe, expect, it } from 'vitest';
 import {
   createRedactor,
   getDefaultSensitiveFields,
+  hashRedactedValue,
+  isRedactedFieldInfo,
   isSensitiveField,
+  mergeRedactConfig,
   type RedactedFieldInfo,
   redactSensitiveData,
 } from '../../src/index.js';
@@ -639,3 +642,221 @@ describe('BigInt safety in redaction', () => {
     });
   });
 });
+
+describe('isRedactedFieldInfo', () => {
+  it('should recognize redaction markers produced by the redactor', () => {
+    const result = createRedactor()({ password: 'secret' }) as Record<string, unknown>;
+    expect(isRedactedFieldInfo(result.password)).toBe(true);
+  });
+
+  it('should reject ordinary values', () => {
+    expect(isRedactedFieldInfo(null)).toBe(false);
+    expect(isRedactedFieldInfo('secret')).toBe(false);
+    expect(isRedactedFieldInfo({ redacted: true })).toBe(false);
+    expect(isRedactedFieldInfo({ redacted: 'yes', hadValue: true })).toBe(false);
+  });
+});
+
+describe('redaction strategies', () => {
+  it('should report the paths of masked values but not of markers or null values', () => {
+    const masked: string[] = [];
+    const redactor = createRedactor(
+      {
+        strategies: {
+          email: { type: 'email' },
+          backupEmail: { type: 'email' },
+          'metadata.billing.iban': { type: 'hash', key: 'k1' },
+        },
+      },
+      (path) => masked.push(path),
+    );
+
+    redactor({
+      email: { old: 'a@example.com', new: 'b@example.com' },
+      password: 'secret',
+      backupEmail: null,
+      metadata: { billing: { iban: 'DE89' } },
+    });
+
+    expect(masked).toEqual(['email', 'metadata.billing.iban']);
+  });
+
+  it('should hash values with a keyed HMAC so equal values stay equal', () => {
+    const strategy = { type: 'hash', key: 'k1' } as const;
+    const redactor = createRedactor({ strategies: { email: strategy } });
+
+    const result = redactor({ a: { email: 'alice@example.com' }, b: { email: 'alice@example.com' } }) as Record<
+      string,
+      { email: string }
+    >;
+
+    expect(result.a?.email).toMatch(/^hmac-sha256:[0-9a-f]{64}$/);
+    expect(result.a?.email).toBe(result.b?.email);
+    expect(result.a?.email).toBe(hashRedactedValue('alice@example.com', strategy));
+    expect(result.a?.email).not.toBe(hashRedactedValue('alice@example.com', { type: 'hash', key: 'k2' }));
+  });
+
+  it('should keep the last digits of a card number and its separators', () => {
+    const redactor = createRedactor({ strategies: { cardNumber: { type: 'partial', keepEnd: 4 } } });
+
+    expect(redactor({ cardNumber: '4111-1111-1111-1234' })).toEqual({ cardNumber: '****-****-****-1234' });
+  });
+
+  it('should keep only the domain of an email address', () => {
+    const redactor = createRedactor({
+      strategies: { email: { type: 'email' }, backupEmail: { type: 'email', keepLocal: 1 } },
+    });
+
+    expect(redactor({ email: 'alice@example.com', backupEmail: 'bob@example.org' })).toEqual({
+      email: '***@example.com',
+      backupEmail: 'b***@example.org',
+    });
+  });
+
+  it('should truncate strings, dates and integers while keeping their type', () => {
+    const redactor = createRedactor({
+      strategies: {
+        postalCode: { type: 'truncate', length: 3 },
+        birthDate: { type: 'truncate', unit: 'year' },
+        bornOn: { type: 'truncate', unit: 'month' },
+        salary: { type: 'truncate', length: 2 },
+      },
+    });
+
+    expect(
+      redactor({
+        postalCode: 'SW1A 1AA',
+        birthDate: new Date('1990-05-17T10:00:00Z'),
+        bornOn: '1990-05-17',
+        salary: 123456,
+      }),
+    ).toEqual({
+      postalCode: 'SW1',
+      birthDate: new Date('1990-01-01T00:00:00Z'),
+      bornOn: '1990-05',
+      salary: 120000,
+    });
+  });
+
+  it('should fall back to the marker when a strategy does not apply to the value', () => {
+    const redactor = createRedactor({ strategies: { address: { type: 'partial', keepEnd: 2 } } });
+
+    expect(redactor({ address: { city: 'Tokyo' } })).toEqual({ address: { redacted: true, hadValue: true } });
+  });
+
+  it('should call custom mask functions with the field name', () => {
+    const redactor = createRedactor({ strategies: { phone: (field, value) => `${field}:${String(value).slice(-2)}` } });
+
+    expect(redactor({ phone: '090-1234-5678' })).toEqual({ phone: 'phone:78' });
+  });
+
+  it('should apply strategies to both sides of a change and keep nulls', () => {
+    const redactor = createRedactor({ strategies: { email: { type: 'email' } } });
+
+    expect(redactor({ email: { old: null, new: 'alice@example.com' } })).toEqual({
+      email: { old: null, new: '***@example.com' },
+    });
+  });
+
+  it('should use defaultStrategy for sensitive fields without their own strategy', () => {
+    const redactor = createRedactor({ fields: ['nationalId'], defaultStrategy: { type: 'partial', keepEnd: 2 } });
+
+    expect(redactor({ nationalId: 'AB123456', password: 'hunter22' })).toEqual({
+      nationalId: '******56',
+      password: '******22',
+    });
+  });
+});
+
+describe('redaction patterns and paths', () => {
+  it('should redact fields matching glob patterns case-insensitively', () => {
+    const redactor = createRedactor({ patterns: ['*password*', '*_api_key'] });
+
+    expect(
+      redactor({ userPassword: 'x', stripe_api_key: 'sk_live', STRIPE_API_KEY: 'sk_test', apiKeyId: 'id' }),
+    ).toEqual({
+      userPassword: { redacted: true, hadValue: true },
+      stripe_api_key: { redacted: true, hadValue: true },
+      STRIPE_API_KEY: { redacted: true, hadValue: true },
+      apiKeyId: 'id',
+    });
+  });
+
+  it('should use regular expression patterns as given', () => {
+    const redactor = createRedactor({ patterns: [/^stripe[A-Z]/] });
+
+    expect(redactor({ stripeCustomer: 'cus_1', stripe: 'x', Stripe_x: 'y' })).toEqual({
+      stripeCustomer: { redacted: true, hadValue: true },
+      stripe: 'x',
+      Stripe_x: 'y',
+    });
+  });
+
+  it('should redact dotted paths into nested objects only', () => {
+    const redactor = createRedactor({ paths: ['metadata.billing.iban'] });
+
+    expect(
+      redactor({ iban: 'top', metadata: { billing: { iban: 'DE89370400440532013000', bic: 'COBADEFF' }, iban: 'x' } }),
+    ).toEqual({
+      iban: 'top',
+      metadata: { billing: { iban: { redacted: true, hadValue: true }, bic: 'COBADEFF' }, iban: 'x' },
+    });
+  });
+
+  it('should match wildcard segments and traverse arrays', () => {
+    const redactor = createRedactor({ paths: ['settings.*.token', 'accounts.number'] });
+
+    expect(
+      redactor({ settings: { github: { token: 'ghp', user: 'a' } }, accounts: [{ number: '1' }, { number: '2' }] }),
+    ).toEqual({
+      settings: { github: { token: { redacted: true, hadValue: true }, user: 'a' } },
+      accounts: [{ number: { redacted: true, hadValue: true } }, { number: { redacted: true, hadValue: true } }],
+    });
+  });
+
+  it('should apply paths inside both sides of a change', () => {
+    const redactor = createRedactor({ paths: ['metadata.billing.iban'] });
+
+    expect(redactor({ metadata: { old: { billing: { iban: 'A' } }, new: { billing: { iban: 'B' } } } })).toEqual({
+      metadata: {
+        old: { billing: { iban: { redacted: true, hadValue: true } } },
+        new: { billing: { iban: { redacted: true, hadValue: true } } },
+      },
+    });
+  });
+
+  it('should prefer a path strategy over a name strategy', () => {
+    const redactor = createRedactor({
+      strategies: { 'metadata.billing.iban': { type: 'partial', keepEnd: 4 }, iban: 'redact' },
+    });
+
+    expect(redactor({ iban: 'DE00', metadata: { billing: { iban: 'DE89370400440532013000' } } })).toEqual({
+      iban: { redacted: true, hadValue: true },
+      metadata: { billing: { iban: '******************3000' } },
+    });
+  });
+});
+
+describe('mergeRedactConfig', () => {
+  it('should add entity fields and let entity strategies win', () => {
+    const merged = mergeRedactConfig(
+      { fields: ['a'], strategies: { email: { type: 'email' }, phone: 'redact' }, defaultStrategy: 'redact' },
+      { fields: ['b'], strategies: { email: { type: 'hash', key: 'k' } } },
+    );
+
+    expect(merged).toEqual({
+      fields: ['a', 'b'],
+      patterns: [],
+      paths: [],
+      strategies: { email: { type: 'hash', key: 'k' }, phone: 'redact' },
+      defaultStrategy: 'redact',
+    });
+  });
+
+  it('should return the global config when the entity has none', () => {
+    const global = { fields: ['a'] };
+
+    expect(mergeRedactConfig(global, undefined)).toBe(global);
+    expect(mergeRedactConfig(undefined, undefined)).toBeUndefined();
+  });
+});
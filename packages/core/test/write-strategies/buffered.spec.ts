@@ -0,0 +1,247 @@
+/**
+ * Buffered Write Strategy Tests
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createActorId, createAggregateId, createEntityId } from '../../src/domain/branded-types.js';
+import type { AuditContext, AuditLogData, BufferedWriter, WriteFn } from '../../src/index.js';
+import { createBufferedWriter, writeBuffered } from '../../src/write-strategies/buffered.js';
+import type { DbClientManager, WriteExecutor } from '../../src/write-strategies/interfaces.js';
+
+const baseClient = { auditLog: {} };
+
+const manager = {
+  baseClient,
+  activeClient: { auditLog: {} },
+} as unknown as DbClientManager;
+
+const context: AuditContext = {
+  actor: {
+    category: 'User',
+    type: 'User',
+    id: '1',
+  },
+};
+
+/**
+ * Create mock audit log data
+ */
+const createMockLog = (id: string): AuditLogData => ({
+  actorCategory: 'User',
+  actorType: 'User',
+  actorId: createActorId('1'),
+  actorContext: null,
+  entityCategory: 'Post',
+  entityType: 'Post',
+  entityId: createEntityId(id),
+  entityContext: null,
+  aggregateCategory: 'Post',
+  aggregateType: 'Post',
+  aggregateId: createAggregateId(id),
+  aggregateContext: null,
+  action: 'create',
+  before: null,
+  after: { id },
+  changes: null,
+  requestContext: null,
+  createdAt: new Date(),
+});
+
+const createMockExecutor = (): WriteExecutor & { write: ReturnType<typeof vi.fn> } => ({
+  write: vi.fn().mockResolvedValue(undefined),
+});
+
+describe('createBufferedWriter', () => {
+  const buffers: BufferedWriter[] = [];
+  const create = (options: Parameters<typeof createBufferedWriter>[0]) => {
+    const buffer = createBufferedWriter({ flushIntervalMs: 60_000, ...options });
+    buffers.push(buffer);
+    return buffer;
+  };
+
+  afterEach(async () => {
+    await Promise.all(buffers.splice(0).map((buffer) => buffer.close()));
+  });
+
+  it('should batch logs of several operations into one write', async () => {
+    // Arrange
+    const executor = createMockExecutor();
+    const buffer = create({ maxBatchSize: 10 });
+
+    // Act
+    await buffer.enqueue(executor, baseClient, 'auditLog', [createMockLog('1')]);
+    await buffer.enqueue(executor, baseClient, 'auditLog', [createMockLog('2'), createMockLog('3')]);
+    expect(executor.write).not.toHaveBeenCalled();
+    await buffer.flush();
+
+    // Assert
+    expect(executor.write).toHaveBeenCalledTimes(1);
+    expect(executor.write.mock.calls[0]?.[2]).toHaveLength(3);
+    expect(buffer.getStats()).toMatchObject({ queued: 0, inFlight: 0, written: 3, flushes: 1 });
+  });
+
+  it('should flush when a batch fills up and split it by maxBatchSize', async () => {
+    // Arrange
+    const executor = createMockExecutor();
+    const buffer = create({ maxBatchSize: 2 });
+
+    // Act
+    await buffer.enqueue(executor, baseClient, 'auditLog', [
+      createMockLog('1'),
+      createMockLog('2'),
+      createMockLog('3'),
+    ]);
+    await buffer.flush();
+
+    // Assert
+    expect(executor.write.mock.calls.map(([, , logs]) => logs.length)).toEqual([2, 1]);
+  });
+
+  it('should flush on the interval', async () => {
+    vi.useFakeTimers();
+    try {
+      // Arrange
+      const executor = createMockExecutor();
+      const buffer = create({ flushIntervalMs: 100 });
+      await buffer.enqueue(executor, baseClient, 'auditLog', [createMockLog('1')]);
+
+      // Act
+      await vi.advanceTimersByTimeAsync(100);
+
+      // Assert
+      expect(executor.write).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should drop logs and report them when the queue is full in drop mode', async () => {
+    // Arrange
+    const executor = createMockExecutor();
+    const onError = vi.fn();
+    const buffer = create({ maxQueueSize: 2, overflow: 'drop', onError });
+
+    // Act
+    await buffer.enqueue(executor, baseClient, 'auditLog', [createMockLog('1'), createMockLog('2')]);
+    await buffer.enqueue(executor, baseClient, 'auditLog', [createMockLog('3')]);
+
+    // Assert
+    expect(buffer.getStats()).toMatchObject({ queued: 2, dropped: 1 });
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), [expect.objectContaining({ entityId: '3' })]);
+  });
+
+  it('should make the caller wait for a flush when the queue is full in block mode', async () => {
+    // Arrange
+    const executor = createMockExecutor();
+    const buffer = create({ maxQueueSize: 2 });
+    await buffer.enqueue(executor, baseClient, 'auditLog', [createMockLog('1'), createMockLog('2')]);
+
+    // Act
+    await buffer.enqueue(executor, baseClient, 'auditLog', [createMockLog('3')]);
+
+    // Assert
+    expect(executor.write).toHaveBeenCalledTimes(1);
+    expect(buffer.getStats()).toMatchObject({ queued: 1, written: 2, blocked: 1, dropped: 0 });
+  });
+
+  it('should count failed batches and keep writing the rest', async () => {
+    // Arrange
+    const executor = createMockExecutor();
+    executor.write.mockRejectedValueOnce(new Error('Database error'));
+    const onError = vi.fn();
+    const buffer = create({ onError });
+
+    // Act
+    await buffer.enqueue(executor, baseClient, 'auditLog', [createMockLog('1')]);
+    await buffer.enqueue(executor, baseClient, 'activity', [createMockLog('2')]);
+    await buffer.flush();
+
+    // Assert
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Database error' }), expect.any(Array));
+    expect(buffer.getStats()).toMatchObject({ failed: 1, written: 1 });
+  });
+
+  it('should not install process listeners by default', async () => {
+    // Arrange
+    const listeners = ['beforeExit', 'SIGINT', 'SIGTERM'].map((event) => process.listenerCount(event));
+
+    // Act
+    const buffer = createBufferedWriter();
+
+    // Assert
+    expect(['beforeExit', 'SIGINT', 'SIGTERM'].map((event) => process.listenerCount(event))).toEqual(listeners);
+    await buffer.close();
+  });
+
+  it('should flush remaining logs on close and stop listening to opted-in events', async () => {
+    // Arrange
+    const executor = createMockExecutor();
+    const listeners = ['beforeExit', 'SIGTERM'].map((event) => process.listenerCount(event));
+    const buffer = createBufferedWriter({ flushOnExit: true, shutdownSignals: ['SIGTERM'] });
+    await buffer.enqueue(executor, baseClient, 'auditLog', [createMockLog('1')]);
+    expect(['beforeExit', 'SIGTERM'].map((event) => process.listenerCount(event))).toEqual(
+      listeners.map((count) => count + 1),
+    );
+
+    // Act
+    await buffer.close();
+
+    // Assert
+    expect(executor.write).toHaveBeenCalledTimes(1);
+    expect(['beforeExit', 'SIGTERM'].map((event) => process.listenerCount(event))).toEqual(listeners);
+  });
+});
+
+describe('writeBuffered', () => {
+  it('should enqueue logs for the base client and return Buffered', async () => {
+    // Arrange
+    const executor = createMockExecutor();
+    const buffer = { enqueue: vi.fn().mockResolvedValue(undefined) } as unknown as BufferedWriter;
+    const logs = [createMockLog('1')];
+
+    // Act
+    const result = await writeBuffered(logs, context, manager, 'auditLog', undefined, vi.fn(), executor, buffer);
+
+    // Assert
+    expect(result._tag).toBe('Buffered');
+    expect(buffer.enqueue).toHaveBeenCalledWith(executor, baseClient, 'auditLog', logs);
+  });
+
+  it('should route the default write of a custom writer through the buffer', async () => {
+    // Arrange
+    const executor = createMockExecutor();
+    const buffer = { enqueue: vi.fn().mockResolvedValue(undefined) } as unknown as BufferedWriter;
+    const writer: WriteFn = vi.fn(async (logs, _context, defaultWrite) => defaultWrite(logs));
+
+    // Act
+    await writeBuffered([createMockLog('1')], context, manager, 'auditLog', writer, vi.fn(), executor, buffer);
+
+    // Assert
+    expect(writer).toHaveBeenCalledTimes(1);
+    expect(buffer.enqueue).toHaveBeenCalledTimes(1);
+    expect(executor.write).not.toHaveBeenCalled();
+  });
+
+  it('should pass custom writer errors to the error handler', async () => {
+    // Arrange
+    const buffer = { enqueue: vi.fn() } as unknown as BufferedWriter;
+    const writer: WriteFn = vi.fn().mockRejectedValue(new Error('Writer error'));
+    const errorHandler = vi.fn();
+
+    // Act
+    const result = await writeBuffered(
+      [createMockLog('1')],
+      context,
+      manager,
+      'auditLog',
+      writer,
+      errorHandler,
+      createMockExecutor(),
+      buffer,
+    );
+
+    // Assert
+    expect(result._tag).toBe('Buffered');
+    expect(errorHandler).toHaveBeenCalledWith(expect.any(Error), 'buffered audit log write');
+  });
+});
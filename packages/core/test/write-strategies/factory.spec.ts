@@ -142,6 +142,35 @@ describe('createWriteStrategySelector', () => {
         expect(typeof result.execute).toBe('function');
       }
     });
+
+    it('should return outbox strategy when in transaction with an outbox configured', async () => {
+      const outbox = { enqueue: vi.fn().mockResolvedValue(undefined) };
+      const config: WriteStrategyConfig = {
+        awaitWrite: false,
+        aggregateConfig: {
+          getEntityConfig: () => undefined,
+        },
+        outbox,
+      };
+
+      const selector = createWriteStrategySelector(config, mockExecutor);
+      const strategy = selector(mockTransactionalContext, 'User');
+
+      const result = await strategy(
+        mockLogs,
+        mockTransactionalContext,
+        mockManager,
+        'auditLog',
+        mockWriter,
+        mockHandleError,
+        mockExecutor,
+      );
+
+      // Outbox strategy stores logs through the transactional client instead of deferring
+      expect(result._tag).toBe('Outboxed');
+      expect(outbox.enqueue).toHaveBeenCalledWith(mockManager.activeClient, mockLogs, mockTransactionalContext);
+      expect(mockExecutor.write).not.toHaveBeenCalled();
+    });
   });
 
   describe('Non-transactional context with awaitWrite: false', () => {
@@ -170,6 +199,39 @@ describe('createWriteStrategySelector', () => {
       expect(result._tag).toBe('Immediate');
       expect(result).toHaveProperty('createdAt');
     });
+
+    it('should return buffered strategy when a buffer is configured', async () => {
+      const buffer = {
+        enqueue: vi.fn().mockResolvedValue(undefined),
+        flush: vi.fn(),
+        close: vi.fn(),
+        getStats: vi.fn(),
+      };
+      const config: WriteStrategyConfig = {
+        awaitWrite: false,
+        aggregateConfig: {
+          getEntityConfig: () => undefined,
+        },
+        buffer,
+      };
+
+      const selector = createWriteStrategySelector(config, mockExecutor);
+      const strategy = selector(mockContext, 'User');
+
+      const result = await strategy(
+        mockLogs,
+        mockContext,
+        mockManager,
+        'auditLog',
+        undefined,
+        mockHandleError,
+        mockExecutor,
+      );
+
+      // Buffered strategy hands logs to the buffer for the base client
+      expect(result._tag).toBe('Buffered');
+      expect(buffer.enqueue).toHaveBeenCalledWith(mockExecutor, mockManager.baseClient, 'auditLog', mockLogs);
+    });
   });
 
   describe('Tag-based awaitWriteIf', () => {
@@ -0,0 +1,83 @@
+/**
+ * Integration Tests: Array Transactions
+ *
+ * Verifies that `$transaction([...])` batches are replayed as interactive transactions by the
+ * real query engine, so their audit logs commit and roll back with the batch.
+ */
+
+import type { AuditContext } from '@kuruwic/prisma-audit-core';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { cleanDatabase, setupTestDatabase, type TestContext, teardownTestDatabase } from './helpers/setup.js';
+
+const auditContext: AuditContext = {
+  actor: { category: 'model', type: 'User', id: 'admin-1' },
+};
+
+describe('Array Transaction Integration', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    await teardownTestDatabase(context);
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(context.prisma);
+  });
+
+  it('should commit the batch and its audit logs under one transaction ID', async () => {
+    // Act
+    const [alice, bob] = await context.provider.runAsync(auditContext, () =>
+      context.prisma.$transaction(
+        [
+          context.prisma.user.create({ data: { email: 'alice@example.com', name: 'Alice' } }),
+          context.prisma.user.create({ data: { email: 'bob@example.com', name: 'Bob' } }),
+        ],
+        { isolationLevel: 'Serializable', timeout: 10000 },
+      ),
+    );
+
+    // Assert
+    const logs = await context.basePrisma.auditLog.findMany({ where: { entityType: 'User', action: 'create' } });
+    expect(logs.map((log: { entityId: string }) => log.entityId).sort()).toEqual([alice.id, bob.id].sort());
+    expect(logs[0]?.transactionId).toEqual(expect.any(String));
+    expect(logs[1]?.transactionId).toBe(logs[0]?.transactionId);
+  });
+
+  it('should roll back the batch and its audit logs together', async () => {
+    // Act - the second insert violates the unique email
+    const result = context.provider.runAsync(auditContext, () =>
+      context.prisma.$transaction([
+        context.prisma.user.create({ data: { email: 'carol@example.com', name: 'Carol' } }),
+        context.prisma.user.create({ data: { email: 'carol@example.com', name: 'Carol again' } }),
+      ]),
+    );
+
+    // Assert
+    await expect(result).rejects.toThrow();
+    expect(await context.basePrisma.user.count()).toBe(0);
+    expect(await context.basePrisma.auditLog.count()).toBe(0);
+  });
+
+  it('should time out a batch that exceeds the forwarded timeout', async () => {
+    // Act - pg_sleep keeps the replayed batch open past its timeout
+    const result = context.provider.runAsync(auditContext, () =>
+      context.prisma.$transaction(
+        [
+          context.prisma.user.create({ data: { email: 'dave@example.com', name: 'Dave' } }),
+          context.prisma.$queryRaw`SELECT pg_sleep(1)`,
+          context.prisma.user.create({ data: { email: 'erin@example.com', name: 'Erin' } }),
+        ],
+        { timeout: 200 },
+      ),
+    );
+
+    // Assert
+    await expect(result).rejects.toThrow();
+    expect(await context.basePrisma.user.count()).toBe(0);
+    expect(await context.basePrisma.auditLog.count()).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Integration Tests: Referential Actions
+ *
+ * Verifies that rows the database removes through `onDelete: Cascade` are pre-fetched and
+ * logged as deletes when `cascades` is enabled.
+ */
+
+import { createAuditClient } from '@kuruwic/prisma-audit';
+import type { AuditContext, AuditContextProvider } from '@kuruwic/prisma-audit-core';
+import { createAsyncLocalStorageProvider } from '@kuruwic/prisma-audit-core';
+import { Prisma, PrismaClient } from '@kuruwic/prisma-audit-database/generated/client';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  cleanDatabase,
+  type SharedTestContext,
+  setupTestContainer,
+  teardownTestContainer,
+  testAggregateMapping,
+} from './helpers/setup.js';
+
+const auditContext: AuditContext = {
+  actor: { category: 'model', type: 'User', id: 'admin-1' },
+};
+
+const createCascadeClient = (basePrisma: PrismaClient, provider: AuditContextProvider, maxDepth?: number) =>
+  createAuditClient(basePrisma, {
+    Prisma,
+    provider,
+    basePrisma,
+    aggregateMapping: testAggregateMapping,
+    performance: { awaitWrite: true },
+    nestedOperations: { delete: { fetchBeforeOperation: true } },
+    cascades: { enabled: true, ...(maxDepth !== undefined && { maxDepth }) },
+  });
+
+describe('Referential Action Integration', () => {
+  let shared: SharedTestContext;
+  let basePrisma: PrismaClient;
+  let provider: AuditContextProvider;
+
+  beforeAll(async () => {
+    shared = await setupTestContainer();
+  }, 60000);
+
+  beforeEach(async () => {
+    basePrisma = new PrismaClient({ datasources: { db: { url: shared.databaseUrl } } });
+    provider = createAsyncLocalStorageProvider();
+    await cleanDatabase(basePrisma);
+  });
+
+  afterEach(async () => {
+    await basePrisma.$disconnect();
+  });
+
+  afterAll(async () => {
+    await teardownTestContainer(shared);
+  });
+
+  /**
+   * A user with a post, a comment on it and a tag on it, created without auditing
+   */
+  const seedUserTree = async () => {
+    const user = await basePrisma.user.create({ data: { email: 'author@example.com', name: 'Author' } });
+    const post = await basePrisma.post.create({ data: { title: 'Post', authorId: user.id } });
+    const comment = await basePrisma.comment.create({
+      data: { content: 'Comment', postId: post.id, authorId: user.id },
+    });
+    const tag = await basePrisma.tag.create({ data: { name: 'tag' } });
+    const postTag = await basePrisma.postTag.create({ data: { postId: post.id, tagId: tag.id } });
+    return { user, post, comment, tag, postTag };
+  };
+
+  const deleteLogs = async () =>
+    (await basePrisma.auditLog.findMany({ where: { action: 'delete' } })).map(
+      (log: { entityType: string; entityId: string; aggregateType: string; aggregateId: string }) =>
+        `${log.entityType}:${log.entityId}@${log.aggregateType}:${log.aggregateId}`,
+    );
+
+  it('should log every row removed by cascading deletes', async () => {
+    // Arrange
+    const { user, post, comment, postTag } = await seedUserTree();
+    const prisma = createCascadeClient(basePrisma, provider);
+
+    // Act
+    await provider.runAsync(auditContext, () => prisma.user.delete({ where: { id: user.id } }));
+
+    // Assert - each row is logged under its own aggregate roots
+    expect((await deleteLogs()).sort()).toEqual(
+      [
+        `User:${user.id}@User:${user.id}`,
+        `Post:${post.id}@Post:${post.id}`,
+        `Post:${post.id}@User:${user.id}`,
+        `Comment:${comment.id}@Comment:${comment.id}`,
+        `Comment:${comment.id}@Post:${post.id}`,
+        `Comment:${comment.id}@User:${user.id}`,
+        `PostTag:${postTag.id}@PostTag:${postTag.id}`,
+        `PostTag:${postTag.id}@Post:${post.id}`,
+        `PostTag:${postTag.id}@Tag:${postTag.tagId}`,
+      ].sort(),
+    );
+    const postLog = await basePrisma.auditLog.findFirst({ where: { entityType: 'Post', action: 'delete' } });
+    expect(postLog?.before).toMatchObject({ id: post.id, title: 'Post' });
+    expect(postLog?.after).toBeNull();
+  });
+
+  it('should stop following referencing rows at maxDepth', async () => {
+    // Arrange
+    const { user } = await seedUserTree();
+    const prisma = createCascadeClient(basePrisma, provider, 1);
+
+    // Act
+    await provider.runAsync(auditContext, () => prisma.user.delete({ where: { id: user.id } }));
+
+    // Assert - post tags only reference the user through the post (level 2)
+    const entityTypes = new Set((await deleteLogs()).map((log) => log.split(':')[0]));
+    expect([...entityTypes].sort()).toEqual(['Comment', 'Post', 'User']);
+    expect(await basePrisma.postTag.count()).toBe(0);
+  });
+});
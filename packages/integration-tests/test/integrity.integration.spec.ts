@@ -0,0 +1,121 @@
+/**
+ * Integration Tests: Hash Chain Integrity
+ *
+ * Verifies that concurrent writers extend audit log hash chains without forking or
+ * deadlocking them against a real database.
+ */
+
+import type { HashChainScope } from '@kuruwic/prisma-audit';
+import { createAuditClient, verifyAuditChain } from '@kuruwic/prisma-audit';
+import type { AuditContext, AuditContextProvider } from '@kuruwic/prisma-audit-core';
+import { createAsyncLocalStorageProvider } from '@kuruwic/prisma-audit-core';
+import type { Prisma as PrismaTypes } from '@kuruwic/prisma-audit-database/generated/client';
+import { Prisma, PrismaClient } from '@kuruwic/prisma-audit-database/generated/client';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  cleanDatabase,
+  type SharedTestContext,
+  setupTestContainer,
+  teardownTestContainer,
+  testAggregateMapping,
+} from './helpers/setup.js';
+
+const auditContext: AuditContext = {
+  actor: { category: 'model', type: 'User', id: 'admin-1' },
+};
+
+const createIntegrityClient = (basePrisma: PrismaClient, provider: AuditContextProvider, scope: HashChainScope) =>
+  createAuditClient(basePrisma, {
+    Prisma,
+    provider,
+    basePrisma,
+    aggregateMapping: testAggregateMapping,
+    performance: { awaitWrite: true },
+    integrity: { enabled: true, scope },
+  });
+
+const createUserData = (name: string) => ({ email: `${name}@example.com`, name, password: 'secret123' });
+
+describe('Hash Chain Integrity Integration', () => {
+  let shared: SharedTestContext;
+  let basePrisma: PrismaClient;
+  let provider: AuditContextProvider;
+
+  beforeAll(async () => {
+    shared = await setupTestContainer();
+  }, 60000);
+
+  beforeEach(async () => {
+    basePrisma = new PrismaClient({ datasources: { db: { url: shared.databaseUrl } } });
+    provider = createAsyncLocalStorageProvider();
+    await cleanDatabase(basePrisma);
+  });
+
+  afterEach(async () => {
+    await basePrisma.$disconnect();
+  });
+
+  afterAll(async () => {
+    await teardownTestContainer(shared);
+  });
+
+  it('should not deadlock concurrent transactions writing to the same chain', async () => {
+    // Arrange
+    const prisma = createIntegrityClient(basePrisma, provider, 'global');
+    let firstWritten: () => void = () => undefined;
+    const firstWrite = new Promise<void>((resolve) => {
+      firstWritten = resolve;
+    });
+    const startedAt = Date.now();
+
+    // Act - B's first insert blocks on A's uncommitted chain row while A keeps writing
+    const transactionA = provider.runAsync(auditContext, () =>
+      prisma.$transaction(
+        async (tx: PrismaTypes.TransactionClient) => {
+          await tx.user.create({ data: createUserData('a1') });
+          firstWritten();
+          await new Promise((resolve) => setTimeout(resolve, 200));
+          await tx.user.create({ data: createUserData('a2') });
+        },
+        { timeout: 10000 },
+      ),
+    );
+    const transactionB = firstWrite.then(() =>
+      provider.runAsync(auditContext, () =>
+        prisma.$transaction(
+          async (tx: PrismaTypes.TransactionClient) => {
+            await tx.user.create({ data: createUserData('b1') });
+            await tx.user.create({ data: createUserData('b2') });
+          },
+          { timeout: 10000 },
+        ),
+      ),
+    );
+    const [resultA, resultB] = await Promise.allSettled([transactionA, transactionB]);
+
+    // Assert - A commits, B fails fast on the chain's unique index instead of timing out
+    expect(resultA.status).toBe('fulfilled');
+    expect(resultB.status).toBe('rejected');
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    await expect(verifyAuditChain(basePrisma)).resolves.toEqual({ valid: true, checkedRows: 2 });
+  });
+
+  it('should re-link rows when another process appends to the chain', async () => {
+    // Arrange - two clients with separate executors stand in for two processes
+    const prismaA = createIntegrityClient(basePrisma, provider, 'global');
+    const prismaB = createIntegrityClient(basePrisma, provider, 'global');
+
+    // Act
+    await provider.runAsync(auditContext, () =>
+      Promise.all(
+        [1, 2, 3, 4, 5].flatMap((n) => [
+          prismaA.user.create({ data: createUserData(`a${n}`) }),
+          prismaB.user.create({ data: createUserData(`b${n}`) }),
+        ]),
+      ),
+    );
+
+    // Assert
+    await expect(verifyAuditChain(basePrisma)).resolves.toEqual({ valid: true, checkedRows: 10 });
+  });
+});
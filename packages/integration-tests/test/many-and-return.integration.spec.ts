@@ -0,0 +1,117 @@
+import type { AuditContext } from '@kuruwic/prisma-audit-core';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { cleanDatabase, setupTestDatabase, type TestContext, teardownTestDatabase } from './helpers/setup.js';
+
+describe('createManyAndReturn / updateManyAndReturn Integration', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    await teardownTestDatabase(context);
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(context.prisma);
+  });
+
+  const testActor: AuditContext = {
+    actor: {
+      category: 'model',
+      type: 'User',
+      id: 'test-user-1',
+      name: 'Test User',
+    },
+  };
+
+  it('should audit createManyAndReturn using the returned rows', async () => {
+    const users = await context.provider.runAsync(testActor, async () => {
+      return await context.prisma.user.createManyAndReturn({
+        data: [
+          { email: 'cmr1@example.com', name: 'CMR1', password: 'secret' },
+          { email: 'cmr2@example.com', name: 'CMR2', password: 'secret' },
+        ],
+      });
+    });
+
+    expect(users).toHaveLength(2);
+
+    const auditLogs = await context.prisma.auditLog.findMany({
+      where: { entityType: 'User', action: 'create' },
+      orderBy: { entityId: 'asc' },
+    });
+
+    expect(auditLogs).toHaveLength(2);
+    expect(auditLogs.map((log) => log.entityId).sort()).toEqual(users.map((user) => user.id).sort());
+    for (const log of auditLogs) {
+      expect(log.before).toBeNull();
+      const after = log.after as Record<string, unknown>;
+      expect(after.id).toBe(log.entityId);
+      expect(after.createdAt).toBeDefined();
+    }
+  });
+
+  it('should audit updateManyAndReturn with paired before and after states', async () => {
+    const [user1, user2] = await context.provider.runAsync(testActor, async () => {
+      return await context.prisma.user.createManyAndReturn({
+        data: [
+          { email: 'umr1@example.com', name: 'Before1', password: 'secret' },
+          { email: 'umr2@example.com', name: 'Before2', password: 'secret' },
+        ],
+      });
+    });
+
+    const updated = await context.provider.runAsync(testActor, async () => {
+      return await context.prisma.user.updateManyAndReturn({
+        where: { id: { in: [user1?.id ?? '', user2?.id ?? ''] } },
+        data: { name: 'After' },
+      });
+    });
+
+    expect(updated).toHaveLength(2);
+
+    const updateLogs = await context.prisma.auditLog.findMany({
+      where: { entityType: 'User', action: 'update' },
+    });
+
+    expect(updateLogs).toHaveLength(2);
+    for (const log of updateLogs) {
+      const before = log.before as Record<string, unknown>;
+      const after = log.after as Record<string, unknown>;
+      expect(before.id).toBe(log.entityId);
+      expect(after.id).toBe(log.entityId);
+      expect(after.name).toBe('After');
+
+      const changes = log.changes as Record<string, { old: unknown; new: unknown }>;
+      expect(changes.name?.old).toBe(log.entityId === user1?.id ? 'Before1' : 'Before2');
+      expect(changes.name?.new).toBe('After');
+    }
+  });
+
+  it('should audit updateManyAndReturn with select by re-fetching the after state', async () => {
+    const user = await context.provider.runAsync(testActor, async () => {
+      return await context.prisma.user.create({
+        data: { email: 'umrs@example.com', name: 'Before', password: 'secret' },
+      });
+    });
+
+    const updated = await context.provider.runAsync(testActor, async () => {
+      return await context.prisma.user.updateManyAndReturn({
+        where: { id: user.id },
+        data: { name: 'After' },
+        select: { name: true },
+      });
+    });
+
+    expect(updated).toEqual([{ name: 'After' }]);
+
+    const updateLogs = await context.prisma.auditLog.findMany({
+      where: { entityType: 'User', entityId: user.id, action: 'update' },
+    });
+
+    expect(updateLogs).toHaveLength(1);
+    expect((updateLogs[0]?.after as Record<string, unknown>).email).toBe('umrs@example.com');
+  });
+});
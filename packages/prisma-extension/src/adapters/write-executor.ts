@@ -17,6 +17,61 @@ type AuditLogModel = {
   createMany?: (args: { data: AuditLogData[] }) => Promise<unknown>;
 };
 
+/**
+ * Audit log columns that are optional in the Prisma schema
+ *
+ * @remarks
+ * Schemas created before these columns existed keep working: the executor omits
+ * any of them that the audit log model does not declare.
+ */
+export const OPTIONAL_AUDIT_LOG_FIELDS = [
+  'operationId',
+  'transactionId',
+  'impersonatorCategory',
+  'impersonatorType',
+  'impersonatorId',
+  'onBehalfOfCategory',
+  'onBehalfOfType',
+  'onBehalfOfId',
+  'delegationContext',
+] as const;
+
+export type OptionalAuditLogField = (typeof OPTIONAL_AUDIT_LOG_FIELDS)[number];
+
+/**
+ * Find optional audit log columns missing from the audit log model
+ *
+ * @param models - DMMF models, or undefined when the DMMF is unavailable
+ * @param auditLogModelName - Audit log model name (either case of the first letter)
+ * @returns Fields to omit; all optional fields when the model cannot be inspected
+ */
+export const findMissingOptionalFields = (
+  models: ReadonlyArray<{ name: string; fields: ReadonlyArray<{ name: string }> }> | undefined,
+  auditLogModelName: string,
+): OptionalAuditLogField[] => {
+  const target = auditLogModelName.toLowerCase();
+  const model = models?.find((m) => m.name.toLowerCase() === target);
+  if (!model) {
+    return [...OPTIONAL_AUDIT_LOG_FIELDS];
+  }
+  const declared = new Set(model.fields.map((field) => field.name));
+  return OPTIONAL_AUDIT_LOG_FIELDS.filter((field) => !declared.has(field));
+};
+
+/**
+ * Remove fields the audit log model does not declare
+ */
+export const omitFields = (logData: AuditLogData, fields: readonly OptionalAuditLogField[]): AuditLogData => {
+  if (fields.length === 0) {
+    return logData;
+  }
+  const result = { ...logData };
+  for (const field of fields) {
+    delete result[field];
+  }
+  return result;
+};
+
 /**
  * Convert JavaScript null to Prisma.DbNull for SQL NULL storage
  *
@@ -149,12 +204,14 @@ const writeAuditLogs = async (
  * Create Prisma write executor with DbNull support
  *
  * @param DbNull - Prisma.DbNull symbol (project-specific, must be passed from client code)
+ * @param omittedFields - Optional columns missing from the audit log model (see {@link findMissingOptionalFields})
  *
  * @remarks
  * Features:
  * - Automatic createMany/create selection based on database capabilities
  * - SQLite compatibility with sequential write fallback
  * - SQL NULL handling via Prisma.DbNull conversion
+ * - Omission of optional columns the audit log model does not declare
  *
  * @example
  * ```typescript
@@ -164,11 +221,14 @@ const writeAuditLogs = async (
  * const prisma = createPrismaClient(new PrismaClient(), config, Prisma.DbNull);
  * ```
  */
-export const createPrismaWriteExecutor = (DbNull: unknown): WriteExecutor => {
+export const createPrismaWriteExecutor = (
+  DbNull: unknown,
+  omittedFields: readonly OptionalAuditLogField[] = [],
+): WriteExecutor => {
   return {
     write: async (client: unknown, modelName: string, logs: AuditLogData[]): Promise<void> => {
       const model = (client as Record<string, unknown>)[modelName];
-      const convertedLogs = logs.map((log) => convertNullToDbNull(log, DbNull));
+      const convertedLogs = logs.map((log) => convertNullToDbNull(omitFields(log, omittedFields), DbNull));
       await writeAuditLogs(model as Record<string, unknown>, convertedLogs, modelName);
     },
   };
@@ -22,15 +22,20 @@ import {
   createAggregateId,
   createDiffCalculator,
   createEntityId,
+  encryptAuditLog,
+  mergeRedactConfig,
   normalizeId,
+  REDACTED_FIELDS_KEY,
   type RedactConfig,
   redactSensitiveData,
   resolveAllAggregateRoots,
   resolveBeforeAndAfterStates,
   serializeForAuditJson,
+  toDelegationContext,
   type ValueSerializer,
 } from '@kuruwic/prisma-audit-core';
 import type { PrismaClientManager } from '../client-manager/index.js';
+import { RAW_TABLE_ENTITY_ID, type RawWriteEvent } from '../raw-sql/index.js';
 import type { AuditLogData, PrismaAction } from '../types.js';
 
 /**
@@ -92,6 +97,8 @@ const isRecordOrNullish = (value: unknown): value is Record<string, unknown> | n
  * @remarks
  * redactSensitiveData returns unknown but preserves the structure of the input.
  * We validate the output type to ensure it matches our expectations.
+ *
+ * @returns The redacted states and changes, and the sorted paths whose values were masked
  */
 const applyRedactionToStates = (
   beforeData: Record<string, unknown> | null | undefined,
@@ -102,9 +109,14 @@ const applyRedactionToStates = (
   Record<string, unknown> | null | undefined,
   Record<string, unknown> | null | undefined,
   Record<string, { old: unknown; new: unknown }> | null,
+  string[],
 ] => {
-  const redactedBeforeRaw = redactSensitiveData(beforeData, redactConfig);
-  const redactedAfterRaw = redactSensitiveData(afterData, redactConfig);
+  const maskedPaths = new Set<string>();
+  const onMasked = (path: string): void => {
+    maskedPaths.add(path);
+  };
+  const redactedBeforeRaw = redactSensitiveData(beforeData, redactConfig, onMasked);
+  const redactedAfterRaw = redactSensitiveData(afterData, redactConfig, onMasked);
 
   if (!isRecordOrNullish(redactedBeforeRaw) || !isRecordOrNullish(redactedAfterRaw)) {
     throw new Error('[@prisma-audit] Redaction produced unexpected type');
@@ -115,7 +127,7 @@ const applyRedactionToStates = (
 
   let redactedChanges: Record<string, { old: unknown; new: unknown }> | null = null;
   if (changes) {
-    const redactedChangesResult = redactSensitiveData(changes, redactConfig);
+    const redactedChangesResult = redactSensitiveData(changes, redactConfig, onMasked);
     if (!isRecordOrNullish(redactedChangesResult)) {
       throw new Error('[@prisma-audit] Redaction of changes produced unexpected type');
     }
@@ -123,7 +135,21 @@ const applyRedactionToStates = (
     redactedChanges = redactedChangesResult as Record<string, { old: unknown; new: unknown }> | null;
   }
 
-  return [redactedBefore, redactedAfter, redactedChanges];
+  return [redactedBefore, redactedAfter, redactedChanges, [...maskedPaths].sort()];
+};
+
+/**
+ * List masked paths under `entityContext.redactedFields`
+ *
+ * @remarks
+ * Masked values (hash, partial, email, truncate, custom) look like real data, so revert and
+ * reconstruction read this list to refuse them. A non-object entity context is left as it is.
+ */
+const recordRedactedFields = (log: AuditLogData, maskedPaths: readonly string[]): AuditLogData => {
+  if (maskedPaths.length === 0 || !isRecordOrNullish(log.entityContext)) {
+    return log;
+  }
+  return { ...log, entityContext: { ...log.entityContext, [REDACTED_FIELDS_KEY]: maskedPaths } };
 };
 
 /**
@@ -147,8 +173,41 @@ const serializeAuditLogData = (log: AuditLogData, customSerializers?: ValueSeria
   entityContext: serializeForAuditJson(log.entityContext, customSerializers),
   aggregateContext: serializeForAuditJson(log.aggregateContext, customSerializers),
   requestContext: serializeForAuditJson(log.requestContext, customSerializers),
+  ...(log.delegationContext !== undefined && {
+    delegationContext: serializeForAuditJson(log.delegationContext, customSerializers),
+  }),
 });
 
+/**
+ * Encrypt the serialized states of a log when `serialization.encryption` is configured
+ */
+const encryptIfConfigured = (
+  log: AuditLogData,
+  context: AuditContext,
+  serialization: SerializationConfig | undefined,
+): Promise<AuditLogData> | AuditLogData => {
+  return serialization?.encryption ? encryptAuditLog(log, context, serialization.encryption) : log;
+};
+
+/**
+ * Apply redaction to the actor, entity, aggregate and request contexts of a log
+ */
+const redactContexts = (log: AuditLogData, redactConfig: RedactConfig | undefined): AuditLogData => {
+  if (!redactConfig) {
+    return log;
+  }
+  return {
+    ...log,
+    actorContext: redactSensitiveData(log.actorContext, redactConfig),
+    entityContext: redactSensitiveData(log.entityContext, redactConfig),
+    aggregateContext: redactSensitiveData(log.aggregateContext, redactConfig),
+    requestContext: redactSensitiveData(log.requestContext, redactConfig),
+    ...(log.delegationContext !== undefined && {
+      delegationContext: redactSensitiveData(log.delegationContext, redactConfig),
+    }),
+  };
+};
+
 /**
  * Check if only excluded fields were changed (no meaningful changes)
  *
@@ -167,6 +226,33 @@ const shouldSkipAuditLog = (
   return !changes || Object.keys(changes).length === 0;
 };
 
+/**
+ * Build the impersonation and delegation columns of a log
+ *
+ * Uses the delegation context enriched by the enrich stage, or builds it from the AuditContext.
+ * Logs of actions without impersonation or delegation get none of the columns.
+ */
+const buildDelegationColumns = (context: AuditContext): Partial<AuditLogData> => {
+  const delegationContext = context._delegationContext ?? toDelegationContext(context);
+  if (!delegationContext) {
+    return {};
+  }
+  const { impersonator, onBehalfOf } = context;
+  return {
+    ...(impersonator && {
+      impersonatorCategory: impersonator.category,
+      impersonatorType: impersonator.type,
+      impersonatorId: createActorId(impersonator.id),
+    }),
+    ...(onBehalfOf && {
+      onBehalfOfCategory: onBehalfOf.category,
+      onBehalfOfType: onBehalfOf.type,
+      onBehalfOfId: createActorId(onBehalfOf.id),
+    }),
+    delegationContext,
+  };
+};
+
 /**
  * Build a single audit log entry for an aggregate root
  */
@@ -175,7 +261,12 @@ const buildSingleAuditLog = (
   context: AuditContext,
   entityConfig: { category: string; type: string },
   entityId: string,
-  actualAction: PrismaAction,
+  actualAction:
+    | PrismaAction
+    | typeof AUDIT_ACTION.READ
+    | typeof AUDIT_ACTION.RAW
+    | typeof AUDIT_ACTION.LINK
+    | typeof AUDIT_ACTION.UNLINK,
   beforeData: Record<string, unknown> | null | undefined,
   afterData: Record<string, unknown> | null | undefined,
   changes: Record<string, { old: unknown; new: unknown }> | null,
@@ -201,13 +292,16 @@ const buildSingleAuditLog = (
     aggregateId: createAggregateId(root.aggregateId),
     aggregateContext,
 
-    action: actualAction,
+    action: context._auditAction ?? actualAction,
     before: beforeData,
     after: afterData,
     changes,
 
     requestContext,
     createdAt: new Date(),
+    ...(context._operationId && { operationId: context._operationId }),
+    ...(context._transactionId && { transactionId: context._transactionId }),
+    ...buildDelegationColumns(context),
   };
 };
 
@@ -276,8 +370,16 @@ export const buildAuditLog = async (
   let afterData: Record<string, unknown> | null | undefined = afterDataUnredacted;
   let changes: Record<string, { old: unknown; new: unknown }> | null = changesUnredacted;
 
-  if (redact) {
-    [beforeData, afterData, changes] = applyRedactionToStates(beforeData, afterData, changes, redact);
+  let maskedPaths: string[] = [];
+
+  const redactConfig = mergeRedactConfig(redact, entityConfig.redact);
+  if (redactConfig) {
+    [beforeData, afterData, changes, maskedPaths] = applyRedactionToStates(
+      beforeData,
+      afterData,
+      changes,
+      redactConfig,
+    );
   }
 
   const shouldIncludeRelations = entityConfig.includeRelations ?? includeRelations ?? false;
@@ -304,8 +406,172 @@ export const buildAuditLog = async (
       aggregateContextForRoot,
     );
 
-    auditLogs.push(serializeAuditLogData(rawLog, customSerializers));
+    const redactedLog = recordRedactedFields(redactContexts(rawLog, redactConfig), maskedPaths);
+    const serialized = serializeAuditLogData(redactedLog, customSerializers);
+    auditLogs.push(await encryptIfConfigured(serialized, context, serialization));
+  }
+
+  return auditLogs;
+};
+
+/**
+ * Build `read` audit logs for records returned by a read operation
+ *
+ * @remarks
+ * Only the entity ID is recorded (plus the returned field names when `includeSelectedFields`
+ * is set); the payload itself is never stored. Each record is logged against itself as the
+ * aggregate root, since resolving other roots would cost extra queries on every read.
+ * `selectedFieldsOf` gives the field names the caller received when the read ran with the
+ * primary key added to its projection.
+ *
+ * Returns an empty array if the entity has no `auditReads` configuration.
+ */
+export const buildReadAuditLogs = async (
+  records: readonly Record<string, unknown>[],
+  context: AuditContext,
+  modelName: string,
+  manager: PrismaClientManager,
+  aggregateConfig: AggregateConfigService,
+  serialization?: SerializationConfig,
+  redact?: RedactConfig,
+  selectedFieldsOf: (record: Record<string, unknown>) => string[] = Object.keys,
+): Promise<AuditLogData[]> => {
+  const entityConfig = aggregateConfig.getEntityConfig(modelName);
+  if (!entityConfig?.auditReads) {
+    return [];
+  }
+  const redactConfig = mergeRedactConfig(redact, entityConfig.redact);
+  const includeSelectedFields = entityConfig.auditReads.includeSelectedFields ?? false;
+  // Reads inside a revert are still reads
+  const readContext: AuditContext = { ...context, _auditAction: undefined };
+
+  const auditLogs: AuditLogData[] = [];
+  for (const record of records) {
+    const entityIdResult = await entityConfig.idResolver(record, manager.activeClient);
+    if (entityIdResult === null || entityIdResult === undefined) {
+      continue;
+    }
+    const entityId = normalizeId(entityIdResult);
+    const root = { aggregateCategory: entityConfig.category, aggregateType: entityConfig.type, aggregateId: entityId };
+    const entityContext = includeSelectedFields ? { selectedFields: selectedFieldsOf(record) } : null;
+
+    const rawLog = buildSingleAuditLog(
+      root,
+      readContext,
+      entityConfig,
+      entityId,
+      AUDIT_ACTION.READ,
+      null,
+      null,
+      null,
+      null,
+      entityContext,
+      null,
+    );
+
+    auditLogs.push(serializeAuditLogData(redactContexts(rawLog, redactConfig), serialization?.customSerializers));
   }
 
   return auditLogs;
 };
+
+/**
+ * Build `link`/`unlink` audit logs for a relation change of an entity
+ *
+ * @remarks
+ * No snapshots are stored; `changes` holds a relation diff keyed by the relation field,
+ * e.g. `{ tags: { old: null, new: { id: 'tag-1' } } }`. Written once per aggregate root.
+ * A to-one change is built as an `update` whose `changes` hold the foreign key diff.
+ *
+ * Returns an empty array if the entity config is missing, there are no aggregate roots
+ * or the entity ID cannot be resolved.
+ */
+export const buildRelationAuditLog = async (
+  entity: Record<string, unknown>,
+  action: typeof AUDIT_ACTION.LINK | typeof AUDIT_ACTION.UNLINK | typeof AUDIT_ACTION.UPDATE,
+  changes: Record<string, { old: unknown; new: unknown }>,
+  context: AuditContext,
+  modelName: string,
+  manager: PrismaClientManager,
+  actorContext: unknown,
+  entityContext: unknown,
+  aggregateConfig: AggregateConfigService,
+  redact: RedactConfig | undefined,
+  aggregateData: ResolvedAggregateData,
+  serialization?: SerializationConfig,
+): Promise<AuditLogData[]> => {
+  const entityConfig = aggregateConfig.getEntityConfig(modelName);
+  if (!entityConfig || aggregateData.aggregateRoots.length === 0) {
+    return [];
+  }
+
+  const entityIdResult = await entityConfig.idResolver(entity, manager.activeClient);
+  if (entityIdResult === null || entityIdResult === undefined) {
+    return [];
+  }
+  const entityId = normalizeId(entityIdResult);
+  const redactConfig = mergeRedactConfig(redact, entityConfig.redact);
+  const [, , redactedChanges, maskedPaths] = redactConfig
+    ? applyRedactionToStates(null, null, changes, redactConfig)
+    : [null, null, changes, []];
+
+  const auditLogs = aggregateData.aggregateRoots.map((root) => {
+    const rawLog = buildSingleAuditLog(
+      root,
+      context,
+      entityConfig,
+      entityId,
+      action,
+      null,
+      null,
+      redactedChanges,
+      actorContext,
+      entityContext,
+      aggregateData.aggregateContexts.get(aggregateContextKey(root.aggregateType, root.aggregateId)) ?? null,
+    );
+    const redactedLog = recordRedactedFields(redactContexts(rawLog, redactConfig), maskedPaths);
+    const serialized = serializeAuditLogData(redactedLog, serialization?.customSerializers);
+    return encryptIfConfigured(serialized, context, serialization);
+  });
+  return Promise.all(auditLogs);
+};
+
+/**
+ * Build a table-level `raw` audit log for a raw SQL write
+ *
+ * @remarks
+ * Used when the affected rows cannot be identified. Entity and aggregate IDs are
+ * {@link RAW_TABLE_ENTITY_ID}; the statement fingerprint and affected row count are stored
+ * as the entity context.
+ */
+export const buildRawAuditLog = (
+  event: RawWriteEvent,
+  context: AuditContext,
+  entityConfig: Pick<LoggableEntity, 'category' | 'type' | 'redact'>,
+  serialization?: SerializationConfig,
+  redact?: RedactConfig,
+): AuditLogData => {
+  const root = {
+    aggregateCategory: entityConfig.category,
+    aggregateType: entityConfig.type,
+    aggregateId: RAW_TABLE_ENTITY_ID,
+  };
+  const rawLog = buildSingleAuditLog(
+    root,
+    context,
+    entityConfig,
+    RAW_TABLE_ENTITY_ID,
+    AUDIT_ACTION.RAW,
+    null,
+    null,
+    null,
+    null,
+    event,
+    null,
+  );
+
+  return serializeAuditLogData(
+    redactContexts(rawLog, mergeRedactConfig(redact, entityConfig.redact)),
+    serialization?.customSerializers,
+  );
+};
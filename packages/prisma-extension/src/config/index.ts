@@ -8,5 +8,14 @@
 
 // Helpers
 export { type GetNestedOperationConfigDependencies, getNestedOperationConfig } from './helpers.js';
+// Missing context
+export {
+  DEFAULT_SYSTEM_ACTOR,
+  getMissingContextMode,
+  type MissingContextDependencies,
+  resolveMissingContext,
+} from './missing-context.js';
+// Schema redaction
+export { applySchemaRedaction, getSchemaRedactConfigs } from './schema-redaction.js';
 // Validation
 export { validateFieldConflicts } from './validation.js';
@@ -0,0 +1,96 @@
+/**
+ * Missing Context Policy
+ *
+ * Resolves how a write to an audited model is handled when no audit context is set
+ * (model-level > global-level > default `'skip'`).
+ *
+ * @module config/missing-context
+ */
+
+import type { AggregateConfigService, AuditActor, AuditContext, MissingContextMode } from '@kuruwic/prisma-audit-core';
+import type { MissingContextConfig } from '../types.js';
+
+/**
+ * Actor recorded in `'system'` mode when none is configured
+ */
+export const DEFAULT_SYSTEM_ACTOR: AuditActor = { category: 'system', type: 'Unknown', id: 'unknown' };
+
+/**
+ * Dependencies for missing context resolution
+ */
+export interface MissingContextDependencies {
+  getEntityConfig: AggregateConfigService['getEntityConfig'];
+  missingContext?: MissingContextMode | MissingContextConfig;
+}
+
+/** @internal */
+const normalizeConfig = (missingContext: MissingContextDependencies['missingContext']): MissingContextConfig =>
+  typeof missingContext === 'string' ? { mode: missingContext } : (missingContext ?? {});
+
+/**
+ * Get the missing context mode of a model
+ *
+ * @remarks
+ * Priority: Model-level (`defineEntity({ missingContext })`) > Global-level > Default (`'skip'`)
+ */
+export const getMissingContextMode = (
+  modelName: string,
+  dependencies: MissingContextDependencies,
+): MissingContextMode => {
+  return (
+    dependencies.getEntityConfig(modelName)?.missingContext ??
+    normalizeConfig(dependencies.missingContext).mode ??
+    'skip'
+  );
+};
+
+/**
+ * Call-site stack of the write, without the error message line
+ *
+ * @internal
+ */
+const captureCallSite = (): string | undefined => new Error().stack?.split('\n').slice(1).join('\n');
+
+/**
+ * Apply the missing context policy to a write made without an audit context
+ *
+ * @param modelName - Audited model being written
+ * @param operation - Prisma operation (or raw statement kind), used in messages
+ * @returns Fallback context in `'system'` mode, otherwise undefined (the write is not audited)
+ * @throws {Error} In `'throw'` mode
+ *
+ * @example
+ * ```typescript
+ * const context = provider.getContext() ?? resolveMissingContext('User', 'update', {
+ *   getEntityConfig: aggregateConfig.getEntityConfig,
+ *   missingContext: { mode: 'system', actor: { category: 'system', type: 'Migration', id: 'backfill' } },
+ * });
+ * // context.actor => { category: 'system', type: 'Migration', id: 'backfill' }
+ * // context.request => { callSite: 'at ...' }
+ * ```
+ */
+export const resolveMissingContext = (
+  modelName: string,
+  operation: string,
+  dependencies: MissingContextDependencies,
+): AuditContext | undefined => {
+  const mode = getMissingContextMode(modelName, dependencies);
+
+  switch (mode) {
+    case 'skip':
+      return undefined;
+    case 'warn':
+      console.warn(`[@prisma-audit] ${modelName}.${operation} ran without an audit context and was not audited`);
+      return undefined;
+    case 'throw':
+      throw new Error(
+        `[@prisma-audit] ${modelName}.${operation} ran without an audit context. ` +
+          'Run it inside provider.runAsync() or set missingContext to allow it.',
+      );
+    case 'system':
+      return {
+        actor: normalizeConfig(dependencies.missingContext).actor ?? DEFAULT_SYSTEM_ACTOR,
+        request: { callSite: captureCallSite() },
+      };
+  }
+};
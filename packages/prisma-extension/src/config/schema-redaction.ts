@@ -0,0 +1,86 @@
+/**
+ * Schema-Driven Redaction
+ *
+ * Reads `/// @audit.redact` documentation markers from the Prisma DMMF, so the schema
+ * declares which fields are sensitive.
+ *
+ * @module config/schema-redaction
+ */
+
+import { type AggregateMapping, type EntityRedactConfig, mergeRedactConfig } from '@kuruwic/prisma-audit-core';
+import type { DMMFField, DMMFModel } from '../internal-types.js';
+
+/** @internal */
+const REDACT_MARKER = /@audit\.redact(?![\w.])(?:\(([^)]*)\))?/;
+
+/**
+ * Redaction rules declared by a field's documentation
+ *
+ * @internal
+ */
+const getFieldRedaction = (field: DMMFField): EntityRedactConfig | undefined => {
+  const match = field.documentation ? REDACT_MARKER.exec(field.documentation) : null;
+  if (!match) {
+    return undefined;
+  }
+  const subPaths = (match[1] ?? '')
+    .split(',')
+    .map((path) => path.trim())
+    .filter((path) => path.length > 0);
+  return subPaths.length > 0 ? { paths: subPaths.map((path) => `${field.name}.${path}`) } : { fields: [field.name] };
+};
+
+/**
+ * Collect redaction rules from `@audit.redact` markers, per model
+ *
+ * @remarks
+ * - `/// @audit.redact` redacts the whole field
+ * - `/// @audit.redact(billing.iban, *.token)` redacts paths inside a Json field
+ *
+ * @example
+ * ```prisma
+ * model User {
+ *   /// @audit.redact
+ *   taxId    String
+ *   /// Free-form settings @audit.redact(billing.iban)
+ *   metadata Json
+ * }
+ * ```
+ */
+export const getSchemaRedactConfigs = (models: DMMFModel[] | undefined): Map<string, EntityRedactConfig> => {
+  const configs = new Map<string, EntityRedactConfig>();
+  for (const model of models ?? []) {
+    const fieldConfigs = model.fields.map(getFieldRedaction).filter((config) => config !== undefined);
+    if (fieldConfigs.length > 0) {
+      configs.set(
+        model.name,
+        fieldConfigs.reduce<EntityRedactConfig>((merged, config) => mergeRedactConfig(merged, config) ?? merged, {}),
+      );
+    }
+  }
+  return configs;
+};
+
+/**
+ * Add schema-declared redaction to the entities of an aggregate mapping
+ *
+ * Entity `redact` settings take precedence over the schema for strategies.
+ */
+export const applySchemaRedaction = (
+  aggregateMapping: AggregateMapping,
+  models: DMMFModel[] | undefined,
+): AggregateMapping => {
+  const schemaConfigs = getSchemaRedactConfigs(models);
+  if (schemaConfigs.size === 0) {
+    return aggregateMapping;
+  }
+  return Object.fromEntries(
+    Object.entries(aggregateMapping).map(([modelName, entityConfig]) => {
+      const schemaConfig = schemaConfigs.get(modelName);
+      return [
+        modelName,
+        schemaConfig ? { ...entityConfig, redact: mergeRedactConfig(schemaConfig, entityConfig.redact) } : entityConfig,
+      ];
+    }),
+  );
+};
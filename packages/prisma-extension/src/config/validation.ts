@@ -7,9 +7,18 @@
  * @module config/validation
  */
 
-import type { AggregateMapping } from '@kuruwic/prisma-audit-core';
+import type { AggregateMapping, EntityRedactConfig } from '@kuruwic/prisma-audit-core';
 import type { SecurityConfig } from '../types.js';
 
+/**
+ * Field names redacted by a redaction config (`fields` and fields with a strategy)
+ *
+ * @internal
+ */
+const getRedactedFields = (redact: SecurityConfig['redact'] | EntityRedactConfig | undefined): string[] => {
+  return [...(redact?.fields ?? []), ...Object.keys(redact?.strategies ?? {})];
+};
+
 /**
  * Validates that fields don't appear in both excludeFields and redact.fields
  *
@@ -17,15 +26,18 @@ import type { SecurityConfig } from '../types.js';
  *
  * @remarks
  * Ensures fields are either excluded (not tracked) OR redacted (masked), never both.
- * Validates at global and model levels.
+ * Validates at global and model levels. Fields with a redaction strategy count as redacted,
+ * and entity-level `redact` settings are checked against the entity's `excludeFields`.
  */
 export const validateFieldConflicts = (
   excludeFields: string[],
   redact: SecurityConfig['redact'],
   aggregateMapping: AggregateMapping,
 ): void => {
-  if (redact?.fields && excludeFields.length > 0) {
-    const redactFieldsSet = new Set(redact.fields);
+  const globalRedactFields = getRedactedFields(redact);
+
+  if (globalRedactFields.length > 0 && excludeFields.length > 0) {
+    const redactFieldsSet = new Set(globalRedactFields);
     const globalExcludeFieldsSet = new Set(excludeFields);
 
     const globalConflicts = [...redactFieldsSet].filter((field) => globalExcludeFieldsSet.has(field));
@@ -38,19 +50,17 @@ export const validateFieldConflicts = (
     }
   }
 
-  if (redact?.fields) {
-    const redactFieldsSet = new Set(redact.fields);
-    for (const [modelName, entityConfig] of Object.entries(aggregateMapping)) {
-      if (entityConfig.excludeFields) {
-        const modelExcludeFieldsSet = new Set(entityConfig.excludeFields);
-        const modelConflicts = [...redactFieldsSet].filter((field) => modelExcludeFieldsSet.has(field));
-        if (modelConflicts.length > 0) {
-          throw new Error(
-            `Configuration error for model '${modelName}': Fields cannot be both in entity 'excludeFields' and 'security.redact.fields'. Conflicting fields: ${modelConflicts.join(
-              ', ',
-            )}. Please choose either to exclude (don't track changes) or redact (mask values).`,
-          );
-        }
+  for (const [modelName, entityConfig] of Object.entries(aggregateMapping)) {
+    const redactFieldsSet = new Set([...globalRedactFields, ...getRedactedFields(entityConfig.redact)]);
+    if (entityConfig.excludeFields && redactFieldsSet.size > 0) {
+      const modelExcludeFieldsSet = new Set(entityConfig.excludeFields);
+      const modelConflicts = [...redactFieldsSet].filter((field) => modelExcludeFieldsSet.has(field));
+      if (modelConflicts.length > 0) {
+        throw new Error(
+          `Configuration error for model '${modelName}': Fields cannot be both in entity 'excludeFields' and 'security.redact.fields'. Conflicting fields: ${modelConflicts.join(
+            ', ',
+          )}. Please choose either to exclude (don't track changes) or redact (mask values).`,
+        );
       }
     }
   }
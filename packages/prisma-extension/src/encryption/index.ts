@@ -0,0 +1,284 @@
+/**
+ * Encryption Key Storage and Rotation
+ *
+ * Persists wrapped data keys in a Prisma model and re-encrypts stored audit logs after
+ * key rotation. Encryption itself is configured with `serialization.encryption`.
+ *
+ * @module encryption
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  type AuditKeyStore,
+  type DataKey,
+  DEFAULTS,
+  generateDataKeyMaterial,
+  reencryptAuditLog,
+  unwrapDataKey,
+  type WrappedDataKey,
+  wrapDataKey,
+} from '@kuruwic/prisma-audit-core';
+import { uncapitalizeFirst } from '../utils/extension-utils.js';
+import type {
+  PrismaKeyStoreOptions,
+  ReencryptAuditLogsOptions,
+  ReencryptAuditLogsResult,
+  RewrapDataKeysOptions,
+  RewrapDataKeysResult,
+} from './types.js';
+
+export type {
+  PrismaKeyStoreOptions,
+  ReencryptAuditLogsOptions,
+  ReencryptAuditLogsResult,
+  RewrapDataKeysOptions,
+  RewrapDataKeysResult,
+} from './types.js';
+
+export const DEFAULT_DATA_KEY_MODEL = 'AuditDataKey';
+
+const DEFAULT_BATCH_SIZE = 500;
+
+/** @internal */
+type DataKeyDelegate = {
+  findFirst: (args: unknown) => Promise<WrappedDataKey | null>;
+  findUnique: (args: unknown) => Promise<WrappedDataKey | null>;
+  create: (args: unknown) => Promise<unknown>;
+  deleteMany: (args: unknown) => Promise<{ count: number }>;
+};
+
+/** @internal */
+type DataKeyBatchDelegate = {
+  findMany: (args: unknown) => Promise<WrappedDataKey[]>;
+  update: (args: unknown) => Promise<unknown>;
+};
+
+/** @internal */
+type AuditLogDelegate = {
+  findMany: (args: unknown) => Promise<Record<string, unknown>[]>;
+  update: (args: unknown) => Promise<unknown>;
+};
+
+/**
+ * Get a model delegate that has the given methods
+ *
+ * @throws Error if the model is missing
+ * @internal
+ */
+const getDelegate = <T>(basePrisma: unknown, modelName: string, methods: readonly (keyof T & string)[]): T => {
+  const delegate = (basePrisma as Record<string, Record<string, unknown> | undefined>)[uncapitalizeFirst(modelName)];
+  if (!delegate || methods.some((method) => typeof delegate[method] !== 'function')) {
+    throw new Error(`[@prisma-audit] Model "${modelName}" not found on the Prisma client`);
+  }
+  return delegate as T;
+};
+
+/**
+ * Create a key store that persists wrapped data keys in a Prisma model
+ *
+ * @remarks
+ * The current key of a scope is its newest row. Unwrapped keys are cached by ID for the
+ * life of the store; `destroyKeys` deletes the rows and clears the cache, so every payload
+ * of the scope becomes unreadable (crypto-shredding). Database backups still hold the
+ * deleted rows until they expire.
+ *
+ * @param basePrisma - Base (non-extended) Prisma client that exposes the key model
+ * @throws Error if the key model is missing
+ *
+ * @example
+ * ```typescript
+ * const keyStore = createPrismaKeyStore(basePrisma, { masterKey: Buffer.from(process.env.AUDIT_MASTER_KEY!, 'base64') });
+ *
+ * // Erase a data subject's history
+ * await keyStore.destroyKeys('User:user-1');
+ * ```
+ */
+export const createPrismaKeyStore = (basePrisma: unknown, options: PrismaKeyStoreOptions): AuditKeyStore => {
+  const delegate = getDelegate<DataKeyDelegate>(basePrisma, options.model ?? DEFAULT_DATA_KEY_MODEL, [
+    'findFirst',
+    'findUnique',
+    'create',
+    'deleteMany',
+  ]);
+  const cache = new Map<string, DataKey>();
+
+  const unwrap = (record: WrappedDataKey): DataKey => {
+    let key = cache.get(record.id);
+    if (!key) {
+      key = {
+        id: record.id,
+        scope: record.scope,
+        material: unwrapDataKey(record.id, record.wrappedKey, options.masterKey),
+      };
+      cache.set(key.id, key);
+    }
+    return key;
+  };
+
+  const rotateKey = async (scope: string): Promise<DataKey> => {
+    const key: DataKey = { id: randomUUID(), scope, material: generateDataKeyMaterial() };
+    await delegate.create({
+      data: { id: key.id, scope, wrappedKey: wrapDataKey(key, options.masterKey), createdAt: new Date() },
+    });
+    cache.set(key.id, key);
+    return key;
+  };
+
+  return {
+    getCurrentKey: async (scope) => {
+      const record = await delegate.findFirst({ where: { scope }, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }] });
+      return record ? unwrap(record) : rotateKey(scope);
+    },
+    getKey: async (keyId) => {
+      const cached = cache.get(keyId);
+      if (cached) return cached;
+      const record = await delegate.findUnique({ where: { id: keyId } });
+      return record ? unwrap(record) : undefined;
+    },
+    rotateKey,
+    destroyKeys: async (scope) => {
+      const { count } = await delegate.deleteMany({ where: { scope } });
+      for (const [id, key] of cache) {
+        if (key.scope === scope) cache.delete(id);
+      }
+      return count;
+    },
+  };
+};
+
+/**
+ * Re-encrypt one stored audit log, leaving rows that belong to a hash chain untouched
+ *
+ * @returns The result counter to increment, or undefined if the row needs no rewrite
+ * @internal
+ */
+const reencryptRow = async (
+  delegate: AuditLogDelegate,
+  row: Record<string, unknown>,
+  keyStore: AuditKeyStore,
+): Promise<'reencrypted' | 'skippedChained' | undefined> => {
+  const updates = await reencryptAuditLog(row, keyStore);
+  if (!updates) return undefined;
+  if (row.hash != null) return 'skippedChained';
+  await delegate.update({ where: { id: row.id }, data: updates });
+  return 'reencrypted';
+};
+
+/**
+ * Re-encrypt stored audit logs with the current keys of their scopes
+ *
+ * @remarks
+ * Run after `keyStore.rotateKey`; rows already on current keys, plaintext rows and rows
+ * whose keys were destroyed are left untouched. Rows are rewritten in place, which would
+ * break their hashes, so with `integrity` enabled rows that belong to a chain are skipped
+ * and counted in `skippedChained`; they stay readable with their old keys. To rotate the
+ * master key without touching audit rows, use `rewrapDataKeys`.
+ *
+ * @param basePrisma - Base (non-extended) Prisma client, so the updates are not audited
+ * @throws Error if the audit log model is missing
+ *
+ * @example
+ * ```typescript
+ * await keyStore.rotateKey('tenant:acme');
+ * const { reencrypted } = await reencryptAuditLogs(basePrisma, { keyStore, where: { aggregateType: 'Patient' } });
+ * ```
+ */
+export const reencryptAuditLogs = async (
+  basePrisma: unknown,
+  options: ReencryptAuditLogsOptions,
+): Promise<ReencryptAuditLogsResult> => {
+  const delegate = getDelegate<AuditLogDelegate>(basePrisma, options.auditLogModel ?? DEFAULTS.AUDIT_LOG_MODEL, [
+    'findMany',
+    'update',
+  ]);
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const chained = options.integrity?.enabled === true;
+  const result: ReencryptAuditLogsResult = { scanned: 0, reencrypted: 0, skippedChained: 0 };
+  let cursor: unknown;
+
+  for (;;) {
+    const rows = await delegate.findMany({
+      where: options.where,
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      select: { id: true, before: true, after: true, changes: true, ...(chained && { chainKey: true, hash: true }) },
+      ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+    });
+    for (const row of rows) {
+      const outcome = await reencryptRow(delegate, row, options.keyStore);
+      if (outcome) result[outcome]++;
+    }
+    result.scanned += rows.length;
+    if (rows.length < batchSize) return result;
+    cursor = rows[rows.length - 1]?.id;
+  }
+};
+
+/**
+ * Unwrap a stored data key with the old master key, or detect that it already uses the new one
+ *
+ * @returns The key material, or undefined if the row is already wrapped with the new master key
+ * @throws Error if neither master key unwraps the row
+ * @internal
+ */
+const unwrapForRewrap = (record: WrappedDataKey, options: RewrapDataKeysOptions): Uint8Array | undefined => {
+  try {
+    return unwrapDataKey(record.id, record.wrappedKey, options.oldMasterKey);
+  } catch (error) {
+    try {
+      unwrapDataKey(record.id, record.wrappedKey, options.newMasterKey);
+      return undefined;
+    } catch {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Rewrap every stored data key under a new master key
+ *
+ * @remarks
+ * Rotates the master key without touching audit rows: data keys, and therefore every
+ * ciphertext and hash chain, stay the same. Rows already wrapped with the new master key
+ * are skipped, so an interrupted run can be repeated. Key stores created with the old
+ * master key cannot unwrap the rewritten rows; recreate them with the new one.
+ *
+ * @param basePrisma - Base (non-extended) Prisma client that exposes the key model
+ * @throws Error if the key model is missing or a row cannot be unwrapped with either master key
+ *
+ * @example
+ * ```typescript
+ * await rewrapDataKeys(basePrisma, { oldMasterKey, newMasterKey });
+ * const keyStore = createPrismaKeyStore(basePrisma, { masterKey: newMasterKey });
+ * ```
+ */
+export const rewrapDataKeys = async (
+  basePrisma: unknown,
+  options: RewrapDataKeysOptions,
+): Promise<RewrapDataKeysResult> => {
+  const delegate = getDelegate<DataKeyBatchDelegate>(basePrisma, options.model ?? DEFAULT_DATA_KEY_MODEL, [
+    'findMany',
+    'update',
+  ]);
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const result: RewrapDataKeysResult = { rewrapped: 0 };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const rows = await delegate.findMany({
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+    });
+    for (const row of rows) {
+      const material = unwrapForRewrap(row, options);
+      if (material) {
+        const wrappedKey = wrapDataKey({ id: row.id, scope: row.scope, material }, options.newMasterKey);
+        await delegate.update({ where: { id: row.id }, data: { wrappedKey } });
+        result.rewrapped++;
+      }
+    }
+    if (rows.length < batchSize) return result;
+    cursor = rows[rows.length - 1]?.id;
+  }
+};
@@ -0,0 +1,84 @@
+/**
+ * Encryption Key Storage and Rotation Type Definitions
+ *
+ * @module encryption/types
+ */
+
+import type { AuditKeyStore } from '@kuruwic/prisma-audit-core';
+import type { IntegrityConfig } from '../types.js';
+
+/**
+ * Options for creating a Prisma-backed key store
+ */
+export interface PrismaKeyStoreOptions {
+  /** 32-byte key that wraps the data keys; keep it outside the database (KMS, secret manager) */
+  masterKey: Uint8Array;
+  /**
+   * Prisma model name of the key table (PascalCase)
+   *
+   * @default 'AuditDataKey'
+   */
+  model?: string;
+}
+
+/**
+ * Options for re-encrypting stored audit logs after key rotation
+ */
+export interface ReencryptAuditLogsOptions {
+  keyStore: AuditKeyStore;
+  /**
+   * Prisma model name for stored audit logs (PascalCase).
+   * Must match the `auditLogModel` passed to `createAuditLogExtension`.
+   *
+   * @default 'AuditLog'
+   */
+  auditLogModel?: string;
+  /** Prisma where clause narrowing the rows to scan, e.g. `{ aggregateType: 'Patient' }` */
+  where?: Record<string, unknown>;
+  /** Rows read per batch. Default: 500 */
+  batchSize?: number;
+  /**
+   * Hash chain settings; must match `integrity` passed to `createAuditLogExtension`.
+   * When enabled, rows that belong to a chain are skipped, since rewriting them would break
+   * their hashes. Rotate the master key with `rewrapDataKeys` instead.
+   */
+  integrity?: IntegrityConfig;
+}
+
+/**
+ * Outcome of a re-encryption run
+ */
+export interface ReencryptAuditLogsResult {
+  /** Rows read */
+  scanned: number;
+  /** Rows rewritten with current keys */
+  reencrypted: number;
+  /** Rows left on their old keys because they belong to a hash chain */
+  skippedChained: number;
+}
+
+/**
+ * Options for rewrapping stored data keys under a new master key
+ */
+export interface RewrapDataKeysOptions {
+  /** Master key the rows are currently wrapped with */
+  oldMasterKey: Uint8Array;
+  /** Master key to wrap the rows with */
+  newMasterKey: Uint8Array;
+  /**
+   * Prisma model name of the key table (PascalCase)
+   *
+   * @default 'AuditDataKey'
+   */
+  model?: string;
+  /** Rows read per batch. Default: 500 */
+  batchSize?: number;
+}
+
+/**
+ * Outcome of a rewrap run
+ */
+export interface RewrapDataKeysResult {
+  /** Key rows rewrapped under the new master key */
+  rewrapped: number;
+}
@@ -9,7 +9,7 @@
  * @see {@link PrismaAuditExtensionOptions}
  */
 
-import type { AuditContext, PreFetchResults } from '@kuruwic/prisma-audit-core';
+import type { AuditContext, PreFetchResults, ReadOperation } from '@kuruwic/prisma-audit-core';
 import {
   AUDIT_ACTION,
   batchEnrichAggregateContexts,
@@ -19,13 +19,22 @@ import {
   createWriteStrategySelector,
   DEFAULTS,
   enrichActorContext,
+  enrichDelegationContext,
+  generateTraceId,
   type WriteResult,
 } from '@kuruwic/prisma-audit-core';
-import { createPrismaWriteExecutor } from './adapters/write-executor.js';
-import { buildAuditLog } from './audit-log-builder/index.js';
+import { createPrismaWriteExecutor, findMissingOptionalFields } from './adapters/write-executor.js';
+import { buildAuditLog, buildRawAuditLog, buildReadAuditLogs } from './audit-log-builder/index.js';
 import { createPrismaClientManager } from './client-manager/index.js';
-import { getNestedOperationConfig, validateFieldConflicts } from './config/index.js';
+import {
+  applySchemaRedaction,
+  getNestedOperationConfig,
+  resolveMissingContext,
+  validateFieldConflicts,
+} from './config/index.js';
+import { createIntegrityWriteExecutor } from './integrity/index.js';
 import type {
+  DMMFModel,
   ExtensionParams,
   PrismaClientWithDynamicAccess,
   PrismaNamespace,
@@ -35,23 +44,43 @@ import { createBatchBuildLogsStage, createBatchEnrichContextsStage } from './lif
 import { buildNestedAuditLogs } from './lifecycle/nested-handlers/index.js';
 import { handleTopLevelOperation, type TopLevelHandlerDependencies } from './lifecycle/operation-handlers/index.js';
 import { runLifecyclePipeline } from './lifecycle/pipeline.js';
+import {
+  type CascadeEffect,
+  DEFAULT_CASCADE_MAX_DEPTH,
+  groupCascadeEffects,
+  preFetchCascadeEffects,
+} from './lifecycle/pre-fetch/cascade-effects.js';
 import {
   type PreFetchCoordinatorDependencies,
   preFetchNestedRecordsBeforeOperation,
 } from './lifecycle/pre-fetch/coordinator.js';
 import {
+  createBuildCascadeLogsStage,
   createBuildLogsStage,
   createEnrichContextsStage,
   createExecuteOperationStage,
+  createFetchAfterStateStage,
   createFetchBeforeStateStage,
+  createFetchCascadeEffectsStage,
   type StageDependencies,
 } from './lifecycle/stages.js';
 import { createTransactionProxy } from './lifecycle/transaction-proxy.js';
 import { withOptionalTransaction } from './lifecycle/transaction-wrapper.js';
 import type { BatchFinalContext, BatchInitialContext, BeforeStateResult } from './lifecycle/types.js';
+import { createOutboxWriter, DEFAULT_OUTBOX_MODEL } from './outbox/index.js';
+import {
+  findModelByTable,
+  parseRawWrite,
+  RAW_OPERATIONS,
+  type RawStatement,
+  type RawWriteStatement,
+  toPrismaWhere,
+  toRawStatement,
+} from './raw-sql/index.js';
 import type { AuditLogData, OperationContext, PrismaAction, PrismaAuditExtensionOptions } from './types.js';
 import {
   buildEntityMap,
+  createSchemaMetadataFromDMMF,
   ensureIds,
   extractPrimaryKey,
   findManyByPKs,
@@ -60,8 +89,13 @@ import {
   getPrisma,
   injectDeepInclude,
   isAuditableAction,
+  isBatchOperation,
+  isReadOperation,
+  restoreResultShape,
   shouldAuditModel,
+  shouldAuditRead,
   uncapitalizeFirst,
+  withPrimaryKeyProjected,
 } from './utils/index.js';
 
 /**
@@ -88,7 +122,7 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
   const {
     provider,
     basePrisma,
-    aggregateMapping,
+    aggregateMapping: configuredAggregateMapping,
     diffing,
     security,
     performance,
@@ -113,14 +147,38 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
   const samplingIf = performance?.samplingIf;
   const writer = hooks?.writer;
   const errorHandlerConfig = hooks?.errorHandler ?? 'log';
+  const rawQueriesMode = options.rawQueries?.enabled ? (options.rawQueries.mode ?? 'entity') : undefined;
 
+  const aggregateMapping =
+    security?.schemaRedaction === false
+      ? configuredAggregateMapping
+      : applySchemaRedaction(configuredAggregateMapping, Prisma.dmmf?.datamodel?.models);
   const aggregateConfig = createAggregateConfig(aggregateMapping);
-  const writeExecutor = createPrismaWriteExecutor(DbNull);
+  const omittedFields = findMissingOptionalFields(Prisma.dmmf?.datamodel?.models, auditLogModel);
+  const prismaWriteExecutor = createPrismaWriteExecutor(DbNull, omittedFields);
+  const writeExecutor = options.integrity?.enabled
+    ? createIntegrityWriteExecutor(
+        prismaWriteExecutor,
+        options.integrity,
+        Prisma.dmmf?.datamodel?.models,
+        auditLogModel,
+        omittedFields,
+      )
+    : prismaWriteExecutor;
+  const outboxWriter = options.outbox?.enabled
+    ? createOutboxWriter(
+        options.outbox.model ?? DEFAULT_OUTBOX_MODEL,
+        Prisma.dmmf?.datamodel?.models,
+        writer !== undefined,
+      )
+    : undefined;
   const strategySelector = createWriteStrategySelector(
     {
       awaitWrite,
       awaitWriteIf,
       aggregateConfig,
+      outbox: outboxWriter,
+      buffer: performance?.buffer,
     },
     writeExecutor,
   );
@@ -142,6 +200,28 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
 
   validateFieldConflicts(excludeFields, redact, aggregateMapping);
 
+  /**
+   * Primary key fields of a model, falling back to `['id']` when the DMMF does not describe it
+   */
+  const resolvePrimaryKeyFields = (modelName: string): string[] => {
+    try {
+      return getPrimaryKeyFields(Prisma, modelName);
+    } catch {
+      return ['id'];
+    }
+  };
+
+  /**
+   * Args an audited operation runs with: deep include for nested writes (3+ levels) and, for
+   * single operations, the primary key under select/omit. Both are stripped from the result again.
+   */
+  const toAuditedArgs = (operation: string, modelName: string, args: unknown): unknown => {
+    const argsWithInclude = injectDeepInclude(args);
+    return isBatchOperation(operation)
+      ? argsWithInclude
+      : withPrimaryKeyProjected(argsWithInclude, resolvePrimaryKeyFields(modelName));
+  };
+
   const shouldAudit = (modelName: string | undefined, context: AuditContext | undefined): boolean => {
     return shouldAuditModel(
       modelName,
@@ -154,6 +234,20 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
     );
   };
 
+  /**
+   * Context for a write to an audited model made without an audit context, per the missing context policy
+   * @returns undefined when the write should not be audited
+   */
+  const resolveWriteContext = (modelName: string, operation: string): AuditContext | undefined => {
+    if (!aggregateConfig.isLoggable(modelName)) {
+      return undefined;
+    }
+    return resolveMissingContext(modelName, operation, {
+      getEntityConfig: aggregateConfig.getEntityConfig,
+      missingContext: options.missingContext,
+    });
+  };
+
   const getNestedOperationConfigWrapper = (modelName: string, operation: string): { fetchBeforeOperation: boolean } => {
     return getNestedOperationConfig(modelName, operation, {
       getEntityConfig: aggregateConfig.getEntityConfig,
@@ -285,11 +379,44 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
     return preFetchNestedRecordsBeforeOperation(prismaClient, modelName, args, dependencies);
   };
 
+  const schemaMetadata = createSchemaMetadataFromDMMF(Prisma);
+
+  /**
+   * Pre-fetch rows removed or nulled by referential actions of a delete
+   * @returns No effects when cascade auditing is disabled or the pre-fetch fails
+   */
+  const preFetchCascadeEffectsWrapper = async (
+    prismaClient: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+    modelName: string,
+    deleted: Record<string, unknown>[],
+  ): Promise<CascadeEffect[]> => {
+    if (!options.cascades?.enabled || deleted.length === 0) {
+      return [];
+    }
+
+    try {
+      return await preFetchCascadeEffects(prismaClient, modelName, deleted, {
+        schema: schemaMetadata,
+        getPrimaryKeyFields: resolvePrimaryKeyFields,
+        maxDepth: options.cascades.maxDepth ?? DEFAULT_CASCADE_MAX_DEPTH,
+        shouldFollow: (model) => aggregateConfig.getEntityConfig(model)?.auditCascades !== false,
+      });
+    } catch (caughtError) {
+      const error = caughtError instanceof Error ? caughtError : new Error(String(caughtError));
+      await dispatchAuditError('pre-fetch', modelName, AUDIT_ACTION.DELETE, deleted, error);
+      return [];
+    }
+  };
+
   const createStageDependencies = (baseClient: PrismaClientWithDynamicAccess): StageDependencies => ({
     fetchBeforeState,
     preFetchNestedRecordsBeforeOperation: preFetchNestedRecordsBeforeOperationWrapper,
+    preFetchCascadeEffects: preFetchCascadeEffectsWrapper,
+    buildCascadeAuditLogs: (effects, context, prismaClient) =>
+      buildCascadeAuditLogs(effects, context, prismaClient, baseClient),
     getNestedOperationConfig: getNestedOperationConfigWrapper,
     enrichActorContext,
+    enrichDelegationContext,
     batchEnrichEntityContexts: (entities, config, prisma, meta) => {
       return batchEnrichEntityContexts(entities, config, prisma, meta);
     },
@@ -327,9 +454,12 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
     const stageDependencies = createStageDependencies(baseClient);
     return [
       createFetchBeforeStateStage(stageDependencies),
+      createFetchCascadeEffectsStage(stageDependencies),
       createExecuteOperationStage(),
+      createFetchAfterStateStage(stageDependencies),
       createEnrichContextsStage(stageDependencies),
       createBuildLogsStage(stageDependencies),
+      createBuildCascadeLogsStage(stageDependencies),
     ] as const;
   };
 
@@ -371,10 +501,10 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
     );
   };
 
-  const runBatchPipeline = async (
+  const buildBatchLogs = async (
     batchInitialContext: BatchInitialContext,
     baseClient: PrismaClientWithDynamicAccess,
-  ): Promise<void> => {
+  ): Promise<AuditLogData[]> => {
     const stageDependencies = createStageDependencies(baseClient);
     const batchStages = [
       createBatchEnrichContextsStage(stageDependencies),
@@ -386,9 +516,57 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
       batchStages,
     );
 
-    await writeAuditLogs([...batchFinalContext.logs], baseClient);
+    return [...batchFinalContext.logs];
+  };
+
+  const runBatchPipeline = async (
+    batchInitialContext: BatchInitialContext,
+    baseClient: PrismaClientWithDynamicAccess,
+    additionalLogs: AuditLogData[] = [],
+  ): Promise<void> => {
+    const logs = await buildBatchLogs(batchInitialContext, baseClient);
+    await writeAuditLogs([...logs, ...additionalLogs], baseClient);
+  };
+
+  /**
+   * Log cascade effects like `deleteMany`/`updateMany` of their own models,
+   * so each row is attributed to its own aggregates
+   */
+  const buildCascadeAuditLogs = async (
+    effects: ReadonlyArray<CascadeEffect>,
+    context: AuditContext,
+    clientToUse: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+    baseClient: PrismaClientWithDynamicAccess,
+  ): Promise<AuditLogData[]> => {
+    const logs: AuditLogData[] = [];
+    for (const group of groupCascadeEffects(effects)) {
+      const action = group.action === AUDIT_ACTION.DELETE ? AUDIT_ACTION.DELETE_MANY : AUDIT_ACTION.UPDATE_MANY;
+      const groupLogs = await buildBatchLogs(
+        {
+          operation: { model: group.modelName, action, args: {} },
+          auditContext: context,
+          clientToUse,
+          query: async () => undefined,
+          entities: group.effects.map((effect) => effect.after ?? effect.before),
+          beforeStates: group.effects.map((effect) => effect.before),
+        },
+        baseClient,
+      );
+      logs.push(...groupLogs);
+    }
+    return logs;
   };
 
+  /**
+   * Whether an `AndReturn` operation returns complete records usable as after-state
+   * (`select`/`omit` may drop primary keys or audited fields)
+   */
+  const returnsFullRecords = (args: unknown): boolean =>
+    !isRecord(args) || (args.select === undefined && args.omit === undefined);
+
+  const toReturnedRecords = (result: unknown): Record<string, unknown>[] =>
+    Array.isArray(result) ? result.filter(isRecord) : [];
+
   const handleCreateMany = async (
     operation: OperationContext,
     context: AuditContext,
@@ -396,6 +574,20 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
     clientToUse: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
   ): Promise<unknown> => {
     const modelName = operation.model as string;
+    const modelAccessor = getModelAccessor(clientToUse, modelName);
+    const delegate = clientToUse[modelAccessor] as Record<string, unknown>;
+    const createManyFn = delegate[operation.action as string] as (args: unknown) => Promise<unknown>;
+
+    // Returned rows carry database-generated IDs, so no client-side ID generation is needed
+    if (operation.action === AUDIT_ACTION.CREATE_MANY_AND_RETURN && returnsFullRecords(operation.args)) {
+      const result = await createManyFn(operation.args);
+      await runBatchPipeline(
+        { operation, auditContext: context, clientToUse, query: createManyFn, entities: toReturnedRecords(result) },
+        baseClient,
+      );
+      return result;
+    }
+
     const dataWithIds = ensureIds(
       Prisma,
       modelName,
@@ -408,9 +600,6 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
       data: dataWithIds,
     };
 
-    const modelAccessor = getModelAccessor(clientToUse, modelName);
-    const delegate = clientToUse[modelAccessor] as Record<string, unknown>;
-    const createManyFn = delegate.createMany as (args: unknown) => Promise<unknown>;
     const result = await createManyFn(argsWithIds);
 
     const batchInitialContext: BatchInitialContext = {
@@ -425,6 +614,24 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
     return result;
   };
 
+  /**
+   * After-state of a batch update: the returned rows for updateManyAndReturn, otherwise
+   * re-fetched by PK (not original WHERE) to handle WHERE-field mutations
+   */
+  const resolveUpdatedEntities = async (
+    action: PrismaAction,
+    args: unknown,
+    result: unknown,
+    modelDelegate: { findMany: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown>[]> },
+    pkFields: string[],
+    beforeEntities: Record<string, unknown>[],
+  ): Promise<Record<string, unknown>[]> => {
+    if (action === AUDIT_ACTION.UPDATE_MANY_AND_RETURN && returnsFullRecords(args)) {
+      return toReturnedRecords(result);
+    }
+    return findManyByPKs(modelDelegate, pkFields, beforeEntities);
+  };
+
   const handleUpdateOrDeleteMany = async (
     operation: OperationContext,
     context: AuditContext,
@@ -454,20 +661,25 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
       operation.args && typeof operation.args === 'object' && 'where' in operation.args ? operation.args.where : {};
 
     const beforeEntities = await modelDelegate.findMany({ where: whereClause || {} });
+    const cascadeEffects =
+      action === AUDIT_ACTION.DELETE_MANY
+        ? await preFetchCascadeEffectsWrapper(clientToUse, modelName, beforeEntities)
+        : [];
 
     // Execute mutation via model delegate (not query()) so it participates in the transaction
     const delegate = modelDelegate as unknown as Record<string, unknown>;
-    const actionName = action === AUDIT_ACTION.UPDATE_MANY ? 'updateMany' : 'deleteMany';
-    const mutationFn = delegate[actionName] as (args: unknown) => Promise<unknown>;
+    const mutationFn = delegate[action] as (args: unknown) => Promise<unknown>;
     const result = await mutationFn(operation.args);
 
     let entities: Record<string, unknown>[];
     let pairedBeforeStates: Array<Record<string, unknown> | null>;
 
-    if (action === AUDIT_ACTION.UPDATE_MANY && beforeEntities.length > 0) {
-      // Re-fetch by PK (not original WHERE) to handle WHERE-field mutations
+    if (action !== AUDIT_ACTION.DELETE_MANY && beforeEntities.length > 0) {
       const beforeMap = buildEntityMap(beforeEntities, pkFields);
-      const afterEntities = await findManyByPKs(
+      const afterEntities = await resolveUpdatedEntities(
+        action,
+        operation.args,
+        result,
         modelDelegate as { findMany: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown>[]> },
         pkFields,
         beforeEntities,
@@ -493,7 +705,8 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
       beforeStates: pairedBeforeStates,
     };
 
-    await runBatchPipeline(batchInitialContext, baseClient);
+    const cascadeLogs = await buildCascadeAuditLogs(cascadeEffects, context, clientToUse, baseClient);
+    await runBatchPipeline(batchInitialContext, baseClient, cascadeLogs);
     return result;
   };
 
@@ -513,11 +726,12 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
     ): Promise<unknown> => {
       const action = operation.action as PrismaAction;
 
-      if (action === AUDIT_ACTION.CREATE_MANY && hasArrayData(operation.args)) {
+      const isCreateMany = action === AUDIT_ACTION.CREATE_MANY || action === AUDIT_ACTION.CREATE_MANY_AND_RETURN;
+      if (isCreateMany && hasArrayData(operation.args)) {
         return handleCreateMany(operation, txContext, baseClient, clientToUse);
       }
 
-      if ((action === AUDIT_ACTION.UPDATE_MANY || action === AUDIT_ACTION.DELETE_MANY) && operation.model) {
+      if (!isCreateMany && operation.model) {
         return handleUpdateOrDeleteMany(operation, txContext, baseClient, clientToUse, action);
       }
 
@@ -545,7 +759,194 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
     return wrapper(executeBatch);
   };
 
+  /** Entities already logged as read, per request (or per context when no request is set) */
+  const readsByRequest = new WeakMap<object, Set<string>>();
+
+  const dedupeReadLogs = (logs: AuditLogData[], context: AuditContext): AuditLogData[] => {
+    const scope = context.request ?? context;
+    const seen = readsByRequest.get(scope) ?? new Set<string>();
+    readsByRequest.set(scope, seen);
+
+    return logs.filter((log) => {
+      const key = `${log.entityType}:${log.entityId}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  };
+
+  const handleReadOperation = async (
+    modelName: string,
+    operation: ReadOperation,
+    context: AuditContext | undefined,
+    baseClient: PrismaClientWithDynamicAccess,
+    args: unknown,
+    query: (queryArgs: unknown) => Promise<unknown>,
+  ): Promise<unknown> => {
+    const readConfig = aggregateConfig.getEntityConfig(modelName)?.auditReads;
+    if (!context || !shouldAuditRead(modelName, operation, context, auditLogModel, readConfig)) {
+      return query(args);
+    }
+
+    // A select/omit without the primary key must not let records escape auditing
+    const auditedArgs = withPrimaryKeyProjected(args, resolvePrimaryKeyFields(modelName));
+    const result = await query(auditedArgs);
+    const records = (Array.isArray(result) ? result : [result]).filter(isRecord);
+    if (records.length === 0) {
+      return result;
+    }
+
+    const processingContext: AuditContext = {
+      ...context,
+      _isProcessingAuditLog: true,
+      _operationId: generateTraceId(),
+    };
+
+    await provider.runAsync(processingContext, async () => {
+      const manager = createPrismaClientManager(baseClient, processingContext);
+      const logs = await buildReadAuditLogs(
+        records,
+        processingContext,
+        modelName,
+        manager,
+        aggregateConfig,
+        serialization,
+        redact,
+        (record) => Object.keys(restoreResultShape(record, args, auditedArgs) as Record<string, unknown>),
+      );
+      const dedupe = readConfig?.dedupe ?? true;
+      await writeAuditLogs(dedupe ? dedupeReadLogs(logs, context) : logs, baseClient);
+    });
+
+    return restoreResultShape(result, args, auditedArgs);
+  };
+
+  type RawTargets = {
+    delegate: { findMany: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown>[]> };
+    where: Record<string, unknown>;
+    rows: Record<string, unknown>[];
+  };
+
+  /**
+   * Pre-fetch the rows a raw UPDATE/DELETE will touch
+   * @returns undefined when the statement cannot be attributed to entities (table-level logging)
+   */
+  const preFetchRawTargets = async (
+    statement: RawWriteStatement,
+    raw: RawStatement,
+    model: DMMFModel,
+    clientToUse: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+  ): Promise<RawTargets | undefined> => {
+    if (rawQueriesMode !== 'entity' || statement.kind === 'insert' || !statement.conditions) {
+      return undefined;
+    }
+    const where = toPrismaWhere(statement.conditions, raw.values, model);
+    const delegate = clientToUse[getModelAccessor(clientToUse, model.name)];
+    if (!where || !hasFindMany(delegate)) {
+      return undefined;
+    }
+
+    try {
+      const rows = await delegate.findMany({ where });
+      return { delegate: delegate as RawTargets['delegate'], where, rows };
+    } catch (caughtError) {
+      const error = caughtError instanceof Error ? caughtError : new Error(String(caughtError));
+      await dispatchAuditError('pre-fetch', model.name, statement.kind, raw, error);
+      return undefined;
+    }
+  };
+
+  /**
+   * Log pre-fetched raw write targets through the batch pipeline, as updateMany/deleteMany would
+   */
+  const auditRawTargets = async (
+    statement: RawWriteStatement,
+    targets: RawTargets,
+    modelName: string,
+    context: AuditContext,
+    clientToUse: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+    baseClient: PrismaClientWithDynamicAccess,
+    query: (args: unknown) => Promise<unknown>,
+  ): Promise<void> => {
+    const isUpdate = statement.kind === 'update';
+    const pkFields = getPrimaryKeyFields(Prisma, modelName);
+    const entities = isUpdate ? await findManyByPKs(targets.delegate, pkFields, targets.rows) : targets.rows;
+    const beforeMap = buildEntityMap(targets.rows, pkFields);
+
+    await runBatchPipeline(
+      {
+        operation: {
+          model: modelName,
+          action: isUpdate ? AUDIT_ACTION.UPDATE_MANY : AUDIT_ACTION.DELETE_MANY,
+          args: { where: targets.where },
+        },
+        auditContext: context,
+        clientToUse,
+        query,
+        entities,
+        beforeStates: entities.map((entity) => beforeMap.get(extractPrimaryKey(entity, pkFields)) ?? null),
+      },
+      baseClient,
+    );
+  };
+
+  const handleRawOperation = async (params: ExtensionParams, baseClient: PrismaClientWithDynamicAccess) => {
+    const { args, query } = params;
+    const currentContext = provider.getContext();
+    const raw = currentContext?._isProcessingAuditLog ? undefined : toRawStatement(args);
+    const statement = raw && parseRawWrite(raw.sql);
+    const model = statement && findModelByTable(Prisma.dmmf?.datamodel?.models, statement.table);
+    const context =
+      currentContext ?? (model && statement ? resolveWriteContext(model.name, statement.kind) : undefined);
+    const entityConfig =
+      model && shouldAudit(model.name, context) ? aggregateConfig.getEntityConfig(model.name) : undefined;
+    if (!context || !raw || !statement || !model || !entityConfig) {
+      return query(args);
+    }
+
+    const processingContext: AuditContext = {
+      ...context,
+      _isProcessingAuditLog: true,
+      _operationId: generateTraceId(),
+    };
+
+    return provider.runAsync(processingContext, async () => {
+      const { activeClient } = createPrismaClientManager(baseClient, processingContext);
+      const targets = await preFetchRawTargets(statement, raw, model, activeClient);
+      const result = await query(args);
+
+      if (targets) {
+        await auditRawTargets(statement, targets, model.name, processingContext, activeClient, baseClient, query);
+        return result;
+      }
+
+      const affectedRows = typeof result === 'number' ? result : Array.isArray(result) ? result.length : null;
+      const event = {
+        statement: statement.kind,
+        table: statement.table,
+        fingerprint: statement.fingerprint,
+        affectedRows,
+      };
+      await writeAuditLogs(
+        [buildRawAuditLog(event, processingContext, entityConfig, serialization, redact)],
+        baseClient,
+      );
+      return result;
+    });
+  };
+
   const extensionDefinition = (baseClient: PrismaClientWithDynamicAccess) => {
+    const rawOperationHandlers = rawQueriesMode
+      ? Object.fromEntries(
+          RAW_OPERATIONS.map((operation) => [
+            operation,
+            (params: ExtensionParams) => handleRawOperation(params, baseClient),
+          ]),
+        )
+      : {};
+
     const extendedClient = baseClient.$extends({
       name: 'prisma-audit',
       query: {
@@ -559,20 +960,25 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
               return query(args);
             }
 
-            if (!model || !shouldAudit(model, context)) {
+            if (model && isReadOperation(operation)) {
+              return handleReadOperation(model, operation, context, baseClient, args, query);
+            }
+
+            if (!model || !isAuditableAction(operation)) {
               return query(args);
             }
 
-            if (!isAuditableAction(operation)) {
+            const auditContext = context ?? resolveWriteContext(model, operation);
+            if (!shouldAudit(model, auditContext)) {
               return query(args);
             }
 
-            // Inject deep include for nested write operations (3+ levels)
-            const argsWithInclude = injectDeepInclude(args);
+            const argsWithInclude = toAuditedArgs(operation, model, args);
 
             const processingContext: AuditContext = {
-              ...(context as AuditContext),
+              ...(auditContext as AuditContext),
               _isProcessingAuditLog: true,
+              _operationId: generateTraceId(),
             };
 
             return provider.runAsync(processingContext, async () => {
@@ -582,20 +988,21 @@ export const createAuditLogExtension = (options: PrismaAuditExtensionOptions) =>
                 args: argsWithInclude as Record<string, unknown>,
               };
 
-              if (
-                operation === AUDIT_ACTION.CREATE_MANY ||
-                operation === AUDIT_ACTION.UPDATE_MANY ||
-                operation === AUDIT_ACTION.DELETE_MANY
-              ) {
+              if (isBatchOperation(operation)) {
                 return handleBatchOperation(operationContext, processingContext, baseClient);
               }
 
-              return handleSingleOperation(operationContext, processingContext, baseClient, (modifiedArgs) =>
-                query(modifiedArgs ?? argsWithInclude),
+              const result = await handleSingleOperation(
+                operationContext,
+                processingContext,
+                baseClient,
+                (modifiedArgs) => query(modifiedArgs ?? argsWithInclude),
               );
+              return restoreResultShape(result, args, argsWithInclude);
             });
           },
         },
+        ...rawOperationHandlers,
       },
     });
 
@@ -16,6 +16,8 @@ export type {
   ActorEnricher,
   // Enrichment Types
   ActorEnricherConfig,
+  // Middleware
+  ActorExtractor,
   // Domain Types
   ActorId,
   // Aggregate Types
@@ -25,41 +27,80 @@ export type {
   AggregateMapping,
   AggregateResolutionContext,
   AggregateRoot,
+  AggregateTimeline,
+  AggregateTimelineEvent,
+  AggregateTimelineOptions,
   AnyBrandedId,
+  ApiKeyExtractorOptions,
+  AsyncLocalStorageAuditContextProvider,
   // Constants
   AuditAction,
   AuditActor,
+  // Events
+  AuditCloudEvent,
   AuditContext,
   AuditContextProvider,
+  // Encryption
+  AuditEncryptionConfig,
   // Error Handler Types
   AuditErrorContext,
   AuditErrorHandler,
   AuditErrorPhase,
+  AuditHttpRequest,
+  AuditKeyStore,
+  AuditLogAction,
   AuditLogData as CoreAuditLogData,
   AuditLogInput as CoreAuditLogInput,
+  AuditMiddlewareOptions,
   BatchAggregateIdResolver,
+  BufferedResult,
+  BufferedWriter,
+  BufferedWriterOptions,
+  BufferedWriterStats,
   CapitalizedModelNames,
+  // Integrity
+  ChainedAuditLog,
+  ChainHead,
+  ChainHeadReader,
+  ChainLink,
+  ChainViolation,
+  CloudEventExtensionValue,
+  CloudEventOptions,
   ContextEnricherConfig,
   // Interfaces
   CreateArgs,
+  DataKey,
   DbClient,
   // Write Strategies
   DbClientManager,
+  DecryptAuditLogOptions,
   DefaultWriteFn,
   DeferredResult,
   DefineEntityOptions,
+  DelegatedActor,
+  DelegationContext,
   DeleteArgs,
   // Diff Calculator
   DiffCalculator,
   DiffResult,
+  EmailRedactStrategy,
+  EncryptableAuditLog,
+  EncryptedAuditColumn,
+  EncryptedAuditPayload,
   EnricherConfig,
   EnricherErrorStrategy,
   EnrichmentErrorStrategy,
   EntitiesEnricher,
   EntityEnricherConfig,
   EntityId,
+  EntityReconstruction,
+  EntityRedactConfig,
   ErrorHandler,
   ErrorStrategy,
+  EventPublisher,
+  EventPublishingWriterOptions,
+  ExpressRequestLike,
+  FastifyRequestLike,
   FieldChange,
   FieldMetadata,
   FindArgs,
@@ -67,12 +108,23 @@ export type {
   GetModelType,
   GetOperationConfig,
   GlobalContextEnricherConfig,
+  HashChainOptions,
+  HashChainScope,
+  HashRedactStrategy,
+  HonoContextLike,
   // ID Generator (from core)
   IdFieldInfo as CoreIdFieldInfo,
   IdGenerator as CoreIdGenerator,
   IdTransformer,
   ImmediateResult,
+  InMemoryEventBroker,
+  InMemoryKeyStore,
+  InMemoryKeyStoreOptions,
+  JwtClaimExtractorOptions,
+  KoaContextLike,
   LoggableEntity,
+  MaskedPathHandler,
+  MissingContextMode,
   ModelDelegate,
   NestedOperationConfig,
   // Nested Operations
@@ -81,33 +133,49 @@ export type {
   // PreFetch Types
   NestedPreFetchResult,
   NestedRecordInfo,
+  NodeRequestLike,
   OperationPreFetchConfig,
+  OutboxedResult,
+  OutboxWriter,
   ParsedWhereClause,
+  PartialRedactStrategy,
   PreFetchedRecord,
   PreFetchPath,
   PreFetchResult,
   PreFetchResults,
   PrismaModelNames,
+  ReadAuditConfig,
+  ReadOperation,
+  ReconstructEntityOptions,
+  ReconstructionGap,
   // Redaction Types
   RedactConfig,
   RedactedFieldInfo,
   RedactMaskFn,
   Redactor,
+  RedactStrategy,
   RelationField,
+  RequestMetadataOptions,
   ResolvedId,
   ResolvedNestedState,
   Result,
   SchemaMetadata,
   // Serialization Types
   SerializationConfig,
+  SessionExtractorOptions,
   SkippedResult,
+  TimelineEntityChange,
   TraceId,
   Transaction,
+  TrpcAuditMiddlewareOptions,
+  TrpcMiddlewareParams,
+  TruncateRedactStrategy,
   TypedAggregateMapping,
   UniqueConstraint,
   UpdateArgs,
   ValidationError,
   ValueSerializer,
+  WrappedDataKey,
   WriteExecutor,
   WriteFn,
   WriteResult,
@@ -116,6 +184,8 @@ export type {
 } from '@kuruwic/prisma-audit-core';
 
 export {
+  // Middleware
+  ANONYMOUS_ACTOR,
   // Constants
   AUDIT_ACTION,
   // State Resolution
@@ -125,10 +195,16 @@ export {
   batchEnrichEntityContexts,
   // Aggregate Functions
   batchResolveIds,
+  // History
+  buildAggregateTimeline,
   // PreFetch Functions
   buildPreFetchQuery,
   // Pending Write Tracking
+  changeKey,
   clearPendingWrites,
+  collapseFanOut,
+  collectRequestMetadata,
+  computeAuditLogHash,
   // Utils - Debug
   coreLog,
   // Domain Functions
@@ -137,9 +213,12 @@ export {
   createAggregateId,
   // Context Provider
   createAsyncLocalStorageProvider,
+  createAuditContextResolver,
   createAuditLogData,
   // Write Strategies
   createBaseClientWriteFn,
+  createBufferedWriter,
+  createChainVerifier,
   createDefaultWriteFn,
   // Utils - Diff Calculator
   createDiffCalculator,
@@ -147,12 +226,27 @@ export {
   createEntityId,
   // Error Handler
   createErrorHandler,
+  // Events
+  createEventPublishingWriter,
+  createExpressAuditMiddleware,
+  createFastifyAuditHook,
+  createHashChainExecutor,
+  createHonoAuditMiddleware,
+  createInMemoryEventBroker,
+  // Encryption
+  createInMemoryKeyStore,
+  createKoaAuditMiddleware,
   // Redaction
   createRedactor,
   createTraceId,
+  createTrpcAuditMiddleware,
   createWriteStrategySelector,
+  DEFAULT_DENIED_HEADERS,
   DEFAULT_ENTITY_CATEGORY,
   DEFAULTS,
+  decodeJwtPayload,
+  decryptAuditLog,
+  decryptPayload,
   defaultAuditErrorHandler,
   defineAggregateMapping,
   defineEntity,
@@ -161,7 +255,11 @@ export {
   detectNestedOperations,
   detectNestedUpdates,
   detectNestedUpserts,
+  ENCRYPTED_AUDIT_COLUMNS,
+  encryptAuditLog,
+  encryptPayload,
   enrichActorContext,
+  enrichDelegationContext,
   // Utils - ID Generator (from core)
   ensureIds as coreEnsureIds,
   executeBatchEnricherSafely,
@@ -172,12 +270,22 @@ export {
   filterOperationsToPreFetch,
   flushPendingWrites,
   foreignKey,
+  fromApiKeyHeader,
+  fromJwtClaim,
+  fromSession,
+  GLOBAL_CHAIN_KEY,
+  generateDataKeyMaterial,
+  generateTraceId,
+  getChainKey,
   getDefaultSensitiveFields,
+  getEncryptedColumns,
   getIdFieldInfo as coreGetIdFieldInfo,
   getIdGenerator as coreGetIdGenerator,
   getPendingWriteCount,
   getPreFetchedRecord,
+  getRedactedFieldPaths,
   handleAuditError,
+  hashRedactedValue,
   hasOrNot,
   hasPreFetchedRecord,
   ID_GENERATORS as CORE_ID_GENERATORS,
@@ -185,18 +293,25 @@ export {
   isActorId,
   isAggregateConfigService,
   isAggregateId,
+  isEncryptedPayload,
   isEntityId,
+  isRedactedFieldInfo,
   isRelationField,
   isSensitiveField,
   isTraceId,
   matchesUniqueConstraint,
+  mergeRedactConfig,
   NESTED_OPERATION_KEYWORDS,
   nestedLog,
   normalizeId,
   parseWhereClause,
   preFetchBeforeState,
   preFetchLog,
+  READ_OPERATIONS,
+  REDACTED_FIELDS_KEY,
+  reconstructEntityState,
   redactSensitiveData,
+  reencryptAuditLog,
   refetchNestedRecords,
   // Relation Configuration
   removeRelations,
@@ -217,14 +332,21 @@ export {
   sortByPathDepth,
   success,
   to,
+  toAuditHttpRequest,
+  toCloudEvent,
+  toDelegationContext,
   UNHANDLED,
+  unwrapDataKey,
   unwrapId,
   validateAggregateMapping,
   withErrorHandling,
   withErrorHandlingSync,
+  wrapDataKey,
+  writeBuffered,
   writeDeferredInTransaction,
   writeFireAndForget,
   writeSynchronously,
+  writeToOutbox,
 } from '@kuruwic/prisma-audit-core';
 
 // ============================================================================
@@ -232,9 +354,32 @@ export {
 // ============================================================================
 export type { PrismaClientWithAudit } from './client-factory.js';
 export { createAuditClient, defineConfig } from './client-factory.js';
-export type { GetNestedOperationConfigDependencies } from './config/index.js';
-export { getNestedOperationConfig, validateFieldConflicts } from './config/index.js';
+export type { GetNestedOperationConfigDependencies, MissingContextDependencies } from './config/index.js';
+export {
+  applySchemaRedaction,
+  DEFAULT_SYSTEM_ACTOR,
+  getMissingContextMode,
+  getNestedOperationConfig,
+  getSchemaRedactConfigs,
+  resolveMissingContext,
+  validateFieldConflicts,
+} from './config/index.js';
+export type {
+  PrismaKeyStoreOptions,
+  ReencryptAuditLogsOptions,
+  ReencryptAuditLogsResult,
+  RewrapDataKeysOptions,
+  RewrapDataKeysResult,
+} from './encryption/index.js';
+export {
+  createPrismaKeyStore,
+  DEFAULT_DATA_KEY_MODEL,
+  reencryptAuditLogs,
+  rewrapDataKeys,
+} from './encryption/index.js';
 export { createAuditLogExtension } from './extension.js';
+export type { AuditChainVerification, AuditChainVerifyOptions } from './integrity/index.js';
+export { CHAIN_COLUMNS, verifyAuditChain } from './integrity/index.js';
 export type {
   BatchEnrichedContext,
   BatchFinalContext,
@@ -248,17 +393,95 @@ export type {
   PreparedContext,
 } from './lifecycle/index.js';
 export { flushAllPendingWrites, flushPendingDeferredWrites, runLifecyclePipeline } from './lifecycle/index.js';
+export type {
+  NestCallHandlerLike,
+  NestExecutionContextLike,
+  NestProviderLike,
+  PrismaAuditInterceptor,
+  PrismaAuditInterceptorOptions,
+  PrismaAuditModuleOptions,
+} from './nestjs/index.js';
+export {
+  createPrismaAuditInterceptor,
+  PRISMA_AUDIT_CLIENT,
+  PRISMA_AUDIT_PROVIDER,
+  PrismaAuditModule,
+} from './nestjs/index.js';
+export type { OutboxRelay, OutboxRelayOptions, OutboxRelayResult, OutboxRetryConfig } from './outbox/index.js';
+export {
+  createOutboxRelay,
+  createOutboxWriter,
+  DEFAULT_OUTBOX_MODEL,
+  findMissingOutboxColumns,
+  OUTBOX_COLUMNS,
+} from './outbox/index.js';
+export type { RawWriteEvent, RawWriteKind } from './raw-sql/index.js';
+export { RAW_TABLE_ENTITY_ID } from './raw-sql/index.js';
+export type {
+  AuditLogPage,
+  AuditLogQuery,
+  AuditLogReader,
+  AuditLogReaderOptions,
+  IdentityFilter,
+  ReconstructQuery,
+  StoredAuditLog,
+  TimelineQuery,
+  TimeRangeFilter,
+} from './reader/index.js';
+export { createAuditLogReader } from './reader/index.js';
+export type {
+  RetentionArchiver,
+  RetentionPeriod,
+  RetentionRule,
+  RetentionRuleResult,
+  RetentionRunner,
+  RetentionRunnerOptions,
+  RetentionRunResult,
+} from './retention/index.js';
+export { computeCutoff, createModelArchiver, createNdjsonArchiver, createRetentionRunner } from './retention/index.js';
+export type {
+  AuditReverter,
+  AuditReverterOptions,
+  RevertConflict,
+  RevertOptions,
+  RevertPlan,
+  RevertResult,
+  RevertSchema,
+  RevertStep,
+  RevertTarget,
+} from './revert/index.js';
+export { createAuditReverter, planRevert } from './revert/index.js';
+export type {
+  AuditSink,
+  FanOutWriterOptions,
+  NdjsonFileSinkOptions,
+  StdoutSinkOptions,
+  WebhookRetryConfig,
+  WebhookSinkOptions,
+} from './sinks/index.js';
+export {
+  createFanOutWriter,
+  createNdjsonFileSink,
+  createStdoutSink,
+  createWebhookSink,
+  signWebhookPayload,
+} from './sinks/index.js';
 export type {
   AuditLogData,
   AuditLogInput,
   AuditLogWriter,
+  CascadeAuditConfig,
   DiffingConfig,
   EnrichmentResolver,
   HooksConfig,
+  IntegrityConfig,
+  MissingContextConfig,
   OperationContext,
+  OutboxConfig,
   PerformanceConfig,
   PrismaAction,
   PrismaAuditExtensionOptions,
+  RawQueriesConfig,
   SecurityConfig,
 } from './types.js';
 
@@ -271,6 +494,7 @@ export {
   injectDeepInclude,
   isAuditableAction,
   isBatchOperation,
+  isReturningBatchOperation,
   isSingleOperation,
   isWriteOperation,
   requiresBeforeState,
@@ -0,0 +1,240 @@
+/**
+ * Audit Log Integrity
+ *
+ * Prisma bindings for tamper-evident hash chains: reading chain heads when logs are
+ * written, and walking the audit log table to verify every chain.
+ *
+ * @module integrity
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyAuditChain(basePrisma, { auditLogModel: 'AuditLog' });
+ * if (!result.valid) {
+ *   console.error('Audit log tampering detected', result.violation);
+ * }
+ * ```
+ */
+
+import type {
+  ChainAnchor,
+  ChainedAuditLog,
+  ChainHead,
+  ChainHeadReader,
+  ChainViolation,
+  WriteExecutor,
+} from '@kuruwic/prisma-audit-core';
+import { AUDIT_ACTION, createChainVerifier, createHashChainExecutor, DEFAULTS } from '@kuruwic/prisma-audit-core';
+import { type OptionalAuditLogField, omitFields } from '../adapters/write-executor.js';
+import type { IntegrityConfig } from '../types.js';
+import { uncapitalizeFirst } from '../utils/extension-utils.js';
+
+/**
+ * Audit log columns required when integrity mode is enabled
+ */
+export const CHAIN_COLUMNS = ['chainKey', 'chainSequence', 'hash', 'previousHash'] as const;
+
+const DEFAULT_BATCH_SIZE = 500;
+
+/** @internal */
+type AuditLogDelegate = {
+  findFirst?: (args: unknown) => Promise<unknown>;
+  findMany?: (args: unknown) => Promise<unknown[]>;
+};
+
+/**
+ * Options for verifying audit log hash chains
+ */
+export interface AuditChainVerifyOptions {
+  /**
+   * Prisma model name for stored audit logs (PascalCase).
+   *
+   * @default 'AuditLog'
+   */
+  auditLogModel?: string;
+  /** Verify only this chain (e.g. `'User:user-1'`). Default: all chains */
+  chainKey?: string;
+  /** Rows read per query. Default: 500 */
+  batchSize?: number;
+}
+
+/**
+ * Result of verifying audit log hash chains
+ */
+export type AuditChainVerification =
+  | { valid: true; checkedRows: number }
+  | { valid: false; checkedRows: number; violation: ChainViolation };
+
+/**
+ * Find chain columns missing from the audit log model
+ *
+ * @param models - DMMF models, or undefined when the DMMF is unavailable
+ * @param auditLogModelName - Audit log model name (either case of the first letter)
+ * @returns Missing columns; empty when the model cannot be inspected
+ */
+export const findMissingChainColumns = (
+  models: ReadonlyArray<{ name: string; fields: ReadonlyArray<{ name: string }> }> | undefined,
+  auditLogModelName: string,
+): string[] => {
+  const target = auditLogModelName.toLowerCase();
+  const model = models?.find((m) => m.name.toLowerCase() === target);
+  if (!model) {
+    return [];
+  }
+  const declared = new Set(model.fields.map((field) => field.name));
+  return CHAIN_COLUMNS.filter((column) => !declared.has(column));
+};
+
+/**
+ * Read the latest row of a chain with the client the logs are written with
+ */
+export const readPrismaChainHead: ChainHeadReader = async (client, auditLogModelName, chainKey) => {
+  const delegate = (client as Record<string, AuditLogDelegate | undefined>)[auditLogModelName];
+  const head = await delegate?.findFirst?.({
+    where: { chainKey },
+    orderBy: { chainSequence: 'desc' },
+    select: { chainSequence: true, hash: true },
+  });
+  return (head as ChainHead | null) ?? undefined;
+};
+
+/**
+ * Whether a Prisma client is an interactive transaction client
+ *
+ * @remarks
+ * Transaction clients do not expose `$transaction`.
+ */
+export const isPrismaTransactionClient = (client: unknown): boolean =>
+  typeof (client as { $transaction?: unknown } | null)?.$transaction !== 'function';
+
+/**
+ * Whether a Prisma error is a unique constraint violation (`P2002`)
+ */
+export const isPrismaUniqueViolation = (error: unknown): boolean =>
+  (error as { code?: unknown } | null)?.code === 'P2002';
+
+/**
+ * Wrap the Prisma write executor so written logs are linked into hash chains
+ *
+ * @param executor - Prisma write executor
+ * @param config - Integrity configuration
+ * @param models - DMMF models, used to check the chain columns exist
+ * @param auditLogModelName - Audit log model name
+ * @param omittedFields - Optional columns missing from the audit log model (see `findMissingOptionalFields`)
+ * @throws Error if the audit log model does not declare the chain columns
+ *
+ * @remarks
+ * Omitted fields are removed before hashing, so the hash only covers what is persisted.
+ */
+export const createIntegrityWriteExecutor = (
+  executor: WriteExecutor,
+  config: IntegrityConfig,
+  models: ReadonlyArray<{ name: string; fields: ReadonlyArray<{ name: string }> }> | undefined,
+  auditLogModelName: string,
+  omittedFields: readonly OptionalAuditLogField[] = [],
+): WriteExecutor => {
+  const missing = findMissingChainColumns(models, auditLogModelName);
+  if (missing.length > 0) {
+    throw new Error(
+      `[@prisma-audit] integrity.enabled requires the audit log model to declare: ${missing.join(', ')}. ` +
+        'Add the columns to your Prisma schema (see the "Tamper-Evident Hash Chain" section of the README).',
+    );
+  }
+
+  const chainExecutor = createHashChainExecutor(executor, {
+    scope: config.scope ?? 'aggregate',
+    readHead: readPrismaChainHead,
+    isTransactional: isPrismaTransactionClient,
+    isConflict: isPrismaUniqueViolation,
+  });
+  return {
+    write: (client, modelName, logs) =>
+      chainExecutor.write(
+        client,
+        modelName,
+        logs.map((log) => omitFields(log, omittedFields)),
+      ),
+  };
+};
+
+/**
+ * Read the anchors of rows purged by the retention runner
+ *
+ * @remarks
+ * Only purge events that are part of a chain count, so anchors cannot be added without
+ * extending a chain.
+ *
+ * @internal
+ */
+const readPurgeAnchors = async (findMany: NonNullable<AuditLogDelegate['findMany']>): Promise<ChainAnchor[]> => {
+  const events = (await findMany({
+    where: { action: AUDIT_ACTION.PURGE, chainKey: { not: null } },
+    select: { entityContext: true },
+  })) as { entityContext: { chainAnchors?: ChainAnchor[] } | null }[];
+  return events.flatMap((event) => event.entityContext?.chainAnchors ?? []);
+};
+
+/**
+ * Verify the hash chains stored in the audit log table
+ *
+ * Rows are read in (`chainKey`, `chainSequence`) order with a keyset cursor, and the walk
+ * stops at the first violation. Rows written before integrity mode was enabled (without a
+ * `chainKey`) are skipped. Gaps left by retention purges are bridged with the anchors
+ * recorded on their `purge` events.
+ *
+ * @remarks
+ * Deleting the newest rows of a chain leaves a valid, shorter chain. To detect truncation,
+ * store chain heads (`chainKey`, `chainSequence`, `hash`) outside the database periodically
+ * and compare them with the rows.
+ *
+ * @param basePrisma - Prisma client (base or extended) that exposes the audit log model
+ * @param options - Verification options
+ * @returns The number of rows checked and the first violation, if any
+ * @throws Error if the audit log model is not available on the client
+ */
+export const verifyAuditChain = async (
+  basePrisma: unknown,
+  options: AuditChainVerifyOptions = {},
+): Promise<AuditChainVerification> => {
+  const modelName = options.auditLogModel ?? DEFAULTS.AUDIT_LOG_MODEL;
+  const delegate = (basePrisma as Record<string, AuditLogDelegate | undefined>)[uncapitalizeFirst(modelName)];
+
+  const findMany = delegate?.findMany;
+  if (typeof findMany !== 'function') {
+    throw new Error(`[@prisma-audit] Audit log model "${modelName}" not found on the Prisma client`);
+  }
+
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const scope = options.chainKey !== undefined ? { chainKey: options.chainKey } : { chainKey: { not: null } };
+  const verify = createChainVerifier(await readPurgeAnchors(findMany));
+  let checkedRows = 0;
+  let last: ChainedAuditLog | undefined;
+
+  while (true) {
+    const after = last
+      ? {
+          OR: [
+            { chainKey: { gt: last.chainKey } },
+            { chainKey: last.chainKey, chainSequence: { gt: last.chainSequence } },
+          ],
+        }
+      : {};
+    const rows = (await findMany({
+      where: { AND: [scope, after] },
+      orderBy: [{ chainKey: 'asc' }, { chainSequence: 'asc' }],
+      take: batchSize,
+    })) as ChainedAuditLog[];
+
+    for (const row of rows) {
+      checkedRows++;
+      const violation = verify(row);
+      if (violation) {
+        return { valid: false, checkedRows, violation };
+      }
+    }
+
+    last = rows[rows.length - 1];
+    if (!last || rows.length < batchSize) {
+      return { valid: true, checkedRows };
+    }
+  }
+};
@@ -17,6 +17,8 @@
  */
 export interface DMMFField {
   name: string;
+  /** Column name when mapped with `@map` */
+  dbName?: string | null;
   kind: string;
   type: string;
   isList?: boolean;
@@ -28,6 +30,10 @@ export interface DMMFField {
   relationName?: string;
   relationFromFields?: string[];
   relationToFields?: string[];
+  /** Explicit `onDelete` referential action (absent when the schema relies on the default) */
+  relationOnDelete?: string;
+  /** Triple-slash (`///`) comments above the field */
+  documentation?: string;
 }
 
 /**
@@ -35,6 +41,8 @@ export interface DMMFField {
  */
 export interface DMMFModel {
   name: string;
+  /** Table name when mapped with `@@map` */
+  dbName?: string | null;
   fields: DMMFField[];
   primaryKey?: {
     name: string | null;
@@ -1,7 +1,8 @@
 /**
  * Batch Operation Lifecycle Stages
  *
- * Defines lifecycle stages for batch operations (createMany, updateMany, deleteMany).
+ * Defines lifecycle stages for batch operations (createMany, updateMany, deleteMany,
+ * createManyAndReturn, updateManyAndReturn).
  * Follows the same pipeline pattern as single operations but operates on entity arrays.
  *
  * @module lifecycle/batch-stages
@@ -21,7 +22,7 @@ import {
   resolveAndFilterSurvivors,
   type SurvivorEntity,
 } from './batch-aggregate-resolver.js';
-import type { StageDependencies } from './stages.js';
+import { type StageDependencies, withDelegationContext } from './stages.js';
 import type { BatchEnrichedContext, BatchFinalContext, BatchInitialContext, LifecycleStage } from './types.js';
 
 export { resetBatchResolveWarnings };
@@ -36,6 +37,8 @@ const BATCH_TO_SINGULAR_ACTION: Record<string, PrismaAction> = {
   [AUDIT_ACTION.CREATE_MANY]: AUDIT_ACTION.CREATE,
   [AUDIT_ACTION.UPDATE_MANY]: AUDIT_ACTION.UPDATE,
   [AUDIT_ACTION.DELETE_MANY]: AUDIT_ACTION.DELETE,
+  [AUDIT_ACTION.CREATE_MANY_AND_RETURN]: AUDIT_ACTION.CREATE,
+  [AUDIT_ACTION.UPDATE_MANY_AND_RETURN]: AUDIT_ACTION.UPDATE,
 } as const;
 
 /**
@@ -102,6 +105,11 @@ export const createBatchEnrichContextsStage = (
     const modelName = operation.model as string;
 
     const actorContext = await deps.enrichActorContext(auditContext, deps.contextEnricher?.actor, clientToUse);
+    const delegationContext = await deps.enrichDelegationContext(
+      auditContext,
+      deps.contextEnricher?.actor,
+      clientToUse,
+    );
     const entityConfig = deps.aggregateConfig.getEntityConfig(modelName);
 
     const entityContexts = await enrichBatchContexts(
@@ -114,6 +122,7 @@ export const createBatchEnrichContextsStage = (
 
     return {
       ...context,
+      auditContext: withDelegationContext(auditContext, delegationContext),
       actorContext,
       entityContexts,
     };
@@ -45,8 +45,9 @@ export {
   preFetchNestedRecordsBeforeOperation,
   resolveParentModelFromPath,
 } from './pre-fetch/index.js';
-export type { TransactionProxyDependencies } from './transaction-proxy.js';
+export type { RecordedOperation, TransactionProxyDependencies } from './transaction-proxy.js';
 export {
+  createSequentialTransactionCallback,
   createTransactionProxy,
   createTransactionProxyHandler,
   createWrappedTransactionCallback,
@@ -40,11 +40,17 @@ import {
   buildAggregateDataForEntity,
   resolveAndFilterSurvivors,
 } from '../batch-aggregate-resolver.js';
-import { PRE_FETCH_INTERNAL_RESULTS } from '../pre-fetch/coordinator.js';
+import {
+  PRE_FETCH_INTERNAL_RESULTS,
+  PRE_FETCH_RELATION_MEMBERSHIPS,
+  type PreFetchResultsWithInternal,
+} from '../pre-fetch/coordinator.js';
 import { extractEntityIdOrDefault } from '../pre-fetch/pre-fetch-result-store.js';
+import { isMembershipOperation } from '../pre-fetch/relation-membership.js';
 import type { CollectedNestedRecord } from './collected-record.js';
 import { collectDeleteRecords, type NestedPreFetchResults } from './delete-handler.js';
 import { collectNestedRecords } from './record-processor.js';
+import { buildRelationChangeLogs } from './relation-handler.js';
 import type { GetNestedOperationConfig } from './state-resolver.js';
 
 /**
@@ -108,7 +114,8 @@ const collectAllNestedRecords = (
   const processedPaths = new Set<string>();
 
   for (const nestedOp of nestedOperations) {
-    if (processedPaths.has(nestedOp.path)) {
+    // Membership changes are diffed by buildRelationChangeLogs
+    if (isMembershipOperation(nestedOp.operation) || processedPaths.has(nestedOp.path)) {
       continue;
     }
     processedPaths.add(nestedOp.path);
@@ -287,6 +294,7 @@ const enrichAndBuildForModelGroup = async (
  *   2. Collect all records (resolve action, beforeState, skip connect)
  *   3. Group by relatedModel
  *   4. Per group: batch entity enrichment → batch aggregate resolution → batch aggregate enrichment → build logs
+ *   5. Diff relation memberships captured for `set`/`disconnect` into link/unlink logs
  */
 export const buildNestedAuditLogs = async (
   modelName: string,
@@ -339,10 +347,6 @@ export const buildNestedAuditLogs = async (
     Prisma,
   );
 
-  if (allCollected.length === 0) {
-    return [];
-  }
-
   // Phase 2: Group by relatedModel
   const modelGroups = groupByModel(allCollected);
 
@@ -359,5 +363,17 @@ export const buildNestedAuditLogs = async (
     allLogs.push(...logs);
   }
 
+  const relationMemberships = (preFetchResults as PreFetchResultsWithInternal | undefined)?.[
+    PRE_FETCH_RELATION_MEMBERSHIPS
+  ];
+  if (relationMemberships) {
+    const relationLogs = await buildRelationChangeLogs(relationMemberships, context, prismaClient, actorContext, {
+      aggregateConfig,
+      redact,
+      serialization,
+    });
+    allLogs.push(...relationLogs);
+  }
+
   return allLogs;
 };
@@ -18,6 +18,9 @@ export { collectDeleteRecords } from './delete-handler.js';
 export type { NestedRecordsInfo } from './record-processor.js';
 export { collectNestedRecords, shouldSkipNestedRecord } from './record-processor.js';
 
+export type { RelationChange, RelationChangeLogDependencies } from './relation-handler.js';
+export { buildRelationChangeLogs, diffRelationMembers } from './relation-handler.js';
+
 export type {
   GetNestedOperationConfig,
   NestedOperationConfig,
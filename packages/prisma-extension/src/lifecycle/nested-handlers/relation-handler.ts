@@ -0,0 +1,352 @@
+/**
+ * Nested Relation Change Handler
+ *
+ * Diffs relation memberships captured before a nested `set`/`disconnect` against the state
+ * after the operation and builds `link`/`unlink` logs for both sides of every changed pair,
+ * so each side's aggregate roots see the change. A changed to-one relation is logged as an
+ * `update` of the record holding the foreign key instead.
+ */
+
+import type {
+  AggregateConfigService,
+  AuditContext,
+  RedactConfig,
+  ResolvedId,
+  SerializationConfig,
+} from '@kuruwic/prisma-audit-core';
+import { AUDIT_ACTION, batchEnrichEntityContexts, nestedLog, safeStringify } from '@kuruwic/prisma-audit-core';
+
+import {
+  aggregateContextKey,
+  buildRelationAuditLog,
+  type ResolvedAggregateData,
+  resolveAggregateData,
+} from '../../audit-log-builder/index.js';
+import { createPrismaClientManager, type PrismaClientManager } from '../../client-manager/index.js';
+import type { PrismaClientWithDynamicAccess, TransactionalPrismaClient } from '../../internal-types.js';
+import type { AuditLogData } from '../../types.js';
+import { uncapitalizeFirst } from '../../utils/extension-utils.js';
+import {
+  pickRelationKey,
+  type RelationForeignKey,
+  type RelationKey,
+  type RelationMembership,
+  type RelationMemberships,
+  toRelationKeys,
+} from '../pre-fetch/relation-membership.js';
+
+/**
+ * Dependencies required for building relation change logs
+ */
+export type RelationChangeLogDependencies = {
+  aggregateConfig: AggregateConfigService;
+  redact: RedactConfig | undefined;
+  serialization?: SerializationConfig;
+};
+
+/**
+ * A related record that joined or left a relation
+ */
+export interface RelationChange {
+  action: typeof AUDIT_ACTION.LINK | typeof AUDIT_ACTION.UNLINK;
+  related: RelationKey;
+}
+
+/** @internal */
+type FieldChanges = Record<string, { old: unknown; new: unknown }>;
+
+/**
+ * A record whose aggregate roots a relation log is attributed to
+ *
+ * @internal
+ */
+type AggregateSource = { modelName: string; entity: Record<string, unknown> };
+
+/** @internal */
+type RelationDelegate = {
+  findFirst: (args: unknown) => Promise<Record<string, unknown> | null>;
+  findMany: (args: unknown) => Promise<Record<string, unknown>[]>;
+};
+
+/** @internal */
+const keyOf = (key: RelationKey): string => safeStringify(key) ?? '';
+
+/**
+ * Diff relation members before and after an operation
+ *
+ * @returns Removed members as `unlink` followed by added members as `link`
+ */
+export const diffRelationMembers = (
+  before: readonly RelationKey[],
+  after: readonly RelationKey[],
+): RelationChange[] => {
+  const beforeKeys = new Set(before.map(keyOf));
+  const afterKeys = new Set(after.map(keyOf));
+
+  return [
+    ...before.filter((key) => !afterKeys.has(keyOf(key))).map((related) => ({ action: AUDIT_ACTION.UNLINK, related })),
+    ...after.filter((key) => !beforeKeys.has(keyOf(key))).map((related) => ({ action: AUDIT_ACTION.LINK, related })),
+  ];
+};
+
+/** @internal */
+const getDelegate = (client: unknown, modelName: string): RelationDelegate | undefined => {
+  const delegate = (client as Record<string, Partial<RelationDelegate> | undefined>)[uncapitalizeFirst(modelName)];
+  return delegate?.findFirst && delegate.findMany ? (delegate as RelationDelegate) : undefined;
+};
+
+/**
+ * Relation diff stored in `changes`, keyed by the relation field
+ *
+ * @internal
+ */
+const relationDiff = (fieldName: string, action: RelationChange['action'], key: RelationKey): FieldChanges => ({
+  [fieldName]: action === AUDIT_ACTION.LINK ? { old: null, new: key } : { old: key, new: null },
+});
+
+/**
+ * Foreign key diff stored in `changes`, keyed by the foreign key fields
+ *
+ * @param referenced - Records the foreign key pointed at before and after the change
+ * @internal
+ */
+const foreignKeyDiff = (
+  foreignKey: RelationForeignKey,
+  referenced: { old: Record<string, unknown> | undefined; new: Record<string, unknown> | undefined },
+): FieldChanges =>
+  Object.fromEntries(
+    foreignKey.fields.map((field, index) => {
+      const reference = foreignKey.references[index] ?? field;
+      return [field, { old: referenced.old?.[reference] ?? null, new: referenced.new?.[reference] ?? null }];
+    }),
+  );
+
+/**
+ * Resolve the aggregate roots of several records, each root once
+ *
+ * @internal
+ */
+const resolveMergedAggregateData = async (
+  sources: readonly AggregateSource[],
+  manager: PrismaClientManager,
+  deps: RelationChangeLogDependencies,
+): Promise<ResolvedAggregateData> => {
+  const aggregateRoots: ResolvedId[] = [];
+  const aggregateContexts = new Map<string, unknown>();
+  for (const { modelName, entity } of sources) {
+    const entityConfig = deps.aggregateConfig.getEntityConfig(modelName);
+    if (!entityConfig) {
+      continue;
+    }
+    const resolved = await resolveAggregateData(entity, entityConfig, manager.activeClient);
+    for (const root of resolved.aggregateRoots) {
+      const key = aggregateContextKey(root.aggregateType, root.aggregateId);
+      if (!aggregateContexts.has(key)) {
+        aggregateRoots.push(root);
+        aggregateContexts.set(key, resolved.aggregateContexts.get(key) ?? null);
+      }
+    }
+  }
+  return { aggregateRoots, aggregateContexts };
+};
+
+/**
+ * Builds relation logs for one entity, resolving its aggregate roots and context once
+ *
+ * @param aggregateSources - Records whose aggregate roots receive the logs (default: the entity itself)
+ * @internal
+ */
+const createEntityLogBuilder = (
+  modelName: string,
+  entity: Record<string, unknown>,
+  context: AuditContext,
+  manager: PrismaClientManager,
+  actorContext: unknown,
+  deps: RelationChangeLogDependencies,
+  aggregateSources: readonly AggregateSource[] = [{ modelName, entity }],
+) => {
+  const entityConfig = deps.aggregateConfig.getEntityConfig(modelName);
+  let prepared: Promise<[ResolvedAggregateData, unknown]> | undefined;
+
+  return async (
+    action: RelationChange['action'] | typeof AUDIT_ACTION.UPDATE,
+    changes: FieldChanges,
+  ): Promise<AuditLogData[]> => {
+    if (!entityConfig) {
+      return [];
+    }
+    prepared ??= Promise.all([
+      resolveMergedAggregateData(aggregateSources, manager, deps),
+      batchEnrichEntityContexts([entity], entityConfig, manager.activeClient, {
+        aggregateType: modelName,
+        aggregateCategory: 'model',
+      }).then(([entityContext]) => entityContext ?? null),
+    ]);
+    const [aggregateData, entityContext] = await prepared;
+
+    return buildRelationAuditLog(
+      entity,
+      action,
+      changes,
+      context,
+      modelName,
+      manager,
+      actorContext,
+      entityContext,
+      deps.aggregateConfig,
+      deps.redact,
+      aggregateData,
+      deps.serialization,
+    );
+  };
+};
+
+/**
+ * Build `update` logs holding the foreign key diff of a changed to-one relation
+ *
+ * @remarks
+ * When the parent holds the foreign key, its own `update` log already records the diff for its
+ * aggregate roots, so this log goes to the roots of the related records only. When the related
+ * record holds it, the log goes to the roots of both sides.
+ *
+ * @internal
+ */
+const buildForeignKeyLogs = async (
+  membership: RelationMembership,
+  foreignKey: RelationForeignKey,
+  parent: Record<string, unknown>,
+  changes: readonly RelationChange[],
+  relatedByKey: ReadonlyMap<string, Record<string, unknown>>,
+  context: AuditContext,
+  manager: PrismaClientManager,
+  actorContext: unknown,
+  deps: RelationChangeLogDependencies,
+): Promise<AuditLogData[]> => {
+  const { parentModel, relatedModel } = membership;
+  const relatedOf = (action: RelationChange['action']) => {
+    const change = changes.find((candidate) => candidate.action === action);
+    return change && relatedByKey.get(keyOf(change.related));
+  };
+
+  if (foreignKey.holder === 'parent') {
+    const referenced = { old: relatedOf(AUDIT_ACTION.UNLINK), new: relatedOf(AUDIT_ACTION.LINK) };
+    const sources = [referenced.old, referenced.new]
+      .filter((entity): entity is Record<string, unknown> => entity !== undefined)
+      .map((entity) => ({ modelName: relatedModel, entity }));
+    const buildLogs = createEntityLogBuilder(parentModel, parent, context, manager, actorContext, deps, sources);
+    return buildLogs(AUDIT_ACTION.UPDATE, foreignKeyDiff(foreignKey, referenced));
+  }
+
+  const logs: AuditLogData[] = [];
+  for (const change of changes) {
+    const related = relatedByKey.get(keyOf(change.related));
+    if (!related) {
+      continue;
+    }
+    const buildLogs = createEntityLogBuilder(relatedModel, related, context, manager, actorContext, deps, [
+      { modelName: relatedModel, entity: related },
+      { modelName: parentModel, entity: parent },
+    ]);
+    const referenced =
+      change.action === AUDIT_ACTION.LINK ? { old: undefined, new: parent } : { old: parent, new: undefined };
+    logs.push(...(await buildLogs(AUDIT_ACTION.UPDATE, foreignKeyDiff(foreignKey, referenced))));
+  }
+  return logs;
+};
+
+/**
+ * Build `link`/`unlink` logs for one captured relation
+ *
+ * @internal
+ */
+const buildMembershipLogs = async (
+  membership: RelationMembership,
+  context: AuditContext,
+  manager: PrismaClientManager,
+  actorContext: unknown,
+  deps: RelationChangeLogDependencies,
+): Promise<AuditLogData[]> => {
+  const { parentModel, fieldName, relatedModel, relatedKeyFields, inverseFieldName } = membership;
+  const parentDelegate = getDelegate(manager.activeClient, parentModel);
+  const relatedDelegate = getDelegate(manager.activeClient, relatedModel);
+  if (!parentDelegate || !relatedDelegate) {
+    return [];
+  }
+
+  const found = await parentDelegate.findFirst({
+    where: membership.parentKey,
+    include: { [fieldName]: { select: Object.fromEntries(relatedKeyFields.map((field) => [field, true])) } },
+  });
+  if (!found) {
+    return [];
+  }
+
+  const { [fieldName]: members, ...parent } = found;
+  const changes = diffRelationMembers(membership.before, toRelationKeys(members, relatedKeyFields));
+  nestedLog('relation %s.%s changed members=%d', parentModel, fieldName, changes.length);
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const relatedRecords = await relatedDelegate.findMany({ where: { OR: changes.map((change) => change.related) } });
+  const relatedByKey = new Map(
+    relatedRecords.map((record) => [keyOf(pickRelationKey(record, relatedKeyFields)), record]),
+  );
+  if (membership.foreignKey) {
+    return buildForeignKeyLogs(
+      membership,
+      membership.foreignKey,
+      parent,
+      changes,
+      relatedByKey,
+      context,
+      manager,
+      actorContext,
+      deps,
+    );
+  }
+  const buildParentLogs = createEntityLogBuilder(parentModel, parent, context, manager, actorContext, deps);
+
+  const logs: AuditLogData[] = [];
+  for (const change of changes) {
+    logs.push(...(await buildParentLogs(change.action, relationDiff(fieldName, change.action, change.related))));
+
+    const related = relatedByKey.get(keyOf(change.related));
+    if (related && inverseFieldName) {
+      const buildRelatedLogs = createEntityLogBuilder(relatedModel, related, context, manager, actorContext, deps);
+      logs.push(
+        ...(await buildRelatedLogs(change.action, relationDiff(inverseFieldName, change.action, membership.parentKey))),
+      );
+    }
+  }
+
+  return logs;
+};
+
+/**
+ * Build logs for relations changed by nested `set`/`disconnect` operations
+ *
+ * @remarks
+ * Each changed pair produces a log for the parent record (diff keyed by the relation field)
+ * and one for the related record (diff keyed by the inverse field). A changed to-one relation
+ * produces an `update` of the record holding the foreign key, with the foreign key diff in `changes`.
+ *
+ * @param memberships - Memberships captured by the pre-fetch coordinator
+ * @param prismaClient - Client of the operation (same transaction context)
+ */
+export const buildRelationChangeLogs = async (
+  memberships: RelationMemberships,
+  context: AuditContext,
+  prismaClient: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+  actorContext: unknown,
+  deps: RelationChangeLogDependencies,
+): Promise<AuditLogData[]> => {
+  const manager = createPrismaClientManager(prismaClient, context);
+  const logs: AuditLogData[] = [];
+
+  for (const membership of memberships.values()) {
+    logs.push(...(await buildMembershipLogs(membership, context, manager, actorContext, deps)));
+  }
+
+  return logs;
+};
@@ -0,0 +1,240 @@
+/**
+ * Referential Action Pre-fetch
+ *
+ * Reads the rows a delete will remove through `onDelete: Cascade` or null through
+ * `onDelete: SetNull`, so they can be logged once the database applied the referential
+ * actions. Relations are read from the schema metadata; join rows of implicit many-to-many
+ * relations have no model and are not followed.
+ *
+ * @module lifecycle/pre-fetch/cascade-effects
+ */
+
+import { preFetchLog, type RelationField, type SchemaMetadata } from '@kuruwic/prisma-audit-core';
+import type { PrismaClientWithDynamicAccess, TransactionalPrismaClient } from '../../internal-types.js';
+import { extractPrimaryKey } from '../../utils/id-generator.js';
+import { getModelAccessor } from '../../utils/model-accessor.js';
+
+/** Levels of referencing rows followed by default (direct children are level 1) */
+export const DEFAULT_CASCADE_MAX_DEPTH = 5;
+
+/**
+ * Relation whose foreign key references the deleted model
+ */
+export interface ReferencingRelation {
+  /** Model holding the foreign key */
+  model: string;
+  /** Foreign key fields on `model` */
+  fromFields: string[];
+  /** Referenced fields on the deleted model */
+  toFields: string[];
+  onDelete: 'Cascade' | 'SetNull';
+}
+
+/**
+ * Row changed by a referential action
+ */
+export interface CascadeEffect {
+  /** Model of the affected row */
+  modelName: string;
+  /** `delete` for cascaded rows, `update` for rows whose foreign key is set to null */
+  action: 'delete' | 'update';
+  before: Record<string, unknown>;
+  /** State after the referential action (null for deletes) */
+  after: Record<string, unknown> | null;
+}
+
+export interface CascadePreFetchDependencies {
+  readonly schema: SchemaMetadata;
+  readonly getPrimaryKeyFields: (modelName: string) => string[];
+  /** Levels of referencing rows to follow (direct children are level 1) */
+  readonly maxDepth: number;
+  /** Whether rows of a model are collected and their own referencing rows followed */
+  readonly shouldFollow: (modelName: string) => boolean;
+}
+
+/** @internal */
+type FindManyDelegate = {
+  findMany?: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown>[]>;
+};
+
+/** @internal */
+interface DeletedRows {
+  modelName: string;
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Prisma's default when `onDelete` is omitted: SetNull for optional relations, Restrict otherwise
+ *
+ * @internal
+ */
+const resolveOnDelete = (field: RelationField): string =>
+  field.relationOnDelete ?? (field.isRequired ? 'Restrict' : 'SetNull');
+
+/**
+ * Find the relations whose rows are deleted or nulled when a row of `modelName` is deleted
+ *
+ * @example
+ * ```typescript
+ * findReferencingRelations(schema, 'User');
+ * // => [{ model: 'Post', fromFields: ['authorId'], toFields: ['id'], onDelete: 'Cascade' }, ...]
+ * ```
+ */
+export const findReferencingRelations = (schema: SchemaMetadata, modelName: string): ReferencingRelation[] => {
+  const relations: ReferencingRelation[] = [];
+
+  for (const field of schema.getRelationFields(modelName)) {
+    if (field.relationName === undefined || (field.relationFromFields?.length ?? 0) > 0) {
+      continue;
+    }
+    const owning = schema
+      .getRelationFields(field.relatedModel)
+      .find(
+        (candidate) =>
+          candidate.relationName === field.relationName &&
+          candidate.relatedModel === modelName &&
+          (candidate.relationFromFields?.length ?? 0) > 0,
+      );
+    if (!owning?.relationFromFields || !owning.relationToFields) {
+      continue;
+    }
+
+    const onDelete = resolveOnDelete(owning);
+    if (onDelete === 'Cascade' || onDelete === 'SetNull') {
+      relations.push({
+        model: field.relatedModel,
+        fromFields: owning.relationFromFields,
+        toFields: owning.relationToFields,
+        onDelete,
+      });
+    }
+  }
+
+  return relations;
+};
+
+/**
+ * Where clause matching the rows that reference any of the parents
+ *
+ * @internal
+ * @returns undefined when no parent has a complete key
+ */
+const buildReferencingWhere = (
+  relation: ReferencingRelation,
+  parents: ReadonlyArray<Record<string, unknown>>,
+): Record<string, unknown> | undefined => {
+  const keys = parents
+    .map((parent) => relation.toFields.map((field) => parent[field]))
+    .filter((values) => values.every((value) => value !== null && value !== undefined));
+  if (keys.length === 0) {
+    return undefined;
+  }
+
+  const [fromField] = relation.fromFields;
+  if (relation.fromFields.length === 1 && fromField) {
+    return { [fromField]: { in: keys.map(([value]) => value) } };
+  }
+  return { OR: keys.map((values) => Object.fromEntries(relation.fromFields.map((field, i) => [field, values[i]]))) };
+};
+
+/** @internal */
+const findReferencingRows = async (
+  prismaClient: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+  relation: ReferencingRelation,
+  parents: ReadonlyArray<Record<string, unknown>>,
+): Promise<Record<string, unknown>[]> => {
+  const where = buildReferencingWhere(relation, parents);
+  if (!where) {
+    return [];
+  }
+
+  const delegate = prismaClient[getModelAccessor(prismaClient, relation.model)] as FindManyDelegate | undefined;
+  if (!delegate?.findMany) {
+    preFetchLog('cascade: cannot read model=%s', relation.model);
+    return [];
+  }
+  return delegate.findMany({ where });
+};
+
+/**
+ * Pre-fetch the rows that referential actions will delete or null when `deleted` are deleted
+ *
+ * Cascaded rows are followed level by level up to `maxDepth`. A row reached through several
+ * relations yields one effect: a delete wins over a SetNull, and SetNulls on different
+ * foreign keys are merged.
+ *
+ * IMPORTANT: Must run before the delete executes, in the same transaction when possible.
+ *
+ * @param prismaClient - Client of the operation
+ * @param modelName - Model of the deleted rows
+ * @param deleted - Rows about to be deleted
+ * @returns Effects in discovery order, excluding the deleted rows themselves
+ */
+export const preFetchCascadeEffects = async (
+  prismaClient: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+  modelName: string,
+  deleted: ReadonlyArray<Record<string, unknown>>,
+  deps: CascadePreFetchDependencies,
+): Promise<CascadeEffect[]> => {
+  const rowKey = (model: string, row: Record<string, unknown>): string =>
+    `${model}:${extractPrimaryKey(row, deps.getPrimaryKeyFields(model))}`;
+
+  const effects = new Map<string, CascadeEffect>();
+  const removed = new Set(deleted.map((row) => rowKey(modelName, row)));
+
+  const collect = (relation: ReferencingRelation, rows: Record<string, unknown>[]): Record<string, unknown>[] => {
+    const cascaded: Record<string, unknown>[] = [];
+    for (const row of rows) {
+      const key = rowKey(relation.model, row);
+      if (removed.has(key)) {
+        continue;
+      }
+      if (relation.onDelete === 'Cascade') {
+        removed.add(key);
+        effects.set(key, { modelName: relation.model, action: 'delete', before: row, after: null });
+        cascaded.push(row);
+      } else {
+        const after = effects.get(key)?.after ?? row;
+        const nulled = Object.fromEntries(relation.fromFields.map((field) => [field, null]));
+        effects.set(key, { modelName: relation.model, action: 'update', before: row, after: { ...after, ...nulled } });
+      }
+    }
+    return cascaded;
+  };
+
+  let level: DeletedRows[] = [{ modelName, rows: [...deleted] }];
+  for (let depth = 1; depth <= deps.maxDepth && level.length > 0; depth++) {
+    const next: DeletedRows[] = [];
+    for (const parent of level) {
+      for (const relation of findReferencingRelations(deps.schema, parent.modelName)) {
+        if (!deps.shouldFollow(relation.model)) {
+          continue;
+        }
+        const cascaded = collect(relation, await findReferencingRows(prismaClient, relation, parent.rows));
+        if (cascaded.length > 0) {
+          next.push({ modelName: relation.model, rows: cascaded });
+        }
+      }
+    }
+    preFetchLog('cascade: depth=%d effects=%d', depth, effects.size);
+    level = next;
+  }
+
+  return [...effects.values()];
+};
+
+/**
+ * Group effects by model and action, preserving discovery order
+ */
+export const groupCascadeEffects = (
+  effects: ReadonlyArray<CascadeEffect>,
+): Array<{ modelName: string; action: CascadeEffect['action']; effects: CascadeEffect[] }> => {
+  const groups = new Map<string, { modelName: string; action: CascadeEffect['action']; effects: CascadeEffect[] }>();
+  for (const effect of effects) {
+    const key = `${effect.modelName}:${effect.action}`;
+    const group = groups.get(key) ?? { modelName: effect.modelName, action: effect.action, effects: [] };
+    group.effects.push(effect);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+};
@@ -30,13 +30,17 @@ import {
   PRE_FETCH_DEFAULT_KEY,
   storePreFetchResult,
 } from './pre-fetch-result-store.js';
+import { captureRelationMemberships, isMembershipOperation, type RelationMemberships } from './relation-membership.js';
 
 export type NestedOperation = NestedOperationInfo;
 
 export const PRE_FETCH_INTERNAL_RESULTS = Symbol('PRE_FETCH_INTERNAL_RESULTS');
 
+export const PRE_FETCH_RELATION_MEMBERSHIPS = Symbol('PRE_FETCH_RELATION_MEMBERSHIPS');
+
 export interface PreFetchResultsWithInternal extends PreFetchResults {
   [PRE_FETCH_INTERNAL_RESULTS]?: NestedPreFetchResults;
+  [PRE_FETCH_RELATION_MEMBERSHIPS]?: RelationMemberships;
 }
 
 /**
@@ -185,6 +189,18 @@ export const categorizeRelationType = (
   return { isOneToOne, isOwningSide };
 };
 
+/**
+ * Attach captured relation memberships to the pre-fetch results
+ *
+ * @internal
+ */
+const withRelationMemberships = (results: PreFetchResults, memberships: RelationMemberships): PreFetchResults => {
+  if (memberships.size > 0) {
+    (results as PreFetchResultsWithInternal)[PRE_FETCH_RELATION_MEMBERSHIPS] = memberships;
+  }
+  return results;
+};
+
 /**
  * Pre-fetches nested records before operation execution
  *
@@ -231,8 +247,11 @@ export const preFetchNestedRecordsBeforeOperation = async (
     operationsToPreFetch.map((op) => ({ operation: op.operation, fieldName: op.fieldName })),
   );
 
+  // Relations written inside nested updates are found in the args, not among the detected operations
+  const relationMemberships = await captureRelationMemberships(prismaClient, Prisma, modelName, args);
+
   if (operationsToPreFetch.length === 0) {
-    return createEmptyPreFetchResults();
+    return withRelationMemberships(createEmptyPreFetchResults(), relationMemberships);
   }
 
   const sortedOperations = sortByPathDepth(operationsToPreFetch);
@@ -246,7 +265,7 @@ export const preFetchNestedRecordsBeforeOperation = async (
 
   if (!dmmf?.datamodel?.models) {
     preFetchLog('DMMF metadata not available, skipping pre-fetch');
-    return createEmptyPreFetchResults();
+    return withRelationMemberships(createEmptyPreFetchResults(), relationMemberships);
   }
 
   const topLevelModel = dmmf.datamodel.models.find((m) => m.name === modelName);
@@ -263,7 +282,7 @@ export const preFetchNestedRecordsBeforeOperation = async (
     }
   };
 
-  for (const nestedOp of sortedOperations) {
+  for (const nestedOp of sortedOperations.filter((op) => !isMembershipOperation(op.operation))) {
     try {
       const relatedModelLowerCase = nestedOp.relatedModel.charAt(0).toLowerCase() + nestedOp.relatedModel.slice(1);
       const relatedModelClient = prismaClient[relatedModelLowerCase];
@@ -328,7 +347,7 @@ export const preFetchNestedRecordsBeforeOperation = async (
   const flatResults = convertToPreFetchResults(internalResults);
   (flatResults as PreFetchResultsWithInternal)[PRE_FETCH_INTERNAL_RESULTS] = internalResults;
 
-  return flatResults;
+  return withRelationMemberships(flatResults, relationMemberships);
 };
 
 const handleOneToOneRelation = async (
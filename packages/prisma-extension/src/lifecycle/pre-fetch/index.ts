@@ -4,6 +4,16 @@
  * @module lifecycle/pre-fetch
  */
 
+export {
+  type CascadeEffect,
+  type CascadePreFetchDependencies,
+  DEFAULT_CASCADE_MAX_DEPTH,
+  findReferencingRelations,
+  groupCascadeEffects,
+  preFetchCascadeEffects,
+  type ReferencingRelation,
+} from './cascade-effects.js';
+
 export {
   categorizeRelationType,
   type DetectNestedOperationsFn,
@@ -11,6 +21,7 @@ export {
   type GetOperationConfig,
   type NestedOperation as CoordinatorNestedOperation,
   PRE_FETCH_INTERNAL_RESULTS,
+  PRE_FETCH_RELATION_MEMBERSHIPS,
   type PreFetchCoordinatorDependencies,
   type PreFetchResultsWithInternal,
   preFetchNestedRecordsBeforeOperation,
@@ -46,3 +57,15 @@ export {
   type PreFetchResult,
   storePreFetchResult,
 } from './pre-fetch-result-store.js';
+
+export {
+  captureRelationMembership,
+  captureRelationMemberships,
+  isMembershipOperation,
+  pickRelationKey,
+  type RelationForeignKey,
+  type RelationKey,
+  type RelationMembership,
+  type RelationMemberships,
+  toRelationKeys,
+} from './relation-membership.js';
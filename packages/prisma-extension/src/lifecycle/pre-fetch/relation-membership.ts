@@ -0,0 +1,351 @@
+/**
+ * Relation Membership Pre-fetch
+ *
+ * Captures which records a relation holds before a nested `set` or `disconnect` runs, so the
+ * membership can be diffed against the state after the operation.
+ *
+ * Relations written inside a nested `update` or `upsert` are captured too: the records they
+ * belong to are read through the top-level record with one nested `select`.
+ *
+ * @module lifecycle/pre-fetch/relation-membership
+ */
+
+import { preFetchLog, safeStringify } from '@kuruwic/prisma-audit-core';
+import type {
+  PrismaClientWithDynamicAccess,
+  PrismaNamespace,
+  TransactionalPrismaClient,
+} from '../../internal-types.js';
+import { uncapitalizeFirst } from '../../utils/extension-utils.js';
+import { getPrimaryKeyFields } from '../../utils/id-generator.js';
+import { getRelationFields, type RelationFieldInfo } from '../../utils/nested-operations.js';
+
+/** Primary key values of a record, e.g. `{ id: 'tag-1' }` */
+export type RelationKey = Record<string, unknown>;
+
+/**
+ * Foreign key of a to-one relation
+ */
+export interface RelationForeignKey {
+  /** Side whose record stores the foreign key */
+  holder: 'parent' | 'related';
+  /** Foreign key fields on the holder */
+  fields: string[];
+  /** Fields of the other side the foreign key references */
+  references: string[];
+}
+
+/**
+ * Relation state captured before a nested `set` or `disconnect`
+ */
+export interface RelationMembership {
+  parentModel: string;
+  fieldName: string;
+  relatedModel: string;
+  isList: boolean;
+  /** Field on the related model pointing back at the parent */
+  inverseFieldName: string | undefined;
+  /** Primary key fields of the related model */
+  relatedKeyFields: string[];
+  /** Primary key of the parent record */
+  parentKey: RelationKey;
+  /** Related records held before the operation */
+  before: RelationKey[];
+  /** Foreign key behind a to-one relation, whose change is logged instead of `link`/`unlink` */
+  foreignKey?: RelationForeignKey;
+}
+
+/**
+ * Captured memberships keyed by relation path, with the parent key appended below the top level
+ */
+export type RelationMemberships = Map<string, RelationMembership>;
+
+/**
+ * One relation step from the top-level record towards the record whose relation is written
+ */
+export interface RelationHop {
+  fieldName: string;
+  isList: boolean;
+  /** Unique where of the nested `update`/`upsert`, narrowing a list relation */
+  where: unknown;
+}
+
+/**
+ * A `set` or `disconnect` found in the data of an operation
+ */
+export interface MembershipWrite {
+  /** Relation path from the top-level record (e.g. `'posts.tags'`) */
+  path: string;
+  /** Steps to the record whose relation is written; empty for the top-level record */
+  hops: RelationHop[];
+  parentModel: string;
+  fieldName: string;
+  relatedModel: string;
+  isList: boolean;
+}
+
+/** @internal */
+type FindDelegate = {
+  findUnique?: (args: unknown) => Promise<Record<string, unknown> | null>;
+};
+
+/** @internal */
+type UpdateBody = { where: unknown; data: Record<string, unknown> };
+
+/** @internal */
+const isRecord = (value: unknown): value is Record<string, unknown> => value !== null && typeof value === 'object';
+
+/** @internal */
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+/** @internal */
+const selectFields = (fields: readonly string[]): Record<string, true> =>
+  Object.fromEntries(fields.map((field) => [field, true]));
+
+/**
+ * Pick the primary key values of a record
+ */
+export const pickRelationKey = (record: Record<string, unknown>, keyFields: readonly string[]): RelationKey =>
+  Object.fromEntries(keyFields.map((field) => [field, record[field]]));
+
+/**
+ * Normalize a to-one or to-many relation value into related record keys
+ */
+export const toRelationKeys = (value: unknown, keyFields: readonly string[]): RelationKey[] => {
+  const records = Array.isArray(value) ? value : [value];
+  return records.filter(isRecord).map((record) => pickRelationKey(record, keyFields));
+};
+
+/**
+ * Whether a nested operation replaces or removes relation members
+ */
+export const isMembershipOperation = (operation: string): boolean => operation === 'set' || operation === 'disconnect';
+
+/**
+ * Bodies of the nested `update`/`upsert` writes of a relation, whose data may write further relations
+ *
+ * A to-one `update` takes the data directly or as `{ where, data }`; only the `update` branch of
+ * an `upsert` can hold a `set` or `disconnect`.
+ *
+ * @internal
+ */
+const toUpdateBodies = (value: Record<string, unknown>, isList: boolean): UpdateBody[] => {
+  const updates = asArray(value.update)
+    .filter(isRecord)
+    .map((update) =>
+      isList || isRecord(update.data) ? { where: update.where, data: update.data } : { where: undefined, data: update },
+    );
+  const upserts = asArray(value.upsert)
+    .filter(isRecord)
+    .map((upsert) => ({ where: upsert.where, data: upsert.update }));
+  return [...updates, ...upserts].filter((body): body is UpdateBody => isRecord(body.data));
+};
+
+/**
+ * Find every `set` and `disconnect` in the data of an operation, including those nested inside
+ * `update` and `upsert` writes of other relations
+ *
+ * @param Prisma - Prisma namespace with DMMF
+ * @param modelName - Model the data belongs to
+ * @param data - `data` (or `update`) of the operation
+ */
+export const findMembershipWrites = (
+  Prisma: PrismaNamespace,
+  modelName: string,
+  data: unknown,
+  hops: readonly RelationHop[] = [],
+  parentPath = '',
+): MembershipWrite[] => {
+  if (!isRecord(data)) {
+    return [];
+  }
+
+  const writes: MembershipWrite[] = [];
+  for (const field of getRelationFields(Prisma, modelName)) {
+    const value = data[field.name];
+    if (!isRecord(value)) {
+      continue;
+    }
+    const path = parentPath ? `${parentPath}.${field.name}` : field.name;
+    if (value.set !== undefined || (value.disconnect !== undefined && value.disconnect !== false)) {
+      writes.push({
+        path,
+        hops: [...hops],
+        parentModel: modelName,
+        fieldName: field.name,
+        relatedModel: field.relatedModel,
+        isList: field.isList,
+      });
+    }
+    for (const body of toUpdateBodies(value, field.isList)) {
+      const hop = { fieldName: field.name, isList: field.isList, where: body.where };
+      writes.push(...findMembershipWrites(Prisma, field.relatedModel, body.data, [...hops, hop], path));
+    }
+  }
+  return writes;
+};
+
+/**
+ * Find the field on the related model that points back along the same relation
+ *
+ * @internal
+ */
+const findInverseField = (
+  Prisma: PrismaNamespace,
+  parentModel: string,
+  field: RelationFieldInfo | undefined,
+  relatedModel: string,
+): RelationFieldInfo | undefined => {
+  if (!field?.relationName) {
+    return undefined;
+  }
+  return getRelationFields(Prisma, relatedModel).find(
+    (f) => f.relationName === field.relationName && !(relatedModel === parentModel && f.name === field.name),
+  );
+};
+
+/**
+ * Locate the foreign key behind a to-one relation
+ *
+ * @internal
+ */
+const findForeignKey = (
+  field: RelationFieldInfo | undefined,
+  inverseField: RelationFieldInfo | undefined,
+): RelationForeignKey | undefined => {
+  if (!field || field.isList) {
+    return undefined;
+  }
+  if (field.relationFromFields?.length) {
+    return { holder: 'parent', fields: field.relationFromFields, references: field.relationToFields ?? [] };
+  }
+  if (inverseField?.relationFromFields?.length) {
+    return {
+      holder: 'related',
+      fields: inverseField.relationFromFields,
+      references: inverseField.relationToFields ?? [],
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Select the written relation of every record reached through the hops
+ *
+ * @internal
+ */
+const buildMembershipSelect = (
+  hops: readonly RelationHop[],
+  parentKeyFields: readonly string[],
+  fieldName: string,
+  relatedKeyFields: readonly string[],
+): Record<string, unknown> =>
+  hops.reduceRight<Record<string, unknown>>(
+    (select, hop) => ({
+      [hop.fieldName]: { ...(hop.isList && isRecord(hop.where) && { where: hop.where }), select },
+    }),
+    { ...selectFields(parentKeyFields), [fieldName]: { select: selectFields(relatedKeyFields) } },
+  );
+
+/**
+ * Follow the hops from the top-level record to the records whose relation is written
+ *
+ * @internal
+ */
+const followHops = (root: Record<string, unknown>, hops: readonly RelationHop[]): Record<string, unknown>[] =>
+  hops.reduce<Record<string, unknown>[]>(
+    (records, hop) => records.flatMap((record) => asArray(record[hop.fieldName]).filter(isRecord)),
+    [root],
+  );
+
+/**
+ * Read the members of a written relation before the operation
+ *
+ * @param prismaClient - Client of the operation (same transaction context)
+ * @param Prisma - Prisma namespace with DMMF
+ * @param modelName - Top-level model name
+ * @param write - Detected `set` or `disconnect`
+ * @param where - Unique where clause of the top-level operation
+ * @returns One membership per record whose relation is written; empty when they do not exist or cannot be read
+ */
+export const captureRelationMembership = async (
+  prismaClient: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+  Prisma: PrismaNamespace,
+  modelName: string,
+  write: MembershipWrite,
+  where: unknown,
+): Promise<RelationMembership[]> => {
+  const delegate = prismaClient[uncapitalizeFirst(modelName)] as FindDelegate | undefined;
+  if (!delegate?.findUnique || !isRecord(where)) {
+    preFetchLog('membership: cannot read parent model=%s', modelName);
+    return [];
+  }
+
+  const { parentModel, fieldName, relatedModel, hops } = write;
+  const parentKeyFields = getPrimaryKeyFields(Prisma, parentModel);
+  const relatedKeyFields = getPrimaryKeyFields(Prisma, relatedModel);
+  const root = await delegate.findUnique({
+    where,
+    select: buildMembershipSelect(hops, parentKeyFields, fieldName, relatedKeyFields),
+  });
+  if (!root) {
+    return [];
+  }
+
+  const field = getRelationFields(Prisma, parentModel).find((f) => f.name === fieldName);
+  const inverseField = findInverseField(Prisma, parentModel, field, relatedModel);
+  const foreignKey = findForeignKey(field, inverseField);
+  const memberships = followHops(root, hops).map(
+    (parent): RelationMembership => ({
+      parentModel,
+      fieldName,
+      relatedModel,
+      isList: write.isList,
+      inverseFieldName: inverseField?.name,
+      relatedKeyFields,
+      parentKey: pickRelationKey(parent, parentKeyFields),
+      before: toRelationKeys(parent[fieldName], relatedKeyFields),
+      ...(foreignKey && { foreignKey }),
+    }),
+  );
+  preFetchLog('membership captured: path=%s parents=%d', write.path, memberships.length);
+
+  return memberships;
+};
+
+/**
+ * Capture the previous members of every relation written with `set` or `disconnect`
+ *
+ * A relation that cannot be read is left out, so its changes are not logged.
+ *
+ * @param args - Arguments of the top-level operation
+ * @returns Memberships keyed by relation path
+ */
+export const captureRelationMemberships = async (
+  prismaClient: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+  Prisma: PrismaNamespace,
+  modelName: string,
+  args: Record<string, unknown>,
+): Promise<RelationMemberships> => {
+  const memberships: RelationMemberships = new Map();
+  const writes = [
+    ...findMembershipWrites(Prisma, modelName, args.data),
+    ...findMembershipWrites(Prisma, modelName, args.update),
+  ];
+
+  for (const write of writes) {
+    try {
+      for (const membership of await captureRelationMembership(prismaClient, Prisma, modelName, write, args.where)) {
+        const key =
+          write.hops.length === 0 ? write.path : `${write.path}[${safeStringify(membership.parentKey) ?? ''}]`;
+        if (!memberships.has(key)) {
+          memberships.set(key, membership);
+        }
+      }
+    } catch (error) {
+      preFetchLog('membership capture failed: path=%s error=%o', write.path, error);
+    }
+  }
+
+  return memberships;
+};
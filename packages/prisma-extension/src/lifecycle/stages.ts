@@ -8,6 +8,7 @@
 import type {
   AggregateConfigService,
   AuditContext,
+  DelegationContext,
   GlobalContextEnricherConfig,
   LoggableEntity,
   PreFetchResults,
@@ -19,12 +20,15 @@ import type { ResolvedAggregateData } from '../audit-log-builder/index.js';
 import { createPrismaClientManager, type PrismaClientManager } from '../client-manager/index.js';
 import type { PrismaClientWithDynamicAccess, TransactionalPrismaClient } from '../internal-types.js';
 import type { AuditLogData, PrismaAction } from '../types.js';
+import { getPrimaryKeyFields } from '../utils/id-generator.js';
+import { hasPartialProjection } from '../utils/result-shape.js';
 import { createSchemaMetadataFromDMMF, getPrisma } from '../utils/schema-metadata.js';
 import {
   batchEnrichAggregateContextsByType,
   buildAggregateDataForEntity,
   resolveAndFilterSurvivors,
 } from './batch-aggregate-resolver.js';
+import type { CascadeEffect } from './pre-fetch/cascade-effects.js';
 import type {
   BeforeStateResult,
   EnrichedContext,
@@ -103,6 +107,16 @@ const toResultRecord = (result: unknown): Record<string, unknown> => {
   return result as Record<string, unknown>;
 };
 
+/**
+ * Attach the enriched delegation context to the AuditContext the logs are built from
+ *
+ * @internal
+ */
+export const withDelegationContext = (
+  auditContext: AuditContext,
+  delegationContext: DelegationContext | null,
+): AuditContext => (delegationContext ? { ...auditContext, _delegationContext: delegationContext } : auditContext);
+
 export interface StageDependencies {
   /**
    * Fetch before state for update/delete operations
@@ -137,6 +151,30 @@ export interface StageDependencies {
     args: Record<string, unknown>,
   ) => Promise<PreFetchResults>;
 
+  /**
+   * Pre-fetch rows removed or nulled by referential actions of a delete
+   *
+   * Returns an empty array when cascade auditing is disabled. Like the nested pre-fetch,
+   * it must run before the operation executes.
+   */
+  preFetchCascadeEffects: (
+    prismaClient: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+    modelName: string,
+    deleted: Record<string, unknown>[],
+  ) => Promise<CascadeEffect[]>;
+
+  /**
+   * Build audit logs for pre-fetched cascade effects
+   *
+   * Each affected row is logged like a batch entity of its own model, attributed to its own
+   * aggregates; models without entity configuration produce no logs.
+   */
+  buildCascadeAuditLogs: (
+    effects: ReadonlyArray<CascadeEffect>,
+    context: AuditContext,
+    prismaClient: PrismaClientWithDynamicAccess | TransactionalPrismaClient,
+  ) => Promise<AuditLogData[]>;
+
   /**
    * Get nested operation configuration with priority resolution
    *
@@ -156,6 +194,17 @@ export interface StageDependencies {
     basePrisma: unknown,
   ) => Promise<unknown>;
 
+  /**
+   * Enrich the impersonator and principal of an AuditContext with the actor enricher
+   *
+   * Returns null when the action involves no impersonation or delegation.
+   */
+  enrichDelegationContext: (
+    context: AuditContext,
+    actorConfig: GlobalContextEnricherConfig['actor'] | undefined,
+    basePrisma: unknown,
+  ) => Promise<DelegationContext | null>;
+
   /**
    * Batch enrich entity contexts for multiple entities
    *
@@ -396,6 +445,35 @@ export const createFetchBeforeStateStage = (
   };
 };
 
+/**
+ * Creates the fetch-cascade-effects lifecycle stage
+ *
+ * This stage:
+ * 1. Skips everything but `delete` operations whose before-state was fetched
+ * 2. Pre-fetches the rows that `onDelete: Cascade` deletes and `onDelete: SetNull` updates
+ * 3. Stores them as `cascadeEffects` for the build-cascade-logs stage
+ *
+ * @example
+ * ```typescript
+ * const stage = createFetchCascadeEffectsStage({ preFetchCascadeEffects });
+ * const preparedContext = await stage(await fetchBeforeStateStage(initialContext));
+ * console.log(preparedContext.cascadeEffects); // [{ modelName: 'Post', action: 'delete', ... }]
+ * ```
+ */
+export const createFetchCascadeEffectsStage = (
+  deps: Pick<StageDependencies, 'preFetchCascadeEffects'>,
+): ((context: PreparedContext) => Promise<PreparedContext>) => {
+  return async (context: PreparedContext): Promise<PreparedContext> => {
+    const { operation, clientToUse, beforeState } = context;
+    if (operation.action !== AUDIT_ACTION.DELETE || !beforeState) {
+      return context;
+    }
+
+    const cascadeEffects = await deps.preFetchCascadeEffects(clientToUse, getModelName(operation.model), [beforeState]);
+    return { ...context, cascadeEffects };
+  };
+};
+
 /**
  * Creates the execute-operation lifecycle stage
  *
@@ -422,6 +500,73 @@ export const createExecuteOperationStage = (): ((context: PreparedContext) => Pr
   };
 };
 
+/** @internal */
+const AFTER_STATE_ACTIONS: ReadonlySet<string> = new Set([
+  AUDIT_ACTION.CREATE,
+  AUDIT_ACTION.UPDATE,
+  AUDIT_ACTION.UPSERT,
+]);
+
+/**
+ * Primary key fields of a model, falling back to `['id']` when the DMMF is unavailable
+ *
+ * @internal
+ */
+const resolvePrimaryKeyFields = (basePrisma: PrismaClientWithDynamicAccess, modelName: string): string[] => {
+  try {
+    return getPrimaryKeyFields(getPrisma(basePrisma), modelName);
+  } catch {
+    return ['id'];
+  }
+};
+
+/**
+ * Creates the fetch-after-state lifecycle stage
+ *
+ * This stage:
+ * 1. Skips operations whose args have no `select`/`omit` (the result is already complete)
+ * 2. Re-reads the written record by primary key, with all scalar fields
+ * 3. Stores it as `afterState`, keeping relations from the result; `result` is left as the caller asked
+ *
+ * @example
+ * ```typescript
+ * const stage = createFetchAfterStateStage({ basePrisma });
+ * const executedContext = await stage(await executeStage(preparedContext));
+ * console.log(executedContext.afterState); // { id: 'user-1', email: '...', name: '...' }
+ * ```
+ */
+export const createFetchAfterStateStage = (
+  deps: Pick<StageDependencies, 'basePrisma'>,
+): ((context: ExecutedContext) => Promise<ExecutedContext>) => {
+  return async (context: ExecutedContext): Promise<ExecutedContext> => {
+    const { operation, result, clientToUse } = context;
+    if (
+      !AFTER_STATE_ACTIONS.has(operation.action as string) ||
+      !hasPartialProjection(operation.args) ||
+      typeof result !== 'object' ||
+      result === null
+    ) {
+      return context;
+    }
+
+    const modelName = getModelName(operation.model);
+    const pkFields = resolvePrimaryKeyFields(deps.basePrisma, modelName);
+    const record = result as Record<string, unknown>;
+    if (!pkFields.every((field) => record[field] != null)) {
+      return context;
+    }
+
+    // findFirst accepts composite keys as plain fields
+    const delegate = clientToUse[modelName] as {
+      findFirst?: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown> | null>;
+    };
+    const where = Object.fromEntries(pkFields.map((field) => [field, record[field]]));
+    const fullState = await delegate?.findFirst?.({ where });
+
+    return fullState ? { ...context, afterState: { ...record, ...fullState } } : context;
+  };
+};
+
 /**
  * Creates the enrich-contexts lifecycle stage
  *
@@ -450,14 +595,24 @@ export const createExecuteOperationStage = (): ((context: PreparedContext) => Pr
 export const createEnrichContextsStage = (
   deps: Pick<
     StageDependencies,
-    'enrichActorContext' | 'batchEnrichEntityContexts' | 'aggregateConfig' | 'contextEnricher'
+    | 'enrichActorContext'
+    | 'enrichDelegationContext'
+    | 'batchEnrichEntityContexts'
+    | 'aggregateConfig'
+    | 'contextEnricher'
   >,
 ): ((context: ExecutedContext) => Promise<EnrichedContext>) => {
   return async (context: ExecutedContext): Promise<EnrichedContext> => {
-    const { operation, auditContext, result, clientToUse } = context;
+    const { operation, auditContext, clientToUse } = context;
+    const result = context.afterState ?? context.result;
     const modelName = getModelName(operation.model);
 
     const actorContext = await deps.enrichActorContext(auditContext, deps.contextEnricher?.actor, clientToUse);
+    const delegationContext = await deps.enrichDelegationContext(
+      auditContext,
+      deps.contextEnricher?.actor,
+      clientToUse,
+    );
 
     const entityConfig = deps.aggregateConfig.getEntityConfig(modelName);
 
@@ -482,6 +637,7 @@ export const createEnrichContextsStage = (
 
     return {
       ...context,
+      auditContext: withDelegationContext(auditContext, delegationContext),
       actorContext,
       entityContext,
     };
@@ -506,7 +662,7 @@ const buildMainAuditLogs = async (
 ): Promise<AuditLogData[]> => {
   const manager = createPrismaClientManager(deps.basePrisma, context.auditContext);
   const modelName = getModelName(context.operation.model);
-  const entity = toResultRecord(context.result);
+  const entity = toResultRecord(context.afterState ?? context.result);
 
   const entityConfig = deps.aggregateConfig.getEntityConfig(modelName);
   if (!entityConfig) {
@@ -623,3 +779,32 @@ export const createBuildLogsStage = (
     };
   };
 };
+
+/**
+ * Creates the build-cascade-logs lifecycle stage
+ *
+ * Appends logs for the rows in `cascadeEffects` after the operation's own logs.
+ *
+ * @example
+ * ```typescript
+ * const stage = createBuildCascadeLogsStage({ buildCascadeAuditLogs });
+ * const finalContext = await stage(await buildLogsStage(enrichedContext));
+ * console.log(finalContext.logs.map((log) => log.entityType)); // ['User', 'Post', 'Comment']
+ * ```
+ */
+export const createBuildCascadeLogsStage = (
+  deps: Pick<StageDependencies, 'buildCascadeAuditLogs'>,
+): ((context: FinalContext) => Promise<FinalContext>) => {
+  return async (context: FinalContext): Promise<FinalContext> => {
+    if (!context.cascadeEffects || context.cascadeEffects.length === 0) {
+      return context;
+    }
+
+    const cascadeLogs = await deps.buildCascadeAuditLogs(
+      context.cascadeEffects,
+      context.auditContext,
+      context.clientToUse,
+    );
+    return { ...context, logs: [...context.logs, ...cascadeLogs] };
+  };
+};
@@ -5,12 +5,18 @@
  * transaction calls to ensure audit logs are written atomically within transactions.
  *
  * Features: Interactive transaction support, deferred write management, rollback safety,
- * sequential transaction pass-through.
+ * sequential (array) transactions replayed as interactive transactions.
  *
  * @module lifecycle/transaction-proxy
  */
 
-import { type AuditContext, type AuditContextProvider, flushPendingWrites } from '@kuruwic/prisma-audit-core';
+import {
+  type AuditContext,
+  type AuditContextProvider,
+  coreLog,
+  flushPendingWrites,
+  generateTraceId,
+} from '@kuruwic/prisma-audit-core';
 
 // Re-export flushPendingWrites for internal use - deferred writes are tracked via this module
 export { flushPendingWrites };
@@ -52,6 +58,71 @@ import type { TransactionalPrismaClient } from '../internal-types.js';
 
 type OriginalTransactionMethod = (...args: unknown[]) => Promise<unknown>;
 
+/**
+ * Prisma call recorded when its (lazy) promise is created through the proxy
+ */
+export type RecordedOperation = {
+  /** Model delegate property (e.g. `user`), or undefined for client-level raw methods */
+  model: string | undefined;
+  method: string;
+  args: unknown[];
+};
+
+/** Options of an interactive `$transaction`, forwarded when an array transaction is replayed */
+const INTERACTIVE_TRANSACTION_OPTIONS = ['timeout', 'maxWait', 'isolationLevel'] as const;
+
+/** Client-level methods that can be batched in an array `$transaction` */
+const RAW_METHODS: ReadonlySet<string> = new Set(['$executeRaw', '$executeRawUnsafe', '$queryRaw', '$queryRawUnsafe']);
+
+/**
+ * Registry of Prisma promises created through the proxy, used to replay array transactions
+ */
+const recordedOperations = new WeakMap<object, RecordedOperation>();
+
+/**
+ * Associates a Prisma promise with the call that created it
+ */
+export const recordOperation = <T>(promise: T, operation: RecordedOperation): T => {
+  if (promise !== null && typeof promise === 'object') {
+    recordedOperations.set(promise, operation);
+  }
+  return promise;
+};
+
+/**
+ * Looks up the calls behind the promises of an array transaction
+ *
+ * @returns Recorded operations in order, or undefined if any promise was not created through the proxy
+ */
+export const resolveRecordedOperations = (promises: readonly unknown[]): RecordedOperation[] | undefined => {
+  const operations: RecordedOperation[] = [];
+  for (const promise of promises) {
+    const operation = promise !== null && typeof promise === 'object' ? recordedOperations.get(promise) : undefined;
+    if (!operation) {
+      return undefined;
+    }
+    operations.push(operation);
+  }
+  return operations;
+};
+
+/**
+ * Re-issues a recorded call on the transactional client
+ */
+const replayOperation = (txClient: TransactionalPrismaClient, operation: RecordedOperation): Promise<unknown> => {
+  const owner = (operation.model ? txClient[operation.model] : txClient) as Record<
+    string,
+    (...args: unknown[]) => Promise<unknown>
+  >;
+  const method = owner?.[operation.method];
+  if (typeof method !== 'function') {
+    throw new Error(
+      `[@prisma-audit] Cannot replay ${operation.model ?? 'client'}.${operation.method} in a transaction`,
+    );
+  }
+  return method.apply(owner, operation.args);
+};
+
 /** Transaction proxy handler dependencies */
 export type TransactionProxyDependencies = {
   provider: AuditContextProvider;
@@ -62,8 +133,8 @@ export type TransactionProxyDependencies = {
 /**
  * Creates a wrapped transaction callback that injects transactional client into audit context
  *
- * Wraps user callback to create transaction-aware context, execute callback, execute deferred
- * writes after commit, and clear deferred writes on rollback.
+ * Wraps user callback to create transaction-aware context (including a fresh transaction ID),
+ * execute callback, execute deferred writes after commit, and clear deferred writes on rollback.
  *
  * @param callback - User's transaction callback
  * @param context - Current audit context
@@ -80,6 +151,7 @@ export const createWrappedTransactionCallback = (
       ...context,
       transactionalClient: txClient,
       _deferredWrites: [] as Array<() => Promise<void>>,
+      _transactionId: generateTraceId(),
     } as AuditContext & { _deferredWrites: Array<() => Promise<void>> };
 
     try {
@@ -101,11 +173,60 @@ export const createWrappedTransactionCallback = (
   };
 };
 
+/**
+ * Creates a transaction callback that replays the operations of an array transaction in order
+ *
+ * Runs through {@link createWrappedTransactionCallback}, so the operations and their audit logs
+ * share the transaction (and its transaction ID) exactly as in an interactive transaction.
+ *
+ * @param operations - Recorded operations of the array, in order
+ * @param context - Current audit context
+ * @param provider - Audit context provider
+ * @returns Wrapped callback resolving to the results array
+ */
+export const createSequentialTransactionCallback = (
+  operations: readonly RecordedOperation[],
+  context: AuditContext,
+  provider: AuditContextProvider,
+): ((txClient: TransactionalPrismaClient) => Promise<unknown>) => {
+  return createWrappedTransactionCallback(
+    async (txClient) => {
+      const results: unknown[] = [];
+      for (const operation of operations) {
+        results.push(await replayOperation(txClient, operation));
+      }
+      return results;
+    },
+    context,
+    provider,
+  );
+};
+
+/**
+ * Pick the options an interactive transaction accepts from the options of an array transaction
+ *
+ * @returns The `timeout`, `maxWait` and `isolationLevel` that were set, or undefined when none was
+ */
+export const toInteractiveTransactionOptions = (options: unknown): Record<string, unknown> | undefined => {
+  if (typeof options !== 'object' || options === null) {
+    return undefined;
+  }
+  const picked = Object.fromEntries(
+    INTERACTIVE_TRANSACTION_OPTIONS.filter((key) => (options as Record<string, unknown>)[key] !== undefined).map(
+      (key) => [key, (options as Record<string, unknown>)[key]],
+    ),
+  );
+  return Object.keys(picked).length > 0 ? picked : undefined;
+};
+
 /**
  * Creates a transaction proxy handler that intercepts $transaction calls
  *
- * Wraps Prisma's `$transaction` to inject transactional client into audit context for
- * interactive transactions. Sequential transactions (array-style) pass through unchanged.
+ * Wraps Prisma's `$transaction` to inject transactional client into audit context. Interactive
+ * transactions are wrapped directly; sequential transactions (array-style) are replayed as an
+ * interactive transaction when every promise was created through the proxy, and pass through
+ * unchanged otherwise. A replayed batch is subject to the `timeout` and `maxWait` of interactive
+ * transactions, so those are forwarded together with `isolationLevel`.
  *
  * @param deps - Dependencies for transaction proxy
  * @returns Async function handling $transaction calls
@@ -134,15 +255,61 @@ export const createTransactionProxyHandler = (
       return originalTransaction.apply(target, [wrappedCallback]);
     }
 
+    const operations = Array.isArray(args[0]) ? resolveRecordedOperations(args[0]) : undefined;
+    if (operations) {
+      const options = toInteractiveTransactionOptions(args[1]);
+      coreLog('replaying array transaction as interactive: operations=%d options=%o', operations.length, options);
+      const sequentialCallback = createSequentialTransactionCallback(operations, context, provider);
+
+      if (options) {
+        return originalTransaction.apply(target, [sequentialCallback, options]);
+      }
+      return originalTransaction.apply(target, [sequentialCallback]);
+    }
+
     return originalTransaction.apply(target, args);
   };
 };
 
+/**
+ * Wraps a model delegate so the promises its methods return are recorded for array transactions
+ *
+ * @internal
+ */
+const createRecordingDelegate = (model: string, delegate: object): object => {
+  return new Proxy(delegate, {
+    get(target: object, method: string | symbol): unknown {
+      const value = (target as Record<string | symbol, unknown>)[method];
+      if (typeof method !== 'string' || typeof value !== 'function') {
+        return value;
+      }
+      return (...args: unknown[]) => recordOperation(value.apply(target, args), { model, method, args });
+    },
+  });
+};
+
+/**
+ * Whether a client property is a model delegate
+ *
+ * @internal
+ */
+const isModelDelegate = (prop: string | symbol, value: unknown): prop is string => {
+  return (
+    typeof prop === 'string' &&
+    !prop.startsWith('$') &&
+    !prop.startsWith('_') &&
+    typeof value === 'object' &&
+    value !== null
+  );
+};
+
 /**
  * Creates a Proxy wrapping Prisma client to intercept $transaction calls
  *
  * Injects audit logging capabilities into transactions by intercepting `$transaction`
- * calls and wrapping them with transaction context management.
+ * calls and wrapping them with transaction context management. Model delegates and raw
+ * methods record the calls behind the promises they return, so array transactions can be
+ * replayed inside an interactive transaction.
  *
  * @param extendedClient - Prisma client with audit extension
  * @param provider - Audit context provider
@@ -152,6 +319,8 @@ export const createTransactionProxy = <TClient extends object>(
   extendedClient: TClient,
   provider: AuditContextProvider,
 ): TClient => {
+  const recordingDelegates = new Map<string, { delegate: object; proxy: object }>();
+
   return new Proxy(
     extendedClient as object,
     {
@@ -169,6 +338,22 @@ export const createTransactionProxy = <TClient extends object>(
 
         const targetWithProp = target as Record<string | symbol, unknown>;
         const value = targetWithProp[prop];
+
+        if (typeof prop === 'string' && RAW_METHODS.has(prop) && typeof value === 'function') {
+          return (...args: unknown[]) =>
+            recordOperation(value.apply(target, args), { model: undefined, method: prop, args });
+        }
+
+        if (isModelDelegate(prop, value)) {
+          const cached = recordingDelegates.get(prop);
+          if (cached && cached.delegate === value) {
+            return cached.proxy;
+          }
+          const proxy = createRecordingDelegate(prop, value as object);
+          recordingDelegates.set(prop, { delegate: value as object, proxy });
+          return proxy;
+        }
+
         return typeof value === 'function' ? (value as CallableFunction).bind(target) : value;
       },
     } as ProxyHandler<object>,
@@ -12,6 +12,7 @@
 import type { AuditContext, PreFetchResults } from '@kuruwic/prisma-audit-core';
 import type { PrismaClientWithDynamicAccess, TransactionalPrismaClient } from '../internal-types.js';
 import type { AuditLogData, OperationContext } from '../types.js';
+import type { CascadeEffect } from './pre-fetch/cascade-effects.js';
 
 /**
  * Result of fetching before-state for an entity.
@@ -53,6 +54,8 @@ export interface PreparedContext extends InitialContext {
   beforeState: Record<string, unknown> | null;
   /** Pre-fetched nested operation states (path → record | null) */
   nestedPreFetchResults: PreFetchResults | undefined;
+  /** Rows a delete removes or nulls through referential actions (set when cascade auditing is enabled) */
+  cascadeEffects?: ReadonlyArray<CascadeEffect>;
 }
 
 /**
@@ -63,6 +66,11 @@ export interface PreparedContext extends InitialContext {
 export interface ExecutedContext extends PreparedContext {
   /** Result of executed Prisma operation */
   result: unknown;
+  /**
+   * Full after-state, set when `select`/`omit` made the result partial.
+   * Used instead of `result` for the entity's own log and context enrichment.
+   */
+  afterState?: Record<string, unknown>;
 }
 
 /**
@@ -98,7 +106,8 @@ export interface FinalContext extends EnrichedContext {
 /**
  * Initial context for batch operations
  *
- * Created when a batch operation (createMany, updateMany, deleteMany) is intercepted.
+ * Created when a batch operation (createMany, updateMany, deleteMany and their `AndReturn`
+ * variants) is intercepted.
  * Contains minimal information to begin batch audit logging.
  */
 export interface BatchInitialContext {
@@ -110,9 +119,9 @@ export interface BatchInitialContext {
   clientToUse: PrismaClientWithDynamicAccess | TransactionalPrismaClient;
   /** Query function to execute batch operation */
   query: (args: unknown) => Promise<unknown>;
-  /** Entities to process (with IDs for createMany, fetched for updateMany/deleteMany) */
+  /** Entities to process (with IDs for createMany, fetched for updateMany/deleteMany, returned rows for `AndReturn`) */
   entities: ReadonlyArray<Record<string, unknown>>;
-  /** Before states for each entity (updateMany/deleteMany only) */
+  /** Before states for each entity (updateMany/updateManyAndReturn/deleteMany only) */
   beforeStates?: ReadonlyArray<Record<string, unknown> | null>;
 }
 
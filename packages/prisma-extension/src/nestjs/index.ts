@@ -0,0 +1,205 @@
+/**
+ * NestJS Integration
+ *
+ * `PrismaAuditModule.forRoot()` provides the audited client through dependency injection and
+ * registers a global interceptor that runs every handler with an audit context built from the
+ * execution context (HTTP, GraphQL and microservice transports). NestJS is not a dependency:
+ * the module and interceptor only rely on the shape of NestJS' types.
+ *
+ * @module nestjs
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [
+ *     PrismaAuditModule.forRoot({
+ *       prisma: basePrisma,
+ *       audit: { provider: auditProvider, basePrisma, aggregateMapping },
+ *       interceptor: {
+ *         actor: fromJwtClaim({ verify: verifyAccessToken }),
+ *         rpcActor: (context) => actorFromMessage(context.getArgs()[0]),
+ *       },
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ *
+ * @Injectable()
+ * export class PostsService {
+ *   constructor(@Inject(PRISMA_AUDIT_CLIENT) private readonly prisma: PrismaClientWithAudit<PrismaClient>) {}
+ * }
+ * ```
+ */
+
+import type { AuditContext, AuditHttpRequest, NodeRequestLike } from '@kuruwic/prisma-audit-core';
+import { createAuditContextResolver, toAuditHttpRequest } from '@kuruwic/prisma-audit-core';
+import { createAuditClient, type PrismaClientLike } from '../client-factory.js';
+import type {
+  NestExecutionContextLike,
+  NestProviderLike,
+  PrismaAuditInterceptor,
+  PrismaAuditInterceptorOptions,
+  PrismaAuditModuleOptions,
+} from './types.js';
+
+export type {
+  NestCallHandlerLike,
+  NestExecutionContextLike,
+  NestProviderLike,
+  PrismaAuditInterceptor,
+  PrismaAuditInterceptorOptions,
+  PrismaAuditModuleOptions,
+} from './types.js';
+
+/** Injection token of the audited Prisma client */
+export const PRISMA_AUDIT_CLIENT = 'PRISMA_AUDIT_CLIENT';
+
+/** Injection token of the audit context provider */
+export const PRISMA_AUDIT_PROVIDER = 'PRISMA_AUDIT_PROVIDER';
+
+/** Value of `APP_INTERCEPTOR` from `@nestjs/core` */
+const NEST_APP_INTERCEPTOR = 'APP_INTERCEPTOR';
+
+/** Fetch API request, as passed to GraphQL Yoga contexts */
+interface FetchRequestLike {
+  method: string;
+  url: string;
+  headers: { get: (name: string) => string | null };
+}
+
+/** Subset of GraphQL's `GraphQLResolveInfo` */
+interface GraphqlInfoLike {
+  fieldName?: string;
+  operation?: { operation?: string; name?: { value?: string } };
+}
+
+/** @internal */
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/** @internal */
+const toFetchAuditRequest = (request: FetchRequestLike): AuditHttpRequest => ({
+  method: request.method,
+  path: new URL(request.url, 'http://localhost').pathname,
+  header: (name) => request.headers.get(name) ?? undefined,
+  raw: request,
+});
+
+/** @internal */
+const toHttpRequest = (request: unknown): AuditHttpRequest | undefined => {
+  if (!isObject(request) || !isObject(request.headers)) {
+    return undefined;
+  }
+  return typeof request.headers.get === 'function'
+    ? toFetchAuditRequest(request as unknown as FetchRequestLike)
+    : toAuditHttpRequest(request as unknown as NodeRequestLike);
+};
+
+/**
+ * Find the HTTP request behind an execution, if any
+ *
+ * GraphQL contexts carry it as `req` (Apollo with Express or Fastify) or `request` (Yoga).
+ */
+const httpRequestOf = (context: NestExecutionContextLike): AuditHttpRequest | undefined => {
+  switch (context.getType()) {
+    case 'http':
+      return toHttpRequest(context.switchToHttp().getRequest());
+    case 'graphql': {
+      const graphqlContext = context.getArgs()[2];
+      return isObject(graphqlContext) ? toHttpRequest(graphqlContext.req ?? graphqlContext.request) : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+/** @internal */
+const executionMetadata = (context: NestExecutionContextLike): Record<string, unknown> => {
+  const transport = context.getType();
+  const metadata = { transport, handler: `${context.getClass().name}.${context.getHandler().name}` };
+  if (transport !== 'graphql') {
+    return metadata;
+  }
+
+  const info = context.getArgs()[3] as GraphqlInfoLike | undefined;
+  const graphql = {
+    operationType: info?.operation?.operation,
+    operationName: info?.operation?.name?.value,
+    fieldName: info?.fieldName,
+  };
+  return { ...metadata, graphql: Object.fromEntries(Object.entries(graphql).filter(([, value]) => value)) };
+};
+
+/**
+ * Create the interceptor that runs each handler with an audit context
+ *
+ * The request metadata of HTTP and GraphQL executions is collected as by the HTTP middleware;
+ * every execution also stores `transport` and `handler` (`'PostsController.create'`), and
+ * GraphQL executions their operation under `graphql`.
+ *
+ * @remarks
+ * Relies on NestJS binding the async context when `next.handle()` is called (NestJS 9+), so the
+ * handler and later interceptors run inside the context.
+ */
+export const createPrismaAuditInterceptor = (options: PrismaAuditInterceptorOptions): PrismaAuditInterceptor => {
+  const resolveHttpContext = createAuditContextResolver(options);
+  const { rpcActor } = options;
+  const resolveRpcContext = createAuditContextResolver({
+    ...options,
+    actor: rpcActor && ((request) => rpcActor(request.raw as NestExecutionContextLike)),
+    request: false,
+  });
+
+  const resolveContext = async (context: NestExecutionContextLike): Promise<AuditContext | undefined> => {
+    const httpRequest = httpRequestOf(context);
+    const auditContext = httpRequest
+      ? await resolveHttpContext(httpRequest)
+      : await resolveRpcContext({
+          method: context.getType().toUpperCase(),
+          path: `${context.getClass().name}.${context.getHandler().name}`,
+          header: () => undefined,
+          raw: context,
+        });
+    if (!auditContext || options.request === false) {
+      return auditContext;
+    }
+    return { ...auditContext, request: { ...auditContext.request, ...executionMetadata(context) } };
+  };
+
+  return {
+    intercept: async (context, next) => {
+      const auditContext = await resolveContext(context);
+      return auditContext ? options.provider.run(auditContext, () => next.handle()) : next.handle();
+    },
+  };
+};
+
+/**
+ * Global NestJS module providing the audited Prisma client
+ *
+ * Exports `PRISMA_AUDIT_CLIENT` and `PRISMA_AUDIT_PROVIDER`, and registers the interceptor of
+ * `createPrismaAuditInterceptor` as `APP_INTERCEPTOR` unless `interceptor` is `false`.
+ */
+// biome-ignore lint/complexity/noStaticOnlyClass: NestJS modules are classes configured through static factories
+export class PrismaAuditModule {
+  static forRoot<T extends PrismaClientLike>(options: PrismaAuditModuleOptions<T>) {
+    const { provider } = options.audit;
+    const providers: NestProviderLike[] = [
+      { provide: PRISMA_AUDIT_CLIENT, useFactory: () => createAuditClient(options.prisma, options.audit) },
+      { provide: PRISMA_AUDIT_PROVIDER, useValue: provider },
+    ];
+    if (options.interceptor !== false) {
+      const interceptorOptions = { ...options.interceptor, provider };
+      providers.push({
+        provide: NEST_APP_INTERCEPTOR,
+        useFactory: () => createPrismaAuditInterceptor(interceptorOptions),
+      });
+    }
+
+    return {
+      module: PrismaAuditModule,
+      global: true,
+      providers,
+      exports: [PRISMA_AUDIT_CLIENT, PRISMA_AUDIT_PROVIDER],
+    };
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * NestJS Integration Type Definitions
+ *
+ * Structural subsets of the NestJS types the module relies on, so NestJS is not a dependency.
+ *
+ * @module nestjs/types
+ */
+
+import type { AuditActor, AuditMiddlewareOptions } from '@kuruwic/prisma-audit-core';
+import type { PrismaClientLike } from '../client-factory.js';
+import type { PrismaAuditExtensionOptions } from '../types.js';
+
+/**
+ * Subset of NestJS' `ExecutionContext` used by the interceptor
+ */
+export interface NestExecutionContextLike {
+  /** `'http'`, `'graphql'`, `'rpc'` or `'ws'` */
+  getType: () => string;
+  getClass: () => { name: string };
+  getHandler: () => { name: string };
+  /** Handler arguments; `[root, args, context, info]` for GraphQL resolvers */
+  getArgs: () => unknown[];
+  switchToHttp: () => { getRequest: () => unknown };
+}
+
+/**
+ * Subset of NestJS' `CallHandler`
+ */
+export interface NestCallHandlerLike<T = unknown> {
+  handle: () => T;
+}
+
+/**
+ * Interceptor registered as `APP_INTERCEPTOR`
+ */
+export interface PrismaAuditInterceptor {
+  intercept: <T>(context: NestExecutionContextLike, next: NestCallHandlerLike<T>) => Promise<T>;
+}
+
+/**
+ * Options of `createPrismaAuditInterceptor`
+ *
+ * `actor` extractors run for HTTP requests and GraphQL operations. Executions without an HTTP
+ * request (microservice messages, WebSocket events) use `rpcActor`; an `anonymousActor`
+ * function then receives the execution context as `request.raw`.
+ */
+export interface PrismaAuditInterceptorOptions extends AuditMiddlewareOptions {
+  /** Derive the actor of executions without an HTTP request */
+  rpcActor?: (context: NestExecutionContextLike) => AuditActor | undefined | Promise<AuditActor | undefined>;
+}
+
+/**
+ * Options of `PrismaAuditModule.forRoot`
+ */
+export interface PrismaAuditModuleOptions<T extends PrismaClientLike = PrismaClientLike> {
+  /** Prisma client to extend */
+  prisma: T;
+  /** Options passed to `createAuditClient`; `audit.provider` also backs the interceptor */
+  audit: PrismaAuditExtensionOptions;
+  /** Global interceptor settings, or `false` to populate the audit context yourself */
+  interceptor?: Omit<PrismaAuditInterceptorOptions, 'provider'> | false;
+}
+
+/**
+ * Provider definitions of the dynamic module, compatible with NestJS' `Provider`
+ */
+export type NestProviderLike = { provide: string; useFactory: () => unknown } | { provide: string; useValue: unknown };
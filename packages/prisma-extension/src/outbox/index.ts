@@ -0,0 +1,345 @@
+/**
+ * Transactional Outbox
+ *
+ * Stores audit logs that would be deferred inside a transaction in an outbox model, so they
+ * commit or roll back with the transaction, and relays them to the audit log table (or a
+ * custom writer) afterwards with retry, backoff and processed markers.
+ *
+ * @module outbox
+ *
+ * @example
+ * ```typescript
+ * const relay = createOutboxRelay(basePrisma, { retry: { maxAttempts: 5 } });
+ *
+ * relay.start({ intervalMs: 1000 }); // polling loop
+ * // or from a scheduled job:
+ * const result = await relay.relay();
+ * ```
+ */
+
+import type { AuditContext, AuditLogData, OutboxWriter } from '@kuruwic/prisma-audit-core';
+import { DEFAULTS, serializeForAuditJson } from '@kuruwic/prisma-audit-core';
+import { createPrismaWriteExecutor, findMissingOptionalFields } from '../adapters/write-executor.js';
+import { createIntegrityWriteExecutor } from '../integrity/index.js';
+import type { PrismaClientWithDynamicAccess, PrismaNamespace } from '../internal-types.js';
+import { uncapitalizeFirst } from '../utils/extension-utils.js';
+import { getPrisma } from '../utils/schema-metadata.js';
+import type { OutboxRelay, OutboxRelayOptions, OutboxRelayResult } from './types.js';
+
+export type { OutboxRelay, OutboxRelayOptions, OutboxRelayResult, OutboxRetryConfig } from './types.js';
+
+/**
+ * Default Prisma model name of the outbox
+ */
+export const DEFAULT_OUTBOX_MODEL = 'AuditOutbox';
+
+/**
+ * Columns the outbox model must declare
+ */
+export const OUTBOX_COLUMNS = ['id', 'payload', 'availableAt', 'attempts', 'lastError', 'processedAt'] as const;
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_MAX_ATTEMPTS = 10;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 300_000;
+const DEFAULT_CLAIM_TIMEOUT_MS = 60_000;
+const DEFAULT_INTERVAL_MS = 1000;
+
+/** @internal */
+type OutboxDelegate = {
+  create: (args: unknown) => Promise<unknown>;
+  findMany: (args: unknown) => Promise<Record<string, unknown>[]>;
+  update: (args: unknown) => Promise<unknown>;
+  updateMany: (args: unknown) => Promise<{ count: number }>;
+};
+
+/**
+ * Outbox row as read by the relay
+ *
+ * @internal
+ */
+interface OutboxRow {
+  id: string;
+  payload: unknown;
+  availableAt: Date;
+  attempts: number;
+}
+
+/**
+ * Serialized content of an outbox row
+ *
+ * @internal
+ */
+interface OutboxPayload {
+  logs: Array<Record<string, unknown>>;
+  context: Pick<AuditContext, 'actor' | 'request'>;
+  /** Set when the enqueuing client has `hooks.writer`, which only a relay writer can apply */
+  requiresWriter?: true;
+}
+
+/**
+ * Find outbox columns missing from the outbox model
+ *
+ * @param models - DMMF models, or undefined when the DMMF is unavailable
+ * @param outboxModelName - Outbox model name (either case of the first letter)
+ * @returns Missing columns; every column when the model is not declared, none when the DMMF is unavailable
+ */
+export const findMissingOutboxColumns = (
+  models: ReadonlyArray<{ name: string; fields: ReadonlyArray<{ name: string }> }> | undefined,
+  outboxModelName: string,
+): string[] => {
+  if (!models) {
+    return [];
+  }
+  const target = outboxModelName.toLowerCase();
+  const model = models.find((m) => m.name.toLowerCase() === target);
+  const declared = new Set(model?.fields.map((field) => field.name));
+  return OUTBOX_COLUMNS.filter((column) => !declared.has(column));
+};
+
+/** @internal */
+const getOutboxDelegate = (client: unknown, outboxModelName: string): OutboxDelegate => {
+  const delegate = (client as Record<string, Partial<OutboxDelegate> | undefined>)[uncapitalizeFirst(outboxModelName)];
+  if (!delegate || typeof delegate.create !== 'function') {
+    throw new Error(`[@prisma-audit] Outbox model "${outboxModelName}" not found on the Prisma client`);
+  }
+  return delegate as OutboxDelegate;
+};
+
+/**
+ * Create an outbox writer that stores each batch of logs as one outbox row
+ *
+ * @param outboxModelName - Outbox model name (PascalCase or camelCase)
+ * @param models - DMMF models, used to check the outbox columns
+ * @param requiresWriter - Whether the extension has `hooks.writer`; the rows then record that
+ *   a relay must deliver them through its own `writer`
+ * @throws {Error} If the outbox model does not declare every column in {@link OUTBOX_COLUMNS}
+ */
+export const createOutboxWriter = (
+  outboxModelName: string,
+  models?: ReadonlyArray<{ name: string; fields: ReadonlyArray<{ name: string }> }>,
+  requiresWriter = false,
+): OutboxWriter => {
+  const missing = findMissingOutboxColumns(models, outboxModelName);
+  if (missing.length > 0) {
+    throw new Error(
+      `[@prisma-audit] outbox.enabled requires the "${outboxModelName}" model to declare: ${missing.join(', ')}. ` +
+        'Add the model to your Prisma schema (see the "Transactional Outbox" section of the README).',
+    );
+  }
+
+  return {
+    enqueue: async (client, logs, context) => {
+      const payload: OutboxPayload = {
+        logs: logs as unknown as OutboxPayload['logs'],
+        context: { actor: context.actor, ...(context.request && { request: context.request }) },
+        ...(requiresWriter && { requiresWriter: true }),
+      };
+      await getOutboxDelegate(client, outboxModelName).create({ data: { payload: serializeForAuditJson(payload) } });
+    },
+  };
+};
+
+/**
+ * Restore logs from a stored payload (`createdAt` is stored as an ISO string)
+ *
+ * @internal
+ */
+const parsePayload = (payload: unknown): { logs: AuditLogData[]; context: AuditContext; requiresWriter: boolean } => {
+  const { logs, context, requiresWriter } = payload as OutboxPayload;
+  return {
+    logs: logs.map((log) => ({ ...log, createdAt: new Date(log.createdAt as string) }) as unknown as AuditLogData),
+    context: context as AuditContext,
+    requiresWriter: requiresWriter === true,
+  };
+};
+
+/**
+ * Exponential backoff delay before the next attempt
+ *
+ * @internal
+ */
+const backoffDelay = (attempts: number, baseDelayMs: number, maxDelayMs: number): number =>
+  Math.min(baseDelayMs * 2 ** (attempts - 1), maxDelayMs);
+
+/**
+ * Creates a relay that delivers outbox rows after their transaction committed
+ *
+ * @remarks
+ * Each row is claimed by pushing its `availableAt` forward by `claimTimeoutMs`, so several
+ * relays can run side by side. Delivered rows keep their `processedAt` marker and are never
+ * delivered again; purge them with your own job. Failed rows are rescheduled with
+ * exponential backoff and stay in the outbox after `maxAttempts` for inspection.
+ *
+ * Hash chain writes share their locks with every other executor in the process, so a relay
+ * running next to the extension does not race it for chain heads. Rows enqueued by a client
+ * with `hooks.writer` fail delivery unless the relay has a `writer`, instead of bypassing it.
+ *
+ * @param basePrisma - Base (non-extended) Prisma client that exposes the outbox and audit log models
+ * @param options - Models, destination, batch size and retry policy
+ * @returns Outbox relay
+ * @throws Error if the outbox model is missing
+ */
+export const createOutboxRelay = (basePrisma: unknown, options: OutboxRelayOptions = {}): OutboxRelay => {
+  const client = basePrisma as PrismaClientWithDynamicAccess;
+  const outboxModel = options.outboxModel ?? DEFAULT_OUTBOX_MODEL;
+  const outbox = getOutboxDelegate(client, outboxModel);
+  const auditLogModel = uncapitalizeFirst(options.auditLogModel ?? DEFAULTS.AUDIT_LOG_MODEL);
+
+  const Prisma = (options.Prisma ?? getPrisma(client)) as PrismaNamespace;
+  const models = Prisma.dmmf?.datamodel?.models;
+  const omittedFields = findMissingOptionalFields(models, auditLogModel);
+  const prismaWriteExecutor = createPrismaWriteExecutor(Prisma.DbNull, omittedFields);
+  const writeExecutor = options.integrity?.enabled
+    ? createIntegrityWriteExecutor(prismaWriteExecutor, options.integrity, models, auditLogModel, omittedFields)
+    : prismaWriteExecutor;
+
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const maxAttempts = options.retry?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.retry?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.retry?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const claimTimeoutMs = options.claimTimeoutMs ?? DEFAULT_CLAIM_TIMEOUT_MS;
+  const now = options.now ?? (() => new Date());
+
+  const reportError = async (error: Error, rowId: string | undefined): Promise<void> => {
+    if (options.onError) {
+      await options.onError(error, rowId);
+    } else {
+      console.error(`[@prisma-audit] Outbox relay failed${rowId ? ` for row ${rowId}` : ''}:`, error.message);
+    }
+  };
+
+  /**
+   * Take ownership of a row unless another relay claimed it since it was read
+   */
+  const claim = async (row: OutboxRow): Promise<boolean> => {
+    const { count } = await outbox.updateMany({
+      where: { id: row.id, processedAt: null, availableAt: row.availableAt },
+      data: { availableAt: new Date(now().getTime() + claimTimeoutMs) },
+    });
+    return count === 1;
+  };
+
+  /**
+   * Deliver a row: with the default destination, the write and the processed marker share
+   * a transaction; a custom writer is marked after it resolves
+   */
+  const deliver = async (row: OutboxRow): Promise<void> => {
+    const { logs, context, requiresWriter } = parsePayload(row.payload);
+    const markProcessed = { where: { id: row.id, processedAt: null }, data: { processedAt: now() } };
+
+    if (options.writer) {
+      await options.writer(logs, context, (logsToWrite) => writeExecutor.write(client, auditLogModel, logsToWrite));
+      await outbox.updateMany(markProcessed);
+      return;
+    }
+    if (requiresWriter) {
+      throw new Error(
+        '[@prisma-audit] Outbox row was enqueued by a client with hooks.writer; pass the same writer to createOutboxRelay',
+      );
+    }
+
+    await client.$transaction(async (tx) => {
+      const { count } = await getOutboxDelegate(tx, outboxModel).updateMany(markProcessed);
+      if (count === 1) {
+        await writeExecutor.write(tx, auditLogModel, logs);
+      }
+    });
+  };
+
+  /**
+   * Record a failed attempt and schedule the next one
+   * @returns True when the row reached `maxAttempts`
+   */
+  const reschedule = async (row: OutboxRow, error: Error): Promise<boolean> => {
+    const attempts = row.attempts + 1;
+    await outbox.update({
+      where: { id: row.id },
+      data: {
+        attempts,
+        lastError: error.message,
+        availableAt: new Date(now().getTime() + backoffDelay(attempts, baseDelayMs, maxDelayMs)),
+      },
+    });
+    return attempts >= maxAttempts;
+  };
+
+  /**
+   * Claim, deliver and (on failure) reschedule one row, counting the outcome
+   * @returns False when another relay had claimed the row
+   */
+  const processRow = async (row: OutboxRow, result: OutboxRelayResult): Promise<boolean> => {
+    if (!(await claim(row))) {
+      return false;
+    }
+    try {
+      await deliver(row);
+      result.delivered++;
+    } catch (caughtError) {
+      const error = caughtError instanceof Error ? caughtError : new Error(String(caughtError));
+      result.failed++;
+      if (await reschedule(row, error)) {
+        result.deadLettered++;
+      }
+      await reportError(error, row.id);
+    }
+    return true;
+  };
+
+  const relay = async (): Promise<OutboxRelayResult> => {
+    const result: OutboxRelayResult = { delivered: 0, failed: 0, deadLettered: 0 };
+
+    for (;;) {
+      const rows = (await outbox.findMany({
+        where: { processedAt: null, availableAt: { lte: now() }, attempts: { lt: maxAttempts } },
+        orderBy: [{ availableAt: 'asc' }, { id: 'asc' }],
+        take: batchSize,
+      })) as unknown as OutboxRow[];
+
+      let claimed = 0;
+      for (const row of rows) {
+        if (await processRow(row, result)) {
+          claimed++;
+        }
+      }
+
+      // Stop at the last batch, or when every row was taken by another relay
+      if (rows.length < batchSize || claimed === 0) {
+        return result;
+      }
+    }
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let currentPass: Promise<void> | undefined;
+  let polling = false;
+
+  const poll = (intervalMs: number): void => {
+    currentPass = relay()
+      .then(
+        () => undefined,
+        (error: unknown) => reportError(error instanceof Error ? error : new Error(String(error)), undefined),
+      )
+      .finally(() => {
+        if (polling) {
+          timer = setTimeout(() => poll(intervalMs), intervalMs);
+        }
+      });
+  };
+
+  return {
+    relay,
+    start: ({ intervalMs = DEFAULT_INTERVAL_MS } = {}) => {
+      if (polling) {
+        return;
+      }
+      polling = true;
+      poll(intervalMs);
+    },
+    stop: async () => {
+      polling = false;
+      clearTimeout(timer);
+      await currentPass;
+    },
+  };
+};
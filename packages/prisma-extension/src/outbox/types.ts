@@ -0,0 +1,101 @@
+/**
+ * Transactional Outbox Type Definitions
+ *
+ * @module outbox/types
+ */
+
+import type { AuditLogWriter, IntegrityConfig } from '../types.js';
+
+/**
+ * Retry policy for rows whose delivery fails
+ *
+ * The delay before attempt `n + 1` is `min(baseDelayMs * 2^(n - 1), maxDelayMs)`.
+ */
+export interface OutboxRetryConfig {
+  /** Attempts before a row is left in the outbox as a dead letter. Default: 10 */
+  maxAttempts?: number;
+  /** Delay after the first failure. Default: 1000 */
+  baseDelayMs?: number;
+  /** Upper bound of the delay. Default: 300000 (5 minutes) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Options for creating an outbox relay
+ */
+export interface OutboxRelayOptions {
+  /**
+   * Prisma model name of the outbox (PascalCase).
+   * Must match `outbox.model` passed to `createAuditLogExtension`.
+   *
+   * @default 'AuditOutbox'
+   */
+  outboxModel?: string;
+  /**
+   * Prisma model name for stored audit logs (PascalCase).
+   * Must match the `auditLogModel` passed to `createAuditLogExtension`.
+   *
+   * @default 'AuditLog'
+   */
+  auditLogModel?: string;
+  /** Prisma namespace from your generated client (see `createAuditLogExtension`). Default: extracted from the client */
+  Prisma?: {
+    dmmf: unknown;
+    DbNull: unknown;
+  };
+  /**
+   * Custom destination for relayed logs. Its `defaultWrite` writes to the audit log table.
+   *
+   * @remarks
+   * Without a writer, logs are written and the row is marked processed in one transaction
+   * (exactly once). With a writer, the row is marked after the writer resolves, so a crash
+   * in between delivers the logs again (at least once).
+   *
+   * Required for rows enqueued by a client with `hooks.writer`; pass the same function.
+   * Without it, such rows fail delivery and end up as dead letters.
+   */
+  writer?: AuditLogWriter;
+  /** Hash chain settings; must match `integrity` passed to `createAuditLogExtension` */
+  integrity?: IntegrityConfig;
+  /** Rows read per batch. Default: 100 */
+  batchSize?: number;
+  retry?: OutboxRetryConfig;
+  /** How long a relay owns a claimed row before another relay may retry it. Default: 60000 */
+  claimTimeoutMs?: number;
+  /** Called when delivering a row, or a whole polling pass, fails */
+  onError?: (error: Error, rowId: string | undefined) => void | Promise<void>;
+  /** Clock used for claims and backoff. Default: `() => new Date()` */
+  now?: () => Date;
+}
+
+/**
+ * Result of a relay pass
+ */
+export interface OutboxRelayResult {
+  /** Rows delivered and marked processed */
+  delivered: number;
+  /** Rows whose delivery failed and that were rescheduled */
+  failed: number;
+  /** Rows that reached `maxAttempts` in this pass and will not be retried */
+  deadLettered: number;
+}
+
+/**
+ * Moves audit logs from the outbox to their destination
+ */
+export interface OutboxRelay {
+  /**
+   * Deliver every row that is due, then return
+   *
+   * Call it from a scheduled job, or use {@link OutboxRelay.start} for a polling loop.
+   */
+  relay(): Promise<OutboxRelayResult>;
+  /**
+   * Start polling the outbox
+   *
+   * @param options - `intervalMs` between the end of one pass and the start of the next. Default: 1000
+   */
+  start(options?: { intervalMs?: number }): void;
+  /** Stop polling, waiting for the current pass to finish */
+  stop(): Promise<void>;
+}
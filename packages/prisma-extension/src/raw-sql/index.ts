@@ -0,0 +1,176 @@
+/**
+ * Raw SQL Auditing
+ *
+ * Helpers for auditing `$executeRaw`, `$executeRawUnsafe`, `$queryRaw` and `$queryRawUnsafe`
+ * write statements: extracting the statement from the raw operation arguments, mapping the
+ * target table back to a Prisma model via the DMMF, and translating simple WHERE clauses into
+ * Prisma `where` inputs so the affected rows can be pre-fetched.
+ *
+ * @module raw-sql
+ */
+
+import type { DMMFModel } from '../internal-types.js';
+import type { RawCondition, RawOperand, RawOperator, RawWriteKind } from './parser.js';
+
+export type { RawCondition, RawOperand, RawOperator, RawWriteKind, RawWriteStatement } from './parser.js';
+export { parseRawWrite } from './parser.js';
+
+/**
+ * Prisma client operations intercepted when raw SQL auditing is enabled
+ */
+export const RAW_OPERATIONS = ['$executeRaw', '$executeRawUnsafe', '$queryRaw', '$queryRawUnsafe'] as const;
+
+/**
+ * Entity ID recorded on table-level `raw` logs, which are not tied to a single entity
+ */
+export const RAW_TABLE_ENTITY_ID = '*';
+
+/**
+ * Table-level description of a raw write, stored as the `entityContext` of a `raw` log
+ */
+export interface RawWriteEvent {
+  statement: RawWriteKind;
+  table: string;
+  /** Statement with literals and placeholders masked, safe to store and group by */
+  fingerprint: string;
+  /** Rows reported by the database, or null if the result did not include a count */
+  affectedRows: number | null;
+}
+
+/**
+ * Raw SQL statement text with its bound values
+ */
+export interface RawStatement {
+  /** Statement text with `$n` or `?` placeholders */
+  sql: string;
+  values: readonly unknown[];
+}
+
+/** @internal */
+const isStringArray = (value: unknown): value is readonly string[] => {
+  return Array.isArray(value) && value.every((part) => typeof part === 'string');
+};
+
+/** @internal */
+const isSqlObject = (value: unknown): value is { strings: readonly string[]; values: readonly unknown[] } => {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as { strings?: unknown; values?: unknown };
+  return isStringArray(candidate.strings) && Array.isArray(candidate.values);
+};
+
+/**
+ * Join template strings with `$n` placeholders
+ *
+ * @internal
+ */
+const fromTemplate = (strings: readonly string[], values: readonly unknown[]): RawStatement => ({
+  sql: strings.reduce((sql, part, index) => (index === 0 ? part : `${sql}$${index}${part}`), ''),
+  values,
+});
+
+/**
+ * Extract the statement from raw operation arguments
+ *
+ * @param args - Arguments received by the query extension: a `Prisma.Sql` object, a tagged
+ *   template (`[strings, ...values]`) or an unsafe call (`[sql, ...values]`)
+ * @returns The statement, or undefined if the arguments are not recognized
+ */
+export const toRawStatement = (args: unknown): RawStatement | undefined => {
+  if (isSqlObject(args)) {
+    return fromTemplate(args.strings, args.values);
+  }
+  if (!Array.isArray(args)) {
+    return undefined;
+  }
+
+  const [first, ...values] = args as unknown[];
+  if (typeof first === 'string') {
+    return { sql: first, values };
+  }
+  if (isSqlObject(first)) {
+    return fromTemplate(first.strings, first.values);
+  }
+  return isStringArray(first) ? fromTemplate(first, values) : undefined;
+};
+
+/**
+ * Find the model stored in a table (matched case-insensitively against `@@map` or the model name)
+ */
+export const findModelByTable = (models: readonly DMMFModel[] | undefined, table: string): DMMFModel | undefined => {
+  const lower = table.toLowerCase();
+  return models?.find((model) => (model.dbName ?? model.name).toLowerCase() === lower);
+};
+
+/** @internal */
+const UNRESOLVED = Symbol('unresolved');
+
+/** @internal */
+const resolveOperand = (operand: RawOperand, values: readonly unknown[]): unknown => {
+  if (operand._tag === 'Literal') return operand.value;
+  return operand.index >= 0 && operand.index < values.length ? values[operand.index] : UNRESOLVED;
+};
+
+/** @internal */
+const toFilter = (operator: RawOperator, operands: unknown[]): unknown => {
+  const [value] = operands;
+  switch (operator) {
+    case '=':
+      return value;
+    case '!=':
+      return { not: value };
+    case '<':
+      return { lt: value };
+    case '<=':
+      return { lte: value };
+    case '>':
+      return { gt: value };
+    case '>=':
+      return { gte: value };
+    case 'in':
+      return { in: operands };
+    case 'is null':
+      return null;
+    case 'is not null':
+      return { not: null };
+  }
+};
+
+/**
+ * Translate parsed WHERE conditions into a Prisma `where` input for the model
+ *
+ * @param conditions - AND-joined conditions from {@link parseRawWrite}
+ * @param values - Bound values of the statement
+ * @param model - DMMF model of the target table
+ * @returns The `where` input, or undefined if a column is not a scalar field or a placeholder is unbound
+ *
+ * @example
+ * ```typescript
+ * const statement = parseRawWrite('DELETE FROM users WHERE email = $1 AND deleted_at IS NULL');
+ * toPrismaWhere(statement.conditions, ['a@example.com'], userModel);
+ * // => { AND: [{ email: 'a@example.com' }, { deletedAt: null }] }
+ * ```
+ */
+export const toPrismaWhere = (
+  conditions: readonly RawCondition[],
+  values: readonly unknown[],
+  model: DMMFModel,
+): Record<string, unknown> | undefined => {
+  const fieldsByColumn = new Map(
+    model.fields
+      .filter((field) => field.kind === 'scalar' || field.kind === 'enum')
+      .map((field) => [(field.dbName ?? field.name).toLowerCase(), field.name]),
+  );
+
+  const clauses: Record<string, unknown>[] = [];
+  for (const condition of conditions) {
+    const field = fieldsByColumn.get(condition.column.toLowerCase());
+    const operands = condition.operands.map((operand) => resolveOperand(operand, values));
+    if (!field || operands.includes(UNRESOLVED)) {
+      return undefined;
+    }
+    clauses.push({ [field]: toFilter(condition.operator, operands) });
+  }
+
+  if (clauses.length === 0) return undefined;
+  return clauses.length === 1 ? clauses[0] : { AND: clauses };
+};
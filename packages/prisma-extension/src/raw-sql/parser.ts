@@ -0,0 +1,386 @@
+/**
+ * Raw SQL Parser
+ *
+ * Lightweight, dialect-tolerant parsing of raw write statements. It recognizes only what
+ * raw SQL auditing needs:
+ * - The statement kind (INSERT / UPDATE / DELETE) and its target table
+ * - A WHERE clause made of `column <op> value`, `column IN (...)` and `column IS [NOT] NULL`
+ *   conditions joined by AND
+ * - A fingerprint with every literal and placeholder replaced by `?`
+ *
+ * Anything else (CTEs, OR, subqueries, casts, LIMIT) is reported as untranslatable so
+ * callers can fall back to a table-level audit event.
+ *
+ * @module raw-sql/parser
+ */
+
+/** Kind of raw write statement */
+export type RawWriteKind = 'insert' | 'update' | 'delete';
+
+/** Value in a WHERE condition: an inline literal or a bound parameter */
+export type RawOperand = { _tag: 'Literal'; value: unknown } | { _tag: 'Placeholder'; index: number };
+
+/** Comparison operators supported in translatable WHERE clauses */
+export type RawOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'is null' | 'is not null';
+
+/** One `column <op> operand(s)` condition of a WHERE clause */
+export interface RawCondition {
+  /** Column name without table qualifier or quotes */
+  column: string;
+  operator: RawOperator;
+  operands: RawOperand[];
+}
+
+/** Parsed raw write statement */
+export interface RawWriteStatement {
+  kind: RawWriteKind;
+  /** Target table name without schema qualifier or quotes */
+  table: string;
+  /**
+   * AND-joined WHERE conditions, or null when the statement has no WHERE clause or one
+   * that cannot be translated (always null for INSERT)
+   */
+  conditions: RawCondition[] | null;
+  /** Statement with literals and placeholders replaced by `?` */
+  fingerprint: string;
+}
+
+/** @internal */
+type SqlToken =
+  | { _tag: 'Word'; value: string }
+  | { _tag: 'Quoted'; value: string }
+  | { _tag: 'String'; value: string }
+  | { _tag: 'Number'; value: number }
+  | { _tag: 'Placeholder'; index: number }
+  | { _tag: 'Symbol'; value: string };
+
+/** @internal */
+const TOKEN_PATTERN =
+  /\s+|--[^\n]*|\/\*[\s\S]*?\*\/|'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|\$\d+|\?|\d+(?:\.\d+)?|[A-Za-z_][\w$]*|<>|!=|<=|>=|::|./g;
+
+/** @internal */
+const COMPARISON_OPERATORS: Record<string, RawOperator> = {
+  '=': '=',
+  '!=': '!=',
+  '<>': '!=',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>=',
+};
+
+/** Keywords ending a top-level WHERE clause; only RETURNING keeps it translatable */
+const WHERE_TERMINATORS = new Set(['returning', 'order', 'limit']);
+
+/** @internal */
+const isWord = (token: SqlToken | undefined, word: string): boolean =>
+  token?._tag === 'Word' && token.value.toLowerCase() === word;
+
+/** @internal */
+const isSymbol = (token: SqlToken | undefined, symbol: string): boolean =>
+  token?._tag === 'Symbol' && token.value === symbol;
+
+/**
+ * Classify one matched piece of SQL text
+ *
+ * @returns The token, or undefined for whitespace and comments
+ * @internal
+ */
+const toToken = (text: string, nextPositional: () => number): SqlToken | undefined => {
+  const first = text[0] ?? '';
+  if (/\s/.test(first) || text.startsWith('--') || text.startsWith('/*')) return undefined;
+
+  if (first === "'") return { _tag: 'String', value: text.slice(1, -1).replace(/''/g, "'") };
+  if (first === '"' || first === '`' || (first === '[' && text.length > 1)) {
+    return { _tag: 'Quoted', value: text.slice(1, -1).replace(/""/g, '"') };
+  }
+  if (first === '$' && text.length > 1) return { _tag: 'Placeholder', index: Number(text.slice(1)) - 1 };
+  if (text === '?') return { _tag: 'Placeholder', index: nextPositional() };
+  if (/\d/.test(first)) return { _tag: 'Number', value: Number(text) };
+  if (/[A-Za-z_]/.test(first)) return { _tag: 'Word', value: text };
+  return { _tag: 'Symbol', value: text };
+};
+
+/**
+ * Split SQL text into tokens, dropping whitespace and comments
+ *
+ * @remarks
+ * `?` placeholders are numbered in order of appearance; `$n` placeholders keep their number.
+ *
+ * @internal
+ */
+const tokenize = (sql: string): SqlToken[] => {
+  const tokens: SqlToken[] = [];
+  let positional = 0;
+  const nextPositional = () => positional++;
+
+  for (const [text] of sql.matchAll(TOKEN_PATTERN)) {
+    const token = toToken(text, nextPositional);
+    if (token) tokens.push(token);
+  }
+
+  return tokens;
+};
+
+/**
+ * Read a possibly schema-qualified name starting at `start`
+ *
+ * @returns The last name part and the index after it, or undefined if no name starts there
+ * @internal
+ */
+const readQualifiedName = (tokens: readonly SqlToken[], start: number): { name: string; end: number } | undefined => {
+  let index = start;
+  let name: string | undefined;
+
+  while (true) {
+    const token = tokens[index];
+    if (token?._tag !== 'Word' && token?._tag !== 'Quoted') {
+      return undefined;
+    }
+    name = token.value;
+    index++;
+    if (!isSymbol(tokens[index], '.')) {
+      return { name, end: index };
+    }
+    index++;
+  }
+};
+
+/**
+ * Locate the target table of a write statement
+ *
+ * @internal
+ */
+const readTarget = (kind: RawWriteKind, tokens: readonly SqlToken[]): { table: string; end: number } | undefined => {
+  let index = 1;
+  if (kind === 'insert' && isWord(tokens[index], 'ignore')) index++;
+  if (kind !== 'update' && !isWord(tokens[index++], kind === 'insert' ? 'into' : 'from')) {
+    return undefined;
+  }
+  if (isWord(tokens[index], 'only')) index++;
+
+  const target = readQualifiedName(tokens, index);
+  return target && { table: target.name, end: target.end };
+};
+
+/**
+ * Index of the first token outside parentheses matching the predicate, or -1
+ *
+ * @internal
+ */
+const findTopLevel = (
+  tokens: readonly SqlToken[],
+  start: number,
+  predicate: (token: SqlToken | undefined) => boolean,
+): number => {
+  let depth = 0;
+  for (let index = start; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (isSymbol(token, '(')) depth++;
+    if (isSymbol(token, ')')) depth--;
+    if (depth === 0 && predicate(token)) return index;
+  }
+  return -1;
+};
+
+/** @internal */
+const isWhereTerminator = (token: SqlToken | undefined): boolean =>
+  isSymbol(token, ';') || (token?._tag === 'Word' && WHERE_TERMINATORS.has(token.value.toLowerCase()));
+
+/**
+ * Slice the top-level WHERE clause
+ *
+ * @returns The clause tokens, or null if absent or followed by ORDER BY / LIMIT
+ * @internal
+ */
+const sliceWhereClause = (tokens: readonly SqlToken[], start: number): SqlToken[] | null => {
+  const whereIndex = findTopLevel(tokens, start, (token) => isWord(token, 'where'));
+  if (whereIndex < 0) {
+    return null;
+  }
+
+  const endIndex = findTopLevel(tokens, whereIndex + 1, isWhereTerminator);
+  if (endIndex < 0) {
+    return tokens.slice(whereIndex + 1);
+  }
+  const end = tokens[endIndex];
+  return isSymbol(end, ';') || isWord(end, 'returning') ? tokens.slice(whereIndex + 1, endIndex) : null;
+};
+
+/** @internal */
+const toOperand = (token: SqlToken | undefined): RawOperand | undefined => {
+  switch (token?._tag) {
+    case 'String':
+    case 'Number':
+      return { _tag: 'Literal', value: token.value };
+    case 'Placeholder':
+      return { _tag: 'Placeholder', index: token.index };
+    case 'Word': {
+      const lower = token.value.toLowerCase();
+      return lower === 'true' || lower === 'false' ? { _tag: 'Literal', value: lower === 'true' } : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Parse the operands of `IN ( ... )` starting after the opening parenthesis
+ *
+ * @internal
+ */
+const parseInList = (tokens: readonly SqlToken[], start: number): RawOperand[] | undefined => {
+  const operands: RawOperand[] = [];
+  let index = start;
+
+  while (index < tokens.length) {
+    const operand = toOperand(tokens[index]);
+    if (!operand) return undefined;
+    operands.push(operand);
+    index++;
+    if (isSymbol(tokens[index], ')')) {
+      return index === tokens.length - 1 ? operands : undefined;
+    }
+    if (!isSymbol(tokens[index], ',')) return undefined;
+    index++;
+  }
+
+  return undefined;
+};
+
+/** @internal */
+type Predicate = Pick<RawCondition, 'operator' | 'operands'>;
+
+/** @internal */
+const parseComparison = (tokens: readonly SqlToken[], start: number): Predicate | undefined => {
+  const token = tokens[start];
+  const operator = token?._tag === 'Symbol' ? COMPARISON_OPERATORS[token.value] : undefined;
+  const operand = toOperand(tokens[start + 1]);
+  return operator && operand && start + 2 === tokens.length ? { operator, operands: [operand] } : undefined;
+};
+
+/** @internal */
+const parseNullCheck = (tokens: readonly SqlToken[], start: number): Predicate | undefined => {
+  const negated = isWord(tokens[start + 1], 'not');
+  const nullIndex = start + (negated ? 2 : 1);
+  return isWord(tokens[nullIndex], 'null') && nullIndex === tokens.length - 1
+    ? { operator: negated ? 'is not null' : 'is null', operands: [] }
+    : undefined;
+};
+
+/**
+ * Parse one condition after its column name
+ *
+ * @internal
+ */
+const parsePredicate = (tokens: readonly SqlToken[], start: number): Predicate | undefined => {
+  const token = tokens[start];
+
+  if (isWord(token, 'in') && isSymbol(tokens[start + 1], '(')) {
+    const operands = parseInList(tokens, start + 2);
+    return operands && { operator: 'in', operands };
+  }
+  if (isWord(token, 'is')) {
+    return parseNullCheck(tokens, start);
+  }
+  return parseComparison(tokens, start);
+};
+
+/** @internal */
+const parseCondition = (tokens: readonly SqlToken[]): RawCondition | undefined => {
+  const column = readQualifiedName(tokens, 0);
+  if (!column) return undefined;
+  const predicate = parsePredicate(tokens, column.end);
+  return predicate && { column: column.name, ...predicate };
+};
+
+/**
+ * Split a WHERE clause on top-level AND and parse each condition
+ *
+ * @returns The conditions, or null if any part is not translatable
+ * @internal
+ */
+const parseConditions = (tokens: readonly SqlToken[]): RawCondition[] | null => {
+  const conditions: RawCondition[] = [];
+  let current: SqlToken[] = [];
+  let depth = 0;
+
+  for (const token of [...tokens, undefined]) {
+    if (isSymbol(token, '(')) depth++;
+    if (isSymbol(token, ')')) depth--;
+
+    if (token === undefined || (depth === 0 && isWord(token, 'and'))) {
+      const condition = parseCondition(current);
+      if (!condition) return null;
+      conditions.push(condition);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+
+  return conditions;
+};
+
+/**
+ * Render tokens as a normalized statement with literals and placeholders masked
+ *
+ * @internal
+ */
+const fingerprintOf = (tokens: readonly SqlToken[]): string => {
+  return tokens
+    .map((token) => {
+      switch (token._tag) {
+        case 'String':
+        case 'Number':
+        case 'Placeholder':
+          return '?';
+        case 'Quoted':
+          return `"${token.value}"`;
+        default:
+          return token.value;
+      }
+    })
+    .join(' ')
+    .replace(/ ([,.);])/g, '$1')
+    .replace(/([(.]) /g, '$1');
+};
+
+/**
+ * Classify a raw SQL statement as an INSERT, UPDATE or DELETE on a single table
+ *
+ * @param sql - Statement text with `$n` or `?` placeholders
+ * @returns The parsed write, or undefined for reads, CTEs and statements that cannot be classified
+ *
+ * @example
+ * ```typescript
+ * parseRawWrite('UPDATE "public"."users" SET name = $1 WHERE id = $2');
+ * // => {
+ * //   kind: 'update',
+ * //   table: 'users',
+ * //   conditions: [{ column: 'id', operator: '=', operands: [{ _tag: 'Placeholder', index: 1 }] }],
+ * //   fingerprint: 'UPDATE "public"."users" SET name = ? WHERE id = ?',
+ * // }
+ * ```
+ */
+export const parseRawWrite = (sql: string): RawWriteStatement | undefined => {
+  const tokens = tokenize(sql);
+  const head = tokens[0]?._tag === 'Word' ? tokens[0].value.toLowerCase() : undefined;
+  if (head !== 'insert' && head !== 'update' && head !== 'delete') {
+    return undefined;
+  }
+
+  const target = readTarget(head, tokens);
+  if (!target) {
+    return undefined;
+  }
+
+  const where = head === 'insert' ? null : sliceWhereClause(tokens, target.end);
+
+  return {
+    kind: head,
+    table: target.table,
+    conditions: where && where.length > 0 ? parseConditions(where) : null,
+    fingerprint: fingerprintOf(tokens),
+  };
+};
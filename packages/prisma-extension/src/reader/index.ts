@@ -0,0 +1,408 @@
+/**
+ * Audit Log Reader
+ *
+ * Typed, paginated read access to stored audit logs. Rows are read from the same
+ * model `createAuditLogExtension` writes to, and branded IDs are rehydrated through
+ * `createAuditLogData` so consumers get the same `AuditLogData` shape the writer produced.
+ *
+ * Pagination uses an opaque keyset cursor over (`createdAt`, `id`), which stays stable
+ * while new logs are appended.
+ *
+ * @module reader
+ *
+ * @example
+ * ```typescript
+ * const reader = createAuditLogReader(basePrisma, { auditLogModel: 'AuditLog' });
+ *
+ * const page = await reader.findMany({
+ *   aggregate: { type: 'User', id: 'user-1' },
+ *   action: ['create', 'update'],
+ *   createdAt: { from: new Date('2026-01-01') },
+ *   take: 20,
+ * });
+ *
+ * const next = await reader.findMany({ aggregate: { type: 'User', id: 'user-1' }, cursor: page.nextCursor });
+ *
+ * const snapshot = await reader.reconstruct({ entityType: 'Post', entityId: 'post-1', at: new Date('2026-03-01') });
+ *
+ * const history = await reader.timeline({ aggregateType: 'User', aggregateId: 'user-1' });
+ * ```
+ */
+
+import type { AggregateTimeline, EntityReconstruction } from '@kuruwic/prisma-audit-core';
+import {
+  buildAggregateTimeline,
+  createAggregateConfig,
+  createAuditLogData,
+  DEFAULTS,
+  decryptAuditLog,
+  reconstructEntityState,
+} from '@kuruwic/prisma-audit-core';
+import type { ModelClient } from '../internal-types.js';
+import { uncapitalizeFirst } from '../utils/extension-utils.js';
+import type {
+  AuditLogPage,
+  AuditLogQuery,
+  AuditLogReader,
+  AuditLogReaderOptions,
+  IdentityFilter,
+  ReconstructQuery,
+  StoredAuditLog,
+  TimelineQuery,
+  TimeRangeFilter,
+} from './types.js';
+
+export type {
+  AuditLogPage,
+  AuditLogQuery,
+  AuditLogReader,
+  AuditLogReaderOptions,
+  IdentityFilter,
+  ReconstructQuery,
+  StoredAuditLog,
+  TimelineQuery,
+  TimeRangeFilter,
+} from './types.js';
+
+const DEFAULT_TAKE = 50;
+const DEFAULT_MAX_TAKE = 500;
+
+/**
+ * Decoded keyset cursor position
+ *
+ * @internal
+ */
+interface CursorPosition {
+  createdAt: Date;
+  id: string;
+}
+
+/** @internal */
+export const encodeCursor = (log: Pick<StoredAuditLog, 'createdAt' | 'id'>): string => {
+  return Buffer.from(JSON.stringify([log.createdAt.toISOString(), log.id]), 'utf8').toString('base64url');
+};
+
+/** @internal */
+export const decodeCursor = (cursor: string): CursorPosition => {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(parsed) && typeof parsed[0] === 'string' && typeof parsed[1] === 'string') {
+      const createdAt = new Date(parsed[0]);
+      if (!Number.isNaN(createdAt.getTime())) {
+        return { createdAt, id: parsed[1] };
+      }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('[@prisma-audit] Invalid audit log cursor');
+};
+
+/**
+ * Convert a single-or-many filter value into a Prisma condition
+ *
+ * @internal
+ */
+const toCondition = (value: string | readonly string[] | undefined): unknown => {
+  if (value === undefined) {
+    return undefined;
+  }
+  return typeof value === 'string' ? value : { in: [...value] };
+};
+
+/**
+ * Build where conditions for an actor/impersonator/onBehalfOf/entity/aggregate filter
+ *
+ * @internal
+ */
+const buildIdentityWhere = (
+  prefix: 'actor' | 'impersonator' | 'onBehalfOf' | 'entity' | 'aggregate',
+  filter: IdentityFilter | undefined,
+): Record<string, unknown> => {
+  const where: Record<string, unknown> = {};
+  if (!filter) {
+    return where;
+  }
+
+  const conditions = {
+    [`${prefix}Category`]: toCondition(filter.category),
+    [`${prefix}Type`]: toCondition(filter.type),
+    [`${prefix}Id`]: toCondition(filter.id),
+  };
+  for (const [field, condition] of Object.entries(conditions)) {
+    if (condition !== undefined) {
+      where[field] = condition;
+    }
+  }
+  return where;
+};
+
+/**
+ * Build where conditions for a `createdAt` range
+ *
+ * @internal
+ */
+const buildTimeRangeWhere = (range: TimeRangeFilter): Record<string, unknown> => {
+  const condition: Record<string, Date> = {};
+  if (range.from) condition.gte = range.from;
+  if (range.to) condition.lt = range.to;
+  return Object.keys(condition).length > 0 ? { createdAt: condition } : {};
+};
+
+/**
+ * Build the keyset condition that selects rows strictly after the cursor
+ *
+ * @internal
+ */
+const buildCursorWhere = (position: CursorPosition, order: 'asc' | 'desc'): Record<string, unknown> => {
+  const op = order === 'desc' ? 'lt' : 'gt';
+  return {
+    OR: [{ createdAt: { [op]: position.createdAt } }, { createdAt: position.createdAt, id: { [op]: position.id } }],
+  };
+};
+
+/**
+ * Rehydrate a database row into a StoredAuditLog with branded IDs
+ *
+ * @internal
+ */
+export const toStoredAuditLog = (row: Record<string, unknown>): StoredAuditLog => {
+  const id = String(row.id);
+  const result = createAuditLogData({
+    actorCategory: row.actorCategory as string,
+    actorType: row.actorType as string,
+    actorId: row.actorId as string,
+    actorContext: row.actorContext ?? null,
+    entityCategory: row.entityCategory as string,
+    entityType: row.entityType as string,
+    entityId: row.entityId as string,
+    entityContext: row.entityContext ?? null,
+    aggregateCategory: row.aggregateCategory as string,
+    aggregateType: row.aggregateType as string,
+    aggregateId: row.aggregateId as string,
+    aggregateContext: row.aggregateContext ?? null,
+    action: row.action as string,
+    before: row.before ?? null,
+    after: row.after ?? null,
+    changes: row.changes ?? null,
+    requestContext: row.requestContext ?? null,
+    createdAt: row.createdAt as Date,
+    operationId: row.operationId as string | null | undefined,
+    transactionId: row.transactionId as string | null | undefined,
+    impersonatorCategory: row.impersonatorCategory as string | null | undefined,
+    impersonatorType: row.impersonatorType as string | null | undefined,
+    impersonatorId: row.impersonatorId as string | null | undefined,
+    onBehalfOfCategory: row.onBehalfOfCategory as string | null | undefined,
+    onBehalfOfType: row.onBehalfOfType as string | null | undefined,
+    onBehalfOfId: row.onBehalfOfId as string | null | undefined,
+    delegationContext: row.delegationContext,
+  });
+
+  if (!result.success) {
+    const details = result.errors.map((e) => `${e.field}: ${e.message}`).join(', ');
+    throw new Error(`[@prisma-audit] Audit log "${id}" failed validation: ${details}`);
+  }
+
+  return { id, ...result.value };
+};
+
+/**
+ * Creates a typed reader for stored audit logs
+ *
+ * @param basePrisma - Prisma client (base or extended) that exposes the audit log model
+ * @param options - Reader options
+ * @returns Audit log reader
+ * @throws Error if the audit log model is not available on the client
+ */
+export const createAuditLogReader = (basePrisma: unknown, options: AuditLogReaderOptions = {}): AuditLogReader => {
+  const modelName = options.auditLogModel ?? DEFAULTS.AUDIT_LOG_MODEL;
+  const accessor = uncapitalizeFirst(modelName);
+  const delegate = (basePrisma as Record<string, ModelClient | undefined>)[accessor];
+
+  if (!delegate || typeof delegate.findMany !== 'function') {
+    throw new Error(`[@prisma-audit] Audit log model "${modelName}" not found on the Prisma client`);
+  }
+
+  const auditLogDelegate = delegate as { findMany: (args: unknown) => Promise<Record<string, unknown>[]> };
+  const findMany = (args: unknown) => auditLogDelegate.findMany(args);
+  const aggregateConfig = options.aggregateMapping ? createAggregateConfig(options.aggregateMapping) : undefined;
+  const { keyStore } = options;
+  const defaultTake = options.defaultTake ?? DEFAULT_TAKE;
+  const maxTake = options.maxTake ?? DEFAULT_MAX_TAKE;
+
+  /**
+   * Rehydrate a row and decrypt it when a key store is given, keeping shredded payloads encrypted
+   */
+  const readLog = (row: Record<string, unknown>): Promise<StoredAuditLog> | StoredAuditLog => {
+    const log = toStoredAuditLog(row);
+    return keyStore ? decryptAuditLog(log, keyStore, { onMissingKey: 'keep' }) : log;
+  };
+
+  /**
+   * Resolve tags to the entity types that carry them
+   */
+  const resolveTaggedEntityTypes = (tags: readonly string[]): string[] => {
+    if (!aggregateConfig) {
+      throw new Error('[@prisma-audit] Filtering audit logs by tags requires the aggregateMapping option');
+    }
+
+    const entityTypes = new Set<string>();
+    for (const model of aggregateConfig.getAllLoggableModels()) {
+      const entityConfig = aggregateConfig.getEntityConfig(model);
+      if (entityConfig?.tags?.some((tag) => tags.includes(tag))) {
+        entityTypes.add(entityConfig.type);
+      }
+    }
+    return Array.from(entityTypes);
+  };
+
+  /**
+   * Resolve diffing-excluded fields for an entity type (entity config overrides global)
+   */
+  const resolveExcludeFields = (entityType: string): string[] => {
+    for (const model of aggregateConfig?.getAllLoggableModels() ?? []) {
+      const entityConfig = aggregateConfig?.getEntityConfig(model);
+      if (entityConfig?.type === entityType && entityConfig.excludeFields) {
+        return entityConfig.excludeFields;
+      }
+    }
+    return options.excludeFields ?? [];
+  };
+
+  /**
+   * Ensure an aggregate type is declared in the mapping (as an entity or a `to()` target)
+   */
+  const assertKnownAggregateType = (aggregateType: string): void => {
+    if (!aggregateConfig) {
+      return;
+    }
+    const known = aggregateConfig.getAllLoggableModels().some((model) => {
+      const entityConfig = aggregateConfig.getEntityConfig(model);
+      return (
+        entityConfig?.type === aggregateType || entityConfig?.aggregates.some((root) => root.type === aggregateType)
+      );
+    });
+    if (!known) {
+      throw new Error(`[@prisma-audit] Aggregate type "${aggregateType}" is not defined in the aggregate mapping`);
+    }
+  };
+
+  /**
+   * Build the Prisma where clause for a query, or null if it can never match
+   */
+  const buildWhere = (query: AuditLogQuery, order: 'asc' | 'desc'): Record<string, unknown> | null => {
+    const and: Record<string, unknown>[] = [
+      buildIdentityWhere('actor', query.actor),
+      buildIdentityWhere('impersonator', query.impersonator),
+      buildIdentityWhere('onBehalfOf', query.onBehalfOf),
+      buildIdentityWhere('entity', query.entity),
+      buildIdentityWhere('aggregate', query.aggregate),
+    ];
+
+    for (const field of ['action', 'operationId', 'transactionId'] as const) {
+      const value = query[field];
+      if (value !== undefined) {
+        and.push({ [field]: toCondition(value) });
+      }
+    }
+
+    if (query.createdAt) {
+      and.push(buildTimeRangeWhere(query.createdAt));
+    }
+
+    if (query.tags && query.tags.length > 0) {
+      const entityTypes = resolveTaggedEntityTypes(query.tags);
+      if (entityTypes.length === 0) {
+        return null;
+      }
+      and.push({ entityType: { in: entityTypes } });
+    }
+
+    if (query.cursor) {
+      and.push(buildCursorWhere(decodeCursor(query.cursor), order));
+    }
+
+    return { AND: and.filter((condition) => Object.keys(condition).length > 0) };
+  };
+
+  const readPage = async (query: AuditLogQuery = {}): Promise<AuditLogPage> => {
+    const order = query.order ?? 'desc';
+    const take = Math.min(Math.max(query.take ?? defaultTake, 1), maxTake);
+    const where = buildWhere(query, order);
+
+    if (!where) {
+      return { items: [], nextCursor: null };
+    }
+
+    const rows = await findMany({
+      where,
+      orderBy: [{ createdAt: order }, { id: order }],
+      take: take + 1,
+    });
+
+    const items = await Promise.all(rows.slice(0, take).map(readLog));
+    const last = items[items.length - 1];
+    const nextCursor = rows.length > take && last ? encodeCursor(last) : null;
+
+    return { items, nextCursor };
+  };
+
+  const iterate = async function* (query: Omit<AuditLogQuery, 'cursor'> = {}) {
+    let cursor: string | undefined;
+    do {
+      const page = await readPage({ ...query, cursor });
+      yield* page.items;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  };
+
+  return {
+    findMany: readPage,
+
+    iterate,
+
+    findById: async (id: string): Promise<StoredAuditLog | null> => {
+      const [row] = await findMany({ where: { id }, take: 1 });
+      return row ? readLog(row) : null;
+    },
+
+    reconstruct: async ({ entityType, entityId, at }: ReconstructQuery): Promise<EntityReconstruction> => {
+      const asOf = at ?? new Date();
+      const logs: StoredAuditLog[] = [];
+      // `to` is exclusive, so extend by 1ms to include logs written exactly at `asOf`
+      for await (const log of iterate({
+        entity: { type: entityType, id: entityId },
+        createdAt: { to: new Date(asOf.getTime() + 1) },
+        order: 'asc',
+        take: maxTake,
+      })) {
+        logs.push(log);
+      }
+
+      return reconstructEntityState(logs, { at: asOf, excludeFields: resolveExcludeFields(entityType) });
+    },
+
+    timeline: async <TAggregateType extends string>(
+      query: TimelineQuery<TAggregateType>,
+    ): Promise<AggregateTimeline<TAggregateType>> => {
+      const { aggregateType, aggregateId, createdAt, order, operationWindowMs } = query;
+      assertKnownAggregateType(aggregateType);
+
+      const logs: StoredAuditLog[] = [];
+      for await (const log of iterate({
+        aggregate: { type: aggregateType, id: aggregateId },
+        createdAt,
+        order: 'asc',
+        take: maxTake,
+      })) {
+        logs.push(log);
+      }
+
+      return buildAggregateTimeline(
+        logs,
+        { aggregateType, aggregateId },
+        { order: order ?? 'desc', operationWindowMs },
+      );
+    },
+  };
+};
@@ -0,0 +1,147 @@
+/**
+ * Audit Log Reader Type Definitions
+ *
+ * @module reader/types
+ */
+
+import type {
+  AggregateMapping,
+  AggregateTimeline,
+  AuditKeyStore,
+  EntityReconstruction,
+} from '@kuruwic/prisma-audit-core';
+import type { AuditLogData } from '../types.js';
+
+/**
+ * Options for creating an audit log reader
+ */
+export interface AuditLogReaderOptions {
+  /**
+   * Prisma model name for stored audit logs (PascalCase).
+   * Must match the `auditLogModel` passed to `createAuditLogExtension`.
+   *
+   * @default 'AuditLog'
+   */
+  auditLogModel?: string;
+  /**
+   * Aggregate mapping used by the extension.
+   * Required when filtering by `tags`, which are resolved to entity types.
+   * Also supplies per-entity `excludeFields` for reconstruction.
+   */
+  aggregateMapping?: AggregateMapping;
+  /** Global `diffing.excludeFields` used by the extension, for reconstruction gap detection */
+  excludeFields?: string[];
+  /**
+   * Key store of `serialization.encryption`. When set, every log read is decrypted; payloads
+   * whose key was destroyed stay encrypted and surface as `EncryptedPayload` gaps in reconstruction.
+   * Without it, encrypted logs are returned as they are stored.
+   */
+  keyStore?: AuditKeyStore;
+  /** Page size used when `take` is omitted. Default: 50 */
+  defaultTake?: number;
+  /** Upper bound for `take`. Default: 500 */
+  maxTake?: number;
+}
+
+/**
+ * Filter on a category/type/id triple (actor, entity or aggregate)
+ *
+ * Array values match any of the given values.
+ */
+export interface IdentityFilter {
+  category?: string | readonly string[];
+  type?: string | readonly string[];
+  id?: string | readonly string[];
+}
+
+/**
+ * Time range filter on `createdAt`
+ */
+export interface TimeRangeFilter {
+  /** Inclusive lower bound */
+  from?: Date;
+  /** Exclusive upper bound */
+  to?: Date;
+}
+
+/**
+ * Query for reading audit logs
+ */
+export interface AuditLogQuery {
+  actor?: IdentityFilter;
+  /** Real operator of impersonated actions */
+  impersonator?: IdentityFilter;
+  /** Principal delegated actions were performed for */
+  onBehalfOf?: IdentityFilter;
+  entity?: IdentityFilter;
+  aggregate?: IdentityFilter;
+  action?: string | readonly string[];
+  /** Logs produced by the given intercepted operation(s) */
+  operationId?: string | readonly string[];
+  /** Logs produced inside the given interactive transaction(s) */
+  transactionId?: string | readonly string[];
+  createdAt?: TimeRangeFilter;
+  /** Matches logs whose entity type is tagged with ANY of the given tags (see `defineEntity({ tags })`) */
+  tags?: readonly string[];
+  /** Sort direction over (`createdAt`, `id`). Default: 'desc' */
+  order?: 'asc' | 'desc';
+  /** Page size */
+  take?: number;
+  /** Opaque cursor returned as `nextCursor` from a previous page */
+  cursor?: string | null;
+}
+
+/**
+ * Audit log as stored in the database, with branded IDs rehydrated
+ */
+export type StoredAuditLog = AuditLogData & { id: string };
+
+/**
+ * A page of audit logs
+ */
+export interface AuditLogPage {
+  items: StoredAuditLog[];
+  /** Cursor for the next page, or null when there are no more results */
+  nextCursor: string | null;
+}
+
+/**
+ * Query for point-in-time entity reconstruction
+ */
+export interface ReconstructQuery {
+  entityType: string;
+  entityId: string;
+  /** Point in time to reconstruct (inclusive). Default: now */
+  at?: Date;
+}
+
+/**
+ * Query for an aggregate timeline
+ */
+export interface TimelineQuery<TAggregateType extends string = string> {
+  aggregateType: TAggregateType;
+  aggregateId: string;
+  createdAt?: TimeRangeFilter;
+  /** Event order. Default: 'desc' (newest first) */
+  order?: 'asc' | 'desc';
+  /** See `AggregateTimelineOptions.operationWindowMs` */
+  operationWindowMs?: number;
+}
+
+/**
+ * Audit log reader instance
+ */
+export interface AuditLogReader {
+  /** Read one page of audit logs matching the query */
+  findMany: (query?: AuditLogQuery) => Promise<AuditLogPage>;
+  /** Iterate over all audit logs matching the query, fetching page by page */
+  iterate: (query?: Omit<AuditLogQuery, 'cursor'>) => AsyncGenerator<StoredAuditLog, void, undefined>;
+  /** Read a single audit log by its primary key */
+  findById: (id: string) => Promise<StoredAuditLog | null>;
+  /** Reconstruct an entity's state at a point in time by replaying its audit trail */
+  reconstruct: (query: ReconstructQuery) => Promise<EntityReconstruction>;
+  /** Read the event stream of an aggregate root, grouped by originating operation */
+  timeline: <TAggregateType extends string>(
+    query: TimelineQuery<TAggregateType>,
+  ) => Promise<AggregateTimeline<TAggregateType>>;
+}
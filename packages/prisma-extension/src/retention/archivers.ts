@@ -0,0 +1,67 @@
+/**
+ * Retention Archivers
+ *
+ * Built-in destinations for rows expired by a retention run.
+ *
+ * @module retention/archivers
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { safeStringify } from '@kuruwic/prisma-audit-core';
+import { uncapitalizeFirst } from '../utils/extension-utils.js';
+import type { RetentionArchiver } from './types.js';
+
+/**
+ * Archive expired rows into another Prisma model
+ *
+ * The archive model must declare the same columns as the audit log model. Rows keep their
+ * `id`, and duplicates are skipped, so re-running after a failed delete does not copy a
+ * row twice (`skipDuplicates` is not supported on SQLite).
+ *
+ * @param client - Prisma client that exposes the archive model
+ * @param modelName - Archive model name (PascalCase), e.g. `'AuditLogArchive'`
+ * @throws Error if the archive model is not available on the client
+ *
+ * @example
+ * ```typescript
+ * const runner = createRetentionRunner(basePrisma, {
+ *   rules,
+ *   archiver: createModelArchiver(basePrisma, 'AuditLogArchive'),
+ * });
+ * ```
+ */
+export const createModelArchiver = (client: unknown, modelName: string): RetentionArchiver => {
+  const delegate = (client as Record<string, { createMany?: (args: unknown) => Promise<unknown> } | undefined>)[
+    uncapitalizeFirst(modelName)
+  ];
+  const createMany = delegate?.createMany;
+  if (typeof createMany !== 'function') {
+    throw new Error(`[@prisma-audit] Archive model "${modelName}" not found on the Prisma client`);
+  }
+
+  return async (rows) => {
+    await createMany({ data: rows, skipDuplicates: true });
+  };
+};
+
+/**
+ * Archive expired rows as newline-delimited JSON
+ *
+ * Each row is appended as one JSON line (dates as ISO strings, BigInt as strings).
+ * Parent directories are created as needed.
+ *
+ * @param filePath - Target file, or a function choosing the file per rule
+ *
+ * @example
+ * ```typescript
+ * const archiver = createNdjsonArchiver((rule) => `/var/archive/audit-${rule}-${new Date().toISOString().slice(0, 10)}.ndjson`);
+ * ```
+ */
+export const createNdjsonArchiver = (filePath: string | ((ruleName: string) => string)): RetentionArchiver => {
+  return async (rows, ruleName) => {
+    const target = typeof filePath === 'function' ? filePath(ruleName) : filePath;
+    await mkdir(dirname(target), { recursive: true });
+    await appendFile(target, rows.map((row) => `${safeStringify(row)}\n`).join(''), 'utf8');
+  };
+};
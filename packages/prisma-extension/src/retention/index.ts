@@ -0,0 +1,363 @@
+/**
+ * Audit Log Retention
+ *
+ * Declarative retention rules and a runner that purges expired audit logs in bounded
+ * batches, optionally archiving them first. Every purge is itself recorded as a `purge`
+ * audit log written by a system actor, so deletions stay accountable. With `integrity`,
+ * the purge event is linked into its hash chain and records anchors of the purged chain rows.
+ *
+ * @module retention
+ *
+ * @example
+ * ```typescript
+ * const runner = createRetentionRunner(basePrisma, {
+ *   aggregateMapping,
+ *   rules: [
+ *     { name: 'financial', tags: ['financial'], keepFor: { years: 7 } },
+ *     { name: 'analytics', tags: ['analytics'], keepFor: { days: 30 } },
+ *   ],
+ *   archiver: createNdjsonArchiver('/var/archive/audit-logs.ndjson'),
+ * });
+ *
+ * const result = await runner.run();
+ * ```
+ */
+
+import type { AuditActor, AuditLogData, ChainLink, WriteExecutor } from '@kuruwic/prisma-audit-core';
+import {
+  AUDIT_ACTION,
+  createAggregateConfig,
+  DEFAULTS,
+  serializeForAuditJson,
+  toChainAnchors,
+} from '@kuruwic/prisma-audit-core';
+import { createPrismaWriteExecutor, findMissingOptionalFields } from '../adapters/write-executor.js';
+import { createIntegrityWriteExecutor } from '../integrity/index.js';
+import type { PrismaClientWithDynamicAccess, PrismaNamespace } from '../internal-types.js';
+import { uncapitalizeFirst } from '../utils/extension-utils.js';
+import { getPrisma } from '../utils/schema-metadata.js';
+import type {
+  RetentionPeriod,
+  RetentionRule,
+  RetentionRuleResult,
+  RetentionRunner,
+  RetentionRunnerOptions,
+  RetentionRunResult,
+} from './types.js';
+
+export { createModelArchiver, createNdjsonArchiver } from './archivers.js';
+export type {
+  RetentionArchiver,
+  RetentionPeriod,
+  RetentionRule,
+  RetentionRuleResult,
+  RetentionRunner,
+  RetentionRunnerOptions,
+  RetentionRunResult,
+} from './types.js';
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+const DEFAULT_ACTOR: AuditActor = { category: 'system', type: 'RetentionRunner', id: 'retention' };
+
+const CHAIN_SELECT = { chainKey: true, chainSequence: true, hash: true, previousHash: true } as const;
+
+/** @internal */
+type AuditLogDelegate = {
+  findMany: (args: unknown) => Promise<Record<string, unknown>[]>;
+  deleteMany: (args: unknown) => Promise<{ count: number }>;
+  count: (args: unknown) => Promise<number>;
+  create: (args: unknown) => Promise<unknown>;
+};
+
+/**
+ * Rule with its resolved cutoff and row conditions
+ *
+ * @internal
+ */
+interface ResolvedRule {
+  rule: RetentionRule;
+  cutoff: Date;
+  conditions: Record<string, unknown>[];
+}
+
+/**
+ * Subtract a retention period from a point in time (in UTC)
+ *
+ * @example
+ * ```typescript
+ * computeCutoff(new Date('2026-03-31T00:00:00Z'), { months: 1 }); // => 2026-03-03 (Feb 31 rolls over)
+ * ```
+ */
+export const computeCutoff = (now: Date, period: RetentionPeriod): Date => {
+  const cutoff = new Date(now.getTime());
+  cutoff.setUTCFullYear(
+    cutoff.getUTCFullYear() - (period.years ?? 0),
+    cutoff.getUTCMonth() - (period.months ?? 0),
+    cutoff.getUTCDate() - (period.days ?? 0),
+  );
+  return cutoff;
+};
+
+/**
+ * Convert a single-or-many selector into a Prisma condition
+ *
+ * @internal
+ */
+const toCondition = (value: string | readonly string[]): unknown => {
+  return typeof value === 'string' ? value : { in: [...value] };
+};
+
+/**
+ * Validate rules up front so a misconfiguration fails before anything is deleted
+ *
+ * @internal
+ */
+const validateRules = (rules: readonly RetentionRule[], hasAggregateMapping: boolean): void => {
+  const names = new Set<string>();
+  for (const rule of rules) {
+    if (names.has(rule.name)) {
+      throw new Error(`[@prisma-audit] Duplicate retention rule name "${rule.name}"`);
+    }
+    names.add(rule.name);
+
+    const { years = 0, months = 0, days = 0 } = rule.keepFor;
+    if ([years, months, days].some((value) => value < 0) || years + months + days <= 0) {
+      throw new Error(`[@prisma-audit] Retention rule "${rule.name}" must keep rows for a positive period`);
+    }
+    if (rule.tags && !hasAggregateMapping) {
+      throw new Error(`[@prisma-audit] Retention rule "${rule.name}" selects by tags, which requires aggregateMapping`);
+    }
+  }
+};
+
+/**
+ * Build the where clause selecting rows expired by a rule
+ *
+ * Rows that a rule with a longer period still keeps are excluded.
+ *
+ * @internal
+ */
+const buildExpiredWhere = (target: ResolvedRule, rules: readonly ResolvedRule[]): Record<string, unknown> => {
+  const retainedByLongerRules = rules
+    .filter((other) => other !== target && other.cutoff.getTime() < target.cutoff.getTime())
+    .map((other) => ({ NOT: { AND: [...other.conditions, { createdAt: { gte: other.cutoff } }] } }));
+
+  return { AND: [...target.conditions, { createdAt: { lt: target.cutoff } }, ...retainedByLongerRules] };
+};
+
+/**
+ * Create the write executor that links purge events into their hash chain
+ *
+ * @internal
+ */
+const createChainExecutor = (
+  basePrisma: unknown,
+  modelName: string,
+  options: RetentionRunnerOptions,
+): WriteExecutor => {
+  const Prisma = (options.Prisma ?? getPrisma(basePrisma as PrismaClientWithDynamicAccess)) as PrismaNamespace;
+  const models = Prisma.dmmf?.datamodel?.models;
+  const omittedFields = findMissingOptionalFields(models, modelName);
+  return createIntegrityWriteExecutor(
+    createPrismaWriteExecutor(Prisma.DbNull, omittedFields),
+    options.integrity ?? {},
+    models,
+    modelName,
+    omittedFields,
+  );
+};
+
+/**
+ * Chain columns of purged rows that belong to a chain
+ *
+ * @internal
+ */
+const toChainLinks = (rows: readonly Record<string, unknown>[]): ChainLink[] =>
+  rows.filter((row) => typeof row.chainKey === 'string') as unknown as ChainLink[];
+
+/**
+ * Creates a runner that applies retention rules to the audit log table
+ *
+ * @param basePrisma - Base (non-extended) Prisma client that exposes the audit log model
+ * @param options - Rules, archive destination and batch bounds
+ * @returns Retention runner
+ * @throws Error if the audit log model is missing or a rule is invalid
+ */
+export const createRetentionRunner = (basePrisma: unknown, options: RetentionRunnerOptions): RetentionRunner => {
+  const modelName = options.auditLogModel ?? DEFAULTS.AUDIT_LOG_MODEL;
+  const delegate = (basePrisma as Record<string, Partial<AuditLogDelegate> | undefined>)[uncapitalizeFirst(modelName)];
+
+  if (!delegate || typeof delegate.findMany !== 'function' || typeof delegate.deleteMany !== 'function') {
+    throw new Error(`[@prisma-audit] Audit log model "${modelName}" not found on the Prisma client`);
+  }
+
+  validateRules(options.rules, options.aggregateMapping !== undefined);
+  if (options.integrity?.enabled && options.actor === false) {
+    throw new Error('[@prisma-audit] Retention with integrity requires purge events; do not set actor to false');
+  }
+  const chainExecutor = options.integrity?.enabled ? createChainExecutor(basePrisma, modelName, options) : undefined;
+
+  const auditLogDelegate = delegate as AuditLogDelegate;
+  const aggregateConfig = options.aggregateMapping ? createAggregateConfig(options.aggregateMapping) : undefined;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const maxBatches = options.maxBatches ?? Number.POSITIVE_INFINITY;
+  const actor = options.actor === undefined ? DEFAULT_ACTOR : options.actor;
+  const now = options.now ?? (() => new Date());
+
+  /**
+   * Resolve tags to the entity types that carry them
+   */
+  const resolveTaggedEntityTypes = (tags: readonly string[]): string[] => {
+    const entityTypes = new Set<string>();
+    for (const model of aggregateConfig?.getAllLoggableModels() ?? []) {
+      const entityConfig = aggregateConfig?.getEntityConfig(model);
+      if (entityConfig?.tags?.some((tag) => tags.includes(tag))) {
+        entityTypes.add(entityConfig.type);
+      }
+    }
+    return Array.from(entityTypes);
+  };
+
+  const resolveRule = (rule: RetentionRule, at: Date): ResolvedRule => {
+    const conditions: Record<string, unknown>[] = [];
+    if (rule.entityType !== undefined) conditions.push({ entityType: toCondition(rule.entityType) });
+    if (rule.tags) conditions.push({ entityType: { in: resolveTaggedEntityTypes(rule.tags) } });
+    if (rule.action !== undefined) conditions.push({ action: toCondition(rule.action) });
+    if (rule.actorCategory !== undefined) conditions.push({ actorCategory: toCondition(rule.actorCategory) });
+    // Purge events hold the anchors that bridge purged chain rows
+    if (chainExecutor) conditions.push({ action: { not: AUDIT_ACTION.PURGE } });
+    return { rule, cutoff: computeCutoff(at, rule.keepFor), conditions };
+  };
+
+  /**
+   * Record a purge as an audit log of the retention actor
+   */
+  const writePurgeEvent = async (
+    purgeActor: AuditActor,
+    result: RetentionRuleResult,
+    rule: RetentionRule,
+    purgedLinks: readonly ChainLink[],
+  ) => {
+    const { name, keepFor, ...selectors } = rule;
+    const data = {
+      actorCategory: purgeActor.category,
+      actorType: purgeActor.type,
+      actorId: purgeActor.id,
+      ...(purgeActor.name !== undefined && { actorContext: { name: purgeActor.name } }),
+      entityCategory: 'system',
+      entityType: modelName,
+      entityId: name,
+      entityContext: serializeForAuditJson({
+        ...result,
+        keepFor,
+        selectors,
+        ...(chainExecutor && { chainAnchors: toChainAnchors(purgedLinks) }),
+      }),
+      aggregateCategory: 'system',
+      aggregateType: modelName,
+      aggregateId: name,
+      action: AUDIT_ACTION.PURGE,
+      createdAt: now(),
+    };
+
+    if (!chainExecutor) {
+      await auditLogDelegate.create({ data });
+      return;
+    }
+    const log = {
+      actorContext: null,
+      aggregateContext: null,
+      before: null,
+      after: null,
+      changes: null,
+      requestContext: null,
+      ...data,
+    } as unknown as AuditLogData;
+    await chainExecutor.write(basePrisma, uncapitalizeFirst(modelName), [log]);
+  };
+
+  /**
+   * Delete (and archive) one batch of the rows matching `where`
+   *
+   * @returns Number of rows in the batch
+   */
+  const purgeBatch = async (
+    where: Record<string, unknown>,
+    result: RetentionRuleResult,
+    purgedLinks: ChainLink[],
+  ): Promise<number> => {
+    const rows = await auditLogDelegate.findMany({
+      where,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: batchSize,
+      ...(options.archiver ? {} : { select: { id: true, ...(chainExecutor && CHAIN_SELECT) } }),
+    });
+    if (rows.length === 0) return 0;
+
+    if (options.archiver) {
+      await options.archiver(rows, result.rule);
+      result.archived += rows.length;
+    }
+    const { count } = await auditLogDelegate.deleteMany({ where: { id: { in: rows.map((row) => row.id) } } });
+    result.purged += count;
+    purgedLinks.push(...toChainLinks(rows));
+    return rows.length;
+  };
+
+  /**
+   * Purge the rows matching `where` batch by batch
+   *
+   * @returns Number of batches used
+   */
+  const purgeExpired = async (
+    where: Record<string, unknown>,
+    result: RetentionRuleResult,
+    batchBudget: number,
+    purgedLinks: ChainLink[],
+  ): Promise<number> => {
+    let batches = 0;
+    while (batches < batchBudget) {
+      const size = await purgeBatch(where, result, purgedLinks);
+      if (size === 0) return batches;
+      batches++;
+      if (size < batchSize) return batches;
+    }
+    result.complete = false;
+    return batches;
+  };
+
+  return {
+    run: async ({ dryRun = false } = {}): Promise<RetentionRunResult> => {
+      const startedAt = now();
+      const resolvedRules = options.rules.map((rule) => resolveRule(rule, startedAt));
+      const results: RetentionRuleResult[] = [];
+      let batches = 0;
+
+      for (const resolved of resolvedRules) {
+        const where = buildExpiredWhere(resolved, resolvedRules);
+        const result: RetentionRuleResult = {
+          rule: resolved.rule.name,
+          cutoff: resolved.cutoff,
+          purged: 0,
+          archived: 0,
+          complete: true,
+        };
+        results.push(result);
+
+        if (dryRun) {
+          result.purged = await auditLogDelegate.count({ where });
+          continue;
+        }
+
+        const purgedLinks: ChainLink[] = [];
+        batches += await purgeExpired(where, result, maxBatches - batches, purgedLinks);
+        if (actor && result.purged > 0) {
+          await writePurgeEvent(actor, result, resolved.rule, purgedLinks);
+        }
+      }
+
+      return { dryRun, rules: results };
+    },
+  };
+};
@@ -0,0 +1,139 @@
+/**
+ * Audit Log Retention Type Definitions
+ *
+ * @module retention/types
+ */
+
+import type { AggregateMapping, AuditActor } from '@kuruwic/prisma-audit-core';
+import type { IntegrityConfig } from '../types.js';
+
+/**
+ * Length of time audit logs are kept
+ *
+ * Units are added together, e.g. `{ years: 1, months: 6 }`.
+ */
+export interface RetentionPeriod {
+  years?: number;
+  months?: number;
+  days?: number;
+}
+
+/**
+ * Declarative retention rule
+ *
+ * Selectors are combined with AND; an omitted selector matches every row, so a rule
+ * without selectors is a catch-all. When a row matches several rules, it is kept until
+ * the longest of their periods has elapsed. Rows matching no rule are kept forever.
+ *
+ * @example
+ * ```typescript
+ * const rules: RetentionRule[] = [
+ *   { name: 'financial', tags: ['financial'], keepFor: { years: 7 } },
+ *   { name: 'analytics', tags: ['analytics'], keepFor: { days: 30 } },
+ *   { name: 'reads', action: 'read', keepFor: { days: 90 } },
+ * ];
+ * ```
+ */
+export interface RetentionRule {
+  /** Rule name, recorded on purge events and in run results */
+  name: string;
+  /** Entity types the rule applies to */
+  entityType?: string | readonly string[];
+  /** Matches entity types tagged with ANY of the given tags (see `defineEntity({ tags })`) */
+  tags?: readonly string[];
+  /** Audit log actions the rule applies to */
+  action?: string | readonly string[];
+  /** Actor categories the rule applies to */
+  actorCategory?: string | readonly string[];
+  /** How long matching rows are kept */
+  keepFor: RetentionPeriod;
+}
+
+/**
+ * Receives expired rows before they are deleted
+ *
+ * Rows are deleted only after the archiver resolves; a rejection stops the run and
+ * leaves the batch in place.
+ *
+ * @param rows - Raw audit log rows of one batch
+ * @param ruleName - Rule that expired the rows
+ */
+export type RetentionArchiver = (rows: Record<string, unknown>[], ruleName: string) => Promise<void>;
+
+/**
+ * Options for creating a retention runner
+ */
+export interface RetentionRunnerOptions {
+  rules: readonly RetentionRule[];
+  /**
+   * Prisma model name for stored audit logs (PascalCase).
+   * Must match the `auditLogModel` passed to `createAuditLogExtension`.
+   *
+   * @default 'AuditLog'
+   */
+  auditLogModel?: string;
+  /** Aggregate mapping used by the extension. Required when a rule selects by `tags`. */
+  aggregateMapping?: AggregateMapping;
+  /** Destination for expired rows. Default: rows are deleted without archiving */
+  archiver?: RetentionArchiver;
+  /** Rows read and deleted per batch. Default: 1000 */
+  batchSize?: number;
+  /** Maximum batches per run, across all rules. Default: unlimited */
+  maxBatches?: number;
+  /**
+   * Actor recorded on the `purge` events written after each rule. Set to `false` to skip them.
+   *
+   * @default { category: 'system', type: 'RetentionRunner', id: 'retention' }
+   */
+  actor?: AuditActor | false;
+  /** Clock used to compute cutoffs. Default: `() => new Date()` */
+  now?: () => Date;
+  /**
+   * Hash chain settings; must match `integrity` passed to `createAuditLogExtension`
+   *
+   * @remarks
+   * Purge events are then linked into their chain and record anchors of the purged chain
+   * rows, which `verifyAuditChain` uses to bridge the gaps. Purge events are never purged.
+   */
+  integrity?: IntegrityConfig;
+  /** Prisma namespace from your generated client, used with `integrity`. Default: extracted from the client */
+  Prisma?: {
+    dmmf: unknown;
+    DbNull: unknown;
+  };
+}
+
+/**
+ * Outcome of one rule in a retention run
+ */
+export interface RetentionRuleResult {
+  rule: string;
+  /** Rows created before this instant were expired by the rule */
+  cutoff: Date;
+  /** Rows deleted (or, in a dry run, that would be deleted) */
+  purged: number;
+  /** Rows passed to the archiver before deletion */
+  archived: number;
+  /** False when `maxBatches` stopped the rule before all expired rows were purged */
+  complete: boolean;
+}
+
+/**
+ * Result of a retention run
+ */
+export interface RetentionRunResult {
+  dryRun: boolean;
+  rules: RetentionRuleResult[];
+}
+
+/**
+ * Runs retention rules against the audit log table
+ */
+export interface RetentionRunner {
+  /**
+   * Purge (and archive) expired rows in bounded batches
+   *
+   * @param options - `dryRun` counts expired rows without changing anything
+   */
+  run(options?: { dryRun?: boolean }): Promise<RetentionRunResult>;
+}
@@ -0,0 +1,223 @@
+/**
+ * Audit Reverter
+ *
+ * Undoes recorded changes by generating compensating Prisma writes from audit logs.
+ * Targets are a single log, every log of one operation, or an aggregate's logs within a
+ * time window. Plans are checked for conflicts (later changes to the same fields, redacted
+ * or undecryptable values, incomplete logs) and only applied when none are found.
+ *
+ * Compensating writes go through the audited client inside one `$transaction`, so they are
+ * audited like any other write, with the `revert` action.
+ *
+ * @module revert
+ *
+ * @example
+ * ```typescript
+ * const reverter = createAuditReverter(prisma, { provider, aggregateMapping });
+ *
+ * const preview = await reverter.revert({ operationId: 'cm4x...' }, { dryRun: true });
+ * console.log(preview.plan.steps, preview.plan.conflicts);
+ *
+ * const result = await provider.runAsync({ actor: supportAgent }, () =>
+ *   reverter.revert({ aggregate: { type: 'Order', id: 'order-123' }, createdAt: { from: yesterday } }),
+ * );
+ * if (result.status === 'refused') {
+ *   console.warn(result.plan.conflicts);
+ * }
+ * ```
+ */
+
+import { AUDIT_ACTION, createAggregateConfig } from '@kuruwic/prisma-audit-core';
+import type {
+  DMMFModel,
+  ModelClient,
+  PrismaClientWithDynamicAccess,
+  TransactionalPrismaClient,
+} from '../internal-types.js';
+import { createAuditLogReader } from '../reader/index.js';
+import type { AuditLogQuery, StoredAuditLog } from '../reader/types.js';
+import { getModelAccessor } from '../utils/model-accessor.js';
+import { getPrisma, type PrismaWithDMMF } from '../utils/schema-metadata.js';
+import { planRevert } from './plan.js';
+import type {
+  AuditReverter,
+  AuditReverterOptions,
+  RevertResult,
+  RevertSchema,
+  RevertStep,
+  RevertTarget,
+} from './types.js';
+
+export { planRevert } from './plan.js';
+export type {
+  AuditReverter,
+  AuditReverterOptions,
+  RevertConflict,
+  RevertOptions,
+  RevertPlan,
+  RevertResult,
+  RevertSchema,
+  RevertStep,
+  RevertTarget,
+} from './types.js';
+
+const DEFAULT_MAX_TAKE = 500;
+
+/**
+ * Schema lookups backed by the aggregate mapping and Prisma DMMF
+ *
+ * @internal
+ */
+export const createRevertSchema = (
+  aggregateMapping: AuditReverterOptions['aggregateMapping'],
+  Prisma: PrismaWithDMMF,
+): RevertSchema => {
+  const aggregateConfig = createAggregateConfig(aggregateMapping);
+
+  const findModel = (model: string): DMMFModel => {
+    const found = Prisma.dmmf?.datamodel?.models?.find((m) => m.name === model);
+    if (!found) {
+      throw new Error(`[@prisma-audit] Model "${model}" not found in DMMF`);
+    }
+    return found;
+  };
+
+  return {
+    resolveModel: (entityType) =>
+      aggregateConfig
+        .getAllLoggableModels()
+        .find((model) => aggregateConfig.getEntityConfig(model)?.type === entityType),
+
+    buildWhere: (model, record) => {
+      const dmmfModel = findModel(model);
+      const compound = dmmfModel.primaryKey?.fields ?? [];
+      if (compound.length > 0) {
+        const keyName = dmmfModel.primaryKey?.name ?? compound.join('_');
+        return { [keyName]: Object.fromEntries(compound.map((field) => [field, record[field]])) };
+      }
+      const idField = dmmfModel.fields.find((field) => field.isId);
+      if (!idField) {
+        throw new Error(`[@prisma-audit] Model "${model}" has no primary key and cannot be reverted`);
+      }
+      return { [idField.name]: record[idField.name] };
+    },
+
+    getWritableFields: (model) => {
+      return findModel(model)
+        .fields.filter((field) => field.kind === 'scalar' || field.kind === 'enum')
+        .map((field) => field.name);
+    },
+  };
+};
+
+/**
+ * Creates a reverter that undoes audited changes with compensating writes
+ *
+ * @param prisma - Audited Prisma client (from `createAuditClient`), so reverting writes are audited
+ * @param options - Reverter options
+ * @returns Audit reverter
+ * @throws Error if the audit log model is not available on the client
+ *
+ * @remarks
+ * Applying a plan requires an active audit context: the current actor is recorded as the
+ * one performing the revert.
+ */
+export const createAuditReverter = (prisma: unknown, options: AuditReverterOptions): AuditReverter => {
+  const { provider, aggregateMapping } = options;
+  const client = prisma as PrismaClientWithDynamicAccess;
+  const maxTake = options.maxTake ?? DEFAULT_MAX_TAKE;
+  const reader = createAuditLogReader(prisma, {
+    auditLogModel: options.auditLogModel,
+    aggregateMapping,
+    maxTake,
+    keyStore: options.keyStore,
+  });
+  const schema = createRevertSchema(aggregateMapping, (options.Prisma ?? getPrisma(client)) as PrismaWithDMMF);
+
+  const collect = async (query: Omit<AuditLogQuery, 'cursor'>): Promise<StoredAuditLog[]> => {
+    const logs: StoredAuditLog[] = [];
+    for await (const log of reader.iterate({ ...query, order: 'asc', take: maxTake })) {
+      logs.push(log);
+    }
+    return logs;
+  };
+
+  const loadTargets = async (target: RevertTarget): Promise<StoredAuditLog[]> => {
+    if ('logId' in target) {
+      const log = await reader.findById(target.logId);
+      if (!log) {
+        throw new Error(`[@prisma-audit] Audit log "${target.logId}" not found`);
+      }
+      return [log];
+    }
+    if ('operationId' in target) {
+      return collect({ operationId: target.operationId });
+    }
+    return collect({ aggregate: target.aggregate, createdAt: target.createdAt });
+  };
+
+  /**
+   * Load every log for the targeted entities from their earliest targeted change onward
+   */
+  const loadHistory = async (targets: readonly StoredAuditLog[]): Promise<StoredAuditLog[]> => {
+    const earliestByEntity = new Map<string, StoredAuditLog>();
+    for (const log of targets) {
+      const key = `${log.entityType}:${log.entityId}`;
+      const current = earliestByEntity.get(key);
+      if (!current || log.createdAt < current.createdAt) {
+        earliestByEntity.set(key, log);
+      }
+    }
+
+    const history: StoredAuditLog[] = [];
+    for (const log of earliestByEntity.values()) {
+      history.push(
+        ...(await collect({
+          entity: { type: log.entityType, id: log.entityId },
+          createdAt: { from: log.createdAt },
+        })),
+      );
+    }
+    return history;
+  };
+
+  const applySteps = async (steps: readonly RevertStep[]): Promise<void> => {
+    const context = provider.getContext();
+    if (!context) {
+      throw new Error('[@prisma-audit] Reverting requires an active audit context to record who performed the revert');
+    }
+
+    await provider.runAsync({ ...context, _auditAction: AUDIT_ACTION.REVERT }, () =>
+      client.$transaction(async (tx: TransactionalPrismaClient) => {
+        for (const step of steps) {
+          const delegate = tx[getModelAccessor(client, step.model)] as ModelClient | undefined;
+          if (typeof delegate?.[step.operation] !== 'function') {
+            throw new Error(`[@prisma-audit] Model "${step.model}" not found on the Prisma client`);
+          }
+          await (delegate as Record<RevertStep['operation'], (args: unknown) => Promise<unknown>>)[step.operation](
+            step.args,
+          );
+        }
+      }),
+    );
+  };
+
+  return {
+    plan: (targets, history) => planRevert(targets, history, schema),
+
+    revert: async (target, revertOptions = {}): Promise<RevertResult> => {
+      const targets = await loadTargets(target);
+      const plan = planRevert(targets, await loadHistory(targets), schema);
+
+      if (revertOptions.dryRun) {
+        return { status: 'planned', plan };
+      }
+      if (plan.conflicts.length > 0) {
+        return { status: 'refused', plan };
+      }
+
+      await applySteps(plan.steps);
+      return { status: 'applied', plan };
+    },
+  };
+};
@@ -0,0 +1,314 @@
+/**
+ * Revert Planning
+ *
+ * Turns stored audit logs into the inverse Prisma writes:
+ * - create → delete (located by the `after` snapshot)
+ * - delete → create (re-created from the `before` snapshot)
+ * - update → update (fields restored from `changes[field].old`)
+ *
+ * Planning is pure: it never touches the database, so the same plan is returned for
+ * dry runs and checked for conflicts before anything is written.
+ *
+ * @module revert/plan
+ */
+
+import {
+  AUDIT_ACTION,
+  changeKey,
+  collapseFanOut,
+  getEncryptedColumns,
+  getRedactedFieldPaths,
+  isRedactedFieldInfo,
+} from '@kuruwic/prisma-audit-core';
+import type { StoredAuditLog } from '../reader/types.js';
+import type { RevertConflict, RevertPlan, RevertSchema, RevertStep } from './types.js';
+
+type InverseOperation = RevertStep['operation'];
+
+/** @internal */
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+};
+
+/**
+ * Key identifying one entity change across its fan-out rows
+ *
+ * @internal
+ */
+const entityChangeKey = (log: StoredAuditLog): string => `${log.entityType}:${log.entityId}:${changeKey(log)}`;
+
+/**
+ * Whether a value is, or contains, a redaction placeholder
+ *
+ * @internal
+ */
+const containsRedactedValue = (value: unknown): boolean => {
+  if (isRedactedFieldInfo(value)) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some(containsRedactedValue);
+  }
+  return isRecord(value) && Object.values(value).some(containsRedactedValue);
+};
+
+/**
+ * Whether a log records a change; `read` logs have nothing to revert and never conflict
+ *
+ * @internal
+ */
+const isChange = (log: StoredAuditLog): boolean => log.action !== AUDIT_ACTION.READ;
+
+/** @internal */
+const changedFields = (log: StoredAuditLog): string[] => (isRecord(log.changes) ? Object.keys(log.changes) : []);
+
+/**
+ * Inverse write for a logged action
+ *
+ * @remarks
+ * `revert` logs are classified by their snapshots so a revert can itself be reverted.
+ *
+ * @internal
+ */
+const inverseOperation = (log: StoredAuditLog): InverseOperation | undefined => {
+  switch (log.action) {
+    case AUDIT_ACTION.CREATE:
+    case AUDIT_ACTION.CREATE_MANY:
+    case AUDIT_ACTION.CREATE_MANY_AND_RETURN:
+      return 'delete';
+    case AUDIT_ACTION.DELETE:
+    case AUDIT_ACTION.DELETE_MANY:
+      return 'create';
+    case AUDIT_ACTION.UPDATE:
+    case AUDIT_ACTION.UPDATE_MANY:
+    case AUDIT_ACTION.UPDATE_MANY_AND_RETURN:
+    case AUDIT_ACTION.UPSERT:
+      return 'update';
+    case AUDIT_ACTION.REVERT:
+      if (log.before === null) return isRecord(log.after) ? 'delete' : undefined;
+      if (log.after === null) return isRecord(log.before) ? 'create' : undefined;
+      return 'update';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Changes outside the revert set that make the inverse write unsafe
+ *
+ * @remarks
+ * Updates conflict only when a later update touched one of the restored fields.
+ * Deleting or re-creating an entity conflicts with any later change to it.
+ *
+ * @internal
+ */
+const findLaterConflicts = (
+  log: StoredAuditLog,
+  operation: InverseOperation,
+  later: readonly StoredAuditLog[],
+): RevertConflict[] => {
+  const restored = new Set(changedFields(log));
+  const conflicts: RevertConflict[] = [];
+
+  for (const other of later) {
+    // Encrypted changes hide the fields they touched, so assume they touched every restored one
+    const otherFields = getEncryptedColumns(other).includes('changes') ? [...restored] : changedFields(other);
+    const isFieldLevel = operation === 'update' && inverseOperation(other) === 'update';
+    const fields = isFieldLevel ? otherFields.filter((field) => restored.has(field)) : otherFields;
+    if (isFieldLevel && fields.length === 0) {
+      continue;
+    }
+    conflicts.push({
+      _tag: 'LaterChange',
+      sourceLogId: log.id,
+      entityType: log.entityType,
+      entityId: log.entityId,
+      laterLogId: other.id,
+      laterAction: other.action,
+      laterAt: other.createdAt,
+      fields,
+    });
+  }
+
+  return conflicts;
+};
+
+/**
+ * Report redacted values among the fields to write
+ *
+ * @remarks
+ * Covers redaction markers and fields whose value, or part of it, is listed in
+ * `entityContext.redactedFields` because a masking strategy stored it.
+ *
+ * @internal
+ */
+const findRedactedValues = (log: StoredAuditLog, data: Record<string, unknown>): RevertConflict[] => {
+  const maskedFields = new Set(getRedactedFieldPaths(log.entityContext).map((path) => path.split('.')[0]));
+  return Object.entries(data)
+    .filter(([field, value]) => maskedFields.has(field) || containsRedactedValue(value))
+    .map(([field]) => ({
+      _tag: 'RedactedValue' as const,
+      sourceLogId: log.id,
+      entityType: log.entityType,
+      entityId: log.entityId,
+      field,
+    }));
+};
+
+/**
+ * Data written by the inverse operation, or null when the log lacks it
+ *
+ * @internal
+ */
+const buildData = (
+  log: StoredAuditLog,
+  operation: InverseOperation,
+  writableFields: readonly string[] | undefined,
+): Record<string, unknown> | null | undefined => {
+  if (operation === 'delete') {
+    return undefined;
+  }
+  if (operation === 'create') {
+    if (!isRecord(log.before)) return null;
+    const before = log.before;
+    const fields = writableFields ?? Object.keys(before);
+    return Object.fromEntries(fields.filter((field) => field in before).map((field) => [field, before[field]]));
+  }
+  if (!isRecord(log.changes)) return null;
+  const data: Record<string, unknown> = {};
+  for (const [field, change] of Object.entries(log.changes)) {
+    if (isRecord(change) && 'old' in change) {
+      data[field] = change.old;
+    }
+  }
+  return Object.keys(data).length > 0 ? data : null;
+};
+
+/**
+ * Snapshot identifying the record the inverse operation targets
+ *
+ * @internal
+ */
+const locatingSnapshot = (log: StoredAuditLog, operation: InverseOperation): unknown => {
+  if (operation === 'create') return undefined;
+  return isRecord(log.after) ? log.after : log.before;
+};
+
+/**
+ * Build the inverse write for one change
+ *
+ * @internal
+ */
+const buildStep = (
+  log: StoredAuditLog,
+  operation: InverseOperation,
+  model: string,
+  schema: RevertSchema,
+): { step?: RevertStep; conflicts: RevertConflict[] } => {
+  const encrypted = getEncryptedColumns(log);
+  if (encrypted.length > 0) {
+    return {
+      conflicts: [
+        {
+          _tag: 'EncryptedPayload',
+          sourceLogId: log.id,
+          entityType: log.entityType,
+          entityId: log.entityId,
+          columns: encrypted,
+        },
+      ],
+    };
+  }
+
+  const missing: RevertConflict = {
+    _tag: 'MissingSnapshot',
+    sourceLogId: log.id,
+    entityType: log.entityType,
+    entityId: log.entityId,
+  };
+  const data = buildData(log, operation, schema.getWritableFields(model));
+  const locator = locatingSnapshot(log, operation);
+  if (data === null || (operation !== 'create' && !isRecord(locator))) {
+    return { conflicts: [missing] };
+  }
+
+  const redacted = data ? findRedactedValues(log, data) : [];
+  if (redacted.length > 0) {
+    return { conflicts: redacted };
+  }
+
+  return {
+    step: {
+      sourceLogId: log.id,
+      entityType: log.entityType,
+      entityId: log.entityId,
+      model,
+      operation,
+      args: {
+        ...(isRecord(locator) && { where: schema.buildWhere(model, locator) }),
+        ...(data && { data }),
+      },
+    },
+    conflicts: [],
+  };
+};
+
+/**
+ * Plan the compensating writes that undo a set of audit logs
+ *
+ * @param targets - Logs to revert; fan-out rows for the same change are reverted once, `read` logs are ignored
+ * @param history - Logs for the same entities from the earliest target onward, used for conflict detection
+ * @param schema - Model and key lookups
+ * @returns Steps ordered newest change first, and every conflict found
+ *
+ * @example
+ * ```typescript
+ * const plan = planRevert([log], laterLogs, schema);
+ * if (plan.conflicts.length > 0) {
+ *   console.warn('Cannot revert', plan.conflicts);
+ * }
+ * ```
+ */
+export const planRevert = (
+  targets: readonly StoredAuditLog[],
+  history: readonly StoredAuditLog[],
+  schema: RevertSchema,
+): RevertPlan => {
+  const changes = collapseFanOut(targets.filter(isChange), entityChangeKey).reverse();
+  const revertedKeys = new Set(changes.map(entityChangeKey));
+  const outside = collapseFanOut(history.filter(isChange), entityChangeKey).filter(
+    (log) => !revertedKeys.has(entityChangeKey(log)),
+  );
+
+  const steps: RevertStep[] = [];
+  const conflicts: RevertConflict[] = [];
+
+  for (const log of changes) {
+    const operation = inverseOperation(log);
+    if (!operation) {
+      conflicts.push({ _tag: 'UnsupportedAction', sourceLogId: log.id, action: log.action });
+      continue;
+    }
+    const model = schema.resolveModel(log.entityType);
+    if (!model) {
+      conflicts.push({ _tag: 'UnknownModel', sourceLogId: log.id, entityType: log.entityType });
+      continue;
+    }
+
+    const later = outside.filter(
+      (other) =>
+        other.entityType === log.entityType &&
+        other.entityId === log.entityId &&
+        other.createdAt.getTime() >= log.createdAt.getTime(),
+    );
+    conflicts.push(...findLaterConflicts(log, operation, later));
+
+    const result = buildStep(log, operation, model, schema);
+    conflicts.push(...result.conflicts);
+    if (result.step) {
+      steps.push(result.step);
+    }
+  }
+
+  return { steps, conflicts };
+};
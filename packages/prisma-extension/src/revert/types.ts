@@ -0,0 +1,157 @@
+/**
+ * Audit Reverter Type Definitions
+ *
+ * @module revert/types
+ */
+
+import type {
+  AggregateMapping,
+  AuditContextProvider,
+  AuditKeyStore,
+  EncryptedAuditColumn,
+} from '@kuruwic/prisma-audit-core';
+import type { StoredAuditLog, TimeRangeFilter } from '../reader/types.js';
+
+/**
+ * Options for creating an audit reverter
+ */
+export interface AuditReverterOptions {
+  /** Context provider used by the audit extension; compensating writes run in its current context */
+  provider: AuditContextProvider;
+  /** Aggregate mapping used by the extension, to map entity types back to Prisma models */
+  aggregateMapping: AggregateMapping;
+  /**
+   * Prisma model name for stored audit logs (PascalCase).
+   *
+   * @default 'AuditLog'
+   */
+  auditLogModel?: string;
+  /**
+   * Prisma namespace from your generated client, for primary key and field lookups.
+   * Extracted from the client when omitted (see `PrismaAuditExtensionOptions.Prisma`).
+   */
+  Prisma?: {
+    dmmf: unknown;
+  };
+  /** Upper bound for logs read per page while collecting targets and history. Default: 500 */
+  maxTake?: number;
+  /**
+   * Key store of `serialization.encryption`, to decrypt logs before planning.
+   * Without it, or once a key is destroyed, encrypted logs are refused with `EncryptedPayload`.
+   */
+  keyStore?: AuditKeyStore;
+}
+
+/**
+ * Audit logs to revert
+ *
+ * @remarks
+ * - `logId`: A single change (its fan-out rows for other aggregate roots are reverted with it).
+ * - `operationId`: Every change made by one intercepted Prisma operation.
+ * - `aggregate`: Every change recorded for an aggregate root within a time window.
+ */
+export type RevertTarget =
+  | { logId: string }
+  | { operationId: string }
+  | { aggregate: { type: string; id: string }; createdAt: TimeRangeFilter };
+
+/**
+ * One compensating Prisma write
+ */
+export interface RevertStep {
+  /** Audit log the step undoes */
+  sourceLogId: string;
+  entityType: string;
+  entityId: string;
+  /** Prisma model name */
+  model: string;
+  operation: 'create' | 'update' | 'delete';
+  /** Arguments passed to the model delegate */
+  args: { where?: Record<string, unknown>; data?: Record<string, unknown> };
+}
+
+/**
+ * Reason a change cannot be reverted safely
+ *
+ * @remarks
+ * - `LaterChange`: A change outside the revert set touched the same fields (or recreated/deleted the entity) afterwards.
+ * - `RedactedValue`: The value to restore was redacted or masked (`entityContext.redactedFields`) at write time; placeholders and masks are never written back.
+ * - `EncryptedPayload`: The log's `columns` are still encrypted (no `keyStore` given, or the key was destroyed).
+ * - `MissingSnapshot`: The log lacks the `before`/`after`/`changes` data needed to build the inverse write.
+ * - `UnknownModel`: The entity type is not mapped to a Prisma model in the aggregate mapping.
+ * - `UnsupportedAction`: The logged action has no inverse write.
+ */
+export type RevertConflict =
+  | {
+      _tag: 'LaterChange';
+      sourceLogId: string;
+      entityType: string;
+      entityId: string;
+      laterLogId: string;
+      laterAction: string;
+      laterAt: Date;
+      fields: string[];
+    }
+  | { _tag: 'RedactedValue'; sourceLogId: string; entityType: string; entityId: string; field: string }
+  | {
+      _tag: 'EncryptedPayload';
+      sourceLogId: string;
+      entityType: string;
+      entityId: string;
+      columns: EncryptedAuditColumn[];
+    }
+  | { _tag: 'MissingSnapshot'; sourceLogId: string; entityType: string; entityId: string }
+  | { _tag: 'UnknownModel'; sourceLogId: string; entityType: string }
+  | { _tag: 'UnsupportedAction'; sourceLogId: string; action: string };
+
+/**
+ * Compensating writes for a revert target, newest change first
+ */
+export interface RevertPlan {
+  steps: RevertStep[];
+  /** Reasons the plan cannot be applied; empty when it is safe to apply */
+  conflicts: RevertConflict[];
+}
+
+/**
+ * Options for a revert call
+ */
+export interface RevertOptions {
+  /** Return the plan without writing. Default: false */
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of a revert call
+ *
+ * @remarks
+ * - `planned`: Dry run; nothing was written.
+ * - `applied`: All steps were written in one transaction and audited with the `revert` action.
+ * - `refused`: The plan has conflicts; nothing was written.
+ */
+export interface RevertResult {
+  status: 'planned' | 'applied' | 'refused';
+  plan: RevertPlan;
+}
+
+/**
+ * Schema lookups needed to turn audit logs into Prisma writes
+ */
+export interface RevertSchema {
+  /** Prisma model name for an entity type, or undefined if unmapped */
+  resolveModel: (entityType: string) => string | undefined;
+  /** Build the unique `where` input for a record of the model */
+  buildWhere: (model: string, record: Record<string, unknown>) => Record<string, unknown>;
+  /** Scalar fields that can be written on create, or undefined to keep every field */
+  getWritableFields: (model: string) => readonly string[] | undefined;
+}
+
+/**
+ * Generates and applies compensating writes from audit logs
+ */
+export interface AuditReverter {
+  /** Build the revert plan and, unless `dryRun` or conflicting, apply it */
+  revert: (target: RevertTarget, options?: RevertOptions) => Promise<RevertResult>;
+  /** Build the revert plan for already loaded logs */
+  plan: (targets: readonly StoredAuditLog[], history: readonly StoredAuditLog[]) => RevertPlan;
+}
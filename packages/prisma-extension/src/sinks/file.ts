@@ -0,0 +1,92 @@
+/**
+ * Rotating NDJSON File Sink
+ *
+ * @module sinks/file
+ */
+
+import { appendFile, mkdir, rename, rm, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { safeStringify } from '@kuruwic/prisma-audit-core';
+import type { AuditSink, NdjsonFileSinkOptions } from './types.js';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+/**
+ * Current size of a file, or 0 when it does not exist yet
+ *
+ * @internal
+ */
+const fileSize = async (filePath: string): Promise<number> => {
+  try {
+    return (await stat(filePath)).size;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Shift `file.N-1` → `file.N` … `file` → `file.1`, dropping the oldest file
+ *
+ * @internal
+ */
+const rotate = async (filePath: string, maxFiles: number): Promise<void> => {
+  await rm(`${filePath}.${maxFiles}`, { force: true });
+  for (let index = maxFiles - 1; index >= 1; index--) {
+    await rename(`${filePath}.${index}`, `${filePath}.${index + 1}`).catch(() => undefined);
+  }
+  if (maxFiles > 0) {
+    await rename(filePath, `${filePath}.1`);
+  } else {
+    await rm(filePath, { force: true });
+  }
+};
+
+/**
+ * Append audit logs to a file as newline-delimited JSON, rotating it by size
+ *
+ * Each log is one JSON line (dates as ISO strings, BigInt as strings). Writes are
+ * serialized, so concurrent batches never interleave. A batch larger than `maxBytes`
+ * is written to a fresh file rather than split.
+ *
+ * @example
+ * ```typescript
+ * const sink = createNdjsonFileSink({ filePath: '/var/log/audit/audit.ndjson', maxBytes: 50_000_000 });
+ * ```
+ */
+export const createNdjsonFileSink = (options: NdjsonFileSinkOptions): AuditSink => {
+  const { filePath } = options;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+
+  let size: number | undefined;
+  let queue: Promise<void> = Promise.resolve();
+
+  const append = async (chunk: string): Promise<void> => {
+    if (size === undefined) {
+      await mkdir(dirname(filePath), { recursive: true });
+      size = await fileSize(filePath);
+    }
+    const bytes = Buffer.byteLength(chunk, 'utf8');
+    if (size > 0 && size + bytes > maxBytes) {
+      await rotate(filePath, maxFiles);
+      size = 0;
+    }
+    await appendFile(filePath, chunk, 'utf8');
+    size += bytes;
+  };
+
+  return {
+    name: `ndjson-file:${filePath}`,
+    write: (logs) => {
+      const chunk = logs.map((log) => `${safeStringify(log)}\n`).join('');
+      const write = queue.then(() => append(chunk));
+      // Keep the chain alive after a failure; the caller still sees the rejection
+      queue = write.catch(() => {
+        size = undefined;
+      });
+      return write;
+    },
+    close: () => queue,
+  };
+};
@@ -0,0 +1,83 @@
+/**
+ * Audit Sinks
+ *
+ * Destinations for audit logs besides the Prisma model: a rotating NDJSON file, structured
+ * stdout lines for log shippers, and an HTTP webhook. `createFanOutWriter` combines the
+ * database and any number of sinks into one `hooks.writer`.
+ *
+ * @module sinks
+ *
+ * @example
+ * ```typescript
+ * const extension = createAuditLogExtension({
+ *   // ...
+ *   hooks: {
+ *     writer: createFanOutWriter({
+ *       sinks: [
+ *         createNdjsonFileSink({ filePath: '/var/log/audit/audit.ndjson' }),
+ *         createWebhookSink({ url: 'https://siem.example.com/audit', secret }),
+ *       ],
+ *     }),
+ *   },
+ * });
+ * ```
+ */
+
+import type { AuditLogWriter } from '../types.js';
+import type { AuditSink, FanOutWriterOptions } from './types.js';
+
+export { createNdjsonFileSink } from './file.js';
+export { createStdoutSink } from './stdout.js';
+export type {
+  AuditSink,
+  FanOutWriterOptions,
+  NdjsonFileSinkOptions,
+  StdoutSinkOptions,
+  WebhookRetryConfig,
+  WebhookSinkOptions,
+} from './types.js';
+export { createWebhookSink, signWebhookPayload } from './webhook.js';
+
+/** @internal */
+const defaultSinkErrorHandler = (error: Error, sink: AuditSink): void => {
+  console.error(`[@prisma-audit] Audit sink "${sink.name}" failed:`, error.message);
+};
+
+/**
+ * Create a writer that sends every batch to the database and to each sink in parallel
+ *
+ * @remarks
+ * Sinks are isolated from each other and from the database: a failing sink is reported
+ * to `onSinkError` and never fails the write or the other sinks. The writer resolves once
+ * every destination has settled, so the write strategy (`awaitWrite`, buffering, outbox)
+ * decides whether the operation waits for the sinks too.
+ *
+ * @throws Error from `defaultWrite` when the database write fails
+ */
+export const createFanOutWriter = (options: FanOutWriterOptions): AuditLogWriter => {
+  const onSinkError = options.onSinkError ?? defaultSinkErrorHandler;
+  const writeDatabase = options.database ?? true;
+
+  return async (logs, context, defaultWrite) => {
+    const deliverToSink = async (sink: AuditSink): Promise<void> => {
+      try {
+        await sink.write(logs, context);
+      } catch (caughtError) {
+        const error = caughtError instanceof Error ? caughtError : new Error(String(caughtError));
+        try {
+          await onSinkError(error, sink, logs);
+        } catch {
+          // Error handlers must not break isolation
+        }
+      }
+    };
+
+    const [database] = await Promise.allSettled([
+      writeDatabase ? defaultWrite(logs) : Promise.resolve(),
+      ...options.sinks.map(deliverToSink),
+    ]);
+    if (database?.status === 'rejected') {
+      throw database.reason;
+    }
+  };
+};
@@ -0,0 +1,42 @@
+/**
+ * Structured Stdout Sink
+ *
+ * @module sinks/stdout
+ */
+
+import { safeStringify } from '@kuruwic/prisma-audit-core';
+import type { AuditSink, StdoutSinkOptions } from './types.js';
+
+/**
+ * Print audit logs as one JSON object per line for log shippers (Fluent Bit, Vector, Datadog)
+ *
+ * Each line has a `timestamp`, `level: 'info'`, `type: 'audit_log'` and a readable
+ * `message`, followed by the static `fields` and the audit log columns.
+ *
+ * @example
+ * ```typescript
+ * const sink = createStdoutSink({ fields: { service: 'billing' } });
+ * // {"timestamp":"2026-01-01T00:00:00.000Z","level":"info","type":"audit_log",
+ * //  "message":"update Post post-1 by User user-1","service":"billing","actorCategory":"model",...}
+ * ```
+ */
+export const createStdoutSink = (options: StdoutSinkOptions = {}): AuditSink => {
+  const stream = options.stream ?? process.stdout;
+
+  return {
+    name: 'stdout',
+    write: async (logs) => {
+      const lines = logs.map((log) =>
+        safeStringify({
+          timestamp: log.createdAt,
+          level: 'info',
+          type: 'audit_log',
+          message: `${log.action} ${log.entityType} ${log.entityId} by ${log.actorType} ${log.actorId}`,
+          ...options.fields,
+          ...log,
+        }),
+      );
+      stream.write(`${lines.join('\n')}\n`);
+    },
+  };
+};
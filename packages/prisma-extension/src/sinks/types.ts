@@ -0,0 +1,106 @@
+/**
+ * Audit Sink Type Definitions
+ *
+ * @module sinks/types
+ */
+
+import type { AuditContext } from '@kuruwic/prisma-audit-core';
+import type { AuditLogData } from '../types.js';
+
+/**
+ * Destination for audit logs outside the database
+ *
+ * Sinks receive the same batches as an `AuditLogWriter`; combine them with the
+ * database through `createFanOutWriter`.
+ */
+export interface AuditSink {
+  /** Sink name, used in error reports */
+  readonly name: string;
+  /**
+   * Deliver one batch of logs
+   *
+   * @throws Error when the batch could not be delivered
+   */
+  write(logs: AuditLogData[], context: AuditContext): Promise<void>;
+  /** Release resources (open files, pending batches); called on shutdown */
+  close?(): Promise<void>;
+}
+
+/**
+ * Options for the rotating NDJSON file sink
+ */
+export interface NdjsonFileSinkOptions {
+  /** Active file; rotated files get a numeric suffix (`audit.ndjson.1` is the newest) */
+  filePath: string;
+  /** Rotate before a write would grow the file past this size. Default: 10485760 (10 MiB) */
+  maxBytes?: number;
+  /** Rotated files kept besides the active one; older files are deleted. Default: 5 */
+  maxFiles?: number;
+}
+
+/**
+ * Options for the structured stdout sink
+ */
+export interface StdoutSinkOptions {
+  /** Target stream. Default: `process.stdout` */
+  stream?: { write(chunk: string): unknown };
+  /** Static fields added to every line, e.g. `{ service: 'billing' }` */
+  fields?: Record<string, unknown>;
+}
+
+/**
+ * Retry policy for webhook deliveries
+ *
+ * Network errors, `429` and `5xx` responses are retried after
+ * `min(baseDelayMs * 2^(n - 1), maxDelayMs)`; other responses fail at once.
+ */
+export interface WebhookRetryConfig {
+  /** Attempts per batch, including the first. Default: 3 */
+  maxAttempts?: number;
+  /** Delay after the first failure. Default: 500 */
+  baseDelayMs?: number;
+  /** Upper bound of the delay. Default: 10000 */
+  maxDelayMs?: number;
+}
+
+/**
+ * Options for the HTTP webhook sink
+ */
+export interface WebhookSinkOptions {
+  /** Endpoint receiving `POST` requests with a JSON body `{ logs, context }` */
+  url: string;
+  /**
+   * Shared secret for HMAC-SHA256 request signing.
+   *
+   * @remarks
+   * When set, each request carries `x-audit-timestamp` and
+   * `x-audit-signature: sha256=<hex>` computed over `<timestamp>.<body>`.
+   */
+  secret?: string;
+  /** Extra request headers, e.g. an authorization header */
+  headers?: Record<string, string>;
+  /** Logs per request; larger batches are split. Default: 100 */
+  batchSize?: number;
+  /** Per-request timeout. Default: 10000 */
+  timeoutMs?: number;
+  retry?: WebhookRetryConfig;
+  /** Fetch implementation. Default: global `fetch` */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Options for combining the database and sinks
+ */
+export interface FanOutWriterOptions {
+  /** Sinks receiving every batch */
+  sinks: readonly AuditSink[];
+  /**
+   * Whether to write to the audit log table through `defaultWrite`. Default: true
+   *
+   * @remarks
+   * Database errors propagate to the write strategy like they do without sinks.
+   */
+  database?: boolean;
+  /** Called when a sink fails. Default: logs to `console.error` */
+  onSinkError?: (error: Error, sink: AuditSink, logs: AuditLogData[]) => void | Promise<void>;
+}
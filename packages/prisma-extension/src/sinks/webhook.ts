@@ -0,0 +1,126 @@
+/**
+ * HTTP Webhook Sink
+ *
+ * @module sinks/webhook
+ */
+
+import { createHmac, randomUUID } from 'node:crypto';
+import { safeStringify, serializeForAuditJson } from '@kuruwic/prisma-audit-core';
+import type { AuditLogData } from '../types.js';
+import type { AuditSink, WebhookSinkOptions } from './types.js';
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+
+/**
+ * Delivery failure that should not be retried
+ *
+ * @internal
+ */
+class PermanentDeliveryError extends Error {}
+
+/**
+ * Compute the signature header value for a webhook request
+ *
+ * Receivers verify a request by recomputing it from the raw body and the
+ * `x-audit-timestamp` header, and comparing it in constant time.
+ *
+ * @example
+ * ```typescript
+ * const expected = signWebhookPayload(secret, req.headers['x-audit-timestamp'], rawBody);
+ * crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(req.headers['x-audit-signature']));
+ * ```
+ */
+export const signWebhookPayload = (secret: string, timestamp: string, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/** @internal */
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** @internal */
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+};
+
+/**
+ * POST audit logs to an HTTP endpoint
+ *
+ * Batches are split into requests of `batchSize` logs, sent one after another. Every request
+ * carries an `x-audit-delivery` id that stays the same across retries, so receivers can
+ * drop duplicates. The sink rejects once a request has exhausted its retries.
+ *
+ * @example
+ * ```typescript
+ * const sink = createWebhookSink({
+ *   url: 'https://siem.example.com/audit',
+ *   secret: process.env.AUDIT_WEBHOOK_SECRET,
+ *   retry: { maxAttempts: 5 },
+ * });
+ * ```
+ */
+export const createWebhookSink = (options: WebhookSinkOptions): AuditSink => {
+  const fetchFn = options.fetch ?? fetch;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxAttempts = options.retry?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.retry?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.retry?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  const send = async (body: string, deliveryId: string): Promise<void> => {
+    const timestamp = String(Date.now());
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      'x-audit-delivery': deliveryId,
+      'x-audit-timestamp': timestamp,
+      ...options.headers,
+    };
+    if (options.secret) {
+      headers['x-audit-signature'] = signWebhookPayload(options.secret, timestamp, body);
+    }
+
+    const response = await fetchFn(options.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (response.ok) {
+      return;
+    }
+    const message = `[@prisma-audit] Webhook ${options.url} responded with ${response.status}`;
+    throw response.status === 429 || response.status >= 500 ? new Error(message) : new PermanentDeliveryError(message);
+  };
+
+  const deliver = async (body: string): Promise<void> => {
+    const deliveryId = randomUUID();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await send(body, deliveryId);
+        return;
+      } catch (error) {
+        if (error instanceof PermanentDeliveryError || attempt >= maxAttempts) {
+          throw error;
+        }
+        await sleep(Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs));
+      }
+    }
+  };
+
+  return {
+    name: `webhook:${options.url}`,
+    write: async (logs, context) => {
+      const sentContext = { actor: context.actor, ...(context.request && { request: context.request }) };
+      for (const batch of chunk<AuditLogData>(logs, batchSize)) {
+        const body = safeStringify(serializeForAuditJson({ logs: batch, context: sentContext })) as string;
+        await deliver(body);
+      }
+    },
+  };
+};
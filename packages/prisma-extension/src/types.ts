@@ -53,6 +53,19 @@ export interface AuditLogInput {
   // === Request Context ===
   requestContext: unknown;
   createdAt: Date;
+
+  // === Correlation ===
+  operationId?: string | null;
+  transactionId?: string | null;
+
+  // === Impersonation / Delegation ===
+  impersonatorCategory?: string | null;
+  impersonatorType?: string | null;
+  impersonatorId?: string | null;
+  onBehalfOfCategory?: string | null;
+  onBehalfOfType?: string | null;
+  onBehalfOfId?: string | null;
+  delegationContext?: unknown;
 }
 
 /**
@@ -78,6 +91,8 @@ export interface DiffingConfig {
 export interface SecurityConfig {
   /** Redaction configuration for sensitive fields */
   redact?: import('@kuruwic/prisma-audit-core').RedactConfig;
+  /** Redact fields marked with `/// @audit.redact` in the Prisma schema. Default: true */
+  schemaRedaction?: boolean;
 }
 
 /**
@@ -92,6 +107,11 @@ export interface PerformanceConfig {
   awaitWriteIf?: (modelName: string, tags: string[]) => boolean;
   /** Dynamic sampling rate based on model name and tags */
   samplingIf?: (modelName: string, tags: string[]) => number;
+  /**
+   * Batch non-awaited writes outside transactions across operations (see `createBufferedWriter`).
+   * Keep a reference to call `flush()`, `close()` or `getStats()`.
+   */
+  buffer?: import('@kuruwic/prisma-audit-core').BufferedWriter;
 }
 
 /**
@@ -122,6 +142,92 @@ export interface NestedOperationsConfig {
   delete?: { fetchBeforeOperation?: boolean };
 }
 
+/**
+ * Raw SQL auditing configuration
+ */
+export interface RawQueriesConfig {
+  /** Audit INSERT/UPDATE/DELETE statements run with `$executeRaw(Unsafe)` and `$queryRaw(Unsafe)`. Default: false */
+  enabled?: boolean;
+  /**
+   * How raw writes are logged:
+   * - `'entity'`: Pre-fetch the rows matching a translatable WHERE clause and log each entity like
+   *   `updateMany`/`deleteMany`. INSERTs and untranslatable statements fall back to `'table'`.
+   * - `'table'`: Log one `raw` event per statement with its fingerprint and affected row count.
+   *
+   * @default 'entity'
+   */
+  mode?: 'entity' | 'table';
+}
+
+/**
+ * Referential action auditing configuration
+ */
+export interface CascadeAuditConfig {
+  /**
+   * Log rows that a `delete`/`deleteMany` removes through `onDelete: Cascade` (as `delete`) or
+   * nulls through `onDelete: SetNull` (as `update`). They are pre-fetched before the delete. Default: false
+   */
+  enabled?: boolean;
+  /** Levels of referencing rows to follow; direct children are level 1. Default: 5 */
+  maxDepth?: number;
+}
+
+/**
+ * Tamper-evident hash chain configuration
+ */
+export interface IntegrityConfig {
+  /**
+   * Write `chainKey`, `chainSequence`, `hash` and `previousHash` with every audit log,
+   * linking each row to the previous row of its chain. Default: false
+   */
+  enabled?: boolean;
+  /**
+   * How rows are partitioned into chains:
+   * - `'aggregate'`: One chain per aggregate root
+   * - `'global'`: One chain over all rows (every write contends for the same head)
+   *
+   * @default 'aggregate'
+   */
+  scope?: import('@kuruwic/prisma-audit-core').HashChainScope;
+}
+
+/**
+ * Transactional outbox configuration
+ */
+export interface OutboxConfig {
+  /**
+   * Store logs that would be deferred inside a transaction (`awaitWrite: false`) in the outbox
+   * model as part of the transaction, instead of writing them from memory after the callback.
+   * Deliver them with `createOutboxRelay`; with `hooks.writer`, pass the same function as the
+   * relay's `writer`. Default: false
+   */
+  enabled?: boolean;
+  /**
+   * Prisma model name of the outbox (PascalCase)
+   *
+   * @default 'AuditOutbox'
+   */
+  model?: string;
+}
+
+/**
+ * Handling of writes to audited models made without an audit context
+ */
+export interface MissingContextConfig {
+  /**
+   * Default handling for every model; `defineEntity({ missingContext })` overrides it per model
+   *
+   * @default 'skip'
+   */
+  mode?: import('@kuruwic/prisma-audit-core').MissingContextMode;
+  /**
+   * Actor recorded in `'system'` mode
+   *
+   * @default { category: 'system', type: 'Unknown', id: 'unknown' }
+   */
+  actor?: import('@kuruwic/prisma-audit-core').AuditActor;
+}
+
 /**
  * Audit error handler callback
  */
@@ -188,6 +294,12 @@ export interface PrismaAuditExtensionOptions {
   hooks?: HooksConfig;
   contextEnricher?: GlobalContextEnricherConfig;
   nestedOperations?: NestedOperationsConfig;
+  rawQueries?: RawQueriesConfig;
+  cascades?: CascadeAuditConfig;
+  integrity?: IntegrityConfig;
+  outbox?: OutboxConfig;
+  /** Handling of writes without an audit context, as a mode or full configuration. Default: `'skip'` */
+  missingContext?: import('@kuruwic/prisma-audit-core').MissingContextMode | MissingContextConfig;
   onAuditErrorHandler?: OnAuditErrorHandler;
   /** Custom serialization for non-JSON-safe types (BigInt, Date are handled by default) */
   serialization?: import('@kuruwic/prisma-audit-core').SerializationConfig;
@@ -196,7 +308,16 @@ export interface PrismaAuditExtensionOptions {
 /**
  * Prisma operation actions
  */
-export type PrismaAction = 'create' | 'update' | 'upsert' | 'delete' | 'createMany' | 'updateMany' | 'deleteMany';
+export type PrismaAction =
+  | 'create'
+  | 'update'
+  | 'upsert'
+  | 'delete'
+  | 'createMany'
+  | 'updateMany'
+  | 'deleteMany'
+  | 'createManyAndReturn'
+  | 'updateManyAndReturn';
 
 /**
  * Prisma operation context
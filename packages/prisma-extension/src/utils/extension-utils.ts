@@ -7,7 +7,8 @@
  * @module extension-utils
  */
 
-import { SUPPORTED_OPERATIONS } from '@kuruwic/prisma-audit-core';
+import type { ReadAuditConfig, ReadOperation } from '@kuruwic/prisma-audit-core';
+import { READ_OPERATIONS, SUPPORTED_OPERATIONS } from '@kuruwic/prisma-audit-core';
 
 import type { PrismaAction } from '../types.js';
 import { ENTITY_IDENTITY_DEFAULT, extractEntityIdentity } from './id-generator.js';
@@ -51,6 +52,22 @@ export const isAuditableAction = (operation: string): operation is PrismaAction
   return SUPPORTED_OPERATIONS.has(operation as PrismaAction);
 };
 
+/**
+ * Type guard to check if an operation is a read that can be audited via `auditReads`
+ *
+ * @param operation - The Prisma operation name
+ * @returns True for findUnique, findFirst, findMany and their OrThrow variants
+ *
+ * @example
+ * ```typescript
+ * isReadOperation('findMany');   // => true
+ * isReadOperation('count');      // => false
+ * ```
+ */
+export const isReadOperation = (operation: string): operation is ReadOperation => {
+  return READ_OPERATIONS.has(operation as ReadOperation);
+};
+
 /**
  * Extracts entity ID from delete operation data
  *
@@ -216,3 +233,43 @@ export const shouldAuditModel = (
 
   return true;
 };
+
+/**
+ * Determines if a read operation should be audited
+ *
+ * Applies the same recursion and self-reference checks as {@link shouldAuditModel},
+ * then the entity's `auditReads` operation filter and sampling rate.
+ *
+ * @param modelName - The model name
+ * @param operation - The read operation
+ * @param context - Audit context
+ * @param auditLogModel - The audit log model name (lowercase)
+ * @param readConfig - The entity's `auditReads` configuration, if any
+ * @returns True if the read should be audited
+ *
+ * @example
+ * ```typescript
+ * const should = shouldAuditRead('Patient', 'findMany', context, 'auditLog', entityConfig.auditReads);
+ * ```
+ */
+export const shouldAuditRead = (
+  modelName: string | undefined,
+  operation: ReadOperation,
+  context: { _isProcessingAuditLog?: boolean } | undefined,
+  auditLogModel: string,
+  readConfig: ReadAuditConfig | undefined,
+): boolean => {
+  if (!modelName || !context || !readConfig) {
+    return false;
+  }
+
+  if (isProcessingAuditLog(context) || isAuditLogModel(modelName, auditLogModel)) {
+    return false;
+  }
+
+  if (readConfig.operations && !readConfig.operations.includes(operation)) {
+    return false;
+  }
+
+  return shouldSample(readConfig.sampling ?? 1);
+};
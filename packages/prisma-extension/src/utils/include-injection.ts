@@ -5,7 +5,9 @@
  * nested write operations are captured in the result for audit logging.
  *
  * Analyzes operation args to detect nested write operations, builds an include tree,
- * and merges with user-provided includes (user includes take precedence).
+ * and merges with user-provided includes (user includes take precedence). When the caller
+ * uses `select`, relations are merged into it instead. Injected relations are stripped from
+ * the result with `restoreResultShape`.
  *
  * @module include-injection
  */
@@ -222,6 +224,14 @@ const mergeNestedIncludes = (
   const autoValueInclude = autoValue.include;
   const userValueInclude = userValue.include;
 
+  // Prisma rejects `include` next to `select`, so relations go into the caller's `select`
+  if (autoValueInclude && userValue.select) {
+    return {
+      ...userValue,
+      select: mergeIncludes(userValue.select, autoValueInclude as Record<string, unknown>),
+    };
+  }
+
   if (autoValueInclude && userValueInclude) {
     return {
       ...userValue,
@@ -309,6 +319,14 @@ export const injectDeepInclude = (args: unknown): unknown => {
     return args;
   }
 
+  // Prisma rejects `include` next to `select`, so relations go into the caller's `select`
+  if (argsObj.select) {
+    return {
+      ...argsObj,
+      select: mergeIncludes(argsObj.select, autoInclude),
+    };
+  }
+
   // Merge with user-provided include
   const mergedInclude = mergeIncludes(argsObj.include, autoInclude);
 
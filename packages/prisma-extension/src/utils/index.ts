@@ -10,7 +10,9 @@
 export {
   extractDeleteOperationEntityId,
   isAuditableAction,
+  isReadOperation,
   shouldAuditModel,
+  shouldAuditRead,
   uncapitalizeFirst,
 } from './extension-utils.js';
 
@@ -26,17 +28,18 @@ export {
 
 // Include injection
 export { injectDeepInclude } from './include-injection.js';
-
 // Model accessor
 export { getModelAccessor } from './model-accessor.js';
-
 // Operation classification
 export {
   isBatchOperation,
+  isReturningBatchOperation,
   isSingleOperation,
   isWriteOperation,
   requiresBeforeState,
 } from './operation-classifier.js';
+// Result shape preservation
+export { hasPartialProjection, restoreResultShape, withPrimaryKeyProjected } from './result-shape.js';
 
 // Schema metadata
-export { getPrisma } from './schema-metadata.js';
+export { createSchemaMetadataFromDMMF, getPrisma } from './schema-metadata.js';
@@ -45,6 +45,10 @@ export interface RelationFieldInfo {
   isRequired: boolean;
   /** Relation name from schema (optional) */
   relationName?: string;
+  /** Foreign key fields on this model (owning side only) */
+  relationFromFields?: string[];
+  /** Referenced fields on the related model (owning side only) */
+  relationToFields?: string[];
 }
 
 /**
@@ -13,21 +13,44 @@ import type { PrismaAction } from '../types.js';
 /**
  * Checks if an operation is a batch operation
  *
- * Batch operations (createMany, updateMany, deleteMany) process multiple records
- * and have different handling requirements compared to single-record operations.
+ * Batch operations (createMany, updateMany, deleteMany and the `AndReturn` variants) process
+ * multiple records and have different handling requirements compared to single-record operations.
  *
  * @example
  * ```typescript
- * isBatchOperation('createMany'); // => true
- * isBatchOperation('create');     // => false
+ * isBatchOperation('createMany');          // => true
+ * isBatchOperation('updateManyAndReturn'); // => true
+ * isBatchOperation('create');              // => false
  * ```
  */
-export const isBatchOperation = (action: string): action is 'createMany' | 'updateMany' | 'deleteMany' => {
+export const isBatchOperation = (
+  action: string,
+): action is 'createMany' | 'updateMany' | 'deleteMany' | 'createManyAndReturn' | 'updateManyAndReturn' => {
   return (
-    action === AUDIT_ACTION.CREATE_MANY || action === AUDIT_ACTION.UPDATE_MANY || action === AUDIT_ACTION.DELETE_MANY
+    action === AUDIT_ACTION.CREATE_MANY ||
+    action === AUDIT_ACTION.UPDATE_MANY ||
+    action === AUDIT_ACTION.DELETE_MANY ||
+    action === AUDIT_ACTION.CREATE_MANY_AND_RETURN ||
+    action === AUDIT_ACTION.UPDATE_MANY_AND_RETURN
   );
 };
 
+/**
+ * Checks if a batch operation returns the written records
+ *
+ * `createManyAndReturn` and `updateManyAndReturn` return the rows they wrote, which are used
+ * as the after-state instead of re-fetching them.
+ *
+ * @example
+ * ```typescript
+ * isReturningBatchOperation('updateManyAndReturn'); // => true
+ * isReturningBatchOperation('updateMany');          // => false
+ * ```
+ */
+export const isReturningBatchOperation = (action: string): action is 'createManyAndReturn' | 'updateManyAndReturn' => {
+  return action === AUDIT_ACTION.CREATE_MANY_AND_RETURN || action === AUDIT_ACTION.UPDATE_MANY_AND_RETURN;
+};
+
 /**
  * Checks if an operation is a single-record operation
  *
@@ -51,8 +74,8 @@ export const isSingleOperation = (action: string): action is 'create' | 'update'
 /**
  * Checks if an operation requires fetching before state
  *
- * Operations that modify or delete existing records (update, upsert, delete, updateMany, deleteMany)
- * require fetching the before state to enable change tracking.
+ * Operations that modify or delete existing records (update, upsert, delete, updateMany, deleteMany,
+ * updateManyAndReturn) require fetching the before state to enable change tracking.
  * Create operations don't need before state (before is always null).
  *
  * @example
@@ -67,7 +90,8 @@ export const requiresBeforeState = (action: PrismaAction): boolean => {
     action === AUDIT_ACTION.UPSERT ||
     action === AUDIT_ACTION.DELETE ||
     action === AUDIT_ACTION.UPDATE_MANY ||
-    action === AUDIT_ACTION.DELETE_MANY
+    action === AUDIT_ACTION.DELETE_MANY ||
+    action === AUDIT_ACTION.UPDATE_MANY_AND_RETURN
   );
 };
 
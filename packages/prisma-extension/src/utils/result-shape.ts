@@ -0,0 +1,102 @@
+/**
+ * Result Shape Preservation Utilities
+ *
+ * The extension widens the caller's projection (injected `include` for nested writes,
+ * primary keys under `select`/`omit`) to audit the operation. These helpers widen it and
+ * then strip the additions, so the caller gets exactly the shape it asked for.
+ *
+ * @module result-shape
+ */
+
+/** @internal */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Relation/field projection of operation or relation args (`select` wins over `include`)
+ *
+ * @internal
+ */
+const getProjection = (args: unknown): Record<string, unknown> | undefined => {
+  if (!isRecord(args)) {
+    return undefined;
+  }
+  const projection = args.select ?? args.include;
+  return isRecord(projection) ? projection : undefined;
+};
+
+/**
+ * Whether args narrow the returned record with `select` or `omit`
+ */
+export const hasPartialProjection = (args: unknown): boolean =>
+  isRecord(args) && (args.select !== undefined || args.omit !== undefined);
+
+/**
+ * Make sure the primary key is returned when args use `select` or `omit`
+ *
+ * @remarks
+ * The audit pipeline identifies the record by its primary key. Fields added here are
+ * removed from the result by {@link restoreResultShape}.
+ */
+export const withPrimaryKeyProjected = (args: unknown, pkFields: readonly string[]): unknown => {
+  if (!isRecord(args) || !hasPartialProjection(args)) {
+    return args;
+  }
+  const projected: Record<string, unknown> = { ...args };
+  if (isRecord(args.select)) {
+    projected.select = { ...args.select, ...Object.fromEntries(pkFields.map((field) => [field, true])) };
+  }
+  if (isRecord(args.omit)) {
+    projected.omit = Object.fromEntries(Object.entries(args.omit).filter(([field]) => !pkFields.includes(field)));
+  }
+  return projected;
+};
+
+/**
+ * Remove fields and relations that the extension added to the caller's projection
+ *
+ * @param result - Operation result, fetched with `effectiveArgs`
+ * @param callerArgs - Args as passed by the caller
+ * @param effectiveArgs - Args the operation actually ran with
+ * @returns The result in the shape `callerArgs` describes
+ *
+ * @example
+ * ```typescript
+ * restoreResultShape(
+ *   { id: 'user-1', email: 'a@example.com', posts: [{ id: 'post-1' }] },
+ *   { select: { email: true } },
+ *   { select: { email: true, id: true, posts: true } },
+ * );
+ * // => { email: 'a@example.com' }
+ * ```
+ */
+export const restoreResultShape = (result: unknown, callerArgs: unknown, effectiveArgs: unknown): unknown => {
+  if (callerArgs === effectiveArgs) {
+    return result;
+  }
+  if (Array.isArray(result)) {
+    return result.map((item) => restoreResultShape(item, callerArgs, effectiveArgs));
+  }
+  if (!isRecord(result)) {
+    return result;
+  }
+
+  const callerProjection = getProjection(callerArgs);
+  const restored: Record<string, unknown> = { ...result };
+  for (const [key, effectiveEntry] of Object.entries(getProjection(effectiveArgs) ?? {})) {
+    const callerEntry = callerProjection?.[key];
+    if (callerEntry === undefined || callerEntry === false) {
+      delete restored[key];
+    } else if (isRecord(effectiveEntry)) {
+      restored[key] = restoreResultShape(result[key], callerEntry, effectiveEntry);
+    }
+  }
+
+  const callerOmit = isRecord(callerArgs) && isRecord(callerArgs.omit) ? callerArgs.omit : {};
+  for (const [key, omitted] of Object.entries(callerOmit)) {
+    if (omitted === true) {
+      delete restored[key];
+    }
+  }
+  return restored;
+};
@@ -120,6 +120,9 @@ export const createSchemaMetadataFromDMMF = (Prisma: PrismaWithDMMF): SchemaMeta
           isList: field.isList ?? false,
           isRequired: field.isRequired ?? false,
           relationName: field.relationName,
+          relationFromFields: field.relationFromFields,
+          relationToFields: field.relationToFields,
+          relationOnDelete: field.relationOnDelete,
         }));
     },
 
@@ -191,6 +191,13 @@ describe('defineEntity', () => {
 
     expect(entity.category).toBe('system');
   });
+
+  it('should normalize the auditReads option', () => {
+    expect(defineEntity({ type: 'Patient', auditReads: true }).auditReads).toEqual({});
+    expect(defineEntity({ type: 'Patient', auditReads: { sampling: 0.5 } }).auditReads).toEqual({ sampling: 0.5 });
+    expect(defineEntity({ type: 'Patient', auditReads: false }).auditReads).toBeUndefined();
+    expect(defineEntity({ type: 'Patient' }).auditReads).toBeUndefined();
+  });
 });
 
 describe('resolveAggregateId', () => {
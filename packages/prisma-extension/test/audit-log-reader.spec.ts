@@ -0,0 +1,384 @@
+/**
+ * Tests for Audit Log Reader
+ *
+ * Verifies filter translation, keyset cursor pagination and branded ID rehydration.
+ */
+
+import { randomBytes } from 'node:crypto';
+import {
+  createInMemoryKeyStore,
+  defineEntity,
+  encryptAuditLog,
+  foreignKey,
+  isActorId,
+  isAggregateId,
+  isEntityId,
+  to,
+} from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import { createAuditLogReader, decodeCursor, encodeCursor } from '../src/reader/index.js';
+
+const createRow = (id: string, createdAt: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  actorCategory: 'model',
+  actorType: 'User',
+  actorId: 'user-1',
+  actorContext: null,
+  entityCategory: 'model',
+  entityType: 'Post',
+  entityId: 'post-1',
+  entityContext: null,
+  aggregateCategory: 'model',
+  aggregateType: 'User',
+  aggregateId: 'user-1',
+  aggregateContext: null,
+  action: 'update',
+  before: { title: 'Old' },
+  after: { title: 'New' },
+  changes: { title: { old: 'Old', new: 'New' } },
+  requestContext: null,
+  createdAt: new Date(createdAt),
+  ...overrides,
+});
+
+const createMockPrisma = (rows: Record<string, unknown>[]) => {
+  const findMany = vi.fn().mockResolvedValue(rows);
+  return { prisma: { auditLog: { findMany } }, findMany };
+};
+
+describe('createAuditLogReader', () => {
+  it('should throw when the audit log model is missing', () => {
+    expect(() => createAuditLogReader({}, { auditLogModel: 'Activity' })).toThrow(
+      '[@prisma-audit] Audit log model "Activity" not found on the Prisma client',
+    );
+  });
+
+  it('should translate filters into a Prisma where clause', async () => {
+    // Arrange
+    const { prisma, findMany } = createMockPrisma([]);
+    const reader = createAuditLogReader(prisma);
+    const from = new Date('2026-01-01T00:00:00Z');
+    const to = new Date('2026-02-01T00:00:00Z');
+
+    // Act
+    await reader.findMany({
+      actor: { id: 'user-1' },
+      entity: { type: ['Post', 'Comment'] },
+      aggregate: { category: 'model', type: 'User', id: 'user-1' },
+      action: 'update',
+      createdAt: { from, to },
+      take: 10,
+    });
+
+    // Assert
+    expect(findMany).toHaveBeenCalledWith({
+      where: {
+        AND: [
+          { actorId: 'user-1' },
+          { entityType: { in: ['Post', 'Comment'] } },
+          { aggregateCategory: 'model', aggregateType: 'User', aggregateId: 'user-1' },
+          { action: 'update' },
+          { createdAt: { gte: from, lt: to } },
+        ],
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: 11,
+    });
+  });
+
+  it('should rehydrate rows into AuditLogData with branded IDs', async () => {
+    // Arrange
+    const { prisma } = createMockPrisma([createRow('log-1', '2026-01-01T00:00:00Z')]);
+    const reader = createAuditLogReader(prisma);
+
+    // Act
+    const page = await reader.findMany();
+
+    // Assert
+    const [log] = page.items;
+    expect(log?.id).toBe('log-1');
+    expect(isActorId(log?.actorId)).toBe(true);
+    expect(isEntityId(log?.entityId)).toBe(true);
+    expect(isAggregateId(log?.aggregateId)).toBe(true);
+    expect(log?.changes).toEqual({ title: { old: 'Old', new: 'New' } });
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('should filter and rehydrate operation and transaction IDs', async () => {
+    // Arrange
+    const { prisma, findMany } = createMockPrisma([
+      createRow('log-1', '2026-01-01T00:00:00Z', { operationId: 'op-1', transactionId: null }),
+    ]);
+    const reader = createAuditLogReader(prisma);
+
+    // Act
+    const page = await reader.findMany({ operationId: 'op-1', transactionId: ['tx-1', 'tx-2'] });
+
+    // Assert
+    expect(findMany.mock.calls[0]?.[0].where).toEqual({
+      AND: [{ operationId: 'op-1' }, { transactionId: { in: ['tx-1', 'tx-2'] } }],
+    });
+    expect(page.items[0]?.operationId).toBe('op-1');
+    expect(page.items[0]?.transactionId).toBeNull();
+  });
+
+  it('should throw when a stored row fails validation', async () => {
+    // Arrange
+    const { prisma } = createMockPrisma([createRow('log-1', '2026-01-01T00:00:00Z', { actorId: '' })]);
+    const reader = createAuditLogReader(prisma);
+
+    // Act & Assert
+    await expect(reader.findMany()).rejects.toThrow('[@prisma-audit] Audit log "log-1" failed validation');
+  });
+
+  it('should return a keyset cursor when more rows are available', async () => {
+    // Arrange
+    const rows = [
+      createRow('log-3', '2026-01-03T00:00:00Z'),
+      createRow('log-2', '2026-01-02T00:00:00Z'),
+      createRow('log-1', '2026-01-01T00:00:00Z'),
+    ];
+    const { prisma, findMany } = createMockPrisma(rows);
+    const reader = createAuditLogReader(prisma);
+
+    // Act
+    const page = await reader.findMany({ take: 2 });
+    await reader.findMany({ take: 2, cursor: page.nextCursor });
+
+    // Assert
+    expect(page.items.map((log) => log.id)).toEqual(['log-3', 'log-2']);
+    expect(page.nextCursor).not.toBeNull();
+    expect(decodeCursor(page.nextCursor as string)).toEqual({
+      createdAt: new Date('2026-01-02T00:00:00Z'),
+      id: 'log-2',
+    });
+    expect(findMany.mock.calls[1]?.[0].where).toEqual({
+      AND: [
+        {
+          OR: [
+            { createdAt: { lt: new Date('2026-01-02T00:00:00Z') } },
+            { createdAt: new Date('2026-01-02T00:00:00Z'), id: { lt: 'log-2' } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should use gt comparisons for ascending order', async () => {
+    // Arrange
+    const { prisma, findMany } = createMockPrisma([]);
+    const reader = createAuditLogReader(prisma);
+    const cursor = encodeCursor({ id: 'log-1', createdAt: new Date('2026-01-01T00:00:00Z') });
+
+    // Act
+    await reader.findMany({ order: 'asc', cursor });
+
+    // Assert
+    expect(findMany.mock.calls[0]?.[0]).toMatchObject({
+      where: { AND: [{ OR: [{ createdAt: { gt: expect.any(Date) } }, { id: { gt: 'log-1' } }] }] },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+  });
+
+  it('should reject malformed cursors', async () => {
+    const { prisma } = createMockPrisma([]);
+    const reader = createAuditLogReader(prisma);
+
+    await expect(reader.findMany({ cursor: 'not-a-cursor' })).rejects.toThrow(
+      '[@prisma-audit] Invalid audit log cursor',
+    );
+  });
+
+  describe('tags', () => {
+    const aggregateMapping = {
+      Post: defineEntity({ type: 'Post', tags: ['content'] }),
+      Comment: defineEntity({ type: 'Comment', tags: ['content', 'ugc'] }),
+      User: defineEntity({ type: 'User', tags: ['pii'] }),
+    };
+
+    it('should resolve tags to tagged entity types', async () => {
+      // Arrange
+      const { prisma, findMany } = createMockPrisma([]);
+      const reader = createAuditLogReader(prisma, { aggregateMapping });
+
+      // Act
+      await reader.findMany({ tags: ['content'] });
+
+      // Assert
+      expect(findMany.mock.calls[0]?.[0].where).toEqual({
+        AND: [{ entityType: { in: ['Post', 'Comment'] } }],
+      });
+    });
+
+    it('should skip the query when no entity carries the tags', async () => {
+      // Arrange
+      const { prisma, findMany } = createMockPrisma([]);
+      const reader = createAuditLogReader(prisma, { aggregateMapping });
+
+      // Act
+      const page = await reader.findMany({ tags: ['unknown'] });
+
+      // Assert
+      expect(page).toEqual({ items: [], nextCursor: null });
+      expect(findMany).not.toHaveBeenCalled();
+    });
+
+    it('should require aggregateMapping', async () => {
+      const { prisma } = createMockPrisma([]);
+      const reader = createAuditLogReader(prisma);
+
+      await expect(reader.findMany({ tags: ['content'] })).rejects.toThrow('requires the aggregateMapping option');
+    });
+  });
+
+  it('should iterate over all pages', async () => {
+    // Arrange
+    const findMany = vi
+      .fn()
+      .mockResolvedValueOnce([createRow('log-3', '2026-01-03T00:00:00Z'), createRow('log-2', '2026-01-02T00:00:00Z')])
+      .mockResolvedValueOnce([createRow('log-1', '2026-01-01T00:00:00Z')]);
+    const reader = createAuditLogReader({ auditLog: { findMany } });
+
+    // Act
+    const ids: string[] = [];
+    for await (const log of reader.iterate({ take: 1 })) {
+      ids.push(log.id);
+    }
+
+    // Assert
+    expect(ids).toEqual(['log-3', 'log-1']);
+    expect(findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should find a single log by id', async () => {
+    const { prisma, findMany } = createMockPrisma([createRow('log-1', '2026-01-01T00:00:00Z')]);
+    const reader = createAuditLogReader(prisma);
+
+    const log = await reader.findById('log-1');
+
+    expect(log?.id).toBe('log-1');
+    expect(findMany).toHaveBeenCalledWith({ where: { id: 'log-1' }, take: 1 });
+  });
+
+  describe('reconstruct', () => {
+    it('should replay the entity trail in ascending order up to the given time', async () => {
+      // Arrange
+      const { prisma, findMany } = createMockPrisma([
+        createRow('log-1', '2026-01-01T00:00:00Z', {
+          action: 'create',
+          before: null,
+          after: { title: 'Old', updatedAt: 't1' },
+          changes: null,
+        }),
+        createRow('log-2', '2026-02-01T00:00:00Z', {
+          before: { title: 'Old', updatedAt: 't2' },
+          after: { title: 'New', updatedAt: 't3' },
+        }),
+      ]);
+      const reader = createAuditLogReader(prisma, {
+        aggregateMapping: { Post: defineEntity({ type: 'Post', excludeFields: ['updatedAt'] }) },
+      });
+      const at = new Date('2026-03-01T00:00:00Z');
+
+      // Act
+      const result = await reader.reconstruct({ entityType: 'Post', entityId: 'post-1', at });
+
+      // Assert
+      expect(findMany.mock.calls[0]?.[0]).toMatchObject({
+        where: {
+          AND: [{ entityType: 'Post', entityId: 'post-1' }, { createdAt: { lt: new Date(at.getTime() + 1) } }],
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      expect(result.state).toEqual({ title: 'New', updatedAt: 't3' });
+      expect(result.gaps).toEqual([{ _tag: 'ExcludedField', field: 'updatedAt' }]);
+    });
+
+    describe('with encrypted logs', () => {
+      const setupEncrypted = async () => {
+        const keyStore = createInMemoryKeyStore({ masterKey: randomBytes(32) });
+        const context = { actor: { category: 'model', type: 'User', id: 'user-1' } };
+        const rows = [
+          createRow('log-1', '2026-01-01T00:00:00Z', { action: 'create', before: null, changes: null }),
+          createRow('log-2', '2026-02-01T00:00:00Z', { before: { title: 'New' }, after: { title: 'Newer' } }),
+        ];
+        const encrypted = await Promise.all(
+          rows.map(async (row) => ({ ...row, ...(await encryptAuditLog(row as never, context, { keyStore })) })),
+        );
+        return { keyStore, prisma: createMockPrisma(encrypted as Record<string, unknown>[]).prisma };
+      };
+
+      it('should decrypt logs with the key store before replaying them', async () => {
+        // Arrange
+        const { keyStore, prisma } = await setupEncrypted();
+
+        // Act
+        const result = await createAuditLogReader(prisma, { keyStore }).reconstruct({
+          entityType: 'Post',
+          entityId: 'post-1',
+        });
+
+        // Assert
+        expect(result.state).toEqual({ title: 'Newer' });
+        expect(result.isComplete).toBe(true);
+      });
+
+      it('should report payloads it cannot decrypt as gaps', async () => {
+        // Arrange
+        const { keyStore, prisma } = await setupEncrypted();
+        await keyStore.destroyKeys('User:user-1');
+
+        // Act
+        const shredded = await createAuditLogReader(prisma, { keyStore }).reconstruct({
+          entityType: 'Post',
+          entityId: 'post-1',
+        });
+        const withoutKeyStore = await createAuditLogReader(prisma).reconstruct({
+          entityType: 'Post',
+          entityId: 'post-1',
+        });
+
+        // Assert
+        for (const result of [shredded, withoutKeyStore]) {
+          expect(result.state).toBeNull();
+          expect(result.gaps.map((gap) => gap._tag)).toEqual(['EncryptedPayload', 'EncryptedPayload']);
+        }
+      });
+    });
+  });
+
+  describe('timeline', () => {
+    const aggregateMapping = {
+      User: defineEntity({ type: 'User' }),
+      Post: defineEntity({ type: 'Post', aggregates: [to('User', foreignKey('authorId'))] }),
+    };
+
+    it('should read the aggregate trail and return newest events first', async () => {
+      // Arrange
+      const { prisma, findMany } = createMockPrisma([
+        createRow('log-1', '2026-01-01T00:00:00Z', { entityType: 'User', entityId: 'user-1', action: 'create' }),
+        createRow('log-2', '2026-01-02T00:00:00Z'),
+      ]);
+      const reader = createAuditLogReader(prisma, { aggregateMapping });
+
+      // Act
+      const timeline = await reader.timeline({ aggregateType: 'User', aggregateId: 'user-1' });
+
+      // Assert
+      expect(findMany.mock.calls[0]?.[0]).toMatchObject({
+        where: { AND: [{ aggregateType: 'User', aggregateId: 'user-1' }] },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      expect(timeline.events.map((event) => event.changes.map((c) => c.entityType))).toEqual([['Post'], ['User']]);
+    });
+
+    it('should reject aggregate types missing from the mapping', async () => {
+      const { prisma } = createMockPrisma([]);
+      const reader = createAuditLogReader(prisma, { aggregateMapping });
+
+      await expect(reader.timeline({ aggregateType: 'Organization', aggregateId: 'org-1' })).rejects.toThrow(
+        'Aggregate type "Organization" is not defined in the aggregate mapping',
+      );
+    });
+  });
+});
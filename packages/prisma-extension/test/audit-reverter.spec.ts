@@ -0,0 +1,273 @@
+/**
+ * Tests for Audit Reverter
+ *
+ * Verifies inverse write planning, conflict detection, redaction and encryption safety and that
+ * applied reverts run in one transaction under the `revert` audit action.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { AuditContext, AuditContextProvider, AuditKeyStore } from '@kuruwic/prisma-audit-core';
+import { createInMemoryKeyStore, defineEntity, encryptAuditLog } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import { toStoredAuditLog } from '../src/reader/index.js';
+import { createAuditReverter, createRevertSchema, planRevert } from '../src/revert/index.js';
+
+const aggregateMapping = {
+  Post: defineEntity({ type: 'Post' }),
+};
+
+const Prisma = {
+  dmmf: {
+    datamodel: {
+      models: [
+        {
+          name: 'Post',
+          fields: [
+            { name: 'id', kind: 'scalar', type: 'String', isId: true },
+            { name: 'title', kind: 'scalar', type: 'String' },
+            { name: 'status', kind: 'enum', type: 'Status' },
+            { name: 'author', kind: 'object', type: 'User' },
+          ],
+        },
+      ],
+    },
+  },
+};
+
+const schema = createRevertSchema(aggregateMapping, Prisma);
+
+const createLog = (id: string, createdAt: string, overrides: Record<string, unknown> = {}) =>
+  toStoredAuditLog({
+    id,
+    actorCategory: 'model',
+    actorType: 'User',
+    actorId: 'user-1',
+    actorContext: null,
+    entityCategory: 'model',
+    entityType: 'Post',
+    entityId: 'post-1',
+    entityContext: null,
+    aggregateCategory: 'model',
+    aggregateType: 'Post',
+    aggregateId: 'post-1',
+    aggregateContext: null,
+    action: 'update',
+    before: { id: 'post-1', title: 'Old', status: 'DRAFT' },
+    after: { id: 'post-1', title: 'New', status: 'DRAFT' },
+    changes: { title: { old: 'Old', new: 'New' } },
+    requestContext: null,
+    createdAt: new Date(createdAt),
+    ...overrides,
+  });
+
+describe('planRevert', () => {
+  it('should build inverse writes newest change first', () => {
+    // Arrange
+    const created = createLog('log-1', '2026-01-01T00:00:00Z', {
+      action: 'create',
+      before: null,
+      after: { id: 'post-1', title: 'Old', status: 'DRAFT' },
+      changes: null,
+    });
+    const updated = createLog('log-2', '2026-01-02T00:00:00Z');
+
+    // Act
+    const plan = planRevert([created, updated], [], schema);
+
+    // Assert
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.steps.map((step) => [step.sourceLogId, step.operation, step.args])).toEqual([
+      ['log-2', 'update', { where: { id: 'post-1' }, data: { title: 'Old' } }],
+      ['log-1', 'delete', { where: { id: 'post-1' } }],
+    ]);
+  });
+
+  it('should re-create deleted records from scalar fields of the before snapshot', () => {
+    const deleted = createLog('log-1', '2026-01-01T00:00:00Z', {
+      action: 'delete',
+      before: { id: 'post-1', title: 'Old', status: 'DRAFT', author: { id: 'user-1' } },
+      after: null,
+      changes: null,
+    });
+
+    const plan = planRevert([deleted], [], schema);
+
+    expect(plan.steps[0]).toMatchObject({
+      operation: 'create',
+      args: { data: { id: 'post-1', title: 'Old', status: 'DRAFT' } },
+    });
+  });
+
+  it('should report later changes to the restored fields', () => {
+    // Arrange
+    const target = createLog('log-1', '2026-01-01T00:00:00Z');
+    const unrelated = createLog('log-2', '2026-01-02T00:00:00Z', {
+      changes: { status: { old: 'DRAFT', new: 'PUBLISHED' } },
+    });
+    const overlapping = createLog('log-3', '2026-01-03T00:00:00Z', {
+      changes: { title: { old: 'New', new: 'Newer' } },
+    });
+
+    // Act
+    const plan = planRevert([target], [target, unrelated, overlapping], schema);
+
+    // Assert
+    expect(plan.conflicts).toEqual([
+      {
+        _tag: 'LaterChange',
+        sourceLogId: 'log-1',
+        entityType: 'Post',
+        entityId: 'post-1',
+        laterLogId: 'log-3',
+        laterAction: 'update',
+        laterAt: new Date('2026-01-03T00:00:00Z'),
+        fields: ['title'],
+      },
+    ]);
+  });
+
+  it('should not treat fan-out rows or changes in the revert set as conflicts', () => {
+    const target = createLog('log-1', '2026-01-01T00:00:00Z');
+    const fanOut = createLog('log-2', '2026-01-01T00:00:00Z', { aggregateType: 'User', aggregateId: 'user-1' });
+    const next = createLog('log-3', '2026-01-02T00:00:00Z', { changes: { title: { old: 'New', new: 'Newer' } } });
+
+    const plan = planRevert([target, fanOut, next], [target, fanOut, next], schema);
+
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.steps.map((step) => step.sourceLogId)).toEqual(['log-3', 'log-1']);
+  });
+
+  it('should refuse to write redacted values back', () => {
+    const target = createLog('log-1', '2026-01-01T00:00:00Z', {
+      changes: {
+        title: {
+          old: { redacted: true, hadValue: true, isDifferent: true },
+          new: { redacted: true, hadValue: true, isDifferent: true },
+        },
+      },
+    });
+
+    const plan = planRevert([target], [], schema);
+
+    expect(plan.steps).toEqual([]);
+    expect(plan.conflicts).toEqual([
+      { _tag: 'RedactedValue', sourceLogId: 'log-1', entityType: 'Post', entityId: 'post-1', field: 'title' },
+    ]);
+  });
+
+  it('should refuse to write masked values back', () => {
+    const target = createLog('log-1', '2026-01-01T00:00:00Z', {
+      entityContext: { redactedFields: ['title'] },
+      changes: { title: { old: 'O*d', new: 'N*w' } },
+    });
+
+    const plan = planRevert([target], [], schema);
+
+    expect(plan.steps).toEqual([]);
+    expect(plan.conflicts).toEqual([
+      { _tag: 'RedactedValue', sourceLogId: 'log-1', entityType: 'Post', entityId: 'post-1', field: 'title' },
+    ]);
+  });
+
+  it('should report logs that cannot be inverted', () => {
+    const unmapped = createLog('log-1', '2026-01-01T00:00:00Z', { entityType: 'Comment' });
+    const incomplete = createLog('log-2', '2026-01-02T00:00:00Z', { action: 'delete', before: null, after: null });
+
+    const plan = planRevert([unmapped, incomplete], [], schema);
+
+    expect(plan.conflicts.map((conflict) => conflict._tag)).toEqual(['MissingSnapshot', 'UnknownModel']);
+  });
+});
+
+describe('createAuditReverter', () => {
+  const actorContext: AuditContext = { actor: { category: 'model', type: 'User', id: 'support-1' } };
+
+  const setup = (rows: ReturnType<typeof createLog>[], keyStore?: AuditKeyStore) => {
+    const update = vi.fn().mockResolvedValue({});
+    const contexts: AuditContext[] = [];
+    const provider = {
+      getContext: vi.fn(() => actorContext),
+      runAsync: vi.fn(async (context: AuditContext, fn: () => Promise<unknown>) => {
+        contexts.push(context);
+        return fn();
+      }),
+    } as unknown as AuditContextProvider;
+    const $transaction = vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn({ post: { update } }));
+    const findMany = vi.fn().mockResolvedValue(rows);
+    const prisma = { auditLog: { findMany }, $transaction };
+    const reverter = createAuditReverter(prisma, { provider, aggregateMapping, Prisma, keyStore });
+    return { reverter, update, contexts, $transaction };
+  };
+
+  it('should return the plan without writing on dry run', async () => {
+    const { reverter, $transaction } = setup([createLog('log-1', '2026-01-01T00:00:00Z')]);
+
+    const result = await reverter.revert({ logId: 'log-1' }, { dryRun: true });
+
+    expect(result.status).toBe('planned');
+    expect(result.plan.steps).toHaveLength(1);
+    expect($transaction).not.toHaveBeenCalled();
+  });
+
+  it('should apply the plan in a transaction under the revert action', async () => {
+    // Arrange
+    const { reverter, update, contexts } = setup([createLog('log-1', '2026-01-01T00:00:00Z')]);
+
+    // Act
+    const result = await reverter.revert({ operationId: 'op-1' });
+
+    // Assert
+    expect(result.status).toBe('applied');
+    expect(update).toHaveBeenCalledWith({ where: { id: 'post-1' }, data: { title: 'Old' } });
+    expect(contexts[0]).toMatchObject({ actor: actorContext.actor, _auditAction: 'revert' });
+  });
+
+  it('should refuse to apply a plan with conflicts', async () => {
+    const { reverter, $transaction } = setup([
+      createLog('log-1', '2026-01-01T00:00:00Z'),
+      createLog('log-2', '2026-01-02T00:00:00Z', { changes: { title: { old: 'New', new: 'Newer' } } }),
+    ]);
+
+    const result = await reverter.revert({ logId: 'log-1' });
+
+    expect(result.status).toBe('refused');
+    expect(result.plan.conflicts[0]).toMatchObject({ _tag: 'LaterChange', laterLogId: 'log-2' });
+    expect($transaction).not.toHaveBeenCalled();
+  });
+
+  it('should decrypt logs with the key store and refuse those it cannot decrypt', async () => {
+    // Arrange
+    const keyStore = createInMemoryKeyStore({ masterKey: randomBytes(32) });
+    const encrypted = await encryptAuditLog(createLog('log-1', '2026-01-01T00:00:00Z'), actorContext, { keyStore });
+    const row = { ...encrypted, id: 'log-1' };
+
+    // Act
+    const decrypted = await setup([row], keyStore).reverter.revert({ logId: 'log-1' }, { dryRun: true });
+    const withoutKeyStore = await setup([row]).reverter.revert({ logId: 'log-1' });
+    await keyStore.destroyKeys('Post:post-1');
+    const shredded = await setup([row], keyStore).reverter.revert({ logId: 'log-1' });
+
+    // Assert
+    expect(decrypted.plan.steps[0]?.args).toEqual({ where: { id: 'post-1' }, data: { title: 'Old' } });
+    for (const result of [withoutKeyStore, shredded]) {
+      expect(result.status).toBe('refused');
+      expect(result.plan.conflicts).toEqual([
+        {
+          _tag: 'EncryptedPayload',
+          sourceLogId: 'log-1',
+          entityType: 'Post',
+          entityId: 'post-1',
+          columns: ['before', 'after', 'changes'],
+        },
+      ]);
+    }
+  });
+
+  it('should throw when the log does not exist', async () => {
+    const { reverter } = setup([]);
+
+    await expect(reverter.revert({ logId: 'missing' })).rejects.toThrow(
+      '[@prisma-audit] Audit log "missing" not found',
+    );
+  });
+});
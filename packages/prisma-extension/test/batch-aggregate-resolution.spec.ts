@@ -147,6 +147,24 @@ describe('Batch Aggregate Resolution', () => {
     });
   });
 
+  describe('returning batch actions', () => {
+    it.each([
+      ['createManyAndReturn', 'create'],
+      ['updateManyAndReturn', 'update'],
+    ])('should build %s logs with the %s action', async (batchAction, singularAction) => {
+      // Arrange
+      const deps = createMockDeps(defineEntity({ type: 'Post' }));
+      const stage = createBatchBuildLogsStage(deps as unknown as StageDependencies);
+      const context = createBatchContext([{ id: 'p1' }]);
+
+      // Act
+      await stage({ ...context, operation: { ...context.operation, action: batchAction } });
+
+      // Assert
+      expect(vi.mocked(deps.buildAuditLog).mock.calls[0]?.[1]).toBe(singularAction);
+    });
+  });
+
   describe('N+1 warning', () => {
     it('should warn when resolveId is used in batch above threshold', async () => {
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
@@ -0,0 +1,259 @@
+/**
+ * Tests for auditing referential actions of deletes
+ *
+ * Verifies that `onDelete: Cascade` and `onDelete: SetNull` relations are read from the DMMF,
+ * that affected rows are pre-fetched level by level, and that the lifecycle stages carry
+ * them from the pre-fetch to the built logs.
+ */
+
+import type { AuditLogData } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import type { DMMFModel, PrismaClientWithDynamicAccess } from '../src/internal-types.js';
+import {
+  type CascadeEffect,
+  type CascadePreFetchDependencies,
+  findReferencingRelations,
+  groupCascadeEffects,
+  preFetchCascadeEffects,
+} from '../src/lifecycle/pre-fetch/cascade-effects.js';
+import { createBuildCascadeLogsStage, createFetchCascadeEffectsStage } from '../src/lifecycle/stages.js';
+import type { FinalContext, PreparedContext } from '../src/lifecycle/types.js';
+import { createSchemaMetadataFromDMMF } from '../src/utils/schema-metadata.js';
+
+const id = { name: 'id', kind: 'scalar', type: 'String', isId: true };
+
+const models: DMMFModel[] = [
+  {
+    name: 'User',
+    fields: [
+      id,
+      { name: 'posts', kind: 'object', type: 'Post', isList: true, relationName: 'PostToUser' },
+      { name: 'editedPosts', kind: 'object', type: 'Post', isList: true, relationName: 'PostEditor' },
+      { name: 'sessions', kind: 'object', type: 'Session', isList: true, relationName: 'SessionToUser' },
+    ],
+  },
+  {
+    name: 'Post',
+    fields: [
+      id,
+      { name: 'authorId', kind: 'scalar', type: 'String' },
+      { name: 'editorId', kind: 'scalar', type: 'String' },
+      {
+        name: 'author',
+        kind: 'object',
+        type: 'User',
+        isRequired: true,
+        relationName: 'PostToUser',
+        relationFromFields: ['authorId'],
+        relationToFields: ['id'],
+        relationOnDelete: 'Cascade',
+      },
+      {
+        name: 'editor',
+        kind: 'object',
+        type: 'User',
+        isRequired: false,
+        relationName: 'PostEditor',
+        relationFromFields: ['editorId'],
+        relationToFields: ['id'],
+      },
+      { name: 'comments', kind: 'object', type: 'Comment', isList: true, relationName: 'CommentToPost' },
+    ],
+  },
+  {
+    name: 'Comment',
+    fields: [
+      id,
+      { name: 'postId', kind: 'scalar', type: 'String' },
+      {
+        name: 'post',
+        kind: 'object',
+        type: 'Post',
+        isRequired: true,
+        relationName: 'CommentToPost',
+        relationFromFields: ['postId'],
+        relationToFields: ['id'],
+        relationOnDelete: 'Cascade',
+      },
+    ],
+  },
+  {
+    name: 'Session',
+    fields: [
+      id,
+      { name: 'userId', kind: 'scalar', type: 'String' },
+      {
+        name: 'user',
+        kind: 'object',
+        type: 'User',
+        isRequired: true,
+        relationName: 'SessionToUser',
+        relationFromFields: ['userId'],
+        relationToFields: ['id'],
+      },
+    ],
+  },
+];
+
+const schema = createSchemaMetadataFromDMMF({ dmmf: { datamodel: { models } } });
+
+const tables: Record<string, Record<string, unknown>[]> = {
+  post: [
+    { id: 'post-1', authorId: 'user-1', editorId: null },
+    { id: 'post-2', authorId: 'user-2', editorId: 'user-1' },
+  ],
+  comment: [
+    { id: 'comment-1', postId: 'post-1' },
+    { id: 'comment-2', postId: 'post-2' },
+  ],
+  session: [{ id: 'session-1', userId: 'user-1' }],
+};
+
+/** Client whose findMany supports the `{ field: { in } }` clauses the pre-fetch builds */
+const createClient = () => {
+  const client: Record<string, { findMany: ReturnType<typeof vi.fn> }> = {};
+  for (const [accessor, rows] of Object.entries(tables)) {
+    client[accessor] = {
+      findMany: vi.fn(async ({ where }: { where: Record<string, { in: unknown[] }> }) =>
+        rows.filter((row) => Object.entries(where).every(([field, { in: values }]) => values.includes(row[field]))),
+      ),
+    };
+  }
+  return client;
+};
+
+const deps = (overrides: Partial<CascadePreFetchDependencies> = {}): CascadePreFetchDependencies => ({
+  schema,
+  getPrimaryKeyFields: () => ['id'],
+  maxDepth: 5,
+  shouldFollow: () => true,
+  ...overrides,
+});
+
+describe('findReferencingRelations', () => {
+  it('should return cascading and nulling relations with their foreign keys', () => {
+    expect(findReferencingRelations(schema, 'User')).toEqual([
+      { model: 'Post', fromFields: ['authorId'], toFields: ['id'], onDelete: 'Cascade' },
+      { model: 'Post', fromFields: ['editorId'], toFields: ['id'], onDelete: 'SetNull' },
+    ]);
+    expect(findReferencingRelations(schema, 'Comment')).toEqual([]);
+  });
+});
+
+describe('preFetchCascadeEffects', () => {
+  it('should collect cascaded rows level by level and nulled rows', async () => {
+    // Arrange
+    const client = createClient();
+
+    // Act
+    const effects = await preFetchCascadeEffects(
+      client as unknown as PrismaClientWithDynamicAccess,
+      'User',
+      [{ id: 'user-1' }],
+      deps(),
+    );
+
+    // Assert
+    expect(effects).toEqual([
+      { modelName: 'Post', action: 'delete', before: tables.post?.[0], after: null },
+      {
+        modelName: 'Post',
+        action: 'update',
+        before: tables.post?.[1],
+        after: { id: 'post-2', authorId: 'user-2', editorId: null },
+      },
+      { modelName: 'Comment', action: 'delete', before: tables.comment?.[0], after: null },
+    ]);
+    expect(client.session?.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should let a cascade win over a SetNull on the same row', async () => {
+    // Act
+    const effects = await preFetchCascadeEffects(
+      createClient() as unknown as PrismaClientWithDynamicAccess,
+      'User',
+      [{ id: 'user-1' }, { id: 'user-2' }],
+      deps(),
+    );
+
+    // Assert
+    expect(effects.filter((effect) => effect.modelName === 'Post').map((effect) => effect.action)).toEqual([
+      'delete',
+      'delete',
+    ]);
+  });
+
+  it('should stop at the depth limit and at opted-out models', async () => {
+    // Act
+    const shallow = await preFetchCascadeEffects(
+      createClient() as unknown as PrismaClientWithDynamicAccess,
+      'User',
+      [{ id: 'user-1' }],
+      deps({ maxDepth: 1 }),
+    );
+    const optedOut = await preFetchCascadeEffects(
+      createClient() as unknown as PrismaClientWithDynamicAccess,
+      'User',
+      [{ id: 'user-1' }],
+      deps({ shouldFollow: (model) => model !== 'Post' }),
+    );
+
+    // Assert
+    expect(shallow.map((effect) => effect.modelName)).toEqual(['Post', 'Post']);
+    expect(optedOut).toEqual([]);
+  });
+});
+
+describe('cascade lifecycle stages', () => {
+  const effects: CascadeEffect[] = [{ modelName: 'Post', action: 'delete', before: { id: 'post-1' }, after: null }];
+
+  it('should pre-fetch effects for deletes with a before-state only', async () => {
+    // Arrange
+    const preFetch = vi.fn().mockResolvedValue(effects);
+    const stage = createFetchCascadeEffectsStage({ preFetchCascadeEffects: preFetch });
+    const context = {
+      operation: { model: 'User', action: 'delete', args: { where: { id: 'user-1' } } },
+      clientToUse: {},
+      beforeState: { id: 'user-1' },
+    } as unknown as PreparedContext;
+
+    // Act
+    const deleted = await stage(context);
+    const updated = await stage({ ...context, operation: { ...context.operation, action: 'update' } });
+
+    // Assert
+    expect(deleted.cascadeEffects).toBe(effects);
+    expect(updated.cascadeEffects).toBeUndefined();
+    expect(preFetch).toHaveBeenCalledTimes(1);
+    expect(preFetch).toHaveBeenCalledWith({}, 'User', [{ id: 'user-1' }]);
+  });
+
+  it('should append cascade logs after the operation logs', async () => {
+    // Arrange
+    const ownLog = { entityType: 'User' } as AuditLogData;
+    const cascadeLog = { entityType: 'Post' } as AuditLogData;
+    const stage = createBuildCascadeLogsStage({ buildCascadeAuditLogs: vi.fn().mockResolvedValue([cascadeLog]) });
+
+    // Act
+    const context = await stage({ logs: [ownLog], cascadeEffects: effects } as unknown as FinalContext);
+
+    // Assert
+    expect(context.logs).toEqual([ownLog, cascadeLog]);
+  });
+
+  it('should group effects by model and action', () => {
+    // Arrange
+    const update: CascadeEffect = { modelName: 'Post', action: 'update', before: { id: 'post-2' }, after: {} };
+    const comment: CascadeEffect = { modelName: 'Comment', action: 'delete', before: { id: 'c-1' }, after: null };
+
+    // Act
+    const groups = groupCascadeEffects([...effects, update, comment, ...effects]);
+
+    // Assert
+    expect(groups.map((group) => [group.modelName, group.action, group.effects.length])).toEqual([
+      ['Post', 'delete', 2],
+      ['Post', 'update', 1],
+      ['Comment', 'delete', 1],
+    ]);
+  });
+});
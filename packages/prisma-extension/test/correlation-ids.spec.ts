@@ -0,0 +1,160 @@
+/**
+ * Tests for operation and transaction ID correlation
+ *
+ * Verifies that IDs set on the audit context are stamped onto built logs, that interactive
+ * transactions get their own ID, and that the write executor omits columns the schema lacks.
+ */
+
+import type { AuditContext, AuditContextProvider, AuditLogData, LoggableEntity } from '@kuruwic/prisma-audit-core';
+import { createTraceId } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createPrismaWriteExecutor,
+  findMissingOptionalFields,
+  OPTIONAL_AUDIT_LOG_FIELDS,
+} from '../src/adapters/write-executor.js';
+import { buildAuditLog } from '../src/audit-log-builder/index.js';
+import type { PrismaClientManager } from '../src/client-manager/index.js';
+import type { TransactionalPrismaClient } from '../src/internal-types.js';
+import { createWrappedTransactionCallback } from '../src/lifecycle/transaction-proxy.js';
+
+const entityConfig: LoggableEntity = {
+  category: 'model',
+  type: 'Post',
+  idResolver: async (entity: unknown) => (entity as Record<string, unknown>).id as string,
+  aggregates: [],
+};
+
+const aggregateConfig = {
+  getEntityConfig: vi.fn().mockReturnValue(entityConfig),
+  isLoggable: vi.fn().mockReturnValue(true),
+  getAllLoggableModels: vi.fn().mockReturnValue(['Post']),
+  getMapping: vi.fn(),
+};
+
+const manager: PrismaClientManager = { baseClient: {} as never, activeClient: {} as never };
+
+const build = (context: AuditContext) =>
+  buildAuditLog(
+    { id: 'post-1', title: 'Hello' },
+    'create',
+    context,
+    'Post',
+    manager,
+    null,
+    null,
+    null,
+    aggregateConfig,
+    undefined,
+    undefined,
+    {
+      aggregateRoots: [
+        { aggregateCategory: 'model', aggregateType: 'Post', aggregateId: 'post-1' },
+        { aggregateCategory: 'model', aggregateType: 'User', aggregateId: 'user-1' },
+      ],
+      aggregateContexts: new Map([
+        ['Post', null],
+        ['User', null],
+      ]),
+    },
+    undefined,
+    undefined,
+  );
+
+const createLog = (overrides: Partial<AuditLogData> = {}) =>
+  ({
+    actorCategory: 'model',
+    actorType: 'User',
+    actorId: 'user-1',
+    actorContext: null,
+    entityCategory: 'model',
+    entityType: 'Post',
+    entityId: 'post-1',
+    entityContext: null,
+    aggregateCategory: 'model',
+    aggregateType: 'Post',
+    aggregateId: 'post-1',
+    aggregateContext: null,
+    action: 'create',
+    before: null,
+    after: { title: 'Hello' },
+    changes: null,
+    requestContext: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  }) as AuditLogData;
+
+describe('buildAuditLog correlation IDs', () => {
+  it('should stamp every aggregate row with the operation and transaction IDs', async () => {
+    const logs = await build({
+      actor: { category: 'model', type: 'User', id: 'user-1' },
+      _operationId: createTraceId('op-1'),
+      _transactionId: createTraceId('tx-1'),
+    });
+
+    expect(logs).toHaveLength(2);
+    expect(logs.map((log) => [log.operationId, log.transactionId])).toEqual([
+      ['op-1', 'tx-1'],
+      ['op-1', 'tx-1'],
+    ]);
+  });
+
+  it('should leave the IDs unset when the context has none', async () => {
+    const [log] = await build({ actor: { category: 'model', type: 'User', id: 'user-1' } });
+
+    expect(log).not.toHaveProperty('operationId');
+    expect(log).not.toHaveProperty('transactionId');
+  });
+});
+
+describe('createWrappedTransactionCallback', () => {
+  it('should run the callback with a fresh transaction ID', async () => {
+    // Arrange
+    const contexts: AuditContext[] = [];
+    const provider = {
+      getContext: vi.fn(),
+      runAsync: vi.fn(async (context: AuditContext, fn: () => Promise<unknown>) => {
+        contexts.push(context);
+        return fn();
+      }),
+    } as unknown as AuditContextProvider;
+    const context: AuditContext = { actor: { category: 'model', type: 'User', id: 'user-1' } };
+    const wrapped = createWrappedTransactionCallback(async () => 'done', context, provider);
+
+    // Act
+    await wrapped({} as TransactionalPrismaClient);
+    await wrapped({} as TransactionalPrismaClient);
+
+    // Assert
+    expect(contexts[0]?._transactionId).toEqual(expect.any(String));
+    expect(contexts[1]?._transactionId).toEqual(expect.any(String));
+    expect(contexts[0]?._transactionId).not.toBe(contexts[1]?._transactionId);
+  });
+});
+
+describe('write executor optional fields', () => {
+  it('should report optional columns missing from the audit log model', () => {
+    const models = [{ name: 'AuditLog', fields: [{ name: 'id' }, { name: 'operationId' }] }];
+
+    expect(findMissingOptionalFields(models, 'auditLog')).toEqual(
+      OPTIONAL_AUDIT_LOG_FIELDS.filter((field) => field !== 'operationId'),
+    );
+    expect(findMissingOptionalFields(undefined, 'auditLog')).toEqual([...OPTIONAL_AUDIT_LOG_FIELDS]);
+  });
+
+  it('should omit missing columns before writing', async () => {
+    // Arrange
+    const create = vi.fn().mockResolvedValue({});
+    const executor = createPrismaWriteExecutor(null, ['transactionId']);
+
+    // Act
+    await executor.write({ auditLog: { create } }, 'auditLog', [
+      createLog({ operationId: createTraceId('op-1'), transactionId: createTraceId('tx-1') }),
+    ]);
+
+    // Assert
+    const data = create.mock.calls[0]?.[0].data;
+    expect(data.operationId).toBe('op-1');
+    expect(data).not.toHaveProperty('transactionId');
+  });
+});
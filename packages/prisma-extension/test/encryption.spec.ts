@@ -0,0 +1,303 @@
+/**
+ * Tests for envelope encryption of audit logs
+ *
+ * Verifies that built logs are encrypted after serialization, the Prisma-backed key store
+ * (wrapping, rotation, crypto-shredding), batch re-encryption after rotation and master key
+ * rotation that leaves hash chains verifiable.
+ */
+
+import { randomBytes } from 'node:crypto';
+import {
+  type AuditLogData,
+  type ChainedAuditLog,
+  createActorId,
+  createAggregateId,
+  createEntityId,
+  createInMemoryKeyStore,
+  type DataKey,
+  decryptAuditLog,
+  defineEntity,
+  encryptPayload,
+  isEncryptedPayload,
+  type WrappedDataKey,
+} from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import { createPrismaWriteExecutor } from '../src/adapters/write-executor.js';
+import { buildAuditLog, type ResolvedAggregateData } from '../src/audit-log-builder/index.js';
+import type { PrismaClientManager } from '../src/client-manager/index.js';
+import { createPrismaKeyStore, reencryptAuditLogs, rewrapDataKeys } from '../src/encryption/index.js';
+import { createIntegrityWriteExecutor, verifyAuditChain } from '../src/integrity/index.js';
+
+const manager: PrismaClientManager = { baseClient: {} as never, activeClient: {} as never };
+
+const aggregateData: ResolvedAggregateData = {
+  aggregateRoots: [{ aggregateCategory: 'model', aggregateType: 'Patient', aggregateId: 'patient-1' }],
+  aggregateContexts: new Map(),
+};
+
+const aggregateConfig = {
+  getEntityConfig: vi.fn().mockReturnValue(defineEntity({ type: 'Patient' })),
+  isLoggable: vi.fn().mockReturnValue(true),
+  getAllLoggableModels: vi.fn().mockReturnValue(['Patient']),
+  getMapping: vi.fn(),
+};
+
+const createMockKeyPrisma = () => {
+  const rows: WrappedDataKey[] = [];
+  const auditDataKey = {
+    findFirst: vi.fn(async (args: { where: { scope: string } }) => {
+      const matches = rows.filter((row) => row.scope === args.where.scope);
+      return matches[matches.length - 1] ?? null;
+    }),
+    findUnique: vi.fn(async (args: { where: { id: string } }) => rows.find((row) => row.id === args.where.id) ?? null),
+    create: vi.fn(async (args: { data: WrappedDataKey }) => {
+      rows.push(args.data);
+      return args.data;
+    }),
+    deleteMany: vi.fn(async (args: { where: { scope: string } }) => {
+      const before = rows.length;
+      rows.splice(0, rows.length, ...rows.filter((row) => row.scope !== args.where.scope));
+      return { count: before - rows.length };
+    }),
+    findMany: vi.fn(async (args: { take: number; cursor?: { id: string } }) => {
+      const sorted = [...rows].sort((a, b) => (a.id < b.id ? -1 : 1));
+      const start = args.cursor ? sorted.findIndex((row) => row.id === args.cursor?.id) + 1 : 0;
+      return sorted.slice(start, start + args.take);
+    }),
+    update: vi.fn(async (args: { where: { id: string }; data: { wrappedKey: string } }) => {
+      const row = rows.find((candidate) => candidate.id === args.where.id);
+      if (row) row.wrappedKey = args.data.wrappedKey;
+      return row;
+    }),
+  };
+  return { prisma: { auditDataKey }, rows, auditDataKey };
+};
+
+describe('encryption in built audit logs', () => {
+  it('should store encrypted states that decrypt to the serialized log', async () => {
+    // Arrange
+    const keyStore = createInMemoryKeyStore({ masterKey: randomBytes(32) });
+
+    // Act
+    const [log] = await buildAuditLog(
+      { id: 'patient-1', diagnosis: 'flu', visits: 3n },
+      'create',
+      { actor: { category: 'model', type: 'User', id: 'doctor-1' } },
+      'Patient',
+      manager,
+      null,
+      null,
+      undefined,
+      aggregateConfig,
+      undefined,
+      undefined,
+      aggregateData,
+      undefined,
+      { encryption: { keyStore } },
+    );
+
+    // Assert
+    expect(isEncryptedPayload(log?.after)).toBe(true);
+    expect(log?.before).toBeNull();
+    expect(log?.entityId).toBe('patient-1');
+    const decrypted = await decryptAuditLog(log as NonNullable<typeof log>, keyStore);
+    expect(decrypted.after).toEqual({ id: 'patient-1', diagnosis: 'flu', visits: '3' });
+  });
+});
+
+describe('createPrismaKeyStore', () => {
+  it('should persist only wrapped keys and reuse the newest key of a scope', async () => {
+    // Arrange
+    const { prisma, rows } = createMockKeyPrisma();
+    const masterKey = randomBytes(32);
+    const keyStore = createPrismaKeyStore(prisma, { masterKey });
+
+    // Act
+    const first = await keyStore.getCurrentKey('tenant:acme');
+    const again = await keyStore.getCurrentKey('tenant:acme');
+    const rotated = await keyStore.rotateKey('tenant:acme');
+    const current = await createPrismaKeyStore(prisma, { masterKey }).getCurrentKey('tenant:acme');
+
+    // Assert
+    expect(again.id).toBe(first.id);
+    expect(current.id).toBe(rotated.id);
+    expect(Buffer.from(current.material)).toEqual(Buffer.from(rotated.material));
+    expect(rows).toHaveLength(2);
+    expect(rows[0]?.wrappedKey).not.toContain(Buffer.from(first.material).toString('base64'));
+  });
+
+  it('should forget destroyed keys, including cached ones', async () => {
+    // Arrange
+    const { prisma } = createMockKeyPrisma();
+    const keyStore = createPrismaKeyStore(prisma, { masterKey: randomBytes(32) });
+    const key = await keyStore.getCurrentKey('User:user-1');
+
+    // Act
+    const destroyed = await keyStore.destroyKeys('User:user-1');
+
+    // Assert
+    expect(destroyed).toBe(1);
+    await expect(keyStore.getKey(key.id)).resolves.toBeUndefined();
+  });
+
+  it('should require the key model', () => {
+    expect(() => createPrismaKeyStore({}, { masterKey: randomBytes(32) })).toThrow(
+      '[@prisma-audit] Model "AuditDataKey" not found on the Prisma client',
+    );
+  });
+});
+
+describe('reencryptAuditLogs', () => {
+  it('should rewrite rows on rotated keys batch by batch', async () => {
+    // Arrange
+    const keyStore = createInMemoryKeyStore({ masterKey: randomBytes(32) });
+    const oldKey = await keyStore.getCurrentKey('tenant:acme');
+    const stored = [
+      { id: 'a', before: null, after: encryptPayload({ n: 1 }, oldKey, 'after'), changes: null },
+      { id: 'b', before: null, after: { plain: true }, changes: null },
+      { id: 'c', before: null, after: encryptPayload({ n: 3 }, oldKey, 'after'), changes: null },
+    ];
+    const findMany = vi
+      .fn()
+      .mockResolvedValueOnce(stored.slice(0, 2))
+      .mockResolvedValueOnce(stored.slice(2))
+      .mockResolvedValue([]);
+    const update = vi.fn().mockResolvedValue({});
+    const newKey = await keyStore.rotateKey('tenant:acme');
+
+    // Act
+    const result = await reencryptAuditLogs({ auditLog: { findMany, update } }, { keyStore, batchSize: 2 });
+
+    // Assert
+    expect(result).toEqual({ scanned: 3, reencrypted: 2, skippedChained: 0 });
+    expect(findMany.mock.calls[1]?.[0]).toMatchObject({ cursor: { id: 'b' }, skip: 1 });
+    expect(update.mock.calls.map(([args]) => args.where.id)).toEqual(['a', 'c']);
+    expect(update.mock.calls[0]?.[0].data.after).toMatchObject({ kid: newKey.id });
+  });
+});
+
+describe('key rotation with integrity', () => {
+  const models = [
+    { name: 'AuditLog', fields: ['id', 'chainKey', 'chainSequence', 'hash', 'previousHash'].map((name) => ({ name })) },
+  ];
+
+  const createLog = (after: unknown): AuditLogData => ({
+    actorCategory: 'model',
+    actorType: 'User',
+    actorId: createActorId('user-1'),
+    actorContext: null,
+    entityCategory: 'model',
+    entityType: 'Patient',
+    entityId: createEntityId('patient-1'),
+    entityContext: null,
+    aggregateCategory: 'model',
+    aggregateType: 'Patient',
+    aggregateId: createAggregateId('patient-1'),
+    aggregateContext: null,
+    action: 'update',
+    before: null,
+    after: after as AuditLogData['after'],
+    changes: null,
+    requestContext: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  });
+
+  /**
+   * In-memory audit log table answering the queries of the chain executor, the verifier and re-encryption
+   */
+  const createChainedTable = () => {
+    const stored: ChainedAuditLog[] = [];
+    const byChain = (a: ChainedAuditLog, b: ChainedAuditLog) => a.chainSequence - b.chainSequence;
+    const auditLog = {
+      create: vi.fn(async ({ data }: { data: ChainedAuditLog }) => {
+        stored.push({ ...data, id: `log-${stored.length + 1}` });
+      }),
+      findFirst: vi.fn(
+        async ({ where }: { where: { chainKey: string } }) =>
+          stored
+            .filter((row) => row.chainKey === where.chainKey)
+            .sort(byChain)
+            .at(-1) ?? null,
+      ),
+      findMany: vi.fn(async (args: { where?: { action?: string }; orderBy?: unknown }) => {
+        if (args.where?.action === 'purge') return [];
+        if (Array.isArray(args.orderBy)) return stored.filter((row) => row.chainKey != null).sort(byChain);
+        return [...stored];
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+        Object.assign(stored.find((row) => row.id === where.id) ?? {}, data);
+      }),
+    };
+    return { stored, auditLog };
+  };
+
+  const writeChained = async (client: unknown, keys: DataKey[]) => {
+    const executor = createIntegrityWriteExecutor(createPrismaWriteExecutor(null), {}, models, 'auditLog');
+    for (const [index, key] of keys.entries()) {
+      await executor.write(client, 'auditLog', [createLog(encryptPayload({ n: index }, key, 'after'))]);
+    }
+  };
+
+  it('should leave chained rows on their old keys so the chain still verifies', async () => {
+    // Arrange
+    const keyStore = createInMemoryKeyStore({ masterKey: randomBytes(32) });
+    const oldKey = await keyStore.getCurrentKey('Patient:patient-1');
+    const { stored, auditLog } = createChainedTable();
+    const client = { $transaction: vi.fn(), auditLog };
+    await writeChained(client, [oldKey, oldKey]);
+    const legacy = {
+      ...createLog(encryptPayload({ n: 2 }, oldKey, 'after')),
+      id: 'legacy',
+      chainKey: null,
+      hash: null,
+    };
+    stored.push(legacy as unknown as ChainedAuditLog);
+    await keyStore.rotateKey('Patient:patient-1');
+
+    // Act
+    const result = await reencryptAuditLogs(client, { keyStore, integrity: { enabled: true } });
+
+    // Assert
+    expect(result).toEqual({ scanned: 3, reencrypted: 1, skippedChained: 2 });
+    expect(auditLog.findMany.mock.calls[0]?.[0]).toMatchObject({ select: { chainKey: true, hash: true } });
+    expect(auditLog.update.mock.calls.map(([args]) => args.where.id)).toEqual(['legacy']);
+    await expect(verifyAuditChain(client)).resolves.toEqual({ valid: true, checkedRows: 2 });
+    expect((await decryptAuditLog(stored[1] as ChainedAuditLog, keyStore))?.after).toEqual({ n: 1 });
+  });
+
+  it('should rotate the master key by rewrapping data keys without touching audit rows', async () => {
+    // Arrange
+    const oldMasterKey = randomBytes(32);
+    const newMasterKey = randomBytes(32);
+    const { prisma, rows } = createMockKeyPrisma();
+    const oldStore = createPrismaKeyStore(prisma, { masterKey: oldMasterKey });
+    const keys = [await oldStore.getCurrentKey('Patient:patient-1'), await oldStore.rotateKey('Patient:patient-1')];
+    const { stored, auditLog } = createChainedTable();
+    const client = { $transaction: vi.fn(), auditLog, ...prisma };
+    await writeChained(client, keys);
+    const before = structuredClone(stored);
+
+    // Act
+    const result = await rewrapDataKeys(client, { oldMasterKey, newMasterKey, batchSize: 1 });
+    const rerun = await rewrapDataKeys(client, { oldMasterKey, newMasterKey });
+
+    // Assert
+    expect(result).toEqual({ rewrapped: 2 });
+    expect(rerun).toEqual({ rewrapped: 0 });
+    expect(stored).toEqual(before);
+    await expect(verifyAuditChain(client)).resolves.toEqual({ valid: true, checkedRows: 2 });
+    const newStore = createPrismaKeyStore(client, { masterKey: newMasterKey });
+    const decrypted = await Promise.all(stored.map((row) => decryptAuditLog(row, newStore)));
+    expect(decrypted.map((log) => log?.after)).toEqual([{ n: 0 }, { n: 1 }]);
+    await expect(createPrismaKeyStore(client, { masterKey: oldMasterKey }).getKey(rows[0]?.id ?? '')).rejects.toThrow();
+  });
+
+  it('should refuse rows that neither master key unwraps', async () => {
+    const { prisma } = createMockKeyPrisma();
+    await createPrismaKeyStore(prisma, { masterKey: randomBytes(32) }).getCurrentKey('Patient:patient-1');
+
+    await expect(
+      rewrapDataKeys(prisma, { oldMasterKey: randomBytes(32), newMasterKey: randomBytes(32) }),
+    ).rejects.toThrow();
+  });
+});
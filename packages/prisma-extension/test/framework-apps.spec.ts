@@ -0,0 +1,220 @@
+/**
+ * Tests for the NestJS module and the tRPC middleware inside real applications
+ *
+ * Verifies that `PrismaAuditModule.forRoot()` resolves the audited client through dependency
+ * injection and registers its interceptor globally, and that writes made by Nest handlers and
+ * tRPC procedures are audited with the context the interceptor or middleware built.
+ */
+
+import 'reflect-metadata';
+import type { AddressInfo } from 'node:net';
+import {
+  type AuditContext,
+  createAsyncLocalStorageProvider,
+  createTrpcAuditMiddleware,
+  defineEntity,
+  fromApiKeyHeader,
+} from '@kuruwic/prisma-audit-core';
+import { Body, Controller, Get, type INestApplication, Inject, Injectable, Module, Post } from '@nestjs/common';
+import { ApplicationConfig } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { initTRPC } from '@trpc/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createAuditClient, type PrismaClientWithAudit } from '../src/client-factory.js';
+import { PRISMA_AUDIT_CLIENT, PRISMA_AUDIT_PROVIDER, PrismaAuditModule } from '../src/nestjs/index.js';
+import type { PrismaAuditExtensionOptions } from '../src/types.js';
+
+type QueryHook = (params: {
+  model: string;
+  operation: string;
+  args: unknown;
+  query: (args: unknown) => Promise<unknown>;
+}) => Promise<unknown>;
+
+const alice = { category: 'model', type: 'User', id: 'user-1' };
+
+/**
+ * Prisma client double whose `$extends` routes `post.create` through the audit query hook
+ */
+const createPrisma = () => {
+  const auditLogCreate = vi.fn().mockResolvedValue({});
+  const postCreate = vi.fn(async (args: unknown) => ({ id: 'post-1', ...(args as { data: object }).data }));
+  const base = {
+    auditLog: { create: auditLogCreate },
+    post: { create: postCreate },
+    Post: { create: postCreate },
+    $transaction: (fn: (tx: unknown) => Promise<unknown>) => fn(base),
+    $extends: (extension: unknown): unknown => {
+      if (typeof extension === 'function') {
+        return extension(base);
+      }
+      const hook = (extension as { query: { $allModels: { $allOperations: QueryHook } } }).query.$allModels
+        .$allOperations;
+      return {
+        ...base,
+        post: { create: (args: unknown) => hook({ model: 'Post', operation: 'create', args, query: postCreate }) },
+      };
+    },
+  };
+  return { prisma: base, auditLogCreate };
+};
+
+const createAuditOptions = (prisma: unknown): PrismaAuditExtensionOptions => ({
+  provider: createAsyncLocalStorageProvider(),
+  basePrisma: prisma as never,
+  Prisma: {
+    defineExtension: (definition: unknown) => definition,
+    dmmf: { datamodel: { models: [{ name: 'Post', fields: [{ name: 'id', isId: true }], primaryKey: null }] } },
+  } as never,
+  aggregateMapping: { Post: defineEntity({ type: 'Post' }) },
+});
+
+type AuditedPrisma = PrismaClientWithAudit<ReturnType<typeof createPrisma>['prisma']>;
+
+describe('PrismaAuditModule in a Nest application', () => {
+  @Injectable()
+  class PostsService {
+    constructor(@Inject(PRISMA_AUDIT_CLIENT) private readonly prisma: AuditedPrisma) {}
+
+    create(title: string) {
+      return this.prisma.post.create({ data: { title } });
+    }
+  }
+
+  @Controller('posts')
+  class PostsController {
+    constructor(
+      @Inject(PostsService) private readonly posts: PostsService,
+      @Inject(PRISMA_AUDIT_PROVIDER) private readonly provider: PrismaAuditExtensionOptions['provider'],
+    ) {}
+
+    @Post()
+    async create(@Body() body: { title: string }) {
+      await new Promise((resolve) => setImmediate(resolve));
+      return this.posts.create(body.title);
+    }
+
+    @Get('context')
+    context(): AuditContext | null {
+      return this.provider.getContext() ?? null;
+    }
+  }
+
+  /** Feature module that does not import `PrismaAuditModule`, relying on it being global */
+  @Module({ controllers: [PostsController], providers: [PostsService] })
+  class PostsModule {}
+
+  let app: INestApplication | undefined;
+
+  afterEach(async () => {
+    await app?.close();
+    app = undefined;
+  });
+
+  const createApp = async () => {
+    const { prisma, auditLogCreate } = createPrisma();
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        PrismaAuditModule.forRoot({
+          prisma,
+          audit: createAuditOptions(prisma),
+          interceptor: { actor: fromApiKeyHeader({ resolve: (key) => (key === 'key-1' ? alice : undefined) }) },
+        }),
+        PostsModule,
+      ],
+    }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.listen(0, '127.0.0.1');
+    const { port } = app.getHttpServer().address() as AddressInfo;
+    return { moduleRef, auditLogCreate, url: `http://127.0.0.1:${port}` };
+  };
+
+  it('should resolve the audited client and register the interceptor globally', async () => {
+    // Arrange
+    const { moduleRef } = await createApp();
+
+    // Act
+    const client = moduleRef.get<AuditedPrisma>(PRISMA_AUDIT_CLIENT);
+    const interceptors = moduleRef.get(ApplicationConfig).getGlobalInterceptors();
+
+    // Assert
+    expect(client).toHaveProperty('post.create');
+    expect(moduleRef.get(PostsService)).toBeInstanceOf(PostsService);
+    expect(interceptors).toHaveLength(1);
+    expect(interceptors[0]).toHaveProperty('intercept');
+  });
+
+  it('should audit handler writes with the context built by the interceptor', async () => {
+    // Arrange
+    const { auditLogCreate, url } = await createApp();
+
+    // Act
+    const response = await fetch(`${url}/posts`, {
+      method: 'POST',
+      headers: { 'x-api-key': 'key-1', 'content-type': 'application/json' },
+      body: JSON.stringify({ title: 'Hello' }),
+    });
+    const context = await (await fetch(`${url}/posts/context`, { headers: { 'x-api-key': 'key-1' } })).json();
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ id: 'post-1', title: 'Hello' });
+    expect(auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'create',
+        entityType: 'Post',
+        entityId: 'post-1',
+        actorId: 'user-1',
+        requestContext: expect.objectContaining({
+          path: '/posts',
+          method: 'POST',
+          transport: 'http',
+          handler: 'PostsController.create',
+        }),
+      }),
+    });
+    expect(context).toMatchObject({ actor: alice, request: { handler: 'PostsController.context' } });
+  });
+});
+
+describe('createTrpcAuditMiddleware in a tRPC router', () => {
+  type Context = { userId?: string };
+
+  it('should audit procedure writes with the context built by the middleware', async () => {
+    // Arrange
+    const { prisma, auditLogCreate } = createPrisma();
+    const options = createAuditOptions(prisma);
+    const client = createAuditClient(prisma, options);
+    const t = initTRPC.context<Context>().create();
+    const auditedProcedure = t.procedure.use(
+      createTrpcAuditMiddleware<Context>({
+        provider: options.provider,
+        actor: (ctx) => (ctx.userId ? { ...alice, id: ctx.userId } : undefined),
+      }),
+    );
+    const router = t.router({
+      post: t.router({
+        create: auditedProcedure
+          .input((value) => value as { title: string })
+          .mutation(async ({ input }) => {
+            await new Promise((resolve) => setImmediate(resolve));
+            return client.post.create({ data: { title: input.title } });
+          }),
+      }),
+    });
+
+    // Act
+    const result = await t.createCallerFactory(router)({ userId: 'user-2' }).post.create({ title: 'Hello' });
+
+    // Assert
+    expect(result).toEqual({ id: 'post-1', title: 'Hello' });
+    expect(auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'create',
+        entityId: 'post-1',
+        actorId: 'user-2',
+        requestContext: { procedure: 'post.create', procedureType: 'mutation' },
+      }),
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for impersonation and delegation
+ *
+ * Verifies that impersonators and principals on the audit context are stored in their own
+ * columns and in `delegationContext`, that the enrich stage attaches the enriched delegation
+ * context, and that readers can filter on either identity.
+ */
+
+import type { AuditActor, AuditContext, LoggableEntity } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import { findMissingOptionalFields } from '../src/adapters/write-executor.js';
+import { buildAuditLog } from '../src/audit-log-builder/index.js';
+import type { PrismaClientManager } from '../src/client-manager/index.js';
+import { withDelegationContext } from '../src/lifecycle/stages.js';
+import { createAuditLogReader } from '../src/reader/index.js';
+
+const agent: AuditActor = { category: 'model', type: 'SupportAgent', id: 'agent-1', name: 'Sam' };
+const customer: AuditActor = { category: 'model', type: 'User', id: 'user-1' };
+const gateway: AuditActor = { category: 'system', type: 'Service', id: 'gateway' };
+const worker: AuditActor = { category: 'system', type: 'Service', id: 'worker' };
+
+const entityConfig: LoggableEntity = {
+  category: 'model',
+  type: 'Post',
+  idResolver: async (entity: unknown) => (entity as Record<string, unknown>).id as string,
+  aggregates: [],
+};
+
+const aggregateConfig = {
+  getEntityConfig: vi.fn().mockReturnValue(entityConfig),
+  isLoggable: vi.fn().mockReturnValue(true),
+  getAllLoggableModels: vi.fn().mockReturnValue(['Post']),
+  getMapping: vi.fn(),
+};
+
+const manager: PrismaClientManager = { baseClient: {} as never, activeClient: {} as never };
+
+const build = async (context: AuditContext) => {
+  const [log] = await buildAuditLog(
+    { id: 'post-1', title: 'Hello' },
+    'create',
+    context,
+    'Post',
+    manager,
+    null,
+    null,
+    null,
+    aggregateConfig,
+    undefined,
+    undefined,
+    {
+      aggregateRoots: [{ aggregateCategory: 'model', aggregateType: 'Post', aggregateId: 'post-1' }],
+      aggregateContexts: new Map([['Post', null]]),
+    },
+    undefined,
+    undefined,
+  );
+  return log;
+};
+
+describe('buildAuditLog impersonation and delegation', () => {
+  it('should store the impersonator and principal in their own columns', async () => {
+    // Act
+    const log = await build({ actor: gateway, impersonator: agent, onBehalfOf: customer });
+
+    // Assert
+    expect(log).toMatchObject({
+      actorId: 'gateway',
+      impersonatorCategory: 'model',
+      impersonatorType: 'SupportAgent',
+      impersonatorId: 'agent-1',
+      onBehalfOfCategory: 'model',
+      onBehalfOfType: 'User',
+      onBehalfOfId: 'user-1',
+      delegationContext: { impersonator: agent, onBehalfOf: customer },
+    });
+  });
+
+  it('should store the enriched delegation context and the chain', async () => {
+    // Arrange
+    const context = withDelegationContext(
+      { actor: worker, onBehalfOf: customer, delegationChain: [gateway] },
+      { onBehalfOf: { ...customer, context: { email: 'user@example.com' } }, delegationChain: [gateway] },
+    );
+
+    // Act
+    const log = await build(context);
+
+    // Assert
+    expect(log?.delegationContext).toEqual({
+      onBehalfOf: { ...customer, context: { email: 'user@example.com' } },
+      delegationChain: [gateway],
+    });
+    expect(log).not.toHaveProperty('impersonatorId');
+  });
+
+  it('should leave the columns unset without impersonation or delegation', async () => {
+    const log = await build({ actor: customer });
+
+    expect(Object.keys(log ?? {}).filter((key) => /impersonator|onBehalfOf|delegation/.test(key))).toEqual([]);
+  });
+
+  it('should omit delegation columns the audit log model lacks', () => {
+    const fields = ['operationId', 'transactionId', 'impersonatorId'].map((name) => ({ name }));
+
+    expect(findMissingOptionalFields([{ name: 'AuditLog', fields }], 'AuditLog')).toEqual([
+      'impersonatorCategory',
+      'impersonatorType',
+      'onBehalfOfCategory',
+      'onBehalfOfType',
+      'onBehalfOfId',
+      'delegationContext',
+    ]);
+  });
+});
+
+describe('createAuditLogReader impersonation and delegation', () => {
+  it('should filter on the impersonator and the principal', async () => {
+    // Arrange
+    const findMany = vi.fn().mockResolvedValue([]);
+    const reader = createAuditLogReader({ auditLog: { findMany } });
+
+    // Act
+    await reader.findMany({ impersonator: { id: 'agent-1' }, onBehalfOf: { type: 'User', id: ['user-1', 'user-2'] } });
+
+    // Assert
+    expect(findMany.mock.calls[0]?.[0].where).toEqual({
+      AND: [{ impersonatorId: 'agent-1' }, { onBehalfOfType: 'User', onBehalfOfId: { in: ['user-1', 'user-2'] } }],
+    });
+  });
+
+  it('should read back the delegation columns', async () => {
+    // Arrange
+    const row = {
+      id: 'log-1',
+      actorCategory: 'model',
+      actorType: 'User',
+      actorId: 'user-1',
+      actorContext: null,
+      entityCategory: 'model',
+      entityType: 'Post',
+      entityId: 'post-1',
+      entityContext: null,
+      aggregateCategory: 'model',
+      aggregateType: 'Post',
+      aggregateId: 'post-1',
+      aggregateContext: null,
+      action: 'update',
+      before: null,
+      after: null,
+      changes: null,
+      requestContext: null,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      impersonatorCategory: 'model',
+      impersonatorType: 'SupportAgent',
+      impersonatorId: 'agent-1',
+      onBehalfOfId: null,
+      delegationContext: { impersonator: agent },
+    };
+    const reader = createAuditLogReader({ auditLog: { findMany: vi.fn().mockResolvedValue([row]) } });
+
+    // Act
+    const log = await reader.findById('log-1');
+
+    // Assert
+    expect(log).toMatchObject({
+      impersonatorId: 'agent-1',
+      onBehalfOfId: null,
+      delegationContext: { impersonator: agent },
+    });
+  });
+});
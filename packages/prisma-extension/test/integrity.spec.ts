@@ -0,0 +1,203 @@
+/**
+ * Tests for audit log integrity mode
+ *
+ * Verifies chain column validation, hashing of persisted fields only, chain head lookup and
+ * the keyset walk of `verifyAuditChain`.
+ */
+
+import type { AuditLogData, ChainedAuditLog } from '@kuruwic/prisma-audit-core';
+import { createActorId, createAggregateId, createEntityId, createTraceId } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import { createPrismaWriteExecutor, findMissingOptionalFields } from '../src/adapters/write-executor.js';
+import {
+  createIntegrityWriteExecutor,
+  isPrismaTransactionClient,
+  isPrismaUniqueViolation,
+  readPrismaChainHead,
+  verifyAuditChain,
+} from '../src/integrity/index.js';
+
+const createLog = (title: string): AuditLogData => ({
+  actorCategory: 'model',
+  actorType: 'User',
+  actorId: createActorId('user-1'),
+  actorContext: null,
+  entityCategory: 'model',
+  entityType: 'Post',
+  entityId: createEntityId('post-1'),
+  entityContext: null,
+  aggregateCategory: 'model',
+  aggregateType: 'User',
+  aggregateId: createAggregateId('user-1'),
+  aggregateContext: null,
+  action: 'update',
+  before: null,
+  after: { title },
+  changes: null,
+  requestContext: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+});
+
+const auditLogModel = {
+  name: 'AuditLog',
+  fields: ['id', 'chainKey', 'chainSequence', 'hash', 'previousHash'].map((name) => ({ name })),
+};
+
+/**
+ * Write logs through the integrity executor into an in-memory table
+ */
+const writeChain = async (titles: string[]): Promise<ChainedAuditLog[]> => {
+  const rows: ChainedAuditLog[] = [];
+  const executor = createIntegrityWriteExecutor(
+    {
+      write: async (_client, _modelName, logs) => {
+        rows.push(...(logs as unknown as ChainedAuditLog[]).map((log) => ({ ...log, id: `log-${rows.length + 1}` })));
+      },
+    },
+    {},
+    [auditLogModel],
+    'auditLog',
+  );
+  const client = { $transaction: vi.fn(), auditLog: { findFirst: vi.fn(async () => rows.at(-1) ?? null) } };
+  for (const title of titles) {
+    await executor.write(client, 'auditLog', [createLog(title)]);
+  }
+  return rows;
+};
+
+describe('createIntegrityWriteExecutor', () => {
+  it('should reject audit log models without chain columns', () => {
+    const legacyModel = { name: 'AuditLog', fields: [{ name: 'id' }, { name: 'hash' }] };
+
+    expect(() => createIntegrityWriteExecutor({ write: vi.fn() }, {}, [legacyModel], 'auditLog')).toThrow(
+      '[@prisma-audit] integrity.enabled requires the audit log model to declare: chainKey, chainSequence, previousHash',
+    );
+  });
+
+  it('should hash only the fields the audit log model persists', async () => {
+    // Arrange - a schema created before transactionId existed
+    const models = [{ ...auditLogModel, fields: [...auditLogModel.fields, { name: 'operationId' }] }];
+    const omittedFields = findMissingOptionalFields(models, 'auditLog');
+    const stored: ChainedAuditLog[] = [];
+    const client = {
+      $transaction: vi.fn(),
+      auditLog: {
+        create: vi.fn(async ({ data }: { data: ChainedAuditLog }) => {
+          stored.push({ ...data, id: `log-${stored.length + 1}` });
+        }),
+        findFirst: vi.fn(async () => stored.at(-1) ?? null),
+      },
+    };
+    const executor = createIntegrityWriteExecutor(
+      createPrismaWriteExecutor(null, omittedFields),
+      {},
+      models,
+      'auditLog',
+      omittedFields,
+    );
+
+    // Act
+    await executor.write(client, 'auditLog', [
+      { ...createLog('v1'), operationId: createTraceId('op-1'), transactionId: createTraceId('tx-1') },
+    ]);
+
+    // Assert
+    expect(stored[0]).not.toHaveProperty('transactionId');
+    expect(stored[0]?.operationId).toBe('op-1');
+    await expect(
+      verifyAuditChain({ auditLog: { findMany: vi.fn().mockResolvedValueOnce([]).mockResolvedValueOnce(stored) } }),
+    ).resolves.toEqual({
+      valid: true,
+      checkedRows: 1,
+    });
+  });
+});
+
+describe('readPrismaChainHead', () => {
+  it('should read the highest sequence of the chain', async () => {
+    // Arrange
+    const findFirst = vi.fn().mockResolvedValue({ chainSequence: 4, hash: 'abc' });
+
+    // Act
+    const head = await readPrismaChainHead({ auditLog: { findFirst } }, 'auditLog', 'User:user-1');
+
+    // Assert
+    expect(head).toEqual({ chainSequence: 4, hash: 'abc' });
+    expect(findFirst).toHaveBeenCalledWith({
+      where: { chainKey: 'User:user-1' },
+      orderBy: { chainSequence: 'desc' },
+      select: { chainSequence: true, hash: true },
+    });
+  });
+});
+
+describe('Prisma client and error detection', () => {
+  it('should treat clients without $transaction as transaction clients', () => {
+    expect(isPrismaTransactionClient({ auditLog: {} })).toBe(true);
+    expect(isPrismaTransactionClient({ $transaction: vi.fn(), auditLog: {} })).toBe(false);
+  });
+
+  it('should recognize unique constraint violations', () => {
+    expect(isPrismaUniqueViolation({ code: 'P2002', meta: { target: ['chain_key', 'chain_sequence'] } })).toBe(true);
+    expect(isPrismaUniqueViolation({ code: 'P2025' })).toBe(false);
+    expect(isPrismaUniqueViolation(new Error('connection lost'))).toBe(false);
+  });
+});
+
+describe('verifyAuditChain', () => {
+  it('should walk every page and report a valid chain', async () => {
+    // Arrange
+    const rows = await writeChain(['v1', 'v2', 'v3']);
+    const findMany = vi
+      .fn()
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce(rows.slice(0, 2))
+      .mockResolvedValueOnce(rows.slice(2))
+      .mockResolvedValue([]);
+
+    // Act
+    const result = await verifyAuditChain({ auditLog: { findMany } }, { batchSize: 2 });
+
+    // Assert
+    expect(result).toEqual({ valid: true, checkedRows: 3 });
+    expect(findMany).toHaveBeenCalledTimes(3);
+    expect(findMany).toHaveBeenLastCalledWith({
+      where: {
+        AND: [
+          { chainKey: { not: null } },
+          {
+            OR: [{ chainKey: { gt: 'User:user-1' } }, { chainKey: 'User:user-1', chainSequence: { gt: 2 } }],
+          },
+        ],
+      },
+      orderBy: [{ chainKey: 'asc' }, { chainSequence: 'asc' }],
+      take: 2,
+    });
+  });
+
+  it('should stop at the first violation', async () => {
+    // Arrange
+    const [first, second, third] = await writeChain(['v1', 'v2', 'v3']);
+    const findMany = vi
+      .fn()
+      .mockResolvedValueOnce([])
+      .mockResolvedValue([first, { ...second, after: { title: 'forged' } }, third]);
+
+    // Act
+    const result = await verifyAuditChain({ auditLog: { findMany } }, { chainKey: 'User:user-1' });
+
+    // Assert
+    expect(result).toMatchObject({
+      valid: false,
+      checkedRows: 2,
+      violation: { _tag: 'ModifiedPayload', chainKey: 'User:user-1', chainSequence: 2, id: 'log-2' },
+    });
+    expect(findMany.mock.calls[1]?.[0]).toMatchObject({ where: { AND: [{ chainKey: 'User:user-1' }, {}] } });
+  });
+
+  it('should throw when the audit log model is missing', async () => {
+    await expect(verifyAuditChain({}, { auditLogModel: 'Activity' })).rejects.toThrow(
+      '[@prisma-audit] Audit log model "Activity" not found on the Prisma client',
+    );
+  });
+});
@@ -3,6 +3,7 @@
  *
  * This stage is responsible for:
  * 1. Enriching actor context via enrichActorContext
+ *    (and the impersonator/principal via enrichDelegationContext)
  * 2. Getting entity config via aggregateConfig.getEntityConfig
  * 3. Enriching entity context via batchEnrichEntityContexts (if entity config exists)
  * 4. Adding all enriched contexts to the context
@@ -43,9 +44,14 @@ describe('createEnrichContextsStage', () => {
 
     const deps: Pick<
       StageDependencies,
-      'enrichActorContext' | 'batchEnrichEntityContexts' | 'aggregateConfig' | 'contextEnricher'
+      | 'enrichActorContext'
+      | 'enrichDelegationContext'
+      | 'batchEnrichEntityContexts'
+      | 'aggregateConfig'
+      | 'contextEnricher'
     > = {
       enrichActorContext: mockEnrichActorContext,
+      enrichDelegationContext: vi.fn().mockResolvedValue(null),
       batchEnrichEntityContexts: vi.fn(),
       aggregateConfig: {
         getEntityConfig: mockGetEntityConfig,
@@ -99,9 +105,14 @@ describe('createEnrichContextsStage', () => {
 
     const deps: Pick<
       StageDependencies,
-      'enrichActorContext' | 'batchEnrichEntityContexts' | 'aggregateConfig' | 'contextEnricher'
+      | 'enrichActorContext'
+      | 'enrichDelegationContext'
+      | 'batchEnrichEntityContexts'
+      | 'aggregateConfig'
+      | 'contextEnricher'
     > = {
       enrichActorContext: mockEnrichActorContext,
+      enrichDelegationContext: vi.fn().mockResolvedValue(null),
       batchEnrichEntityContexts: mockBatchEnrichEntityContexts,
       aggregateConfig: {
         getEntityConfig: mockGetEntityConfig,
@@ -152,9 +163,14 @@ describe('createEnrichContextsStage', () => {
 
     const deps: Pick<
       StageDependencies,
-      'enrichActorContext' | 'batchEnrichEntityContexts' | 'aggregateConfig' | 'contextEnricher'
+      | 'enrichActorContext'
+      | 'enrichDelegationContext'
+      | 'batchEnrichEntityContexts'
+      | 'aggregateConfig'
+      | 'contextEnricher'
     > = {
       enrichActorContext: mockEnrichActorContext,
+      enrichDelegationContext: vi.fn().mockResolvedValue(null),
       batchEnrichEntityContexts: vi.fn(),
       aggregateConfig: {
         getEntityConfig: mockGetEntityConfig,
@@ -198,9 +214,14 @@ describe('createEnrichContextsStage', () => {
 
     const deps: Pick<
       StageDependencies,
-      'enrichActorContext' | 'batchEnrichEntityContexts' | 'aggregateConfig' | 'contextEnricher'
+      | 'enrichActorContext'
+      | 'enrichDelegationContext'
+      | 'batchEnrichEntityContexts'
+      | 'aggregateConfig'
+      | 'contextEnricher'
     > = {
       enrichActorContext: mockEnrichActorContext,
+      enrichDelegationContext: vi.fn().mockResolvedValue(null),
       batchEnrichEntityContexts: vi.fn(),
       aggregateConfig: {
         getEntityConfig: mockGetEntityConfig,
@@ -247,9 +268,14 @@ describe('createEnrichContextsStage', () => {
 
     const deps: Pick<
       StageDependencies,
-      'enrichActorContext' | 'batchEnrichEntityContexts' | 'aggregateConfig' | 'contextEnricher'
+      | 'enrichActorContext'
+      | 'enrichDelegationContext'
+      | 'batchEnrichEntityContexts'
+      | 'aggregateConfig'
+      | 'contextEnricher'
     > = {
       enrichActorContext: mockEnrichActorContext,
+      enrichDelegationContext: vi.fn().mockResolvedValue(null),
       batchEnrichEntityContexts: vi.fn(),
       aggregateConfig: {
         getEntityConfig: mockGetEntityConfig,
@@ -270,4 +296,39 @@ describe('createEnrichContextsStage', () => {
     expect(enrichedResult).toHaveProperty('actorContext');
     expect(enrichedResult).toHaveProperty('entityContext');
   });
+
+  it('should attach the enriched delegation context to the audit context', async () => {
+    // Arrange
+    const delegationContext = { impersonator: { category: 'model', type: 'SupportAgent', id: 'agent-1' } };
+    const mockEnrichDelegationContext = vi.fn().mockResolvedValue(delegationContext);
+    const executedContext: ExecutedContext = {
+      operation: { model: 'Post', action: 'create', args: { data: { title: 'New Title' } } },
+      auditContext: {
+        actor: { category: 'model', type: 'User', id: 'user-1' },
+        impersonator: delegationContext.impersonator,
+      },
+      clientToUse: {} as unknown as PrismaClientWithDynamicAccess,
+      query: vi.fn(),
+      beforeState: null,
+      nestedPreFetchResults: undefined,
+      result: { id: 'post-1', title: 'New Title' },
+    };
+
+    const stage = createEnrichContextsStage({
+      enrichActorContext: vi.fn().mockResolvedValue(null),
+      enrichDelegationContext: mockEnrichDelegationContext,
+      batchEnrichEntityContexts: vi.fn(),
+      aggregateConfig: {
+        getEntityConfig: vi.fn().mockReturnValue(null),
+      } as unknown as StageDependencies['aggregateConfig'],
+      contextEnricher: undefined,
+    });
+
+    // Act
+    const result = await stage(executedContext);
+
+    // Assert
+    expect(mockEnrichDelegationContext).toHaveBeenCalledWith(executedContext.auditContext, undefined, {});
+    expect(result.auditContext).toEqual({ ...executedContext.auditContext, _delegationContext: delegationContext });
+  });
 });
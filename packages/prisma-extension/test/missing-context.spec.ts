@@ -0,0 +1,225 @@
+/**
+ * Tests for the missing context policy
+ *
+ * Verifies mode resolution (model-level > global-level > `'skip'`), the handling of each
+ * mode for writes made without an audit context, and that the extension applies it to model
+ * operations and raw SQL.
+ */
+
+import { createAsyncLocalStorageProvider, defineEntity, type LoggableEntity } from '@kuruwic/prisma-audit-core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SYSTEM_ACTOR, getMissingContextMode, resolveMissingContext } from '../src/config/index.js';
+import { createAuditLogExtension } from '../src/extension.js';
+import type { PrismaAuditExtensionOptions } from '../src/types.js';
+
+const entities: Record<string, LoggableEntity> = {
+  User: defineEntity({ type: 'User' }),
+  Payment: defineEntity({ type: 'Payment', missingContext: 'throw' }),
+};
+
+const getEntityConfig = (modelName: string) => entities[modelName];
+
+describe('getMissingContextMode', () => {
+  it('should default to skip', () => {
+    expect(getMissingContextMode('User', { getEntityConfig })).toBe('skip');
+  });
+
+  it('should prefer the model-level mode over the global mode', () => {
+    expect(getMissingContextMode('User', { getEntityConfig, missingContext: 'warn' })).toBe('warn');
+    expect(getMissingContextMode('Payment', { getEntityConfig, missingContext: { mode: 'system' } })).toBe('throw');
+  });
+});
+
+describe('resolveMissingContext', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should skip silently by default', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(resolveMissingContext('User', 'create', { getEntityConfig })).toBeUndefined();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should warn and skip in warn mode', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(resolveMissingContext('User', 'update', { getEntityConfig, missingContext: 'warn' })).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('User.update ran without an audit context'));
+  });
+
+  it('should throw in throw mode', () => {
+    expect(() => resolveMissingContext('Payment', 'create', { getEntityConfig })).toThrow(
+      '[@prisma-audit] Payment.create ran without an audit context',
+    );
+  });
+
+  it('should fall back to the default system actor with the call-site stack', () => {
+    const context = resolveMissingContext('User', 'create', { getEntityConfig, missingContext: 'system' });
+
+    expect(context?.actor).toEqual(DEFAULT_SYSTEM_ACTOR);
+    expect(context?.request?.callSite).toEqual(expect.stringContaining('missing-context'));
+  });
+
+  it('should use the configured system actor', () => {
+    const actor = { category: 'system', type: 'Migration', id: 'backfill-2026' };
+
+    const context = resolveMissingContext('User', 'create', {
+      getEntityConfig,
+      missingContext: { mode: 'system', actor },
+    });
+
+    expect(context?.actor).toEqual(actor);
+  });
+});
+
+describe('missing context through the extension', () => {
+  type QueryHook = (params: {
+    model?: string;
+    operation: string;
+    args: unknown;
+    query: (args: unknown) => Promise<unknown>;
+  }) => Promise<unknown>;
+
+  const migration = { category: 'system', type: 'Migration', id: 'backfill-2026' };
+
+  const setup = (options: Pick<PrismaAuditExtensionOptions, 'missingContext' | 'rawQueries'>) => {
+    const auditLogCreate = vi.fn().mockResolvedValue({});
+    const userCreate = vi.fn(async (args: { data: object }) => ({ id: 'user-1', ...args.data }));
+    const paymentCreate = vi.fn(async (args: { data: object }) => ({ id: 'payment-1', ...args.data }));
+    const baseClient = {
+      auditLog: { create: auditLogCreate },
+      User: { create: userCreate },
+      Payment: { create: paymentCreate },
+      $transaction: (fn: (tx: unknown) => Promise<unknown>) => fn(baseClient),
+      $extends: vi.fn().mockReturnValue({}),
+    };
+    const model = (name: string, dbName: string) => ({
+      name,
+      dbName,
+      fields: [{ name: 'id', kind: 'scalar', type: 'String', isId: true }],
+      primaryKey: null,
+    });
+    const extension = createAuditLogExtension({
+      provider: createAsyncLocalStorageProvider(),
+      basePrisma: baseClient as never,
+      Prisma: {
+        defineExtension: (definition: unknown) => definition,
+        dmmf: { datamodel: { models: [model('User', 'users'), model('Payment', 'payments')] } },
+      } as never,
+      aggregateMapping: {
+        User: defineEntity({ type: 'User' }),
+        Payment: defineEntity({ type: 'Payment', missingContext: 'throw' }),
+      },
+      ...options,
+    }) as unknown as (client: unknown) => unknown;
+    extension(baseClient);
+    const { query: hooks } = baseClient.$extends.mock.calls[0]?.[0] as {
+      query: { $allModels: { $allOperations: QueryHook }; $executeRawUnsafe?: QueryHook };
+    };
+    return { auditLogCreate, userCreate, paymentCreate, hooks };
+  };
+
+  it('should reject a write before it runs in throw mode', async () => {
+    // Arrange
+    const { auditLogCreate, userCreate, hooks } = setup({ missingContext: 'throw' });
+    const query = vi.fn();
+
+    // Act
+    const write = hooks.$allModels.$allOperations({
+      model: 'User',
+      operation: 'create',
+      args: { data: { name: 'Alice' } },
+      query,
+    });
+
+    // Assert
+    await expect(write).rejects.toThrow('[@prisma-audit] User.create ran without an audit context');
+    expect(query).not.toHaveBeenCalled();
+    expect(userCreate).not.toHaveBeenCalled();
+    expect(auditLogCreate).not.toHaveBeenCalled();
+  });
+
+  it('should audit the write with the system actor and call site in system mode', async () => {
+    // Arrange
+    const { auditLogCreate, userCreate, hooks } = setup({ missingContext: { mode: 'system', actor: migration } });
+
+    // Act
+    const result = await hooks.$allModels.$allOperations({
+      model: 'User',
+      operation: 'create',
+      args: { data: { name: 'Alice' } },
+      query: vi.fn(),
+    });
+
+    // Assert
+    expect(result).toEqual({ id: 'user-1', name: 'Alice' });
+    expect(userCreate).toHaveBeenCalledTimes(1);
+    expect(auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'create',
+        entityType: 'User',
+        entityId: 'user-1',
+        actorCategory: 'system',
+        actorType: 'Migration',
+        actorId: 'backfill-2026',
+        requestContext: { callSite: expect.stringContaining('missing-context.spec.ts') },
+      }),
+    });
+  });
+
+  it('should let the entity mode override the global mode', async () => {
+    // Arrange
+    const { auditLogCreate, paymentCreate, hooks } = setup({ missingContext: { mode: 'system', actor: migration } });
+
+    // Act
+    const write = hooks.$allModels.$allOperations({
+      model: 'Payment',
+      operation: 'create',
+      args: { data: { amount: 100 } },
+      query: vi.fn(),
+    });
+
+    // Assert
+    await expect(write).rejects.toThrow('[@prisma-audit] Payment.create ran without an audit context');
+    expect(paymentCreate).not.toHaveBeenCalled();
+    expect(auditLogCreate).not.toHaveBeenCalled();
+  });
+
+  it('should apply the mode of the target model to raw SQL writes', async () => {
+    // Arrange
+    const { auditLogCreate, hooks } = setup({
+      missingContext: { mode: 'system', actor: migration },
+      rawQueries: { enabled: true, mode: 'table' },
+    });
+    const rawHook = hooks.$executeRawUnsafe as QueryHook;
+    const userQuery = vi.fn().mockResolvedValue(3);
+    const paymentQuery = vi.fn().mockResolvedValue(1);
+
+    // Act
+    const affected = await rawHook({
+      operation: '$executeRawUnsafe',
+      args: ['UPDATE users SET role = ?', 'ADMIN'],
+      query: userQuery,
+    });
+    const rejected = rawHook({
+      operation: '$executeRawUnsafe',
+      args: ['DELETE FROM payments WHERE id = ?', 'payment-1'],
+      query: paymentQuery,
+    });
+
+    // Assert
+    expect(affected).toBe(3);
+    expect(auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'raw',
+        entityType: 'User',
+        actorType: 'Migration',
+        entityContext: expect.objectContaining({ statement: 'update', table: 'users', affectedRows: 3 }),
+      }),
+    });
+    await expect(rejected).rejects.toThrow('[@prisma-audit] Payment.delete ran without an audit context');
+    expect(paymentQuery).not.toHaveBeenCalled();
+  });
+});
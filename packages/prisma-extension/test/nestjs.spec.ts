@@ -0,0 +1,165 @@
+/**
+ * Tests for the NestJS integration
+ *
+ * Verifies that `PrismaAuditModule.forRoot()` provides the audited client and the global
+ * interceptor, and that the interceptor builds the audit context of HTTP, GraphQL and
+ * microservice executions.
+ */
+
+import { AsyncResource } from 'node:async_hooks';
+import type { AuditContext } from '@kuruwic/prisma-audit-core';
+import { createAsyncLocalStorageProvider, fromApiKeyHeader } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import { createAuditClient } from '../src/client-factory.js';
+import {
+  createPrismaAuditInterceptor,
+  type NestExecutionContextLike,
+  PRISMA_AUDIT_CLIENT,
+  PRISMA_AUDIT_PROVIDER,
+  PrismaAuditModule,
+} from '../src/nestjs/index.js';
+import type { PrismaAuditExtensionOptions } from '../src/types.js';
+
+vi.mock('../src/client-factory.js', () => ({
+  createAuditClient: vi.fn((prisma: unknown) => ({ audited: prisma })),
+}));
+
+const alice = { category: 'model', type: 'User', id: 'user-1' };
+
+class PostsController {
+  create() {}
+}
+
+const createExecutionContext = (type: string, args: unknown[]): NestExecutionContextLike => ({
+  getType: () => type,
+  getClass: () => PostsController,
+  getHandler: () => PostsController.prototype.create,
+  getArgs: () => args,
+  switchToHttp: () => ({ getRequest: () => args[0] }),
+});
+
+/** Call handler binding the async context like NestJS' `InterceptorsConsumer` */
+const contextCapturingHandler = (provider: ReturnType<typeof createAsyncLocalStorageProvider>) => ({
+  handle: () => AsyncResource.bind((): AuditContext | undefined => provider.getContext()),
+});
+
+describe('createPrismaAuditInterceptor', () => {
+  const provider = createAsyncLocalStorageProvider();
+  const interceptor = createPrismaAuditInterceptor({
+    provider,
+    actor: fromApiKeyHeader({ resolve: () => alice }),
+    rpcActor: (context) => {
+      const message = context.getArgs()[0] as { userId?: string };
+      return message.userId ? { ...alice, id: message.userId } : undefined;
+    },
+  });
+
+  it('should run HTTP handlers inside the audit context', async () => {
+    // Arrange
+    const request = { method: 'POST', originalUrl: '/posts?draft=true', headers: { 'x-api-key': 'key' }, ip: '::1' };
+    const context = createExecutionContext('http', [request]);
+
+    // Act
+    const handler = await interceptor.intercept(context, contextCapturingHandler(provider));
+
+    // Assert
+    expect(handler()).toEqual({
+      actor: alice,
+      request: {
+        ipAddress: '::1',
+        path: '/posts',
+        method: 'POST',
+        transport: 'http',
+        handler: 'PostsController.create',
+      },
+    });
+  });
+
+  it('should read the request and operation of GraphQL resolvers', async () => {
+    // Arrange
+    const fetchRequest = new Request('http://localhost/graphql', { method: 'POST', headers: { 'x-api-key': 'key' } });
+    const info = { fieldName: 'createPost', operation: { operation: 'mutation', name: { value: 'CreatePost' } } };
+    const context = createExecutionContext('graphql', [{}, {}, { request: fetchRequest }, info]);
+
+    // Act
+    const handler = await interceptor.intercept(context, contextCapturingHandler(provider));
+
+    // Assert
+    expect(handler()).toEqual({
+      actor: alice,
+      request: {
+        path: '/graphql',
+        method: 'POST',
+        transport: 'graphql',
+        handler: 'PostsController.create',
+        graphql: { operationType: 'mutation', operationName: 'CreatePost', fieldName: 'createPost' },
+      },
+    });
+  });
+
+  it('should use rpcActor for microservice messages', async () => {
+    // Act
+    const identified = await interceptor.intercept(
+      createExecutionContext('rpc', [{ userId: 'user-2' }]),
+      contextCapturingHandler(provider),
+    );
+    const anonymous = await interceptor.intercept(
+      createExecutionContext('rpc', [{}]),
+      contextCapturingHandler(provider),
+    );
+
+    // Assert
+    expect(identified()).toEqual({
+      actor: { ...alice, id: 'user-2' },
+      request: { transport: 'rpc', handler: 'PostsController.create' },
+    });
+    expect(anonymous()?.actor).toMatchObject({ category: 'anonymous' });
+  });
+
+  it('should pass executions through without an audit context when no actor is found', async () => {
+    // Arrange
+    const strict = createPrismaAuditInterceptor({ provider, anonymousActor: false });
+
+    // Act
+    const handler = await strict.intercept(createExecutionContext('rpc', [{}]), contextCapturingHandler(provider));
+
+    // Assert
+    expect(handler()).toBeUndefined();
+  });
+});
+
+describe('PrismaAuditModule', () => {
+  const provider = createAsyncLocalStorageProvider();
+  const prisma = { $extends: vi.fn() };
+  const audit = { provider, basePrisma: prisma, aggregateMapping: {} } as unknown as PrismaAuditExtensionOptions;
+
+  it('should provide the audited client, the provider and the global interceptor', () => {
+    // Act
+    const module = PrismaAuditModule.forRoot({ prisma, audit });
+    const [client, contextProvider, interceptor] = module.providers.map((definition) =>
+      'useFactory' in definition ? definition.useFactory() : definition.useValue,
+    );
+
+    // Assert
+    expect(module).toMatchObject({ module: PrismaAuditModule, global: true });
+    expect(module.exports).toEqual([PRISMA_AUDIT_CLIENT, PRISMA_AUDIT_PROVIDER]);
+    expect(module.providers.map((definition) => definition.provide)).toEqual([
+      PRISMA_AUDIT_CLIENT,
+      PRISMA_AUDIT_PROVIDER,
+      'APP_INTERCEPTOR',
+    ]);
+    expect(client).toEqual({ audited: prisma });
+    expect(createAuditClient).toHaveBeenCalledWith(prisma, audit);
+    expect(contextProvider).toBe(provider);
+    expect(interceptor).toHaveProperty('intercept');
+  });
+
+  it('should leave out the interceptor when disabled', () => {
+    const module = PrismaAuditModule.forRoot({ prisma, audit, interceptor: false });
+
+    expect(module.providers.map((definition) => definition.provide)).toEqual([
+      PRISMA_AUDIT_CLIENT,
+      PRISMA_AUDIT_PROVIDER,
+    ]);
+  });
+});
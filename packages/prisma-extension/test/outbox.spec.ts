@@ -0,0 +1,253 @@
+/**
+ * Tests for the transactional outbox
+ *
+ * Verifies that outbox rows are written through the transactional client, and that the relay
+ * delivers each row once, marks it processed, retries failures with backoff and refuses to
+ * bypass `hooks.writer`.
+ */
+
+import type { AuditContext, AuditLogData } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createOutboxRelay,
+  createOutboxWriter,
+  findMissingOutboxColumns,
+  OUTBOX_COLUMNS,
+} from '../src/outbox/index.js';
+
+const context: AuditContext = {
+  actor: { category: 'model', type: 'User', id: 'user-1' },
+  request: { path: '/posts' },
+  transactionalClient: {},
+};
+
+const log = {
+  actorCategory: 'model',
+  actorType: 'User',
+  actorId: 'user-1',
+  actorContext: null,
+  entityCategory: 'model',
+  entityType: 'Post',
+  entityId: 'post-1',
+  entityContext: null,
+  aggregateCategory: 'model',
+  aggregateType: 'Post',
+  aggregateId: 'post-1',
+  aggregateContext: null,
+  action: 'create',
+  before: null,
+  after: { id: 'post-1' },
+  changes: null,
+  requestContext: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+} as unknown as AuditLogData;
+
+type Row = {
+  id: string;
+  payload: unknown;
+  availableAt: Date;
+  attempts: number;
+  lastError: string | null;
+  processedAt: Date | null;
+};
+
+const matches = (row: Row, where: Record<string, unknown>): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    const value = row[key as keyof Row];
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      const { lte, lt } = condition as { lte?: Date; lt?: number };
+      return (lte === undefined || (value as Date) <= lte) && (lt === undefined || (value as number) < lt);
+    }
+    return condition instanceof Date ? (value as Date).getTime() === condition.getTime() : value === condition;
+  });
+
+/**
+ * In-memory outbox model with the subset of the Prisma delegate API the outbox uses
+ */
+const createFakeOutbox = (rows: Row[]) => ({
+  rows,
+  create: vi.fn(async ({ data }: { data: { payload: unknown } }) => {
+    rows.push({
+      id: `row-${rows.length + 1}`,
+      payload: data.payload,
+      availableAt: new Date(0),
+      attempts: 0,
+      lastError: null,
+      processedAt: null,
+    });
+  }),
+  findMany: vi.fn(async ({ where, take }: { where: Record<string, unknown>; take: number }) =>
+    rows.filter((row) => matches(row, where)).slice(0, take),
+  ),
+  updateMany: vi.fn(async ({ where, data }: { where: Record<string, unknown>; data: Partial<Row> }) => {
+    const matched = rows.filter((row) => matches(row, where));
+    for (const row of matched) Object.assign(row, data);
+    return { count: matched.length };
+  }),
+  update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<Row> }) => {
+    Object.assign(rows.find((row) => row.id === where.id) as Row, data);
+  }),
+});
+
+const createRelayClient = (rows: Row[]) => {
+  const auditOutbox = createFakeOutbox(rows);
+  const auditLog = { create: vi.fn(), createMany: vi.fn() };
+  const client = { auditOutbox, auditLog, $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(client)) };
+  return client;
+};
+
+const Prisma = { DbNull: 'DbNull', dmmf: { datamodel: { models: [] } } };
+const now = () => new Date('2026-01-01T00:00:10Z');
+
+describe('createOutboxWriter', () => {
+  it('should store logs and the audit context through the given client', async () => {
+    // Arrange
+    const rows: Row[] = [];
+    const txClient = { auditOutbox: createFakeOutbox(rows) };
+
+    // Act
+    await createOutboxWriter('AuditOutbox').enqueue(txClient, [log], context);
+
+    // Assert
+    expect(rows).toHaveLength(1);
+    expect(rows[0]?.payload).toEqual({
+      logs: [{ ...log, createdAt: '2026-01-01T00:00:00.000Z' }],
+      context: { actor: context.actor, request: context.request },
+    });
+  });
+
+  it('should reject an outbox model without the required columns', () => {
+    const models = [{ name: 'AuditOutbox', fields: [{ name: 'id' }, { name: 'payload' }] }];
+
+    expect(findMissingOutboxColumns(models, 'AuditOutbox')).toEqual(OUTBOX_COLUMNS.slice(2));
+    expect(() => createOutboxWriter('AuditOutbox', models)).toThrow('availableAt, attempts, lastError, processedAt');
+  });
+});
+
+describe('createOutboxRelay', () => {
+  const enqueue = async (client: ReturnType<typeof createRelayClient>) => {
+    await createOutboxWriter('AuditOutbox').enqueue(client, [log], context);
+  };
+
+  it('should write rows to the audit log table and mark them processed in one transaction', async () => {
+    // Arrange
+    const client = createRelayClient([]);
+    await enqueue(client);
+    const relay = createOutboxRelay(client, { Prisma, now });
+
+    // Act
+    const first = await relay.relay();
+    const second = await relay.relay();
+
+    // Assert
+    expect(first).toEqual({ delivered: 1, failed: 0, deadLettered: 0 });
+    expect(second).toEqual({ delivered: 0, failed: 0, deadLettered: 0 });
+    expect(client.$transaction).toHaveBeenCalledTimes(1);
+    expect(client.auditLog.create).toHaveBeenCalledWith({ data: expect.objectContaining({ entityId: 'post-1' }) });
+    expect(client.auditLog.create.mock.calls[0]?.[0].data.createdAt).toEqual(log.createdAt);
+    expect(client.auditOutbox.rows[0]?.processedAt).toEqual(now());
+  });
+
+  it('should pass logs and the stored context to a custom writer', async () => {
+    // Arrange
+    const client = createRelayClient([]);
+    await enqueue(client);
+    const writer = vi.fn().mockResolvedValue(undefined);
+
+    // Act
+    await createOutboxRelay(client, { Prisma, now, writer }).relay();
+
+    // Assert
+    expect(writer).toHaveBeenCalledWith(
+      [expect.objectContaining({ entityId: 'post-1' })],
+      { actor: context.actor, request: context.request },
+      expect.any(Function),
+    );
+    expect(client.auditOutbox.rows[0]?.processedAt).toEqual(now());
+  });
+
+  it('should reschedule failed rows with exponential backoff until maxAttempts', async () => {
+    // Arrange
+    const client = createRelayClient([]);
+    await enqueue(client);
+    const onError = vi.fn();
+    const writer = vi.fn().mockRejectedValue(new Error('sink down'));
+    let clock = now().getTime();
+    const relay = createOutboxRelay(client, {
+      Prisma,
+      writer,
+      onError,
+      retry: { maxAttempts: 2, baseDelayMs: 1000 },
+      now: () => new Date(clock),
+    });
+
+    // Act
+    const first = await relay.relay();
+    const row = client.auditOutbox.rows[0] as Row;
+    const scheduledAt = row.availableAt;
+    clock = scheduledAt.getTime();
+    const second = await relay.relay();
+    const third = await relay.relay();
+
+    // Assert
+    expect(first).toEqual({ delivered: 0, failed: 1, deadLettered: 0 });
+    expect(scheduledAt).toEqual(new Date(now().getTime() + 1000));
+    expect(second).toEqual({ delivered: 0, failed: 1, deadLettered: 1 });
+    expect(third).toEqual({ delivered: 0, failed: 0, deadLettered: 0 });
+    expect(row).toMatchObject({ attempts: 2, lastError: 'sink down', processedAt: null });
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), row.id);
+  });
+
+  it('should refuse rows enqueued with hooks.writer when the relay has no writer', async () => {
+    // Arrange
+    const client = createRelayClient([]);
+    await createOutboxWriter('AuditOutbox', undefined, true).enqueue(client, [log], context);
+    const onError = vi.fn();
+    const relay = createOutboxRelay(client, { Prisma, now, onError });
+
+    // Act
+    const result = await relay.relay();
+
+    // Assert
+    expect(result).toEqual({ delivered: 0, failed: 1, deadLettered: 0 });
+    expect(client.auditLog.createMany).not.toHaveBeenCalled();
+    expect(client.auditLog.create).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('pass the same writer to createOutboxRelay') }),
+      'row-1',
+    );
+  });
+
+  it('should deliver rows enqueued with hooks.writer through the relay writer', async () => {
+    // Arrange
+    const client = createRelayClient([]);
+    await createOutboxWriter('AuditOutbox', undefined, true).enqueue(client, [log], context);
+    const writer = vi.fn();
+    const relay = createOutboxRelay(client, { Prisma, now, writer });
+
+    // Act
+    const result = await relay.relay();
+
+    // Assert
+    expect(result.delivered).toBe(1);
+    expect(writer).toHaveBeenCalledWith(
+      [log],
+      { actor: context.actor, request: context.request },
+      expect.any(Function),
+    );
+  });
+
+  it('should skip rows claimed by another relay', async () => {
+    // Arrange
+    const client = createRelayClient([]);
+    await enqueue(client);
+    client.auditOutbox.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    // Act
+    const result = await createOutboxRelay(client, { Prisma, now }).relay();
+
+    // Assert
+    expect(result).toEqual({ delivered: 0, failed: 0, deadLettered: 0 });
+    expect(client.$transaction).not.toHaveBeenCalled();
+  });
+});
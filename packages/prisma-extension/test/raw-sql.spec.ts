@@ -0,0 +1,162 @@
+/**
+ * Tests for raw SQL auditing
+ *
+ * Verifies statement classification, WHERE clause translation against the DMMF, argument
+ * extraction for each raw operation form, and table-level `raw` log construction.
+ */
+
+import type { AuditContext } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it } from 'vitest';
+import { buildRawAuditLog } from '../src/audit-log-builder/index.js';
+import type { DMMFModel } from '../src/internal-types.js';
+import {
+  findModelByTable,
+  parseRawWrite,
+  RAW_TABLE_ENTITY_ID,
+  toPrismaWhere,
+  toRawStatement,
+} from '../src/raw-sql/index.js';
+
+const userModel: DMMFModel = {
+  name: 'User',
+  dbName: 'users',
+  fields: [
+    { name: 'id', kind: 'scalar', type: 'String', isId: true },
+    { name: 'email', kind: 'scalar', type: 'String' },
+    { name: 'deletedAt', dbName: 'deleted_at', kind: 'scalar', type: 'DateTime' },
+    { name: 'role', kind: 'enum', type: 'Role' },
+    { name: 'posts', kind: 'object', type: 'Post' },
+  ],
+};
+
+describe('parseRawWrite', () => {
+  it('should classify writes and strip schema qualifiers and quotes', () => {
+    expect(parseRawWrite('INSERT INTO "public"."users" (id) VALUES ($1)')).toMatchObject({
+      kind: 'insert',
+      table: 'users',
+      conditions: null,
+    });
+    expect(parseRawWrite('update `users` set email = ? where id = ?')).toMatchObject({
+      kind: 'update',
+      table: 'users',
+    });
+    expect(parseRawWrite('DELETE FROM ONLY users WHERE id = 1')).toMatchObject({ kind: 'delete', table: 'users' });
+  });
+
+  it('should ignore reads and statements it cannot classify', () => {
+    expect(parseRawWrite('SELECT * FROM users')).toBeUndefined();
+    expect(parseRawWrite('WITH t AS (SELECT 1) DELETE FROM users')).toBeUndefined();
+  });
+
+  it('should parse AND-joined conditions', () => {
+    // Arrange
+    const sql =
+      "UPDATE users SET email = 'x where y' WHERE u.id IN ($2, $3) AND deleted_at IS NULL AND role <> 'ADMIN'";
+
+    // Act
+    const statement = parseRawWrite(sql);
+
+    // Assert
+    expect(statement?.conditions).toEqual([
+      {
+        column: 'id',
+        operator: 'in',
+        operands: [
+          { _tag: 'Placeholder', index: 1 },
+          { _tag: 'Placeholder', index: 2 },
+        ],
+      },
+      { column: 'deleted_at', operator: 'is null', operands: [] },
+      { column: 'role', operator: '!=', operands: [{ _tag: 'Literal', value: 'ADMIN' }] },
+    ]);
+  });
+
+  it('should report untranslatable WHERE clauses as null', () => {
+    expect(parseRawWrite('DELETE FROM users')?.conditions).toBeNull();
+    expect(parseRawWrite('DELETE FROM users WHERE id = 1 OR id = 2')?.conditions).toBeNull();
+    expect(parseRawWrite('DELETE FROM users WHERE id = 1 LIMIT 1')?.conditions).toBeNull();
+    expect(parseRawWrite('DELETE FROM users WHERE id IN (SELECT id FROM banned)')?.conditions).toBeNull();
+    expect(parseRawWrite('DELETE FROM users WHERE id = 1 RETURNING id')?.conditions).toHaveLength(1);
+  });
+
+  it('should mask literals and placeholders in the fingerprint', () => {
+    const statement = parseRawWrite("UPDATE users SET email = 'secret@example.com' WHERE id IN (1, $1) -- note");
+
+    expect(statement?.fingerprint).toBe('UPDATE users SET email = ? WHERE id IN (?, ?)');
+  });
+});
+
+describe('toPrismaWhere', () => {
+  it('should map columns to fields and bind placeholder values', () => {
+    const statement = parseRawWrite('DELETE FROM users WHERE email = $1 AND deleted_at IS NOT NULL');
+
+    const where = toPrismaWhere(statement?.conditions ?? [], ['a@example.com'], userModel);
+
+    expect(where).toEqual({ AND: [{ email: 'a@example.com' }, { deletedAt: { not: null } }] });
+  });
+
+  it('should reject unknown columns and unbound placeholders', () => {
+    const unknownColumn = parseRawWrite('DELETE FROM users WHERE posts = 1');
+    const unbound = parseRawWrite('DELETE FROM users WHERE id = $2');
+
+    expect(toPrismaWhere(unknownColumn?.conditions ?? [], [], userModel)).toBeUndefined();
+    expect(toPrismaWhere(unbound?.conditions ?? [], ['only-one'], userModel)).toBeUndefined();
+  });
+});
+
+describe('toRawStatement', () => {
+  it('should read Prisma.Sql objects, tagged templates and unsafe calls', () => {
+    const strings = ['DELETE FROM users WHERE id = ', ' AND role = ', ''];
+
+    expect(toRawStatement({ strings, values: ['u1', 'USER'] })).toEqual({
+      sql: 'DELETE FROM users WHERE id = $1 AND role = $2',
+      values: ['u1', 'USER'],
+    });
+    expect(toRawStatement([strings, 'u1', 'USER'])?.sql).toBe('DELETE FROM users WHERE id = $1 AND role = $2');
+    expect(toRawStatement(['DELETE FROM users WHERE id = ?', 'u1'])).toEqual({
+      sql: 'DELETE FROM users WHERE id = ?',
+      values: ['u1'],
+    });
+    expect(toRawStatement({ unrelated: true })).toBeUndefined();
+  });
+});
+
+describe('findModelByTable', () => {
+  it('should match mapped table names case-insensitively', () => {
+    const postModel: DMMFModel = { name: 'Post', fields: [] };
+
+    expect(findModelByTable([userModel, postModel], 'USERS')).toBe(userModel);
+    expect(findModelByTable([userModel, postModel], 'post')).toBe(postModel);
+    expect(findModelByTable([userModel, postModel], 'comments')).toBeUndefined();
+  });
+});
+
+describe('buildRawAuditLog', () => {
+  it('should build a table-level raw log carrying the fingerprint and row count', () => {
+    // Arrange
+    const context: AuditContext = { actor: { category: 'model', type: 'User', id: 'admin-1' } };
+    const event = {
+      statement: 'update' as const,
+      table: 'users',
+      fingerprint: 'UPDATE users SET role = ?',
+      affectedRows: 12,
+    };
+
+    // Act
+    const log = buildRawAuditLog(event, context, { category: 'model', type: 'User' });
+
+    // Assert
+    expect(log).toMatchObject({
+      action: 'raw',
+      actorId: 'admin-1',
+      entityType: 'User',
+      entityId: RAW_TABLE_ENTITY_ID,
+      aggregateType: 'User',
+      aggregateId: RAW_TABLE_ENTITY_ID,
+      entityContext: event,
+      before: null,
+      after: null,
+      changes: null,
+    });
+  });
+});
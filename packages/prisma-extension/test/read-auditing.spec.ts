@@ -0,0 +1,242 @@
+/**
+ * Tests for read auditing
+ *
+ * Verifies the `auditReads` eligibility checks, that read logs record entity IDs (and
+ * optionally field names) without the payload, that a projection without the primary key
+ * cannot bypass them, and that revert planning ignores reads.
+ */
+
+import type { AuditContext, LoggableEntity } from '@kuruwic/prisma-audit-core';
+import { createAsyncLocalStorageProvider, defineEntity } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import { buildReadAuditLogs } from '../src/audit-log-builder/index.js';
+import type { PrismaClientManager } from '../src/client-manager/index.js';
+import { createAuditLogExtension } from '../src/extension.js';
+import { toStoredAuditLog } from '../src/reader/index.js';
+import { createRevertSchema, planRevert } from '../src/revert/index.js';
+import { isReadOperation, shouldAuditRead } from '../src/utils/index.js';
+
+const context: AuditContext = {
+  actor: { category: 'model', type: 'User', id: 'doctor-1' },
+  request: { path: '/patients' },
+};
+
+const createAggregateConfig = (entityConfig: LoggableEntity) => ({
+  getEntityConfig: vi.fn().mockReturnValue(entityConfig),
+  isLoggable: vi.fn().mockReturnValue(true),
+  getAllLoggableModels: vi.fn().mockReturnValue(['Patient']),
+  getMapping: vi.fn(),
+});
+
+const manager: PrismaClientManager = { baseClient: {} as never, activeClient: {} as never };
+
+describe('isReadOperation', () => {
+  it('should accept find operations only', () => {
+    expect(isReadOperation('findMany')).toBe(true);
+    expect(isReadOperation('findUniqueOrThrow')).toBe(true);
+    expect(isReadOperation('count')).toBe(false);
+    expect(isReadOperation('create')).toBe(false);
+  });
+});
+
+describe('shouldAuditRead', () => {
+  it('should require an auditReads config', () => {
+    expect(shouldAuditRead('Patient', 'findMany', context, 'auditLog', undefined)).toBe(false);
+    expect(shouldAuditRead('Patient', 'findMany', context, 'auditLog', {})).toBe(true);
+  });
+
+  it('should skip the audit log model and reads made while processing audit logs', () => {
+    expect(shouldAuditRead('AuditLog', 'findMany', context, 'auditLog', {})).toBe(false);
+    expect(shouldAuditRead('Patient', 'findMany', { _isProcessingAuditLog: true }, 'auditLog', {})).toBe(false);
+  });
+
+  it('should honor the operation filter and sampling rate', () => {
+    expect(shouldAuditRead('Patient', 'findMany', context, 'auditLog', { operations: ['findUnique'] })).toBe(false);
+    expect(shouldAuditRead('Patient', 'findUnique', context, 'auditLog', { operations: ['findUnique'] })).toBe(true);
+    expect(shouldAuditRead('Patient', 'findMany', context, 'auditLog', { sampling: 0 })).toBe(false);
+  });
+});
+
+describe('buildReadAuditLogs', () => {
+  it('should record returned entity IDs without the payload', async () => {
+    // Arrange
+    const aggregateConfig = createAggregateConfig(defineEntity({ type: 'Patient', auditReads: true }));
+    const records = [
+      { id: 'patient-1', name: 'Alice', diagnosis: 'secret' },
+      { id: 'patient-2', name: 'Bob', diagnosis: 'secret' },
+    ];
+
+    // Act
+    const logs = await buildReadAuditLogs(records, context, 'Patient', manager, aggregateConfig);
+
+    // Assert
+    expect(logs).toHaveLength(2);
+    expect(logs[0]).toMatchObject({
+      action: 'read',
+      entityType: 'Patient',
+      entityId: 'patient-1',
+      aggregateType: 'Patient',
+      aggregateId: 'patient-1',
+      before: null,
+      after: null,
+      changes: null,
+      entityContext: null,
+      requestContext: { path: '/patients' },
+    });
+    expect(JSON.stringify(logs)).not.toContain('secret');
+  });
+
+  it('should record selected field names when includeSelectedFields is set', async () => {
+    const aggregateConfig = createAggregateConfig(
+      defineEntity({ type: 'Patient', auditReads: { includeSelectedFields: true } }),
+    );
+
+    const logs = await buildReadAuditLogs(
+      [{ id: 'patient-1', name: 'Alice' }],
+      context,
+      'Patient',
+      manager,
+      aggregateConfig,
+    );
+
+    expect(logs[0]?.entityContext).toEqual({ selectedFields: ['id', 'name'] });
+  });
+
+  it('should record reads as reads inside a revert', async () => {
+    const aggregateConfig = createAggregateConfig(defineEntity({ type: 'Patient', auditReads: true }));
+
+    const logs = await buildReadAuditLogs(
+      [{ id: 'patient-1' }],
+      { ...context, _auditAction: 'revert' },
+      'Patient',
+      manager,
+      aggregateConfig,
+    );
+
+    expect(logs[0]?.action).toBe('read');
+  });
+
+  it('should return no logs for entities without auditReads', async () => {
+    const aggregateConfig = createAggregateConfig(defineEntity({ type: 'Patient' }));
+
+    const logs = await buildReadAuditLogs([{ id: 'patient-1' }], context, 'Patient', manager, aggregateConfig);
+
+    expect(logs).toEqual([]);
+  });
+});
+
+describe('read auditing through the extension', () => {
+  type QueryHook = (params: {
+    model: string;
+    operation: string;
+    args: unknown;
+    query: (args: unknown) => Promise<unknown>;
+  }) => Promise<unknown>;
+
+  const setup = () => {
+    const provider = createAsyncLocalStorageProvider();
+    const auditLogCreate = vi.fn().mockResolvedValue({});
+    const baseClient = {
+      auditLog: { create: auditLogCreate },
+      $extends: vi.fn().mockReturnValue({}),
+    };
+    const Prisma = {
+      defineExtension: (definition: unknown) => definition,
+      dmmf: {
+        datamodel: {
+          models: [{ name: 'Patient', fields: [{ name: 'id', isId: true }, { name: 'ssn' }], primaryKey: null }],
+        },
+      },
+    };
+    const extension = createAuditLogExtension({
+      provider,
+      basePrisma: baseClient as never,
+      Prisma: Prisma as never,
+      aggregateMapping: { Patient: defineEntity({ type: 'Patient', auditReads: { includeSelectedFields: true } }) },
+    }) as unknown as (client: unknown) => unknown;
+    extension(baseClient);
+    const definition = baseClient.$extends.mock.calls[0]?.[0] as {
+      query: { $allModels: { $allOperations: QueryHook } };
+    };
+    return { provider, auditLogCreate, queryHook: definition.query.$allModels.$allOperations };
+  };
+
+  it('should audit reads whose select leaves out the primary key', async () => {
+    // Arrange
+    const { provider, auditLogCreate, queryHook } = setup();
+    const query = vi.fn().mockResolvedValue([{ id: 'patient-1', ssn: '123-45-6789' }]);
+
+    // Act
+    const result = await provider.runAsync(context, () =>
+      queryHook({ model: 'Patient', operation: 'findMany', args: { select: { ssn: true } }, query }),
+    );
+
+    // Assert
+    expect(query).toHaveBeenCalledWith({ select: { ssn: true, id: true } });
+    expect(result).toEqual([{ ssn: '123-45-6789' }]);
+    expect(auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'read',
+        entityId: 'patient-1',
+        entityContext: { selectedFields: ['ssn'] },
+      }),
+    });
+  });
+});
+
+describe('planRevert with read logs', () => {
+  it('should ignore reads in targets and history', () => {
+    // Arrange
+    const schema = createRevertSchema(
+      { Patient: defineEntity({ type: 'Patient' }) },
+      {
+        dmmf: {
+          datamodel: {
+            models: [
+              {
+                name: 'Patient',
+                fields: [
+                  { name: 'id', kind: 'scalar', type: 'String', isId: true },
+                  { name: 'name', kind: 'scalar', type: 'String' },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    );
+    const base = {
+      actorCategory: 'model',
+      actorType: 'User',
+      actorId: 'doctor-1',
+      entityCategory: 'model',
+      entityType: 'Patient',
+      entityId: 'patient-1',
+      aggregateCategory: 'model',
+      aggregateType: 'Patient',
+      aggregateId: 'patient-1',
+    };
+    const update = toStoredAuditLog({
+      ...base,
+      id: 'log-1',
+      action: 'update',
+      before: { id: 'patient-1', name: 'Alice' },
+      after: { id: 'patient-1', name: 'Alicia' },
+      changes: { name: { old: 'Alice', new: 'Alicia' } },
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+    });
+    const read = toStoredAuditLog({
+      ...base,
+      id: 'log-2',
+      action: 'read',
+      createdAt: new Date('2026-01-02T00:00:00Z'),
+    });
+
+    // Act
+    const plan = planRevert([update, read], [update, read], schema);
+
+    // Assert
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.steps.map((step) => step.sourceLogId)).toEqual(['log-1']);
+  });
+});
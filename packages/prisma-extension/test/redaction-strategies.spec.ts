@@ -0,0 +1,222 @@
+/**
+ * Tests for redaction strategies in built audit logs
+ *
+ * Verifies that global and per-entity strategies apply to before/after/changes, and that
+ * redaction also covers the actor, entity and request contexts. Also covers `@audit.redact`
+ * schema markers.
+ */
+
+import { defineEntity, hashRedactedValue, type RedactConfig } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import { buildAuditLog, buildReadAuditLogs, type ResolvedAggregateData } from '../src/audit-log-builder/index.js';
+import type { PrismaClientManager } from '../src/client-manager/index.js';
+import { applySchemaRedaction, getSchemaRedactConfigs, validateFieldConflicts } from '../src/config/index.js';
+import type { AuditLogData } from '../src/types.js';
+
+const manager: PrismaClientManager = { baseClient: {} as never, activeClient: {} as never };
+
+const aggregateData: ResolvedAggregateData = {
+  aggregateRoots: [{ aggregateCategory: 'model', aggregateType: 'User', aggregateId: 'user-1' }],
+  aggregateContexts: new Map(),
+};
+
+const createAggregateConfig = (entityConfig = defineEntity({ type: 'User' })) => ({
+  getEntityConfig: vi.fn().mockReturnValue(entityConfig),
+  isLoggable: vi.fn().mockReturnValue(true),
+  getAllLoggableModels: vi.fn().mockReturnValue(['User']),
+  getMapping: vi.fn(),
+});
+
+const hashKey = { type: 'hash', key: 'test-key' } as const;
+
+const build = async (
+  redact: RedactConfig | undefined,
+  entityConfig = defineEntity({ type: 'User' }),
+  contexts: { actorContext?: unknown; entityContext?: unknown; request?: Record<string, unknown> } = {},
+): Promise<AuditLogData> => {
+  const [log] = await buildAuditLog(
+    { id: 'user-1', email: 'alice@example.com', cardNumber: '4111-1111-1111-1234' },
+    'update',
+    { actor: { category: 'model', type: 'User', id: 'admin' }, request: contexts.request },
+    'User',
+    manager,
+    contexts.actorContext ?? null,
+    contexts.entityContext ?? null,
+    { id: 'user-1', email: 'old@example.com', cardNumber: '4111-1111-1111-0000' },
+    createAggregateConfig(entityConfig),
+    undefined,
+    redact,
+    aggregateData,
+  );
+  return log as AuditLogData;
+};
+
+describe('redaction strategies in audit logs', () => {
+  it('should apply global strategies to before, after and changes', async () => {
+    // Act
+    const log = await build({ strategies: { email: hashKey, cardNumber: { type: 'partial', keepEnd: 4 } } });
+
+    // Assert
+    expect(log.after).toMatchObject({
+      email: hashRedactedValue('alice@example.com', hashKey),
+      cardNumber: '****-****-****-1234',
+    });
+    expect(log.changes).toMatchObject({
+      cardNumber: { old: '****-****-****-0000', new: '****-****-****-1234' },
+    });
+  });
+
+  it('should list masked paths in the entity context', async () => {
+    // Act
+    const masked = await build({ strategies: { email: hashKey }, fields: ['cardNumber'] });
+    const unmasked = await build({ fields: ['email', 'cardNumber'] });
+
+    // Assert - markers identify themselves, so only masking strategies are listed
+    expect(masked.entityContext).toEqual({ redactedFields: ['email'] });
+    expect(unmasked.entityContext).toBeNull();
+  });
+
+  it('should let entity strategies override global ones', async () => {
+    // Arrange
+    const entityConfig = defineEntity({ type: 'User', redact: { strategies: { email: { type: 'email' } } } });
+
+    // Act
+    const log = await build({ strategies: { email: hashKey } }, entityConfig);
+
+    // Assert
+    expect(log.after).toMatchObject({ email: '***@example.com' });
+    expect(log.before).toMatchObject({ email: '***@example.com' });
+  });
+
+  it('should redact with the entity config alone', async () => {
+    // Arrange
+    const entityConfig = defineEntity({ type: 'User', redact: { fields: ['cardNumber'] } });
+
+    // Act
+    const log = await build(undefined, entityConfig);
+
+    // Assert
+    expect(log.after).toMatchObject({ email: 'alice@example.com', cardNumber: { redacted: true, hadValue: true } });
+  });
+
+  it('should redact actor, entity and request contexts', async () => {
+    // Act
+    const log = await build({ fields: ['ipAddress'], strategies: { email: { type: 'email' } } }, undefined, {
+      actorContext: { email: 'admin@example.com', role: 'admin' },
+      entityContext: { owner: { email: 'alice@example.com' } },
+      request: { ipAddress: '203.0.113.7', path: '/users' },
+    });
+
+    // Assert
+    expect(log.actorContext).toEqual({ email: '***@example.com', role: 'admin' });
+    expect(log.entityContext).toEqual({ owner: { email: '***@example.com' }, redactedFields: ['email'] });
+    expect(log.requestContext).toEqual({ ipAddress: { redacted: true, hadValue: true }, path: '/users' });
+  });
+
+  it('should redact the request context of read logs', async () => {
+    // Arrange
+    const entityConfig = defineEntity({ type: 'User', auditReads: true });
+
+    // Act
+    const [log] = await buildReadAuditLogs(
+      [{ id: 'user-1' }],
+      { actor: { category: 'model', type: 'User', id: 'admin' }, request: { token: 'abc' } },
+      'User',
+      manager,
+      createAggregateConfig(entityConfig),
+      undefined,
+      {},
+    );
+
+    // Assert
+    expect(log?.requestContext).toEqual({ token: { redacted: true, hadValue: true } });
+  });
+});
+
+describe('validateFieldConflicts with strategies', () => {
+  it('should reject fields that have a strategy and are excluded', () => {
+    expect(() => validateFieldConflicts(['email'], { strategies: { email: hashKey } }, {})).toThrow(
+      'Conflicting fields: email',
+    );
+  });
+
+  it('should reject entity redaction of fields the entity excludes', () => {
+    const mapping = {
+      User: defineEntity({ type: 'User', excludeFields: ['email'], redact: { strategies: { email: hashKey } } }),
+    };
+
+    expect(() => validateFieldConflicts([], undefined, mapping)).toThrow("model 'User'");
+  });
+});
+
+describe('schema redaction markers', () => {
+  const models = [
+    {
+      name: 'User',
+      fields: [
+        { name: 'id', kind: 'scalar', type: 'String' },
+        { name: 'taxId', kind: 'scalar', type: 'String', documentation: '@audit.redact' },
+        {
+          name: 'metadata',
+          kind: 'scalar',
+          type: 'Json',
+          documentation: 'Free-form settings\n@audit.redact(billing.iban, *.token)',
+        },
+        { name: 'note', kind: 'scalar', type: 'String', documentation: 'See @audit.redactions' },
+      ],
+    },
+  ];
+
+  it('should read whole-field and Json path markers', () => {
+    expect(getSchemaRedactConfigs(models).get('User')).toEqual({
+      fields: ['taxId'],
+      patterns: [],
+      paths: ['metadata.billing.iban', 'metadata.*.token'],
+      strategies: {},
+    });
+  });
+
+  it('should redact marked fields and paths in built logs', async () => {
+    // Arrange
+    const mapping = applySchemaRedaction({ User: defineEntity({ type: 'User' }) }, models);
+
+    // Act
+    const [log] = await buildAuditLog(
+      { id: 'user-1', taxId: 'DE123', metadata: { billing: { iban: 'DE89', plan: 'pro' }, github: { token: 'ghp' } } },
+      'create',
+      { actor: { category: 'model', type: 'User', id: 'admin' } },
+      'User',
+      manager,
+      null,
+      null,
+      undefined,
+      createAggregateConfig(mapping.User),
+      undefined,
+      undefined,
+      aggregateData,
+    );
+
+    // Assert
+    expect(log?.after).toEqual({
+      id: 'user-1',
+      taxId: { redacted: true, hadValue: true },
+      metadata: {
+        billing: { iban: { redacted: true, hadValue: true }, plan: 'pro' },
+        github: { token: { redacted: true, hadValue: true } },
+      },
+    });
+  });
+
+  it('should keep entity strategies over schema markers', () => {
+    // Arrange
+    const entity = defineEntity({ type: 'User', redact: { strategies: { taxId: { type: 'partial', keepEnd: 2 } } } });
+    const post = defineEntity({ type: 'Post' });
+
+    // Act
+    const mapping = applySchemaRedaction({ User: entity, Post: post }, models);
+
+    // Assert
+    expect(mapping.User?.redact).toMatchObject({ fields: ['taxId'], strategies: { taxId: { type: 'partial' } } });
+    expect(mapping.Post).toBe(post);
+  });
+});
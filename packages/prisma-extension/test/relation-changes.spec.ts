@@ -0,0 +1,378 @@
+/**
+ * Tests for relation membership auditing
+ *
+ * Verifies that nested `set`/`disconnect` operations, including those inside nested `update`
+ * and `upsert` writes, capture the previous membership and produce `link`/`unlink` logs
+ * attributed to both sides of each changed pair, or foreign key diffs for to-one relations.
+ */
+
+import type { AuditContext } from '@kuruwic/prisma-audit-core';
+import { createAggregateConfig, defineEntity } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import type { PrismaNamespace } from '../src/internal-types.js';
+import { buildRelationChangeLogs, diffRelationMembers } from '../src/lifecycle/nested-handlers/index.js';
+import {
+  PRE_FETCH_RELATION_MEMBERSHIPS,
+  type PreFetchResultsWithInternal,
+  preFetchNestedRecordsBeforeOperation,
+  type RelationMembership,
+} from '../src/lifecycle/pre-fetch/index.js';
+
+const scalar = (name: string, isId = false) => ({ name, kind: 'scalar', type: 'String', isList: false, isId });
+const relation = (
+  name: string,
+  type: string,
+  relationName: string,
+  isList: boolean,
+  relationFromFields?: string[],
+) => ({
+  name,
+  kind: 'object',
+  type,
+  isList,
+  relationName,
+  ...(relationFromFields && { relationFromFields, relationToFields: ['id'] }),
+});
+
+const Prisma = {
+  dmmf: {
+    datamodel: {
+      models: [
+        {
+          name: 'Post',
+          fields: [
+            scalar('id', true),
+            scalar('title'),
+            scalar('authorId'),
+            relation('author', 'User', 'PostToUser', false, ['authorId']),
+            relation('tags', 'Tag', 'PostToTag', true),
+          ],
+        },
+        { name: 'Tag', fields: [scalar('id', true), scalar('name'), relation('posts', 'Post', 'PostToTag', true)] },
+        {
+          name: 'User',
+          fields: [
+            scalar('id', true),
+            relation('posts', 'Post', 'PostToUser', true),
+            relation('profile', 'Profile', 'ProfileToUser', false),
+          ],
+        },
+        {
+          name: 'Profile',
+          fields: [scalar('id', true), scalar('userId'), relation('user', 'User', 'ProfileToUser', false, ['userId'])],
+        },
+      ],
+    },
+  },
+} as unknown as PrismaNamespace;
+
+const aggregateConfig = createAggregateConfig({
+  Post: defineEntity({ type: 'Post' }),
+  Tag: defineEntity({ type: 'Tag' }),
+  User: defineEntity({ type: 'User' }),
+  Profile: defineEntity({ type: 'Profile' }),
+});
+
+const context: AuditContext = { actor: { category: 'model', type: 'User', id: 'user-1' } };
+
+const tagsMembership: RelationMembership = {
+  parentModel: 'Post',
+  fieldName: 'tags',
+  relatedModel: 'Tag',
+  isList: true,
+  inverseFieldName: 'posts',
+  relatedKeyFields: ['id'],
+  parentKey: { id: 'post-1' },
+  before: [{ id: 'tag-1' }, { id: 'tag-2' }],
+};
+
+describe('preFetchNestedRecordsBeforeOperation', () => {
+  it('should capture the previous members of a relation written with set', async () => {
+    // Arrange
+    const findUnique = vi.fn().mockResolvedValue({ id: 'post-1', tags: [{ id: 'tag-1' }, { id: 'tag-2' }] });
+    const args = { where: { id: 'post-1' }, data: { tags: { set: [{ id: 'tag-2' }, { id: 'tag-3' }] } } };
+
+    // Act
+    const results = await preFetchNestedRecordsBeforeOperation({ post: { findUnique }, tag: {} }, 'Post', args, {
+      Prisma,
+      getNestedOperationConfig: () => ({ fetchBeforeOperation: false }),
+    });
+
+    // Assert
+    expect(findUnique).toHaveBeenCalledWith({
+      where: { id: 'post-1' },
+      select: { id: true, tags: { select: { id: true } } },
+    });
+    expect((results as PreFetchResultsWithInternal)[PRE_FETCH_RELATION_MEMBERSHIPS]?.get('tags')).toEqual(
+      tagsMembership,
+    );
+  });
+
+  it('should capture relations written inside a nested update', async () => {
+    // Arrange
+    const findUnique = vi
+      .fn()
+      .mockResolvedValue({ posts: [{ id: 'post-1', tags: [{ id: 'tag-1' }, { id: 'tag-2' }] }] });
+    const args = {
+      where: { id: 'user-1' },
+      data: {
+        posts: {
+          update: [{ where: { id: 'post-1' }, data: { tags: { set: [{ id: 'tag-2' }, { id: 'tag-3' }] } } }],
+        },
+      },
+    };
+
+    // Act
+    const results = await preFetchNestedRecordsBeforeOperation({ user: { findUnique }, post: {} }, 'User', args, {
+      Prisma,
+      getNestedOperationConfig: () => ({ fetchBeforeOperation: false }),
+    });
+
+    // Assert
+    expect(findUnique).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      select: { posts: { where: { id: 'post-1' }, select: { id: true, tags: { select: { id: true } } } } },
+    });
+    expect([...((results as PreFetchResultsWithInternal)[PRE_FETCH_RELATION_MEMBERSHIPS] ?? [])]).toEqual([
+      ['posts.tags[{"id":"post-1"}]', tagsMembership],
+    ]);
+  });
+
+  it('should capture a to-one disconnect inside a nested upsert with its foreign key', async () => {
+    // Arrange
+    const findUnique = vi.fn().mockResolvedValue({ posts: [{ id: 'post-1', author: { id: 'user-2' } }] });
+    const args = {
+      where: { id: 'user-1' },
+      data: {
+        posts: {
+          upsert: { where: { id: 'post-1' }, create: { title: 'New' }, update: { author: { disconnect: true } } },
+        },
+      },
+    };
+
+    // Act
+    const results = await preFetchNestedRecordsBeforeOperation({ user: { findUnique }, post: {} }, 'User', args, {
+      Prisma,
+      getNestedOperationConfig: () => ({ fetchBeforeOperation: false }),
+    });
+
+    // Assert
+    expect(findUnique).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      select: { posts: { where: { id: 'post-1' }, select: { id: true, author: { select: { id: true } } } } },
+    });
+    expect(
+      (results as PreFetchResultsWithInternal)[PRE_FETCH_RELATION_MEMBERSHIPS]?.get('posts.author[{"id":"post-1"}]'),
+    ).toMatchObject({
+      parentModel: 'Post',
+      fieldName: 'author',
+      isList: false,
+      before: [{ id: 'user-2' }],
+      foreignKey: { holder: 'parent', fields: ['authorId'], references: ['id'] },
+    });
+  });
+});
+
+describe('diffRelationMembers', () => {
+  it('should report removed members as unlink and added members as link', () => {
+    expect(diffRelationMembers([{ id: 'a' }, { id: 'b' }], [{ id: 'b' }, { id: 'c' }])).toEqual([
+      { action: 'unlink', related: { id: 'a' } },
+      { action: 'link', related: { id: 'c' } },
+    ]);
+  });
+});
+
+describe('buildRelationChangeLogs', () => {
+  it('should log both sides of each changed many-to-many pair', async () => {
+    // Arrange
+    const client = {
+      post: {
+        findFirst: vi
+          .fn()
+          .mockResolvedValue({ id: 'post-1', authorId: 'user-1', tags: [{ id: 'tag-2' }, { id: 'tag-3' }] }),
+        findMany: vi.fn(),
+      },
+      tag: {
+        findFirst: vi.fn(),
+        findMany: vi.fn().mockResolvedValue([
+          { id: 'tag-1', name: 'old' },
+          { id: 'tag-3', name: 'new' },
+        ]),
+      },
+    };
+
+    // Act
+    const logs = await buildRelationChangeLogs(new Map([['tags', tagsMembership]]), context, client, null, {
+      aggregateConfig,
+      redact: undefined,
+    });
+
+    // Assert
+    expect(client.tag.findMany).toHaveBeenCalledWith({ where: { OR: [{ id: 'tag-1' }, { id: 'tag-3' }] } });
+    expect(
+      logs.map(({ entityType, entityId, aggregateType, aggregateId, action, before, after, changes }) => ({
+        entityType,
+        entityId,
+        aggregateType,
+        aggregateId,
+        action,
+        before,
+        after,
+        changes,
+      })),
+    ).toEqual([
+      {
+        entityType: 'Post',
+        entityId: 'post-1',
+        aggregateType: 'Post',
+        aggregateId: 'post-1',
+        action: 'unlink',
+        before: null,
+        after: null,
+        changes: { tags: { old: { id: 'tag-1' }, new: null } },
+      },
+      {
+        entityType: 'Tag',
+        entityId: 'tag-1',
+        aggregateType: 'Tag',
+        aggregateId: 'tag-1',
+        action: 'unlink',
+        before: null,
+        after: null,
+        changes: { posts: { old: { id: 'post-1' }, new: null } },
+      },
+      {
+        entityType: 'Post',
+        entityId: 'post-1',
+        aggregateType: 'Post',
+        aggregateId: 'post-1',
+        action: 'link',
+        before: null,
+        after: null,
+        changes: { tags: { old: null, new: { id: 'tag-3' } } },
+      },
+      {
+        entityType: 'Tag',
+        entityId: 'tag-3',
+        aggregateType: 'Tag',
+        aggregateId: 'tag-3',
+        action: 'link',
+        before: null,
+        after: null,
+        changes: { posts: { old: null, new: { id: 'post-1' } } },
+      },
+    ]);
+  });
+
+  it('should record a disconnected to-one relation as a foreign key diff for the related aggregate', async () => {
+    // Arrange
+    const client = {
+      post: { findFirst: vi.fn().mockResolvedValue({ id: 'post-1', authorId: null, author: null }), findMany: vi.fn() },
+      user: { findFirst: vi.fn(), findMany: vi.fn().mockResolvedValue([{ id: 'user-1' }]) },
+    };
+    const membership: RelationMembership = {
+      ...tagsMembership,
+      fieldName: 'author',
+      relatedModel: 'User',
+      isList: false,
+      before: [{ id: 'user-1' }],
+      foreignKey: { holder: 'parent', fields: ['authorId'], references: ['id'] },
+    };
+
+    // Act
+    const logs = await buildRelationChangeLogs(new Map([['author', membership]]), context, client, null, {
+      aggregateConfig,
+      redact: undefined,
+    });
+
+    // Assert - the post's own update log covers its aggregate
+    expect(
+      logs.map(({ entityType, entityId, aggregateType, aggregateId, action, changes }) => ({
+        entityType,
+        entityId,
+        aggregateType,
+        aggregateId,
+        action,
+        changes,
+      })),
+    ).toEqual([
+      {
+        entityType: 'Post',
+        entityId: 'post-1',
+        aggregateType: 'User',
+        aggregateId: 'user-1',
+        action: 'update',
+        changes: { authorId: { old: 'user-1', new: null } },
+      },
+    ]);
+  });
+
+  it('should record a to-one relation whose foreign key is on the related record on both sides', async () => {
+    // Arrange
+    const client = {
+      user: { findFirst: vi.fn().mockResolvedValue({ id: 'user-1', profile: null }), findMany: vi.fn() },
+      profile: { findFirst: vi.fn(), findMany: vi.fn().mockResolvedValue([{ id: 'profile-1', userId: null }]) },
+    };
+    const membership: RelationMembership = {
+      parentModel: 'User',
+      fieldName: 'profile',
+      relatedModel: 'Profile',
+      isList: false,
+      inverseFieldName: 'user',
+      relatedKeyFields: ['id'],
+      parentKey: { id: 'user-1' },
+      before: [{ id: 'profile-1' }],
+      foreignKey: { holder: 'related', fields: ['userId'], references: ['id'] },
+    };
+
+    // Act
+    const logs = await buildRelationChangeLogs(new Map([['profile', membership]]), context, client, null, {
+      aggregateConfig,
+      redact: undefined,
+    });
+
+    // Assert
+    expect(
+      logs.map(({ entityType, entityId, aggregateType, action, changes }) => ({
+        entityType,
+        entityId,
+        aggregateType,
+        action,
+        changes,
+      })),
+    ).toEqual([
+      {
+        entityType: 'Profile',
+        entityId: 'profile-1',
+        aggregateType: 'Profile',
+        action: 'update',
+        changes: { userId: { old: 'user-1', new: null } },
+      },
+      {
+        entityType: 'Profile',
+        entityId: 'profile-1',
+        aggregateType: 'User',
+        action: 'update',
+        changes: { userId: { old: 'user-1', new: null } },
+      },
+    ]);
+  });
+
+  it('should not log anything when the membership did not change', async () => {
+    const client = {
+      post: {
+        findFirst: vi.fn().mockResolvedValue({ id: 'post-1', tags: [{ id: 'tag-1' }, { id: 'tag-2' }] }),
+        findMany: vi.fn(),
+      },
+      tag: { findFirst: vi.fn(), findMany: vi.fn() },
+    };
+
+    const logs = await buildRelationChangeLogs(new Map([['tags', tagsMembership]]), context, client, null, {
+      aggregateConfig,
+      redact: undefined,
+    });
+
+    expect(logs).toEqual([]);
+    expect(client.tag.findMany).not.toHaveBeenCalled();
+  });
+});
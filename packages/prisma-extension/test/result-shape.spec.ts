@@ -0,0 +1,143 @@
+/**
+ * Tests for result-shape preservation
+ *
+ * Verifies that injected relations and primary keys are stripped from results, that include
+ * injection respects `select`, and that partial projections get a full after-state.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { PrismaClientWithDynamicAccess } from '../src/internal-types.js';
+import { createFetchAfterStateStage } from '../src/lifecycle/stages.js';
+import type { ExecutedContext } from '../src/lifecycle/types.js';
+import { injectDeepInclude } from '../src/utils/include-injection.js';
+import { hasPartialProjection, restoreResultShape, withPrimaryKeyProjected } from '../src/utils/result-shape.js';
+
+const nestedCreateArgs = {
+  data: { title: 'Post', comments: { create: { body: 'Hi', attachments: { create: { url: 'a.png' } } } } },
+};
+
+describe('injectDeepInclude with select', () => {
+  it('should merge injected relations into the caller select', () => {
+    // Act
+    const args = injectDeepInclude({ ...nestedCreateArgs, select: { title: true } });
+
+    // Assert
+    expect(args).toEqual({
+      ...nestedCreateArgs,
+      select: { title: true, comments: { include: { attachments: true } } },
+    });
+  });
+
+  it('should merge nested relations into a nested select', () => {
+    // Act
+    const args = injectDeepInclude({ ...nestedCreateArgs, include: { comments: { select: { body: true } } } });
+
+    // Assert
+    expect(args).toMatchObject({ include: { comments: { select: { body: true, attachments: true } } } });
+    expect((args as { include: { comments: object } }).include.comments).not.toHaveProperty('include');
+  });
+});
+
+describe('withPrimaryKeyProjected', () => {
+  it('should add primary keys to select and remove them from omit', () => {
+    expect(withPrimaryKeyProjected({ select: { title: true } }, ['id'])).toEqual({ select: { title: true, id: true } });
+    expect(withPrimaryKeyProjected({ omit: { id: true, body: true } }, ['id'])).toEqual({ omit: { body: true } });
+  });
+
+  it('should return args without a partial projection as they are', () => {
+    const args = { data: {}, include: { comments: true } };
+
+    expect(withPrimaryKeyProjected(args, ['id'])).toBe(args);
+    expect(hasPartialProjection(args)).toBe(false);
+  });
+});
+
+describe('restoreResultShape', () => {
+  it('should strip injected relations and primary keys', () => {
+    // Arrange
+    const callerArgs = { ...nestedCreateArgs, select: { title: true } };
+    const effectiveArgs = withPrimaryKeyProjected(injectDeepInclude(callerArgs), ['id']);
+    const result = { id: 'post-1', title: 'Post', comments: [{ id: 'c-1', attachments: [{ id: 'a-1' }] }] };
+
+    // Act
+    const restored = restoreResultShape(result, callerArgs, effectiveArgs);
+
+    // Assert
+    expect(restored).toEqual({ title: 'Post' });
+  });
+
+  it('should keep requested relations but strip relations injected below them', () => {
+    // Arrange
+    const callerArgs = { ...nestedCreateArgs, include: { comments: { orderBy: { id: 'asc' } } } };
+    const result = { id: 'post-1', comments: [{ id: 'c-1', body: 'Hi', attachments: [{ id: 'a-1' }] }] };
+
+    // Act
+    const restored = restoreResultShape(result, callerArgs, injectDeepInclude(callerArgs));
+
+    // Assert
+    expect(restored).toEqual({ id: 'post-1', comments: [{ id: 'c-1', body: 'Hi' }] });
+  });
+
+  it('should strip fields the caller omitted', () => {
+    // Arrange
+    const callerArgs = { data: {}, omit: { id: true } };
+
+    // Act
+    const restored = restoreResultShape(
+      { id: 'post-1', title: 'Post' },
+      callerArgs,
+      withPrimaryKeyProjected(callerArgs, ['id']),
+    );
+
+    // Assert
+    expect(restored).toEqual({ title: 'Post' });
+  });
+});
+
+describe('createFetchAfterStateStage', () => {
+  const createContext = (args: Record<string, unknown>, findFirst = vi.fn()): ExecutedContext => ({
+    operation: { model: 'User', action: 'update', args },
+    auditContext: { actor: { category: 'model', type: 'User', id: 'admin' } },
+    clientToUse: { User: { findFirst } } as unknown as PrismaClientWithDynamicAccess,
+    query: vi.fn(),
+    beforeState: null,
+    nestedPreFetchResults: undefined,
+    result: { id: 'user-1', email: 'new@example.com', posts: [{ id: 'post-1' }] },
+  });
+
+  it('should fetch the full record when the projection is partial', async () => {
+    // Arrange
+    const findFirst = vi.fn().mockResolvedValue({ id: 'user-1', email: 'new@example.com', name: 'Alice' });
+    const context = createContext(
+      { where: { email: 'old@example.com' }, select: { email: true, posts: true } },
+      findFirst,
+    );
+    const stage = createFetchAfterStateStage({ basePrisma: {} as PrismaClientWithDynamicAccess });
+
+    // Act
+    const result = await stage(context);
+
+    // Assert
+    expect(findFirst).toHaveBeenCalledWith({ where: { id: 'user-1' } });
+    expect(result.afterState).toEqual({
+      id: 'user-1',
+      email: 'new@example.com',
+      name: 'Alice',
+      posts: [{ id: 'post-1' }],
+    });
+    expect(result.result).toBe(context.result);
+  });
+
+  it('should not fetch when the result is already complete', async () => {
+    // Arrange
+    const findFirst = vi.fn();
+    const stage = createFetchAfterStateStage({ basePrisma: {} as PrismaClientWithDynamicAccess });
+
+    // Act
+    const result = await stage(createContext({ where: { id: 'user-1' }, data: {} }, findFirst));
+
+    // Assert
+    expect(findFirst).not.toHaveBeenCalled();
+    expect(result.afterState).toBeUndefined();
+  });
+});
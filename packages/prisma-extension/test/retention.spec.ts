@@ -0,0 +1,384 @@
+/**
+ * Tests for audit log retention
+ *
+ * Verifies cutoff computation, rule translation (including overlapping rules), bounded
+ * batch purging, archiving, the `purge` events recorded for each rule and purges of hash-chained
+ * rows that `verifyAuditChain` still accepts.
+ */
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AuditLogData, ChainedAuditLog } from '@kuruwic/prisma-audit-core';
+import {
+  createActorId,
+  createAggregateId,
+  createEntityId,
+  defineEntity,
+  foreignKey,
+  to,
+} from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import { createPrismaWriteExecutor } from '../src/adapters/write-executor.js';
+import { createIntegrityWriteExecutor, verifyAuditChain } from '../src/integrity/index.js';
+import {
+  computeCutoff,
+  createModelArchiver,
+  createNdjsonArchiver,
+  createRetentionRunner,
+} from '../src/retention/index.js';
+
+const NOW = new Date('2026-06-15T12:00:00.000Z');
+
+const createMockPrisma = (batches: Record<string, unknown>[][] = []) => {
+  const findMany = vi.fn();
+  for (const batch of batches) {
+    findMany.mockResolvedValueOnce(batch);
+  }
+  findMany.mockResolvedValue([]);
+  const deleteMany = vi.fn(async (args: { where: { id: { in: unknown[] } } }) => ({ count: args.where.id.in.length }));
+  const count = vi.fn().mockResolvedValue(42);
+  const create = vi.fn().mockResolvedValue({});
+  return { prisma: { auditLog: { findMany, deleteMany, count, create } }, findMany, deleteMany, count, create };
+};
+
+const rows = (...ids: string[]) => ids.map((id) => ({ id, createdAt: new Date('2020-01-01T00:00:00Z') }));
+
+describe('computeCutoff', () => {
+  it('should subtract each unit in UTC', () => {
+    expect(computeCutoff(NOW, { years: 7 })).toEqual(new Date('2019-06-15T12:00:00.000Z'));
+    expect(computeCutoff(NOW, { days: 30 })).toEqual(new Date('2026-05-16T12:00:00.000Z'));
+    expect(computeCutoff(NOW, { years: 1, months: 6 })).toEqual(new Date('2024-12-15T12:00:00.000Z'));
+  });
+});
+
+describe('createRetentionRunner', () => {
+  it('should reject invalid rules before touching the table', () => {
+    const { prisma } = createMockPrisma();
+
+    expect(() => createRetentionRunner(prisma, { rules: [{ name: 'empty', keepFor: {} }] })).toThrow(
+      '[@prisma-audit] Retention rule "empty" must keep rows for a positive period',
+    );
+    expect(() =>
+      createRetentionRunner(prisma, {
+        rules: [
+          { name: 'a', keepFor: { days: 1 } },
+          { name: 'a', keepFor: { days: 2 } },
+        ],
+      }),
+    ).toThrow('[@prisma-audit] Duplicate retention rule name "a"');
+    expect(() =>
+      createRetentionRunner(prisma, { rules: [{ name: 't', tags: ['pii'], keepFor: { days: 1 } }] }),
+    ).toThrow('[@prisma-audit] Retention rule "t" selects by tags, which requires aggregateMapping');
+    expect(() => createRetentionRunner({}, { rules: [] })).toThrow(
+      '[@prisma-audit] Audit log model "AuditLog" not found on the Prisma client',
+    );
+  });
+
+  it('should keep rows matched by a longer rule', async () => {
+    // Arrange
+    const { prisma, count } = createMockPrisma();
+    const runner = createRetentionRunner(prisma, {
+      aggregateMapping: {
+        Invoice: defineEntity({ type: 'Invoice', tags: ['financial'] }),
+        PageView: defineEntity({
+          type: 'PageView',
+          aggregates: [to('User', foreignKey('userId'))],
+          tags: ['analytics'],
+        }),
+      },
+      rules: [
+        { name: 'financial', tags: ['financial'], keepFor: { years: 7 } },
+        { name: 'default', action: ['create', 'update'], actorCategory: 'model', keepFor: { days: 30 } },
+      ],
+      now: () => NOW,
+    });
+
+    // Act
+    const result = await runner.run({ dryRun: true });
+
+    // Assert
+    expect(result).toEqual({
+      dryRun: true,
+      rules: [
+        { rule: 'financial', cutoff: new Date('2019-06-15T12:00:00.000Z'), purged: 42, archived: 0, complete: true },
+        { rule: 'default', cutoff: new Date('2026-05-16T12:00:00.000Z'), purged: 42, archived: 0, complete: true },
+      ],
+    });
+    expect(count).toHaveBeenNthCalledWith(1, {
+      where: {
+        AND: [{ entityType: { in: ['Invoice'] } }, { createdAt: { lt: new Date('2019-06-15T12:00:00.000Z') } }],
+      },
+    });
+    expect(count).toHaveBeenNthCalledWith(2, {
+      where: {
+        AND: [
+          { action: { in: ['create', 'update'] } },
+          { actorCategory: 'model' },
+          { createdAt: { lt: new Date('2026-05-16T12:00:00.000Z') } },
+          {
+            NOT: {
+              AND: [{ entityType: { in: ['Invoice'] } }, { createdAt: { gte: new Date('2019-06-15T12:00:00.000Z') } }],
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it('should delete in bounded batches and record a purge event', async () => {
+    // Arrange
+    const { prisma, findMany, deleteMany, create } = createMockPrisma([rows('a', 'b'), rows('c')]);
+    const runner = createRetentionRunner(prisma, {
+      rules: [{ name: 'analytics', entityType: 'PageView', keepFor: { days: 30 } }],
+      batchSize: 2,
+      now: () => NOW,
+    });
+
+    // Act
+    const result = await runner.run();
+
+    // Assert
+    expect(result.rules).toEqual([
+      { rule: 'analytics', cutoff: new Date('2026-05-16T12:00:00.000Z'), purged: 3, archived: 0, complete: true },
+    ]);
+    expect(findMany).toHaveBeenCalledTimes(2);
+    expect(findMany.mock.calls[0]?.[0]).toMatchObject({ take: 2, select: { id: true } });
+    expect(deleteMany.mock.calls.map(([args]) => args.where.id.in)).toEqual([['a', 'b'], ['c']]);
+    expect(create).toHaveBeenCalledWith({
+      data: {
+        actorCategory: 'system',
+        actorType: 'RetentionRunner',
+        actorId: 'retention',
+        entityCategory: 'system',
+        entityType: 'AuditLog',
+        entityId: 'analytics',
+        entityContext: {
+          rule: 'analytics',
+          cutoff: '2026-05-16T12:00:00.000Z',
+          purged: 3,
+          archived: 0,
+          complete: true,
+          keepFor: { days: 30 },
+          selectors: { entityType: 'PageView' },
+        },
+        aggregateCategory: 'system',
+        aggregateType: 'AuditLog',
+        aggregateId: 'analytics',
+        action: 'purge',
+        createdAt: NOW,
+      },
+    });
+  });
+
+  it('should stop at maxBatches and report the rule as incomplete', async () => {
+    const { prisma, deleteMany } = createMockPrisma([rows('a', 'b'), rows('c', 'd'), rows('e')]);
+    const runner = createRetentionRunner(prisma, {
+      rules: [
+        { name: 'first', keepFor: { days: 30 } },
+        { name: 'second', keepFor: { days: 60 } },
+      ],
+      batchSize: 2,
+      maxBatches: 2,
+      actor: false,
+      now: () => NOW,
+    });
+
+    const result = await runner.run();
+
+    expect(result.rules.map(({ rule, purged, complete }) => ({ rule, purged, complete }))).toEqual([
+      { rule: 'first', purged: 4, complete: false },
+      { rule: 'second', purged: 0, complete: false },
+    ]);
+    expect(deleteMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should archive each batch before deleting it', async () => {
+    // Arrange
+    const { prisma, findMany, deleteMany } = createMockPrisma([rows('a')]);
+    const archiver = vi.fn(async () => {
+      expect(deleteMany).not.toHaveBeenCalled();
+    });
+    const runner = createRetentionRunner(prisma, {
+      rules: [{ name: 'reads', action: 'read', keepFor: { days: 90 } }],
+      archiver,
+      actor: false,
+      now: () => NOW,
+    });
+
+    // Act
+    const result = await runner.run();
+
+    // Assert
+    expect(archiver).toHaveBeenCalledWith(rows('a'), 'reads');
+    expect(findMany.mock.calls[0]?.[0]).not.toHaveProperty('select');
+    expect(result.rules[0]).toMatchObject({ purged: 1, archived: 1 });
+  });
+
+  it('should leave the batch in place when archiving fails', async () => {
+    const { prisma, deleteMany } = createMockPrisma([rows('a')]);
+    const runner = createRetentionRunner(prisma, {
+      rules: [{ name: 'reads', keepFor: { days: 90 } }],
+      archiver: vi.fn().mockRejectedValue(new Error('disk full')),
+      now: () => NOW,
+    });
+
+    await expect(runner.run()).rejects.toThrow('disk full');
+    expect(deleteMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('createRetentionRunner with integrity', () => {
+  const models = [
+    {
+      name: 'AuditLog',
+      fields: ['id', 'chainKey', 'chainSequence', 'hash', 'previousHash'].map((name) => ({ name })),
+    },
+  ];
+  const Prisma = { dmmf: { datamodel: { models } }, DbNull: null };
+
+  const createLog = (title: string, createdAt: Date): AuditLogData => ({
+    actorCategory: 'model',
+    actorType: 'User',
+    actorId: createActorId('user-1'),
+    actorContext: null,
+    entityCategory: 'model',
+    entityType: 'Post',
+    entityId: createEntityId('post-1'),
+    entityContext: null,
+    aggregateCategory: 'model',
+    aggregateType: 'User',
+    aggregateId: createAggregateId('user-1'),
+    aggregateContext: null,
+    action: 'update',
+    before: null,
+    after: { title },
+    changes: null,
+    requestContext: null,
+    createdAt,
+  });
+
+  /**
+   * In-memory audit log table answering the queries of the runner and the verifier
+   */
+  const createChainedTable = () => {
+    const stored: ChainedAuditLog[] = [];
+    const byChain = (a: ChainedAuditLog, b: ChainedAuditLog) =>
+      a.chainKey === b.chainKey ? a.chainSequence - b.chainSequence : a.chainKey < b.chainKey ? -1 : 1;
+    const findMany = vi.fn(async (args: { where: Record<string, unknown>; orderBy?: unknown }) => {
+      if (args.where.action === 'purge') {
+        return stored.filter((row) => row.action === 'purge');
+      }
+      if (Array.isArray(args.orderBy) && 'chainKey' in (args.orderBy[0] as object)) {
+        return [...stored].sort(byChain);
+      }
+      return stored.filter((row) => row.action !== 'purge' && row.createdAt < NOW_MINUS_YEAR);
+    });
+    const auditLog = {
+      create: vi.fn(async ({ data }: { data: ChainedAuditLog }) => {
+        stored.push({ ...data, id: `log-${stored.length + 1}` });
+      }),
+      findFirst: vi.fn(
+        async ({ where }: { where: { chainKey: string } }) =>
+          stored
+            .filter((row) => row.chainKey === where.chainKey)
+            .sort(byChain)
+            .at(-1) ?? null,
+      ),
+      findMany,
+      deleteMany: vi.fn(async ({ where }: { where: { id: { in: string[] } } }) => {
+        const purged = stored.filter((row) => where.id.in.includes(row.id as string));
+        for (const row of purged) {
+          stored.splice(stored.indexOf(row), 1);
+        }
+        return { count: purged.length };
+      }),
+      count: vi.fn(),
+    };
+    return { stored, findMany, client: { $transaction: vi.fn(), auditLog } };
+  };
+
+  const NOW_MINUS_YEAR = new Date('2025-06-15T12:00:00.000Z');
+
+  it('should link the purge event and anchor the purged rows so the chain still verifies', async () => {
+    // Arrange
+    const { stored, findMany, client } = createChainedTable();
+    const executor = createIntegrityWriteExecutor(createPrismaWriteExecutor(null), {}, models, 'auditLog');
+    for (const [title, createdAt] of [
+      ['v1', '2020-01-01T00:00:00Z'],
+      ['v2', '2020-01-02T00:00:00Z'],
+      ['v3', '2026-06-01T00:00:00Z'],
+    ] as const) {
+      await executor.write(client, 'auditLog', [createLog(title, new Date(createdAt))]);
+    }
+    const runner = createRetentionRunner(client, {
+      rules: [{ name: 'posts', entityType: 'Post', keepFor: { years: 1 } }],
+      integrity: { enabled: true },
+      Prisma,
+      now: () => NOW,
+    });
+
+    // Act
+    await runner.run();
+
+    // Assert
+    expect(findMany.mock.calls[0]?.[0]).toMatchObject({
+      where: { AND: [{ entityType: 'Post' }, { action: { not: 'purge' } }, { createdAt: { lt: NOW_MINUS_YEAR } }] },
+      select: { id: true, chainKey: true, chainSequence: true, hash: true, previousHash: true },
+    });
+    const purgeEvent = stored.find((row) => row.action === 'purge');
+    expect(purgeEvent).toMatchObject({ chainKey: 'AuditLog:posts', chainSequence: 1 });
+    expect((purgeEvent?.entityContext as { chainAnchors: unknown }).chainAnchors).toEqual([
+      expect.objectContaining({ chainKey: 'User:user-1', fromSequence: 1, toSequence: 2, previousHash: null }),
+    ]);
+    await expect(verifyAuditChain(client)).resolves.toEqual({ valid: true, checkedRows: 2 });
+  });
+
+  it('should require purge events', () => {
+    const { client } = createChainedTable();
+
+    expect(() =>
+      createRetentionRunner(client, {
+        rules: [{ name: 'posts', keepFor: { years: 1 } }],
+        integrity: { enabled: true },
+        actor: false,
+        Prisma,
+      }),
+    ).toThrow('[@prisma-audit] Retention with integrity requires purge events; do not set actor to false');
+  });
+});
+
+describe('archivers', () => {
+  it('should copy rows into the archive model, skipping duplicates', async () => {
+    const createMany = vi.fn().mockResolvedValue({ count: 1 });
+    const archiver = createModelArchiver({ auditLogArchive: { createMany } }, 'AuditLogArchive');
+
+    await archiver(rows('a'), 'reads');
+
+    expect(createMany).toHaveBeenCalledWith({ data: rows('a'), skipDuplicates: true });
+    expect(() => createModelArchiver({}, 'AuditLogArchive')).toThrow(
+      '[@prisma-audit] Archive model "AuditLogArchive" not found on the Prisma client',
+    );
+  });
+
+  it('should append rows as NDJSON per rule', async () => {
+    // Arrange
+    const directory = await mkdtemp(join(tmpdir(), 'prisma-audit-retention-'));
+    const archiver = createNdjsonArchiver((rule) => join(directory, 'nested', `${rule}.ndjson`));
+
+    try {
+      // Act
+      await archiver([{ id: 'a', amount: 10n, createdAt: new Date('2020-01-01T00:00:00Z') }], 'financial');
+      await archiver([{ id: 'b', amount: 20n, createdAt: new Date('2020-01-02T00:00:00Z') }], 'financial');
+
+      // Assert
+      const lines = (await readFile(join(directory, 'nested', 'financial.ndjson'), 'utf8')).trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        { id: 'a', amount: '10', createdAt: '2020-01-01T00:00:00.000Z' },
+        { id: 'b', amount: '20', createdAt: '2020-01-02T00:00:00.000Z' },
+      ]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
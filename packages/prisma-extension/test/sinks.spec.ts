@@ -0,0 +1,253 @@
+/**
+ * Tests for audit sinks
+ *
+ * Verifies the NDJSON file sink (append and rotation), the stdout sink, the webhook sink
+ * against a local HTTP server (batching, signing, retry), and fan-out failure isolation.
+ */
+
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { type AuditContext, safeStringify } from '@kuruwic/prisma-audit-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type AuditSink,
+  createFanOutWriter,
+  createNdjsonFileSink,
+  createStdoutSink,
+  createWebhookSink,
+  signWebhookPayload,
+} from '../src/sinks/index.js';
+import type { AuditLogData } from '../src/types.js';
+
+const context: AuditContext = {
+  actor: { category: 'model', type: 'User', id: 'user-1' },
+  request: { path: '/posts' },
+};
+
+const createLog = (id: string): AuditLogData =>
+  ({
+    actorCategory: 'model',
+    actorType: 'User',
+    actorId: 'user-1',
+    actorContext: null,
+    entityCategory: 'model',
+    entityType: 'Post',
+    entityId: id,
+    entityContext: null,
+    aggregateCategory: 'model',
+    aggregateType: 'Post',
+    aggregateId: id,
+    aggregateContext: null,
+    action: 'update',
+    before: { views: 1n },
+    after: { views: 2n },
+    changes: null,
+    requestContext: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  }) as unknown as AuditLogData;
+
+describe('createNdjsonFileSink', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'audit-sink-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per log, creating parent directories', async () => {
+    // Arrange
+    const filePath = join(dir, 'nested', 'audit.ndjson');
+    const sink = createNdjsonFileSink({ filePath });
+
+    // Act
+    await sink.write([createLog('post-1'), createLog('post-2')], context);
+    await sink.write([createLog('post-3')], context);
+
+    // Assert
+    const lines = (await readFile(filePath, 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).entityId)).toEqual(['post-1', 'post-2', 'post-3']);
+    expect(JSON.parse(lines[0] as string)).toMatchObject({
+      after: { views: '2' },
+      createdAt: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should rotate by size and keep at most maxFiles rotated files', async () => {
+    // Arrange
+    const filePath = join(dir, 'audit.ndjson');
+    const lineBytes = Buffer.byteLength(`${safeStringify(createLog('post-1'))}\n`);
+    const sink = createNdjsonFileSink({ filePath, maxBytes: lineBytes * 2, maxFiles: 2 });
+
+    // Act
+    await Promise.all(['1', '2', '3', '4', '5', '6', '7'].map((id) => sink.write([createLog(`post-${id}`)], context)));
+    await sink.close?.();
+
+    // Assert
+    const read = async (name: string) =>
+      (await readFile(join(dir, name), 'utf8'))
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).entityId);
+    expect((await readdir(dir)).sort()).toEqual(['audit.ndjson', 'audit.ndjson.1', 'audit.ndjson.2']);
+    expect(await read('audit.ndjson')).toEqual(['post-7']);
+    expect(await read('audit.ndjson.1')).toEqual(['post-5', 'post-6']);
+    expect(await read('audit.ndjson.2')).toEqual(['post-3', 'post-4']);
+  });
+});
+
+describe('createStdoutSink', () => {
+  it('should print one structured line per log', async () => {
+    // Arrange
+    const stream = { write: vi.fn() };
+    const sink = createStdoutSink({ stream, fields: { service: 'blog' } });
+
+    // Act
+    await sink.write([createLog('post-1'), createLog('post-2')], context);
+
+    // Assert
+    const lines = (stream.write.mock.calls[0]?.[0] as string).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0] as string)).toMatchObject({
+      timestamp: '2026-01-01T00:00:00.000Z',
+      level: 'info',
+      type: 'audit_log',
+      message: 'update Post post-1 by User user-1',
+      service: 'blog',
+      entityId: 'post-1',
+    });
+  });
+});
+
+describe('createWebhookSink', () => {
+  interface ReceivedRequest {
+    headers: IncomingMessage['headers'];
+    body: string;
+  }
+
+  let server: Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let statuses: number[];
+
+  beforeEach(async () => {
+    received = [];
+    statuses = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (data: Buffer) => {
+        body += data.toString('utf8');
+      });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statuses.shift() ?? 204;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/audit`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should post signed batches of at most batchSize logs', async () => {
+    // Arrange
+    const sink = createWebhookSink({ url, secret: 'shh', batchSize: 2, headers: { authorization: 'Bearer t' } });
+
+    // Act
+    await sink.write([createLog('post-1'), createLog('post-2'), createLog('post-3')], context);
+
+    // Assert
+    expect(received.map(({ body }) => JSON.parse(body).logs.length)).toEqual([2, 1]);
+    const [first] = received as [ReceivedRequest];
+    expect(JSON.parse(first.body).context).toEqual({ actor: context.actor, request: context.request });
+    expect(first.headers.authorization).toBe('Bearer t');
+    expect(first.headers['x-audit-signature']).toBe(
+      signWebhookPayload('shh', first.headers['x-audit-timestamp'] as string, first.body),
+    );
+  });
+
+  it('should retry server errors with the same delivery id', async () => {
+    // Arrange
+    statuses.push(503, 500);
+    const sink = createWebhookSink({ url, retry: { maxAttempts: 3, baseDelayMs: 1 } });
+
+    // Act
+    await sink.write([createLog('post-1')], context);
+
+    // Assert
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map(({ headers }) => headers['x-audit-delivery'])).size).toBe(1);
+  });
+
+  it('should not retry client errors', async () => {
+    // Arrange
+    statuses.push(400);
+    const sink = createWebhookSink({ url, retry: { maxAttempts: 3, baseDelayMs: 1 } });
+
+    // Act & Assert
+    await expect(sink.write([createLog('post-1')], context)).rejects.toThrow('responded with 400');
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('createFanOutWriter', () => {
+  const createSink = (name: string, write: AuditSink['write']): AuditSink => ({ name, write: vi.fn(write) });
+
+  it('should write to the database and every sink', async () => {
+    // Arrange
+    const sinks = [createSink('a', async () => {}), createSink('b', async () => {})];
+    const defaultWrite = vi.fn().mockResolvedValue(undefined);
+    const logs = [createLog('post-1')];
+
+    // Act
+    await createFanOutWriter({ sinks })(logs, context, defaultWrite);
+
+    // Assert
+    expect(defaultWrite).toHaveBeenCalledWith(logs);
+    for (const sink of sinks) {
+      expect(sink.write).toHaveBeenCalledWith(logs, context);
+    }
+  });
+
+  it('should isolate a failing sink from the database and the other sinks', async () => {
+    // Arrange
+    const failing = createSink('failing', async () => {
+      throw new Error('disk full');
+    });
+    const healthy = createSink('healthy', async () => {});
+    const onSinkError = vi.fn();
+    const defaultWrite = vi.fn().mockResolvedValue(undefined);
+
+    // Act
+    await createFanOutWriter({ sinks: [failing, healthy], onSinkError })([createLog('post-1')], context, defaultWrite);
+
+    // Assert
+    expect(onSinkError).toHaveBeenCalledWith(expect.objectContaining({ message: 'disk full' }), failing, [
+      expect.objectContaining({ entityId: 'post-1' }),
+    ]);
+    expect(healthy.write).toHaveBeenCalledTimes(1);
+    expect(defaultWrite).toHaveBeenCalledTimes(1);
+  });
+
+  it('should propagate database errors after the sinks settle, and skip the database when disabled', async () => {
+    // Arrange
+    const sink = createSink('a', async () => {});
+    const defaultWrite = vi.fn().mockRejectedValue(new Error('db down'));
+
+    // Act & Assert
+    await expect(createFanOutWriter({ sinks: [sink] })([createLog('post-1')], context, defaultWrite)).rejects.toThrow(
+      'db down',
+    );
+    expect(sink.write).toHaveBeenCalledTimes(1);
+    await createFanOutWriter({ sinks: [sink], database: false })([createLog('post-1')], context, defaultWrite);
+    expect(defaultWrite).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Transaction Proxy Tests
+ *
+ * Verifies that array-form `$transaction([...])` batches are replayed inside an interactive
+ * transaction so their audit logs share the transaction, with the interactive options forwarded.
+ */
+
+import type { AuditContext } from '@kuruwic/prisma-audit-core';
+import { createAsyncLocalStorageProvider } from '@kuruwic/prisma-audit-core';
+import { describe, expect, it, vi } from 'vitest';
+import { createTransactionProxy, toInteractiveTransactionOptions } from '../src/lifecycle/transaction-proxy.js';
+
+const actor = { category: 'model', type: 'User', id: 'user-1' };
+
+/**
+ * Lazy thenable, like a Prisma promise: nothing runs until it is awaited
+ */
+const lazy = <T>(run: () => T): PromiseLike<T> => ({
+  // biome-ignore lint/suspicious/noThenProperty: mimics a Prisma promise
+  then: (onFulfilled, onRejected) => Promise.resolve().then(run).then(onFulfilled, onRejected),
+});
+
+/**
+ * Fake client whose model methods return lazy promises and record the context they run in
+ */
+const createFakeClient = (provider: ReturnType<typeof createAsyncLocalStorageProvider>) => {
+  const seen: { call: string; context: AuditContext | undefined }[] = [];
+  const createDelegate = (client: string) => ({
+    create: vi.fn((args: { data: Record<string, unknown> }) =>
+      lazy(() => {
+        seen.push({ call: `${client}.create`, context: provider.getContext() });
+        return args.data;
+      }),
+    ),
+  });
+  const txClient = { user: createDelegate('tx'), $executeRaw: vi.fn(async () => 1) };
+  const client = {
+    user: createDelegate('base'),
+    $executeRaw: vi.fn(async () => 1),
+    $transaction: vi.fn(async (arg: unknown, _options?: unknown) =>
+      typeof arg === 'function' ? (arg as (tx: unknown) => Promise<unknown>)(txClient) : Promise.all(arg as unknown[]),
+    ),
+  };
+  return { client, txClient, seen };
+};
+
+describe('createTransactionProxy', () => {
+  it('should replay an array transaction inside an interactive transaction', async () => {
+    // Arrange
+    const provider = createAsyncLocalStorageProvider();
+    const { client, txClient, seen } = createFakeClient(provider);
+    const prisma = createTransactionProxy(client, provider);
+
+    // Act
+    const results = await provider.runAsync({ actor }, () =>
+      prisma.$transaction(
+        [prisma.user.create({ data: { id: 'a' } }), prisma.user.create({ data: { id: 'b' } }), prisma.$executeRaw()],
+        { isolationLevel: 'Serializable' },
+      ),
+    );
+
+    // Assert
+    expect(results).toEqual([{ id: 'a' }, { id: 'b' }, 1]);
+    expect(client.$transaction).toHaveBeenCalledWith(expect.any(Function), { isolationLevel: 'Serializable' });
+    expect(txClient.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(seen.map(({ call }) => call)).toEqual(['tx.create', 'tx.create']);
+
+    const [first, second] = seen.map(({ context }) => context);
+    expect(first?.transactionalClient).toBe(txClient);
+    expect(first?._transactionId).toEqual(expect.any(String));
+    expect(second?._transactionId).toBe(first?._transactionId);
+  });
+
+  it('should pass through arrays containing promises it did not create', async () => {
+    // Arrange
+    const provider = createAsyncLocalStorageProvider();
+    const { client } = createFakeClient(provider);
+    const prisma = createTransactionProxy(client, provider);
+    const foreign = Promise.resolve('foreign');
+
+    // Act
+    const results = await provider.runAsync({ actor }, () =>
+      prisma.$transaction([prisma.user.create({ data: { id: 'a' } }), foreign]),
+    );
+
+    // Assert
+    expect(results).toEqual([{ id: 'a' }, 'foreign']);
+    expect(client.$transaction).toHaveBeenCalledWith([expect.anything(), foreign]);
+  });
+
+  it('should forward the timeout of a replayed array transaction', async () => {
+    // Arrange
+    const provider = createAsyncLocalStorageProvider();
+    const { client } = createFakeClient(provider);
+    const prisma = createTransactionProxy(client, provider);
+
+    // Act
+    await provider.runAsync({ actor }, () =>
+      prisma.$transaction([prisma.user.create({ data: { id: 'a' } })], { timeout: 20000, maxWait: 3000 }),
+    );
+
+    // Assert
+    expect(client.$transaction).toHaveBeenCalledWith(expect.any(Function), { timeout: 20000, maxWait: 3000 });
+  });
+});
+
+describe('toInteractiveTransactionOptions', () => {
+  it('should keep only the options of interactive transactions', () => {
+    expect(toInteractiveTransactionOptions({ isolationLevel: 'Serializable', timeout: 10000, unknown: true })).toEqual({
+      isolationLevel: 'Serializable',
+      timeout: 10000,
+    });
+    expect(toInteractiveTransactionOptions({ unknown: true })).toBeUndefined();
+    expect(toInteractiveTransactionOptions(undefined)).toBeUndefined();
+  });
+});